@@ -1,9 +1,37 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import * as THREE from 'three';
-import { Vector2D, Wall, WallMaterial, Radio, Device, Measurement, Intersection, DragObject } from './types';
-import { WALL_MATERIALS, CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from './constants';
-import Sidebar, { SidebarSection, ControlGroup } from './components/Sidebar';
-import Slider from './components/Slider';
+import { Vector2D, Rect, Wall, WallMaterial, Radio, ChannelModel, Floor, BuildingModel, TrackedDevice, DragObject, RSSIModelParams, ReceiverModel, SolverId, RobustMethodId, TrackingFilterId, MountingZone, CoordinateFrame, CalibrationMode, GridMap, CoverageMode, ReferencePoint } from './types';
+import { WALL_MATERIALS, CANVAS_WIDTH, CANVAS_HEIGHT, GDOP_SCALE_MAX } from './constants';
+import { clamp, distance, computeMeasurements, SOLVERS, simulateTrack, sampleAtTime, parseMotionPath, createSeededRandom, summarizeGrid, ErrorMap, MIN_RADIOS_FOR_FIX, PlacementObjective, PlacementProgress, PlacementCandidate, serializeScenario, parseScenario, ScenarioValidationError, DEFAULT_FRAME, toWorld, fromWorld, worldBounds, scaleFromReference, containRect, snapPoint, SnapOptions, splitWall, joinWalls, translateWall, History, createHistory, recordHistory, undoHistory, redoHistory, parseRSSILog, RSSILog, autoMapBeacons, BeaconMapping, LogReplaySample, summarizeReplay, calculateRSSI, estimatePosition, DEFAULT_CHANNEL_MODEL, headingAlongPath, DEFAULT_BUILDING_MODEL, floorOf, slantDistance, fitPathLossModel, PathLossFit, parseReferenceReadings, performTrilateration, radioMapFromSurvey, matchFingerprint, RadioMap, FingerprintMethod, dilutionOfPrecision, positionCovariance, evenRadioLayout, ExperimentProgress, SweepParameter, Sweep, SWEEP_PARAMETERS, parseSweepValues, experimentToCSV, experimentToJSON, DEFAULT_WALL_DETECTION_OPTIONS, WallDetectionOptions, refineDetectedSegments, DetectedWall, Segment, BinaryImage, parseVectorPlan, suggestLayerAssignment, planToMeters, planFrame, placeVectorPlan, sceneToGeoJSON, measurementsToCSV, sceneToSVG, ViewState, defaultView, screenToScene, zoomViewAt, panView, visibleArea, fitViewToArea, boundsOfPoints, padRect, gridStepFor, limitCellSize, createDevice, locateDevices, summarizeDeviceFixes, DeviceFix } from './engine';
+import { createGridTexture, errorColorScale, rssiColorScale, radioCountColorScale } from './rendering/gridTexture';
+import { runInWorker, WorkerJob } from './workers/simulationClient';
+import { useScene } from './hooks/useScene';
+import { useGridLayer, useRadioLayer, useDeviceLayer, useWallLayer, useTempShapesLayer, useRangeLayer, useEstimateLayer, useTrackLayer, useGridMapLayer, usePlacementLayer, useCalibrationLayer, useReferenceLayer, useFingerprintLayer, useFloorPlanLayer, useDetectionLayer, useBackgroundLayer, useBuildingLayer } from './hooks/useSceneLayers';
+import Sidebar from './components/Sidebar';
+import ScenarioSection from './components/sections/ScenarioSection';
+import ExportSection from './components/sections/ExportSection';
+import SimulationSetupSection from './components/sections/SimulationSetupSection';
+import ViewSection from './components/sections/ViewSection';
+import FloorsSection from './components/sections/FloorsSection';
+import RadioInspectorSection from './components/sections/RadioInspectorSection';
+import TruePropagationModelSection from './components/sections/TruePropagationModelSection';
+import AssumedModelSection from './components/sections/AssumedModelSection';
+import PositionSolverSection from './components/sections/PositionSolverSection';
+import EnvironmentalEffectsSection from './components/sections/EnvironmentalEffectsSection';
+import PathLossCalibrationSection from './components/sections/PathLossCalibrationSection';
+import FingerprintingSection from './components/sections/FingerprintingSection';
+import WallEditorSection from './components/sections/WallEditorSection';
+import MotionPathSection from './components/sections/MotionPathSection';
+import LogReplaySection from './components/sections/LogReplaySection';
+import ErrorHeatmapSection from './components/sections/ErrorHeatmapSection';
+import CoverageSection from './components/sections/CoverageSection';
+import PlacementOptimizerSection from './components/sections/PlacementOptimizerSection';
+import ExperimentsSection from './components/sections/ExperimentsSection';
+import CalibrationSection from './components/sections/CalibrationSection';
+import FloorPlanSection, { DetectionEdits, VectorImport } from './components/sections/FloorPlanSection';
+import LiveDataSection from './components/sections/LiveDataSection';
+import DevicesSection from './components/sections/DevicesSection';
+import DevicePositionSection from './components/sections/DevicePositionSection';
 
 // Declare cv (OpenCV) on window object - loaded from CDN
 declare global {
@@ -14,41 +42,105 @@ declare global {
 
 // --- UTILITY FUNCTIONS ---
 const generateId = () => '_' + Math.random().toString(36).substr(2, 9);
-const clamp = (num: number, min: number, max: number) => Math.min(Math.max(num, min), max);
-const distance = (p1: Vector2D, p2: Vector2D) => Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
 
-const getMousePos = (e: React.MouseEvent<HTMLCanvasElement> | MouseEvent): Vector2D => {
+const AUTOSAVE_KEY = 'bluetooth-trilateration-simulator.autosave';
+const AUTOSAVE_DELAY_MS = 1000;
+// Stable empty inputs for scene layers, so they only rebuild on real changes
+const NO_DETECTED_WALLS: DetectedWall[] = [];
+const NO_SEGMENTS: Segment[] = [];
+const NO_WALLS: Wall[] = [];
+// Largest grids swept over a large site; coarser cells are used beyond these
+const MAX_COVERAGE_CELLS = 40000;
+const MAX_HEATMAP_CELLS = 10000;
+const MAX_PLACEMENT_CELLS = 400;
+const MAX_RADIO_MAP_POINTS = 10000;
+// Zoom change per wheel notch (deltaY of 100)
+const WHEEL_ZOOM_STEP = 1.2;
+
+/** Scene objects covered by undo/redo. */
+interface SceneSnapshot {
+    radios: Radio[];
+    walls: Wall[];
+    devices: TrackedDevice[];
+    mountingZones: MountingZone[];
+}
+
+const downloadText = (text: string, filename: string, type: string) => {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+const downloadURL = (url: string, filename: string) => {
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+};
+
+// Pointer position in canvas pixels, whatever size the canvas is displayed at
+const getCanvasPos = (e: React.MouseEvent<HTMLCanvasElement> | MouseEvent): Vector2D => {
     const canvas = e.currentTarget as HTMLCanvasElement;
     const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
+    const scaleX = CANVAS_WIDTH / rect.width;
+    const scaleY = CANVAS_HEIGHT / rect.height;
     return {
         x: (e.clientX - rect.left) * scaleX,
         y: (e.clientY - rect.top) * scaleY
     };
 };
 
+// Scene position under the pointer, through the current zoom and pan
+const getMousePos = (e: React.MouseEvent<HTMLCanvasElement> | MouseEvent, view: ViewState): Vector2D =>
+    screenToScene(getCanvasPos(e), view, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+/**
+ * Image stage of wall detection. The plan is drawn as it is placed on the
+ * canvas so that segments come out in canvas pixels; returns the Hough
+ * segments and the ink mask used to measure wall thickness.
+ */
+const extractWallSegments = (image: HTMLImageElement, options: WallDetectionOptions): { segments: Segment[]; mask: BinaryImage } | null => {
+    const { cv } = window;
+    const tempCanvas = document.createElement('canvas');
+    tempCanvas.width = CANVAS_WIDTH;
+    tempCanvas.height = CANVAS_HEIGHT;
+    const ctx = tempCanvas.getContext('2d');
+    if (!ctx) return null;
+    const rect = containRect(image.width, image.height, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height);
+
+    const src = cv.imread(tempCanvas);
+    const gray = new cv.Mat();
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
+    const mask: BinaryImage = { width: gray.cols, height: gray.rows, data: Uint8Array.from(gray.data as Uint8Array, v => v < options.inkThreshold ? 1 : 0) };
+    cv.GaussianBlur(gray, gray, new cv.Size(5, 5), 0, 0, cv.BORDER_DEFAULT);
+    const edges = new cv.Mat();
+    cv.Canny(gray, edges, options.cannyLow, options.cannyHigh, 3, false);
+    const lines = new cv.Mat();
+    cv.HoughLinesP(edges, lines, 1, Math.PI / 180, options.houghThreshold, options.minLineLength, options.maxLineGap);
+
+    const segments: Segment[] = [];
+    for (let i = 0; i < lines.rows; ++i) {
+        segments.push({
+            start: { x: lines.data32S[i * 4], y: lines.data32S[i * 4 + 1] },
+            end: { x: lines.data32S[i * 4 + 2], y: lines.data32S[i * 4 + 3] },
+        });
+    }
+    src.delete(); gray.delete(); edges.delete(); lines.delete();
+    return { segments, mask };
+};
+
 
 const App: React.FC = () => {
     // --- STATE ---
     const canvasRef = useRef<HTMLCanvasElement>(null);
 
-    interface ThreeRefs {
-        scene?: THREE.Scene;
-        camera?: THREE.OrthographicCamera;
-        renderer?: THREE.WebGLRenderer;
-        gridGroup?: THREE.Group;
-        wallsGroup?: THREE.Group;
-        radiosGroup?: THREE.Group;
-        deviceGroup?: THREE.Group;
-        circlesGroup?: THREE.Group;
-        estimatedGroup?: THREE.Group;
-        floorPlanGroup?: THREE.Group;
-        tempWallGroup?: THREE.Group;
-        interactiveObjects?: THREE.Object3D[];
-    }
-
-    const threeRef = useRef<ThreeRefs>({});
     const [opencvReady, setOpencvReady] = useState(false);
     
     // Simulation parameters
@@ -58,41 +150,192 @@ const App: React.FC = () => {
     const [minRSSI, setMinRSSI] = useState(-100);
     const [enableNoise, setEnableNoise] = useState(false);
     const [noiseStdDev, setNoiseStdDev] = useState(5);
+    const [channelModel, setChannelModel] = useState<ChannelModel>(DEFAULT_CHANNEL_MODEL);
     const [enableWalls, setEnableWalls] = useState(true);
     const [enableAngleEffect, setEnableAngleEffect] = useState(true);
     const [enableCumulativeEffect, setEnableCumulativeEffect] = useState(true);
 
+    // Position solvers
+    const [solverId, setSolverId] = useState<SolverId>('gaussNewton');
+    const [compareSolverIds, setCompareSolverIds] = useState<SolverId[]>([]);
+    const [maxIterations, setMaxIterations] = useState(50);
+    const [convergenceThreshold, setConvergenceThreshold] = useState(0.1);
+    const [robustMethod, setRobustMethod] = useState<RobustMethodId>('none');
+    const [inlierThreshold, setInlierThreshold] = useState(2);
+
     // Scene objects
     const [radios, setRadios] = useState<Radio[]>([]);
     const [walls, setWalls] = useState<Wall[]>([]);
-    const [device, setDevice] = useState<Device>({ x: CANVAS_WIDTH / 2 + 50, y: CANVAS_HEIGHT / 2 + 50, radius: 10 });
-    const [estimatedPosition, setEstimatedPosition] = useState<Vector2D | null>(null);
-    const [measurements, setMeasurements] = useState<Measurement[]>([]);
+    const [devices, setDevices] = useState<TrackedDevice[]>(() => [createDevice({ x: CANVAS_WIDTH / 2 + 50, y: CANVAS_HEIGHT / 2 + 50 }, [], 'device-1')]);
+    const [selectedDeviceId, setSelectedDeviceId] = useState('device-1');
+    // The selected device is the one the device controls, playback and sweeps work with
+    const device = devices.find(d => d.id === selectedDeviceId) ?? devices[0];
+    const setDevice = useCallback((update: (d: TrackedDevice) => TrackedDevice) => {
+        setDevices(ds => ds.map(d => d.id === device.id ? update(d) : d));
+    }, [device.id]);
+    // Advances whenever the live readings should be resampled
+    const [measurementTick, setMeasurementTick] = useState(0);
 
     // Interaction state
     const draggingRef = useRef<DragObject | null>(null);
     const [drawWallMode, setDrawWallMode] = useState(false);
-    const tempWallStartRef = useRef<Vector2D | null>(null);
+    const tempWallStartRef = useRef<{ start: Vector2D; end: Vector2D } | null>(null);
+
+    // Wall editing
+    const [selectedWallIds, setSelectedWallIds] = useState<string[]>([]);
+    const [selectedRadioId, setSelectedRadioId] = useState<string | null>(null);
+    const [newWallMaterial, setNewWallMaterial] = useState<WallMaterial>('drywall');
+    const [snapToEndpoints, setSnapToEndpoints] = useState(true);
+    const [snapToGrid, setSnapToGrid] = useState(false);
+    const [snapGridSize, setSnapGridSize] = useState(0.5);
+    const [snapToAngle, setSnapToAngle] = useState(true);
+    const [wallEditError, setWallEditError] = useState<string | null>(null);
+
+    // Motion path & tracking
+    const [motionPath, setMotionPath] = useState<Vector2D[]>([]);
+    const [drawPathMode, setDrawPathMode] = useState(false);
+    const [walkingSpeed, setWalkingSpeed] = useState(1.4);
+    const [advertisingInterval, setAdvertisingInterval] = useState(200);
+    const [trackingFilterId, setTrackingFilterId] = useState<TrackingFilterId>('kalman');
+    const [rssiWindowSize, setRssiWindowSize] = useState(5);
+    const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [pathImportError, setPathImportError] = useState<string | null>(null);
+
+    // Path-loss calibration; a null receiver model means the receiver knows the generator's parameters
+    const [receiverModel, setReceiverModel] = useState<ReceiverModel | null>(null);
+    const [assumeWallsKnown, setAssumeWallsKnown] = useState(false);
+    const [referencePoints, setReferencePoints] = useState<ReferencePoint[]>([]);
+    const [placeReferenceMode, setPlaceReferenceMode] = useState(false);
+    const [fitMaterials, setFitMaterials] = useState(true);
+    const [pathLossFit, setPathLossFit] = useState<PathLossFit | null>(null);
+    const [pathLossFitError, setPathLossFitError] = useState<string | null>(null);
+
+    // Fingerprinting state
+    const [radioMap, setRadioMap] = useState<RadioMap | null>(null);
+    const [radioMapSpacing, setRadioMapSpacing] = useState(1);
+    const [radioMapSamples, setRadioMapSamples] = useState(5);
+    const [fingerprintMethod, setFingerprintMethod] = useState<FingerprintMethod>('wknn');
+    const [fingerprintK, setFingerprintK] = useState(4);
+    const [showRadioMap, setShowRadioMap] = useState(true);
+    const [radioMapError, setRadioMapError] = useState<string | null>(null);
+    const [radioMapComputing, setRadioMapComputing] = useState(false);
+
+    // Uncertainty state
+    const [showUncertainty, setShowUncertainty] = useState(true);
+
+    // Recorded RSSI log replay
+    const [rssiLog, setRssiLog] = useState<RSSILog | null>(null);
+    const [beaconMapping, setBeaconMapping] = useState<BeaconMapping>({});
+    const [logWindow, setLogWindow] = useState(1);
+    const [logTime, setLogTime] = useState<number | null>(null);
+    const [isLogPlaying, setIsLogPlaying] = useState(false);
+    const [logImportError, setLogImportError] = useState<string | null>(null);
+    const [logSamples, setLogSamples] = useState<LogReplaySample[]>([]);
+    const [logReplayError, setLogReplayError] = useState<string | null>(null);
+
+    // Error heatmap
+    const [heatmapCellSize, setHeatmapCellSize] = useState(1);
+    const [heatmapTrials, setHeatmapTrials] = useState(20);
+    const [heatmapMetric, setHeatmapMetric] = useState<'mean' | 'p95'>('mean');
+    const [heatmapScaleMax, setHeatmapScaleMax] = useState(5);
+    const [showHeatmap, setShowHeatmap] = useState(true);
+    const [errorMap, setErrorMap] = useState<ErrorMap | null>(null);
+    const [heatmapComputing, setHeatmapComputing] = useState(false);
+    const [heatmapStale, setHeatmapStale] = useState(false);
+    const [heatmapError, setHeatmapError] = useState<string | null>(null);
+    const heatmapJobRef = useRef<WorkerJob<ErrorMap> | null>(null);
+
+    // Coverage overlay
+    const [coverageMode, setCoverageMode] = useState<CoverageMode>('off');
+    const [coverageRadioId, setCoverageRadioId] = useState<string | null>(null);
+    const [coverageError, setCoverageError] = useState<string | null>(null);
+
+    // Placement optimizer
+    const [mountingZones, setMountingZones] = useState<MountingZone[]>([]);
+    const [drawZoneMode, setDrawZoneMode] = useState(false);
+    const tempZoneRef = useRef<{ start: Vector2D; end: Vector2D } | null>(null);
+    const [optimizerBudget, setOptimizerBudget] = useState(4);
+    const [optimizerObjective, setOptimizerObjective] = useState<PlacementObjective>('meanError');
+    const [optimizerIterations, setOptimizerIterations] = useState(1200);
+    const [optimizerProgress, setOptimizerProgress] = useState<PlacementProgress | null>(null);
+    const [optimizerRunning, setOptimizerRunning] = useState(false);
+    const [previewCandidate, setPreviewCandidate] = useState<PlacementCandidate | null>(null);
+    const [optimizerError, setOptimizerError] = useState<string | null>(null);
+    const optimizerJobRef = useRef<WorkerJob<PlacementProgress> | null>(null);
+
+    // Experiment runner state
+    const [sweepEnabled, setSweepEnabled] = useState<Record<SweepParameter, boolean>>({ pathLossExponent: false, noiseStdDev: true, radioCount: false, walls: false, solver: false });
+    const [sweepText, setSweepText] = useState({ pathLossExponent: '2, 2.7, 3.5', noiseStdDev: '0, 3, 6', radioCount: '3, 4, 6' });
+    const [sweepSolverIds, setSweepSolverIds] = useState<SolverId[]>(['gaussNewton', 'levenbergMarquardt']);
+    const [testPoints, setTestPoints] = useState<Vector2D[]>([]);
+    const [placeTestPointMode, setPlaceTestPointMode] = useState(false);
+    const [experimentRandomPoints, setExperimentRandomPoints] = useState(50);
+    const [experimentTrials, setExperimentTrials] = useState(10);
+    const [experimentSweeps, setExperimentSweeps] = useState<Sweep[]>([]);
+    const [experimentProgress, setExperimentProgress] = useState<ExperimentProgress | null>(null);
+    const [experimentRunning, setExperimentRunning] = useState(false);
+    const [experimentError, setExperimentError] = useState<string | null>(null);
+    const experimentJobRef = useRef<WorkerJob<ExperimentProgress> | null>(null);
 
     // Floor plan
     const floorPlanRef = useRef<{
         image: HTMLImageElement | null;
         texture: THREE.Texture | null;
         mesh: THREE.Mesh | null;
-        opacity: number;
-        show: boolean
     }>({
         image: null,
         texture: null,
         mesh: null,
-        opacity: 0.5,
-        show: false
     });
+    // Bumped when the image in floorPlanRef changes, so the plan layer and wall detection see the new one
+    const [floorPlanVersion, setFloorPlanVersion] = useState(0);
     const [floorPlanOpacity, setFloorPlanOpacity] = useState(0.5);
     const [showFloorPlan, setShowFloorPlan] = useState(false);
+    const [floorPlanUrl, setFloorPlanUrl] = useState('');
 
-    // Wall detection
-    const [wallDetectionMaterial, setWallDetectionMaterial] = useState<WallMaterial>('drywall');
+    // Floors: each has its own walls and floor plan; radios and the device sit on one
+    const [floors, setFloors] = useState<Floor[]>([{ id: 'floor-0', name: 'Ground Floor', image: null }]);
+    const [activeFloor, setActiveFloor] = useState(0);
+    const [floorAttenuation, setFloorAttenuation] = useState(DEFAULT_BUILDING_MODEL.floorAttenuation);
+    const [storeyHeight, setStoreyHeight] = useState(DEFAULT_BUILDING_MODEL.storeyHeight);
+    const [view3D, setView3D] = useState(false);
+
+    // 2D view: zoom and pan over the scene; radios and the device keep a readable size when zoomed out
+    const [view, setView] = useState<ViewState>(() => defaultView(CANVAS_WIDTH, CANVAS_HEIGHT));
+    const panRef = useRef<Vector2D | null>(null);
+    const markerScale = Math.max(1, 1 / view.zoom);
+
+    // Calibration: maps canvas pixels to real-world meters
+    const [frame, setFrame] = useState<CoordinateFrame>(DEFAULT_FRAME);
+    const [calibrationMode, setCalibrationMode] = useState<CalibrationMode>('off');
+    const [calibrationPoints, setCalibrationPoints] = useState<Vector2D[]>([]);
+    const [calibrationDistance, setCalibrationDistance] = useState(5);
+    const [calibrationError, setCalibrationError] = useState<string | null>(null);
+    const pixelsPerMeter = frame.pixelsPerMeter;
+
+    // Scenario files
+    const [scenarioErrors, setScenarioErrors] = useState<string[]>([]);
+    const [autosaveStatus, setAutosaveStatus] = useState<string | null>(null);
+
+    // Wall detection: walls found in the floor plan are previewed and reviewed before they replace the floor's walls
+    const [wallDetectionOptions, setWallDetectionOptions] = useState<WallDetectionOptions>(DEFAULT_WALL_DETECTION_OPTIONS);
+    const [reviewingDetection, setReviewingDetection] = useState(false);
+    const [wallDetection, setWallDetection] = useState<{ segments: Segment[]; mask: BinaryImage } | null>(null);
+    // Per detected wall: left out, or given another material than suggested
+    const [detectionEdits, setDetectionEdits] = useState<DetectionEdits>({ excluded: [], materials: {} });
+    const [highlightedDetection, setHighlightedDetection] = useState<number | null>(null);
+
+    // Vector import: a parsed SVG/DXF/GeoJSON plan waits here while its units and layers are reviewed
+    const [vectorImport, setVectorImport] = useState<VectorImport | null>(null);
+    const [vectorImportError, setVectorImportError] = useState<string | null>(null);
+
+    // Undo/redo
+    const [history, setHistory] = useState<History<SceneSnapshot>>(createHistory);
+    const sceneRef = useRef<SceneSnapshot>({ radios, walls, devices, mountingZones });
+    sceneRef.current = { radios, walls, devices, mountingZones };
+    const dragStartSceneRef = useRef<SceneSnapshot | null>(null);
+    const lastEditKeyRef = useRef<string | null>(null);
 
 
     // --- OPENCV LOADING ---
@@ -116,89 +359,48 @@ const App: React.FC = () => {
     }, []);
 
     // --- INITIALIZATION ---
-    const initializeScene = useCallback(() => {
-        const { current: canvas } = canvasRef;
-        if (!canvas) return;
-        
-        const scene = new THREE.Scene();
-        scene.background = new THREE.Color(0x1a202c); // gray-900
-
-        const camera = new THREE.OrthographicCamera(-CANVAS_WIDTH / 2, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, -CANVAS_HEIGHT / 2, 0.1, 1000);
-        camera.position.z = 10;
-        
-        const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: false });
-        renderer.setSize(CANVAS_WIDTH, CANVAS_HEIGHT);
-        renderer.setPixelRatio(window.devicePixelRatio);
-
-        threeRef.current = {
-            scene, camera, renderer,
-            gridGroup: new THREE.Group(),
-            wallsGroup: new THREE.Group(),
-            radiosGroup: new THREE.Group(),
-            deviceGroup: new THREE.Group(),
-            circlesGroup: new THREE.Group(),
-            estimatedGroup: new THREE.Group(),
-            floorPlanGroup: new THREE.Group(),
-            tempWallGroup: new THREE.Group(),
-            interactiveObjects: [],
-        };
-
-        scene.add(threeRef.current.gridGroup, threeRef.current.wallsGroup, threeRef.current.radiosGroup,
-                  threeRef.current.deviceGroup, threeRef.current.circlesGroup, threeRef.current.estimatedGroup,
-                  threeRef.current.floorPlanGroup, threeRef.current.tempWallGroup);
+    const initializeRadios = useCallback((count: number) => {
+        const newRadios: Radio[] = evenRadioLayout(count, CANVAS_WIDTH, CANVAS_HEIGHT).map((p, i) => ({ id: generateId(), ...p, radius: 10, label: `R${i + 1}` }));
+        setRadios(newRadios);
+    }, []);
 
-        createGrid();
+    // --- UNDO / REDO ---
+    // Records the scene as it was before an edit. Consecutive edits with the same
+    // key (e.g. typing into one field) are merged into a single undo step.
+    const recordEdit = useCallback((key: string | null = null, before: SceneSnapshot = sceneRef.current) => {
+        if (key !== null && key === lastEditKeyRef.current) return;
+        lastEditKeyRef.current = key;
+        setHistory(h => recordHistory(h, before));
     }, []);
-    
-    const createGrid = useCallback(() => {
-        const { gridGroup } = threeRef.current;
-        if (!gridGroup) return;
-        disposeGroup(gridGroup);
-        const color = 0x2d3748; // gray-700
-        for (let i = -CANVAS_WIDTH / 2; i <= CANVAS_WIDTH / 2; i += PIXELS_PER_METER) {
-            const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(i, -CANVAS_HEIGHT/2, 0), new THREE.Vector3(i, CANVAS_HEIGHT/2, 0)]);
-            gridGroup.add(new THREE.Line(geometry, new THREE.LineBasicMaterial({ color })));
-        }
-        for (let i = -CANVAS_HEIGHT / 2; i <= CANVAS_HEIGHT / 2; i += PIXELS_PER_METER) {
-            const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(-CANVAS_WIDTH/2, i, 0), new THREE.Vector3(CANVAS_WIDTH/2, i, 0)]);
-            gridGroup.add(new THREE.Line(geometry, new THREE.LineBasicMaterial({ color })));
-        }
+
+    const restoreScene = useCallback((snapshot: SceneSnapshot) => {
+        lastEditKeyRef.current = null;
+        setRadios(snapshot.radios);
+        setWalls(snapshot.walls);
+        setDevices(snapshot.devices);
+        setMountingZones(snapshot.mountingZones);
     }, []);
 
-    const initializeRadios = useCallback((count: number) => {
-        const newRadios: Radio[] = [];
-        const margin = 50;
-        const width = CANVAS_WIDTH;
-        const height = CANVAS_HEIGHT;
-
-        if (count === 3) {
-            newRadios.push({ id: generateId(), x: width / 2, y: margin, radius: 10, label: 'R1' });
-            newRadios.push({ id: generateId(), x: margin, y: height - margin, radius: 10, label: 'R2' });
-            newRadios.push({ id: generateId(), x: width - margin, y: height - margin, radius: 10, label: 'R3' });
-        } else if (count === 4) {
-             newRadios.push({ id: generateId(), x: margin, y: margin, radius: 10, label: 'R1' });
-             newRadios.push({ id: generateId(), x: width-margin, y: margin, radius: 10, label: 'R2' });
-             newRadios.push({ id: generateId(), x: width-margin, y: height-margin, radius: 10, label: 'R3' });
-             newRadios.push({ id: generateId(), x: margin, y: height-margin, radius: 10, label: 'R4' });
-        } else {
-             const centerX = width/2;
-             const centerY = height/2;
-             const radius = Math.min(width, height)/2 - margin;
-             for (let i = 0; i < count; i++) {
-                 const angle = (i * 2*Math.PI / count) - Math.PI/2;
-                 newRadios.push({
-                     id: generateId(),
-                     x: centerX + radius * Math.cos(angle),
-                     y: centerY + radius * Math.sin(angle),
-                     radius: 10,
-                     label: `R${i+1}`
-                 });
-             }
-        }
-        setRadios(newRadios);
+    const undo = useCallback(() => {
+        const step = undoHistory(history, sceneRef.current);
+        if (!step) return;
+        setHistory(step.history);
+        restoreScene(step.state);
+    }, [history, restoreScene]);
+
+    const redo = useCallback(() => {
+        const step = redoHistory(history, sceneRef.current);
+        if (!step) return;
+        setHistory(step.history);
+        restoreScene(step.state);
+    }, [history, restoreScene]);
+
+    // Replaces the walls of one floor, leaving the other floors alone
+    const replaceFloorWalls = useCallback((floor: number, newWalls: Wall[]) => {
+        setWalls(ws => [...ws.filter(w => floorOf(w) !== floor), ...newWalls.map(w => ({ ...w, floor }))]);
     }, []);
 
-    const resetWalls = useCallback(() => {
+    const resetWalls = useCallback((floor = 0) => {
         const newWalls: Wall[] = [];
         const material: WallMaterial = 'concrete';
         const props = WALL_MATERIALS[material];
@@ -206,427 +408,1244 @@ const App: React.FC = () => {
         newWalls.push({id: generateId(), start: {x: 300, y: 200}, end: {x: 300, y: 700}, material, attenuation: props.attenuation, color: props.color});
         newWalls.push({id: generateId(), start: {x: 900, y: 200}, end: {x: 900, y: 700}, material, attenuation: props.attenuation, color: props.color});
         newWalls.push({id: generateId(), start: {x: 300, y: 450}, end: {x: 600, y: 450}, material, attenuation: props.attenuation, color: props.color});
-        setWalls(newWalls);
-    }, []);
+        replaceFloorWalls(floor, newWalls);
+    }, [replaceFloorWalls]);
 
     useEffect(() => {
-        initializeScene();
         resetWalls();
-    }, [initializeScene, resetWalls]);
+    }, [resetWalls]);
 
     useEffect(() => {
         initializeRadios(numRadios);
     }, [numRadios, initializeRadios]);
 
-    // --- CORE ALGORITHMS ---
-    const calculateRSSI = useCallback((distanceMeters: number, transmitter: Radio, receiver: Device) => {
-        if (distanceMeters <= 0) return -30;
-        let rssi = txPower - 10 * pathLossExponent * Math.log10(distanceMeters);
-
-        if (enableWalls) {
-            const intersections = findWallIntersections(transmitter, receiver, walls);
-            let totalAttenuation = 0;
-            intersections.forEach((intersection, i) => {
-                let wallLoss = intersection.wall.attenuation;
-                if(enableAngleEffect) {
-                    const wallVec = { x: intersection.wall.end.x - intersection.wall.start.x, y: intersection.wall.end.y - intersection.wall.start.y };
-                    const wallNormal = { x: -wallVec.y, y: wallVec.x };
-                    const signalVec = { x: receiver.x - transmitter.x, y: receiver.y - transmitter.y };
-                    const dot = signalVec.x * wallNormal.x + signalVec.y * wallNormal.y;
-                    const magSignal = Math.sqrt(signalVec.x**2 + signalVec.y**2);
-                    const magNormal = Math.sqrt(wallNormal.x**2 + wallNormal.y**2);
-                    const cosTheta = dot / (magSignal * magNormal);
-                    const angleFactor = 0.5 + 0.5 * Math.abs(cosTheta);
-                    wallLoss *= angleFactor;
-                }
-                if(enableCumulativeEffect && i > 0) {
-                    wallLoss *= Math.pow(1.1, i);
-                }
-                totalAttenuation += wallLoss;
-            });
-            rssi -= totalAttenuation;
+    // --- SITE ---
+    // Everything placed: walls, radios, zones, vector plan lines and the floor plan image; null while empty
+    const contentArea = useMemo(() => {
+        const points = [
+            ...walls.flatMap(w => [w.start, w.end]),
+            ...radios,
+            ...mountingZones.flatMap(z => [{ x: z.x, y: z.y }, { x: z.x + z.width, y: z.y + z.height }]),
+            ...floors.flatMap(f => f.background ?? []).flatMap(s => [s.start, s.end]),
+        ];
+        const { image } = floorPlanRef.current;
+        if (image) {
+            const rect = containRect(image.width, image.height, CANVAS_WIDTH, CANVAS_HEIGHT);
+            points.push({ x: rect.x, y: rect.y }, { x: rect.x + rect.width, y: rect.y + rect.height });
         }
+        return boundsOfPoints(points);
+    }, [walls, radios, mountingZones, floors, floorPlanVersion]);
+    // Area the sweeps cover: the content with a meter to spare, or around the device in an empty scene
+    const site = padRect(contentArea ?? { x: device.x, y: device.y, width: 0, height: 0 }, pixelsPerMeter);
+    // Kept by value so that edits inside the site do not restart sweeps
+    const siteArea = useMemo<Rect>(() => site, [site.x, site.y, site.width, site.height]);
+    const siteOptions = useMemo(() => ({ origin: { x: siteArea.x, y: siteArea.y }, width: siteArea.width, height: siteArea.height }), [siteArea]);
 
-        if (enableNoise) {
-            const u1 = Math.random();
-            const u2 = Math.random();
-            const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-            rssi += z0 * noiseStdDev;
-        }
-        return clamp(rssi, -120, -30);
-    }, [txPower, pathLossExponent, enableWalls, walls, enableNoise, noiseStdDev, enableAngleEffect, enableCumulativeEffect]);
-    
-    const estimateDistanceFromRSSI = useCallback((rssi: number) => {
-        const exponent = (txPower - rssi) / (10 * pathLossExponent);
-        return Math.pow(10, exponent);
-    }, [txPower, pathLossExponent]);
-
-    const findWallIntersections = (p1: Vector2D, p2: Vector2D, currentWalls: Wall[]): Intersection[] => {
-        const intersections: Intersection[] = [];
-        for (const wall of currentWalls) {
-            const p3 = wall.start;
-            const p4 = wall.end;
-            const den = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
-            if (den === 0) continue;
-            const t = ((p1.x - p3.x) * (p3.y - p4.y) - (p1.y - p3.y) * (p3.x - p4.x)) / den;
-            const u = -((p1.x - p2.x) * (p1.y - p3.y) - (p1.y - p2.y) * (p1.x - p3.x)) / den;
-            if (t > 0 && t < 1 && u > 0 && u < 1) {
-                intersections.push({
-                    point: { x: p1.x + t * (p2.x - p1.x), y: p1.y + t * (p2.y - p1.y) },
-                    wall
-                });
-            }
-        }
-        return intersections;
-    };
-    
-    const performTrilateration = useCallback((activeMeasurements: Measurement[]) => {
-        if (activeMeasurements.length < 3) return null;
-        
-        // Initial guess: weighted centroid
-        let totalWeight = 0;
-        let initialGuess = activeMeasurements.reduce((acc, m) => {
-            const weight = 1 / m.estimatedDistance;
-            totalWeight += weight;
-            return { x: acc.x + m.radio.x * weight, y: acc.y + m.radio.y * weight };
-        }, {x: 0, y: 0});
-        initialGuess = { x: initialGuess.x / totalWeight, y: initialGuess.y / totalWeight };
-
-        let pos = { ...initialGuess };
-        const maxIterations = 50;
-        const convergenceThreshold = 0.1;
-
-        for (let iter = 0; iter < maxIterations; iter++) {
-            let J = [];
-            let r = [];
-            for (const m of activeMeasurements) {
-                const radioPos = { x: m.radio.x, y: m.radio.y };
-                const dist = distance(pos, radioPos);
-                if (dist < 1e-6) continue;
-                J.push([(pos.x - radioPos.x) / dist, (pos.y - radioPos.y) / dist]);
-                r.push(dist - m.estimatedDistance * PIXELS_PER_METER);
-            }
-            if (J.length < 2) return pos;
+    // --- CORE ALGORITHMS ---
+    const building = useMemo<BuildingModel>(() => ({ floorAttenuation, storeyHeight }), [floorAttenuation, storeyHeight]);
+    const modelParams = useMemo<RSSIModelParams>(() => ({
+        txPower, pathLossExponent, enableWalls, enableAngleEffect, enableCumulativeEffect, enableNoise, noiseStdDev, channel: channelModel, building
+    }), [txPower, pathLossExponent, enableWalls, enableAngleEffect, enableCumulativeEffect, enableNoise, noiseStdDev, channelModel, building]);
 
-            const Jt = [[], []];
-            for (let i = 0; i < J.length; i++) {
-                Jt[0].push(J[i][0]);
-                Jt[1].push(J[i][1]);
-            }
-            
-            const JtJ = [[0, 0], [0, 0]];
-            JtJ[0][0] = J.reduce((sum, row) => sum + row[0] * row[0], 0);
-            JtJ[0][1] = J.reduce((sum, row) => sum + row[0] * row[1], 0);
-            JtJ[1][0] = JtJ[0][1];
-            JtJ[1][1] = J.reduce((sum, row) => sum + row[1] * row[1], 0);
-
-            const det = JtJ[0][0] * JtJ[1][1] - JtJ[0][1] * JtJ[1][0];
-            if (Math.abs(det) < 1e-9) break;
-
-            const invDet = 1 / det;
-            const JtJ_inv = [[invDet * JtJ[1][1], -invDet * JtJ[0][1]], [-invDet * JtJ[1][0], invDet * JtJ[0][0]]];
-
-            const Jtr = [0, 0];
-            for (let i = 0; i < J.length; i++) {
-                Jtr[0] += J[i][0] * r[i];
-                Jtr[1] += J[i][1] * r[i];
-            }
+    // The estimator's view of the world, which may differ from the generator's.
+    // The building layout is always known to it; floor loss only when it knows the walls.
+    const receiver = useMemo<ReceiverModel>(() => ({
+        ...(receiverModel ?? { txPower, pathLossExponent }),
+        compensateWalls: assumeWallsKnown,
+        building,
+    }), [receiverModel, txPower, pathLossExponent, assumeWallsKnown, building]);
+    // Spread of a single reading as the estimator sees it: receiver noise and shadowing
+    const rssiStdDev = Math.hypot(enableNoise ? noiseStdDev : 0, channelModel.enableShadowing ? channelModel.shadowingStdDev : 0);
+    const matchedReceiver = useMemo<ReceiverModel>(() => ({ txPower, pathLossExponent, compensateWalls: enableWalls, building }), [txPower, pathLossExponent, enableWalls, building]);
+    const modelMismatch = receiver.txPower !== matchedReceiver.txPower || receiver.pathLossExponent !== matchedReceiver.pathLossExponent
+        || receiver.compensateWalls !== matchedReceiver.compensateWalls;
+
+    // The primary solver drives the readout; the others are drawn for comparison
+    const displayedSolverIds = useMemo(() => [solverId, ...compareSolverIds.filter(id => id !== solverId)], [solverId, compareSolverIds]);
+
+    // The whole track is simulated up front with a fixed seed so that scrubbing
+    // the timeline shows the same noise realisation every time.
+    const trackSamples = useMemo(() => simulateTrack(radios, walls, motionPath, device, modelParams, {
+        speed: walkingSpeed,
+        advertisingInterval,
+        filterId: trackingFilterId,
+        tracking: {
+            solverId,
+            solverOptions: { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold },
+            modelParams: receiver,
+            minRSSI,
+            pixelsPerMeter,
+            windowSize: rssiWindowSize,
+        },
+    }, createSeededRandom(1)), [radios, walls, motionPath, device.radius, device.floor, device.z, modelParams, receiver, walkingSpeed, advertisingInterval, trackingFilterId, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, minRSSI, pixelsPerMeter, rssiWindowSize]);
 
-            const delta = [
-                -(JtJ_inv[0][0] * Jtr[0] + JtJ_inv[0][1] * Jtr[1]),
-                -(JtJ_inv[1][0] * Jtr[0] + JtJ_inv[1][1] * Jtr[1])
-            ];
+    const heatmapGrid = errorMap ? errorMap[heatmapMetric] : null;
+    const heatmapSummary = useMemo(() => heatmapGrid ? summarizeGrid(heatmapGrid) : null, [heatmapGrid]);
+    const heatmapTexture = useMemo(() => heatmapGrid ? createGridTexture(heatmapGrid, errorColorScale(heatmapScaleMax)) : null, [heatmapGrid, heatmapScaleMax]);
+    useEffect(() => () => heatmapTexture?.dispose(), [heatmapTexture]);
+
+    // Any change to the scene or model invalidates a computed heatmap
+    useEffect(() => {
+        setHeatmapStale(true);
+    }, [radios, walls, device.floor, device.z, device.heading, modelParams, receiver, minRSSI, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, pixelsPerMeter]);
 
-            pos.x += delta[0];
-            pos.y += delta[1];
+    useEffect(() => () => heatmapJobRef.current?.cancel(), []);
 
-            if (Math.sqrt(delta[0]**2 + delta[1]**2) < convergenceThreshold) break;
+    const computeHeatmap = useCallback(() => {
+        heatmapJobRef.current?.cancel();
+        const job = runInWorker({ kind: 'errorMap', radios, walls, device, params: modelParams, options: {
+            ...siteOptions,
+            cellSize: limitCellSize(siteArea.width, siteArea.height, heatmapCellSize * pixelsPerMeter, MAX_HEATMAP_CELLS),
+            trials: heatmapTrials,
+            solverId,
+            solverOptions: { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold },
+            minRSSI,
+            pixelsPerMeter,
+            receiver,
+        } });
+        heatmapJobRef.current = job;
+        setHeatmapComputing(true);
+        job.result.then(map => {
+            setErrorMap(map);
+            setHeatmapStale(false);
+            setShowHeatmap(true);
+            setHeatmapError(null);
+        }).catch(err => setHeatmapError((err as Error).message)).finally(() => {
+            if (heatmapJobRef.current !== job) return;
+            heatmapJobRef.current = null;
+            setHeatmapComputing(false);
+        });
+    }, [radios, walls, device, modelParams, receiver, siteArea, siteOptions, heatmapCellSize, heatmapTrials, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, minRSSI, pixelsPerMeter]);
+
+    const coverageRadio = radios.find(r => r.id === coverageRadioId) ?? radios[0];
+    // Computed in a worker; the previous map stays up until the new one arrives, so dragging does not flicker
+    const [coverage, setCoverage] = useState<{ mode: typeof coverageMode; grid: GridMap } | null>(null);
+    useEffect(() => {
+        const options = { ...siteOptions, cellSize: limitCellSize(siteArea.width, siteArea.height, pixelsPerMeter / 2, MAX_COVERAGE_CELLS), pixelsPerMeter };
+        const job = coverageMode === 'rssi' && coverageRadio ? runInWorker({ kind: 'coverage', radio: coverageRadio, walls, device, params: modelParams, options })
+            : coverageMode === 'visible' ? runInWorker({ kind: 'visibleRadios', radios, walls, device, params: modelParams, minRSSI, options })
+            : coverageMode === 'gdop' ? runInWorker({ kind: 'gdop', anchors: radios.filter(r => r.enabled !== false), options })
+            : null;
+        if (!job) {
+            setCoverage(null);
+            setCoverageError(null);
+            return;
         }
-        return pos;
+        job.result.then(grid => {
+            setCoverage({ mode: coverageMode, grid });
+            setCoverageError(null);
+        }).catch(err => setCoverageError((err as Error).message));
+        return job.cancel;
+    }, [coverageMode, coverageRadio, radios, walls, device.radius, device.floor, device.z, device.heading, modelParams, minRSSI, pixelsPerMeter, siteArea, siteOptions]);
+    const coverageGrid = coverage?.grid ?? null;
+    const coverageTexture = useMemo(() => {
+        if (!coverage) return null;
+        const colorScale = coverage.mode === 'rssi' ? rssiColorScale(minRSSI)
+            : coverage.mode === 'gdop' ? errorColorScale(GDOP_SCALE_MAX)
+            : radioCountColorScale(MIN_RADIOS_FOR_FIX);
+        return createGridTexture(coverage.grid, colorScale);
+    }, [coverage, minRSSI]);
+    useEffect(() => () => coverageTexture?.dispose(), [coverageTexture]);
+
+    const stopOptimizer = useCallback(() => {
+        optimizerJobRef.current?.cancel();
+        optimizerJobRef.current = null;
+        setOptimizerRunning(false);
     }, []);
+    useEffect(() => stopOptimizer, [stopOptimizer]);
 
-    // --- RENDER & UPDATE LOGIC ---
-    const canvasToThree = (p: Vector2D): Vector2D => ({ x: p.x - CANVAS_WIDTH / 2, y: -(p.y - CANVAS_HEIGHT / 2) });
-    const disposeGroup = (group: any) => {
-        while (group.children.length > 0) {
-            const object = group.children[0];
-            if (object.geometry) object.geometry.dispose();
-            if (object.material) {
-                if (Array.isArray(object.material)) {
-                    object.material.forEach((m: any) => m.dispose());
-                } else {
-                    object.material.dispose();
+    const startOptimizer = useCallback(() => {
+        stopOptimizer();
+        const job = runInWorker({ kind: 'placement', walls, device, params: modelParams, options: {
+            budget: optimizerBudget,
+            zones: mountingZones,
+            objective: optimizerObjective,
+            iterations: optimizerIterations,
+            solverId,
+            solverOptions: { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold },
+            minRSSI,
+            ...siteOptions,
+            cellSize: limitCellSize(siteArea.width, siteArea.height, pixelsPerMeter * 2, MAX_PLACEMENT_CELLS),
+            pixelsPerMeter,
+            receiver,
+        } }, progress => setOptimizerProgress(progress as PlacementProgress));
+        optimizerJobRef.current = job;
+        setOptimizerProgress(null);
+        setOptimizerError(null);
+        setPreviewCandidate(null);
+        setOptimizerRunning(true);
+        job.result.then(setOptimizerProgress).catch(err => setOptimizerError((err as Error).message)).finally(() => {
+            if (optimizerJobRef.current !== job) return;
+            optimizerJobRef.current = null;
+            setOptimizerRunning(false);
+        });
+    }, [stopOptimizer, walls, device, modelParams, receiver, siteArea, siteOptions, optimizerBudget, mountingZones, optimizerObjective, optimizerIterations, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, minRSSI, pixelsPerMeter]);
+
+    const stopExperiment = useCallback(() => {
+        experimentJobRef.current?.cancel();
+        experimentJobRef.current = null;
+        setExperimentRunning(false);
+    }, []);
+    useEffect(() => stopExperiment, [stopExperiment]);
+
+    const startExperiment = useCallback(() => {
+        stopExperiment();
+        let sweeps: Sweep[];
+        try {
+            sweeps = (Object.keys(SWEEP_PARAMETERS) as SweepParameter[]).filter(p => sweepEnabled[p]).map(parameter => {
+                if (parameter === 'walls') return { parameter, values: [true, false] };
+                if (parameter === 'solver') {
+                    if (sweepSolverIds.length === 0) throw new Error('Solver: pick at least one solver');
+                    return { parameter, values: sweepSolverIds };
                 }
-            }
-            group.remove(object);
+                return { parameter, values: parseSweepValues(parameter, sweepText[parameter]) };
+            });
+        } catch (err) {
+            setExperimentError((err as Error).message);
+            return;
         }
-    };
-    
-    const updateScene = useCallback(() => {
-        const { radiosGroup, deviceGroup, wallsGroup, circlesGroup, estimatedGroup, tempWallGroup, scene } = threeRef.current;
-        if (!scene) return;
-        
-        threeRef.current.interactiveObjects = [];
-        
-        // Update Radios
-        disposeGroup(radiosGroup);
-        radios.forEach(radio => {
-            const pos = canvasToThree(radio);
-            const geo = new THREE.CircleGeometry(radio.radius, 32);
-            const mat = new THREE.MeshBasicMaterial({ color: 0x4ade80 }); // green-400
-            const mesh = new THREE.Mesh(geo, mat);
-            mesh.position.set(pos.x, pos.y, 3);
-            mesh.userData = { type: 'radio', target: radio };
-            radiosGroup.add(mesh);
-            threeRef.current.interactiveObjects.push(mesh);
+        const job = runInWorker({ kind: 'experiment', radios, walls, device, params: modelParams, options: {
+            sweeps,
+            points: testPoints,
+            randomPoints: experimentRandomPoints,
+            trials: experimentTrials,
+            solverId,
+            solverOptions: { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold },
+            minRSSI,
+            ...siteOptions,
+            pixelsPerMeter,
+            receiver,
+        } }, progress => setExperimentProgress(progress as ExperimentProgress));
+        experimentJobRef.current = job;
+        setExperimentSweeps(sweeps);
+        setExperimentError(null);
+        setExperimentProgress(null);
+        setExperimentRunning(true);
+        job.result.then(setExperimentProgress).catch(err => setExperimentError((err as Error).message)).finally(() => {
+            if (experimentJobRef.current !== job) return;
+            experimentJobRef.current = null;
+            setExperimentRunning(false);
         });
+    }, [stopExperiment, sweepEnabled, sweepSolverIds, sweepText, radios, walls, device, modelParams, receiver, siteOptions, testPoints, experimentRandomPoints, experimentTrials, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, minRSSI, pixelsPerMeter]);
 
-        // Update Device
-        disposeGroup(deviceGroup);
-        const devPos = canvasToThree(device);
-        const devGeo = new THREE.CircleGeometry(device.radius, 32);
-        const devMat = new THREE.MeshBasicMaterial({ color: 0x38bdf8 }); // sky-400
-        const devMesh = new THREE.Mesh(devGeo, devMat);
-        devMesh.position.set(devPos.x, devPos.y, 3);
-        devMesh.userData = { type: 'device', target: device };
-        deviceGroup.add(devMesh);
-        threeRef.current.interactiveObjects.push(devMesh);
-
-        // Update Walls
-        disposeGroup(wallsGroup);
-        walls.forEach(wall => {
-            const start = canvasToThree(wall.start);
-            const end = canvasToThree(wall.end);
-            const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(start.x, start.y, 2), new THREE.Vector3(end.x, end.y, 2)]);
-            const mat = new THREE.LineBasicMaterial({ color: wall.color, linewidth: 3 });
-            wallsGroup.add(new THREE.Line(geo, mat));
-        });
+    const exportExperiment = useCallback((format: 'csv' | 'json') => {
+        if (!experimentProgress) return;
+        if (format === 'csv') downloadText(experimentToCSV(experimentProgress.results, experimentSweeps, frame), 'experiment.csv', 'text/csv');
+        else downloadText(experimentToJSON(experimentProgress.results, experimentSweeps, frame), 'experiment.json', 'application/json');
+    }, [experimentProgress, experimentSweeps, frame]);
 
-        // Update Temp Wall
-        disposeGroup(tempWallGroup);
-        if (drawWallMode && tempWallStartRef.current) {
-            const currentMousePos = tempWallStartRef.current.end; // End is updated on mouse move
-            if (currentMousePos) {
-                 const start = canvasToThree(tempWallStartRef.current.start);
-                 const end = canvasToThree(currentMousePos);
-                 const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(start.x, start.y, 4), new THREE.Vector3(end.x, end.y, 4)]);
-                 const mat = new THREE.LineDashedMaterial({ color: 0xfb923c, dashSize: 5, gapSize: 3 });
-                 const line = new THREE.Line(geo, mat);
-                 line.computeLineDistances();
-                 tempWallGroup.add(line);
-            }
+    const acceptCandidate = useCallback((candidate: PlacementCandidate) => {
+        recordEdit();
+        setRadios(candidate.positions.map((p, i) => ({ id: generateId(), x: p.x, y: p.y, radius: 10, label: `R${i + 1}` })));
+        setPreviewCandidate(null);
+    }, [recordEdit]);
+
+    const trackDuration = trackSamples.length > 0 ? trackSamples[trackSamples.length - 1].time : 0;
+    const currentSample = useMemo(() => playbackTime === null ? null : sampleAtTime(trackSamples, playbackTime), [trackSamples, playbackTime]);
+
+    // Replayed in a worker, as long logs take a while to solve
+    useEffect(() => {
+        if (!rssiLog) {
+            setLogSamples([]);
+            setLogReplayError(null);
+            return;
         }
-        
-        // Update measurements and circles
-        const newMeasurements = radios.map(radio => {
-            const trueDistPixels = distance(radio, device);
-            const trueDistMeters = trueDistPixels / PIXELS_PER_METER;
-            const rssi = calculateRSSI(trueDistMeters, radio, device);
-            const estimatedDistMeters = estimateDistanceFromRSSI(rssi);
-            return { radio, trueDistance: trueDistMeters, rssi, estimatedDistance: estimatedDistMeters };
+        const job = runInWorker({ kind: 'replay', log: rssiLog, windowSeconds: logWindow, radios, mapping: beaconMapping, options: {
+            solverId,
+            solverOptions: { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold },
+            modelParams: receiver,
+            minRSSI,
+            pixelsPerMeter,
+            walls,
+        } });
+        job.result.then(samples => {
+            setLogSamples(samples);
+            setLogReplayError(null);
+        }).catch(err => setLogReplayError((err as Error).message));
+        return job.cancel;
+    }, [rssiLog, logWindow, radios, beaconMapping, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, receiver, minRSSI, pixelsPerMeter, walls]);
+    const logSummary = useMemo(() => summarizeReplay(logSamples), [logSamples]);
+    const logDuration = logSamples.length > 0 ? logSamples[logSamples.length - 1].time : 0;
+    const currentLogSample = useMemo(() => logTime === null ? null : sampleAtTime(logSamples, logTime), [logSamples, logTime]);
+
+    // During playback the device follows the path (or the log's ground truth) instead of its dragged position
+    const floorWalls = useMemo(() => walls.filter(w => floorOf(w) === activeFloor), [walls, activeFloor]);
+
+    const activeDevice = useMemo(() => {
+        if (currentLogSample) return currentLogSample.truth ? { ...device, ...currentLogSample.truth } : device;
+        if (!currentSample) return device;
+        const heading = headingAlongPath(motionPath, currentSample.time * walkingSpeed * pixelsPerMeter) ?? device.heading;
+        return { ...device, ...currentSample.truth, heading };
+    }, [device, currentSample, currentLogSample, motionPath, walkingSpeed, pixelsPerMeter]);
+    // Without ground truth in a replayed log there is nothing to measure the error against
+    const hasGroundTruth = !currentLogSample || currentLogSample.truth !== null;
+
+    // --- LIVE SIMULATION ---
+    // Everything derived from the current readings. It is recomputed when an input
+    // changes, and on every measurement tick while the readings are random.
+    const simulation = useMemo(() => {
+        const rawMeasurements = currentLogSample ? currentLogSample.measurements
+            : currentSample ? currentSample.measurements
+            : computeMeasurements(radios, device, walls, modelParams, Math.random, pixelsPerMeter, receiver);
+        const activeMeasurements = rawMeasurements.filter(m => m.rssi > minRSSI);
+        const solverOptions = { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold, pixelsPerMeter };
+        const solved = displayedSolverIds.map(id => ({ solverId: id, ...estimatePosition(id, activeMeasurements, receiver, walls, solverOptions) }));
+        const primary = solved[0] ?? null;
+        // Show the ranges the primary solver ended up using (wall-corrected for a wall-aware receiver)
+        const rangedMeasurements = primary?.measurements ?? activeMeasurements;
+        const primaryPosition = primary?.result?.position ?? null;
+        return {
+            primary,
+            rangedMeasurements,
+            estimates: solved.map(({ solverId: id, result }) => ({ solverId: id, result })),
+            estimatedFloor: primary?.result ? primary.floor : null,
+            measurements: rawMeasurements.map(m => rangedMeasurements.find(r => r.radio.id === m.radio.id) ?? m),
+            radioDiagnostics: primary?.diagnostics ?? [],
+            // Primary solver fed with the true propagation model, for the mismatch readout
+            matchedEstimate: modelMismatch ? estimatePosition(solverId, activeMeasurements, matchedReceiver, walls, solverOptions).result : null,
+            // Fingerprinting and plain trilateration on the same measurements, for comparison
+            fingerprintEstimate: radioMap ? matchFingerprint(radioMap, rawMeasurements, { method: fingerprintMethod, k: fingerprintK, missingRSSI: minRSSI }) : null,
+            trilaterationEstimate: radioMap ? performTrilateration(activeMeasurements, pixelsPerMeter) : null,
+            covariance: primaryPosition
+                ? positionCovariance(primaryPosition, rangedMeasurements, { pixelsPerMeter, rssiStdDev, pathLossExponent: receiver.pathLossExponent })
+                : null,
+            dop: primaryPosition ? dilutionOfPrecision(primaryPosition, rangedMeasurements.map(m => m.radio)) : null,
+        };
+    }, [radios, device, walls, modelParams, receiver, matchedReceiver, modelMismatch, solverId, minRSSI, displayedSolverIds, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, currentSample, currentLogSample, pixelsPerMeter, radioMap, fingerprintMethod, fingerprintK, rssiStdDev, measurementTick]);
+    const { estimates, estimatedFloor, measurements, radioDiagnostics, matchedEstimate, fingerprintEstimate, trilaterationEstimate, covariance, dop } = simulation;
+
+    // Every device located on its own with the primary solver, by device id. The selected device's
+    // fix is the one above, so that it agrees with the rest of the panel (and follows playback).
+    const deviceFixes = useMemo(() => {
+        const solverOptions = { maxIterations, convergenceThreshold, robust: robustMethod, inlierThreshold };
+        const others = locateDevices(devices.filter(d => d.id !== device.id), radios, walls, modelParams, receiver, { solverId, solverOptions, minRSSI, pixelsPerMeter });
+        const fixes = new Map<string, DeviceFix>(others.map(fix => [fix.deviceId, fix]));
+        const position = simulation.primary?.result?.position ?? null;
+        fixes.set(device.id, {
+            deviceId: device.id,
+            measurements: simulation.measurements,
+            heard: simulation.measurements.filter(m => m.rssi > minRSSI).length,
+            position,
+            floor: simulation.estimatedFloor,
+            error: position && hasGroundTruth ? distance(position, activeDevice) / pixelsPerMeter : null,
         });
-        setMeasurements(newMeasurements);
-        
-        disposeGroup(circlesGroup);
-        const activeMeasurements = newMeasurements.filter(m => m.rssi > minRSSI);
-        activeMeasurements.forEach(m => {
-            const pos = canvasToThree(m.radio);
-            const radius = m.estimatedDistance * PIXELS_PER_METER;
-            const colorVal = clamp((m.rssi + 100) / 40, 0, 1);
-            const color = new THREE.Color().setHSL(0.33 * colorVal, 0.8, 0.5);
-            
-            const geo = new THREE.RingGeometry(radius - 1, radius, 64);
-            const mat = new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide });
-            const mesh = new THREE.Mesh(geo, mat);
-            mesh.position.set(pos.x, pos.y, 1);
-            circlesGroup.add(mesh);
+        // Every device has an entry, without a fix until it is located
+        devices.forEach(d => {
+            if (!fixes.has(d.id)) fixes.set(d.id, { deviceId: d.id, measurements: [], heard: 0, position: null, floor: null, error: null });
         });
-        
-        // Update Estimated Position
-        const newEstimatedPos = performTrilateration(activeMeasurements);
-        setEstimatedPosition(newEstimatedPos);
-
-        disposeGroup(estimatedGroup);
-        if (newEstimatedPos) {
-            const pos = canvasToThree(newEstimatedPos);
-            const geo = new THREE.CircleGeometry(8, 32);
-            const mat = new THREE.MeshBasicMaterial({ color: 0xf43f5e }); // rose-500
-            const mesh = new THREE.Mesh(geo, mat);
-            mesh.position.set(pos.x, pos.y, 2);
-            estimatedGroup.add(mesh);
-            
-            const lineGeo = new THREE.BufferGeometry().setFromPoints([
-                new THREE.Vector3(devPos.x, devPos.y, 2.5),
-                new THREE.Vector3(pos.x, pos.y, 2.5)
-            ]);
-            const lineMat = new THREE.LineDashedMaterial({ color: 0xf43f5e, dashSize: 5, gapSize: 3 });
-            const line = new THREE.Line(lineGeo, lineMat);
-            line.computeLineDistances();
-            estimatedGroup.add(line);
-        }
+        return fixes;
+    }, [devices, device.id, activeDevice, hasGroundTruth, simulation, radios, walls, modelParams, receiver, solverId, maxIterations, convergenceThreshold, robustMethod, inlierThreshold, minRSSI, pixelsPerMeter]);
+    const deviceSummary = useMemo(() => summarizeDeviceFixes(devices.map(d => deviceFixes.get(d.id))), [devices, deviceFixes]);
 
-        // Update Floor Plan
-        disposeGroup(threeRef.current.floorPlanGroup);
-        if(floorPlanRef.current.show && floorPlanRef.current.texture) {
-            const geo = new THREE.PlaneGeometry(CANVAS_WIDTH, CANVAS_HEIGHT);
-            const mat = new THREE.MeshBasicMaterial({ map: floorPlanRef.current.texture, transparent: true, opacity: floorPlanRef.current.opacity });
-            const mesh = new THREE.Mesh(geo, mat);
-            mesh.position.set(0, 0, -2);
-            threeRef.current.floorPlanGroup.add(mesh);
+    // Fresh noise once per advertising interval, as a real receiver would see it.
+    // Recorded samples and noise-free readings never change on their own.
+    const liveNoise = (enableNoise || channelModel.fading !== 'none') && !currentSample && !currentLogSample;
+    useEffect(() => {
+        if (!liveNoise) return;
+        const id = window.setInterval(() => setMeasurementTick(t => t + 1), advertisingInterval);
+        return () => clearInterval(id);
+    }, [liveNoise, advertisingInterval]);
+
+    // --- RENDER & UPDATE LOGIC ---
+    // Devices where they currently are: the selected one follows playback
+    const shownDevices = useMemo(() => devices.map(d => d.id === device.id ? activeDevice : d), [devices, device.id, activeDevice]);
+    const scene = useScene(canvasRef, view3D, view);
+    const { threeRef } = scene;
+    // Grid lines spaced for the zoom, over what the view shows
+    const viewArea = useMemo(() => visibleArea(view, CANVAS_WIDTH, CANVAS_HEIGHT), [view]);
+    const gridStep = gridStepFor(pixelsPerMeter, view.zoom);
+    useGridLayer(scene, { frame, area: viewArea, step: gridStep });
+    useRadioLayer(scene, { radios, selectedRadioId, activeFloor, markerScale });
+    useDeviceLayer(scene, { devices, selectedId: device.id, shown: activeDevice, fixes: deviceFixes, activeFloor, showHeading: channelModel.enableBodyBlocking, markerScale });
+    useWallLayer(scene, { walls: floorWalls, selectedWallIds });
+    // The wall and zone being drawn live in refs, so the pointer handlers redraw them directly
+    const drawTempShapes = useTempShapesLayer(scene, { drawWallMode, tempWallRef: tempWallStartRef, tempZoneRef });
+    useRangeLayer(scene, { measurements: simulation.rangedMeasurements, diagnostics: radioDiagnostics, pixelsPerMeter });
+    useEstimateLayer(scene, { truth: activeDevice, estimates, covariance: showUncertainty ? covariance : null });
+    useTrackLayer(scene, { motionPath, trackSamples, currentSample, showFiltered: trackingFilterId !== 'none', logSamples, currentLogSample });
+    useGridMapLayer(scene, 'heatmapGroup', { grid: showHeatmap ? heatmapGrid : null, texture: heatmapTexture, z: -1 });
+    useGridMapLayer(scene, 'coverageGroup', { grid: coverageGrid, texture: coverageTexture, z: -0.9 });
+    usePlacementLayer(scene, { zones: mountingZones, preview: previewCandidate });
+    useCalibrationLayer(scene, { points: calibrationPoints, frame });
+    useReferenceLayer(scene, { referencePoints, testPoints });
+    useFingerprintLayer(scene, { radioMap: showRadioMap ? radioMap : null, activeFloor, estimate: fingerprintEstimate });
+    useFloorPlanLayer(scene, {
+        image: showFloorPlan ? floorPlanRef.current.image : null,
+        texture: showFloorPlan ? floorPlanRef.current.texture : null,
+        opacity: floorPlanOpacity,
+    });
+    useBuildingLayer(scene, canvasRef, {
+        view3D, site: siteArea, floorCount: floors.length, activeFloor, walls, radios, devices: shownDevices, building, pixelsPerMeter, estimate: simulation.primary,
+    });
+
+    // --- PLAYBACK ---
+    useEffect(() => {
+        if (!isPlaying) return;
+        let animationFrameId: number;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const elapsed = (now - last) / 1000;
+            last = now;
+            setPlaybackTime(t => Math.min((t ?? 0) + elapsed, trackDuration));
+            animationFrameId = requestAnimationFrame(tick);
+        };
+        animationFrameId = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(animationFrameId);
+    }, [isPlaying, trackDuration]);
+
+    useEffect(() => {
+        if (isPlaying && playbackTime !== null && playbackTime >= trackDuration) setIsPlaying(false);
+    }, [isPlaying, playbackTime, trackDuration]);
+
+    const stopLogReplay = useCallback(() => {
+        setIsLogPlaying(false);
+        setLogTime(null);
+    }, []);
+
+    const handlePlayPause = useCallback(() => {
+        if (isPlaying) {
+            setIsPlaying(false);
+            return;
         }
+        stopLogReplay();
+        setPlaybackTime(t => (t === null || t >= trackDuration ? 0 : t));
+        setIsPlaying(true);
+    }, [isPlaying, trackDuration, stopLogReplay]);
 
-    }, [radios, device, walls, drawWallMode, calculateRSSI, estimateDistanceFromRSSI, minRSSI, performTrilateration]);
+    const stopPlayback = useCallback(() => {
+        setIsPlaying(false);
+        setPlaybackTime(null);
+    }, []);
 
+    // --- LOG REPLAY ---
     useEffect(() => {
+        if (!isLogPlaying) return;
         let animationFrameId: number;
-        const animate = () => {
-            updateScene();
-            threeRef.current.renderer?.render(threeRef.current.scene, threeRef.current.camera);
-            animationFrameId = requestAnimationFrame(animate);
+        let last = performance.now();
+        const tick = (now: number) => {
+            const elapsed = (now - last) / 1000;
+            last = now;
+            setLogTime(t => Math.min((t ?? 0) + elapsed, logDuration));
+            animationFrameId = requestAnimationFrame(tick);
         };
-        animate();
+        animationFrameId = requestAnimationFrame(tick);
         return () => cancelAnimationFrame(animationFrameId);
-    }, [updateScene]);
+    }, [isLogPlaying, logDuration]);
+
+    useEffect(() => {
+        if (isLogPlaying && logTime !== null && logTime >= logDuration) setIsLogPlaying(false);
+    }, [isLogPlaying, logTime, logDuration]);
+
+    const handleLogPlayPause = useCallback(() => {
+        if (isLogPlaying) {
+            setIsLogPlaying(false);
+            return;
+        }
+        stopPlayback();
+        setLogTime(t => (t === null || t >= logDuration ? 0 : t));
+        setIsLogPlaying(true);
+    }, [isLogPlaying, logDuration, stopPlayback]);
+
+    const handleLogImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const log = parseRSSILog(e.target.result as string, frame);
+                stopPlayback();
+                setRssiLog(log);
+                setBeaconMapping(autoMapBeacons(log.beaconIds, radios));
+                setLogTime(0);
+                setIsLogPlaying(false);
+                setLogImportError(null);
+            } catch (err) {
+                setLogImportError((err as Error).message);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    const handlePathImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                setMotionPath(parseMotionPath(e.target.result as string, frame));
+                setPathImportError(null);
+            } catch (err) {
+                setPathImportError((err as Error).message);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    const primaryEstimate = estimates[0]?.result ?? null;
+    const estimatedPosition = primaryEstimate?.position ?? null;
+    const estimatedWorld = estimatedPosition ? toWorld(estimatedPosition, frame) : null;
 
     // --- INTERACTION HANDLERS ---
+    const deviceWorld = toWorld(activeDevice, frame);
+    const siteWorldBounds = useMemo(() => worldBounds(siteArea.width, siteArea.height, frame, siteArea), [siteArea, frame]);
+
     const handleDevicePosChange = useCallback((axis: 'x' | 'y', value: string) => {
         const meters = parseFloat(value);
         if (isNaN(meters)) return;
-        const pixels = meters * PIXELS_PER_METER;
         setDevice(d => {
-            const newPos = { ...d, [axis]: pixels };
-            newPos.x = clamp(newPos.x, d.radius, CANVAS_WIDTH - d.radius);
-            newPos.y = clamp(newPos.y, d.radius, CANVAS_HEIGHT - d.radius);
+            const world = { ...toWorld(d, frame), [axis]: meters };
+            const newPos = { ...d, ...fromWorld(world, frame) };
+            newPos.x = clamp(newPos.x, siteArea.x + d.radius, siteArea.x + siteArea.width - d.radius);
+            newPos.y = clamp(newPos.y, siteArea.y + d.radius, siteArea.y + siteArea.height - d.radius);
             return newPos;
         });
+    }, [frame, siteArea, setDevice]);
+
+    // A new device in the middle of the view, on the floor being edited
+    const addDevice = useCallback(() => {
+        recordEdit();
+        const added = { ...createDevice(view.center, devices, generateId()), floor: activeFloor };
+        setDevices(ds => [...ds, added]);
+        setSelectedDeviceId(added.id);
+    }, [view.center, devices, activeFloor, recordEdit]);
+
+    // Typing a name is one undo step per device
+    const renameDevice = useCallback((name: string) => {
+        recordEdit(`name:${device.id}`);
+        setDevice(d => ({ ...d, name }));
+    }, [device.id, recordEdit, setDevice]);
+
+    const removeSelectedDevice = useCallback(() => {
+        if (devices.length <= 1) return;
+        recordEdit();
+        stopPlayback();
+        setDevices(ds => ds.filter(d => d.id !== device.id));
+    }, [devices.length, device.id, recordEdit, stopPlayback]);
+
+    const applyScaleCalibration = useCallback(() => {
+        try {
+            const scale = scaleFromReference(calibrationPoints[0], calibrationPoints[1], calibrationDistance);
+            setFrame(f => ({ ...f, pixelsPerMeter: scale }));
+            setCalibrationPoints([]);
+            setCalibrationMode('off');
+            setCalibrationError(null);
+        } catch (err) {
+            setCalibrationError((err as Error).message);
+        }
+    }, [calibrationPoints, calibrationDistance]);
+
+    // --- PATH-LOSS CALIBRATION ---
+    const pathLossSamples = useMemo(() => referencePoints.flatMap((point, pointIndex) =>
+        radios.filter(r => point.rssi[r.id] !== undefined).map(r => ({
+            sample: { radio: r, position: point.position, rssi: point.rssi[r.id] },
+            label: `P${pointIndex + 1} / ${r.label}`,
+        }))
+    ), [referencePoints, radios]);
+
+    const runPathLossFit = useCallback(() => {
+        try {
+            setPathLossFit(fitPathLossModel(pathLossSamples.map(s => s.sample), walls, { pixelsPerMeter, fitMaterials }));
+            setPathLossFitError(null);
+        } catch (err) {
+            setPathLossFit(null);
+            setPathLossFitError((err as Error).message);
+        }
+    }, [pathLossSamples, walls, pixelsPerMeter, fitMaterials]);
+
+    // Fills the reference points with what the ground-truth generator would measure there
+    const measureReferencePoints = useCallback(() => {
+        setReferencePoints(ps => ps.map(point => ({
+            ...point,
+            rssi: Object.fromEntries(radios.map(r => [r.id, calculateRSSI(slantDistance(r, { ...device, ...point.position }, pixelsPerMeter, building), r, { ...device, ...point.position }, walls, modelParams, Math.random, pixelsPerMeter)])),
+        })));
+    }, [radios, device, walls, modelParams, pixelsPerMeter, building]);
+
+    const setReferenceRSSI = (pointId: string, radioId: string, value: string) => {
+        const rssi = parseFloat(value);
+        setReferencePoints(ps => ps.map(point => {
+            if (point.id !== pointId) return point;
+            const { [radioId]: _, ...rest } = point.rssi;
+            return { ...point, rssi: isNaN(rssi) ? rest : { ...rest, [radioId]: rssi } };
+        }));
+    };
+
+    const handleReferenceImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const readings = parseReferenceReadings(e.target.result as string, frame);
+                const mapping = autoMapBeacons([...new Set(readings.map(r => r.beaconId))], radios);
+                const unknown = [...new Set(readings.filter(r => !mapping[r.beaconId]).map(r => r.beaconId))];
+                if (unknown.length > 0) throw new Error(`No radio with label or id: ${unknown.join(', ')}`);
+                // Readings taken at the same spot form one reference point
+                const points = new Map<string, ReferencePoint>();
+                readings.forEach(r => {
+                    const key = `${r.position.x.toFixed(3)},${r.position.y.toFixed(3)}`;
+                    const point = points.get(key) ?? { id: generateId(), position: r.position, rssi: {} };
+                    point.rssi[mapping[r.beaconId]] = r.rssi;
+                    points.set(key, point);
+                });
+                setReferencePoints(ps => [...ps, ...points.values()]);
+                setPathLossFitError(null);
+            } catch (err) {
+                setPathLossFitError((err as Error).message);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    const applyFitToWalls = useCallback(() => {
+        if (!pathLossFit) return;
+        recordEdit();
+        setWalls(ws => ws.map(w => {
+            const fitted = pathLossFit.materialAttenuation[w.material];
+            return fitted === undefined ? w : { ...w, attenuation: Math.max(0, fitted) };
+        }));
+    }, [pathLossFit, recordEdit]);
+
+    // --- FINGERPRINTING ---
+    // Surveys the current simulated world on the active floor; the map is not refreshed when the scene changes afterwards
+    const radioMapJobRef = useRef<WorkerJob<RadioMap> | null>(null);
+    useEffect(() => () => radioMapJobRef.current?.cancel(), []);
+
+    const generateRadioMap = useCallback(() => {
+        radioMapJobRef.current?.cancel();
+        const job = runInWorker({ kind: 'radioMap', radios, walls, device: { ...device, floor: activeFloor }, params: modelParams, options: {
+            ...siteOptions,
+            spacing: limitCellSize(siteArea.width, siteArea.height, radioMapSpacing * pixelsPerMeter, MAX_RADIO_MAP_POINTS),
+            samplesPerPoint: radioMapSamples,
+            pixelsPerMeter,
+        } });
+        radioMapJobRef.current = job;
+        setRadioMapComputing(true);
+        job.result.then(map => {
+            setRadioMap(map);
+            setRadioMapError(null);
+        }).catch(err => setRadioMapError((err as Error).message)).finally(() => {
+            if (radioMapJobRef.current !== job) return;
+            radioMapJobRef.current = null;
+            setRadioMapComputing(false);
+        });
+    }, [radios, walls, device, activeFloor, modelParams, siteArea, siteOptions, radioMapSpacing, radioMapSamples, pixelsPerMeter]);
+
+    const handleSurveyImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const readings = parseReferenceReadings(e.target.result as string, frame);
+                const mapping = autoMapBeacons([...new Set(readings.map(r => r.beaconId))], radios);
+                setRadioMap(radioMapFromSurvey(readings, mapping, activeFloor));
+                setRadioMapError(null);
+            } catch (err) {
+                setRadioMapError((err as Error).message);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    // --- WALL EDITING ---
+    const snapOptions = useMemo<SnapOptions>(() => ({
+        endpointRadius: snapToEndpoints ? 10 / view.zoom : 0,
+        gridSize: snapToGrid ? snapGridSize : 0,
+        angleStep: snapToAngle ? Math.PI / 12 : 0,
+        frame,
+    }), [snapToEndpoints, snapToGrid, snapGridSize, snapToAngle, frame, view.zoom]);
+
+    const selectedWalls = useMemo(() => walls.filter(w => selectedWallIds.includes(w.id)), [walls, selectedWallIds]);
+
+    useEffect(() => setWallEditError(null), [selectedWallIds]);
+
+    const updateSelectedWalls = useCallback((changes: Partial<Wall>, editKey: string | null = null) => {
+        recordEdit(editKey);
+        setWalls(ws => ws.map(w => selectedWallIds.includes(w.id) ? { ...w, ...changes } : w));
+    }, [selectedWallIds, recordEdit]);
+
+    const switchFloor = useCallback((level: number) => {
+        setActiveFloor(level);
+        setSelectedWallIds([]);
+        setSelectedRadioId(null);
     }, []);
 
+    const setDeviceFloor = useCallback((floor: number) => {
+        recordEdit();
+        setDevice(d => ({ ...d, floor }));
+    }, [recordEdit, setDevice]);
+
+    const addFloor = useCallback(() => {
+        setFloors(fs => [...fs, { id: generateId(), name: `Floor ${fs.length}`, image: null }]);
+        switchFloor(floors.length);
+    }, [floors.length, switchFloor]);
+
+    const topFloor = floors.length - 1;
+    const canRemoveTopFloor = floors.length > 1 && !radios.some(r => floorOf(r) === topFloor) && !devices.some(d => floorOf(d) === topFloor);
+
+    const removeTopFloor = useCallback(() => {
+        if (!canRemoveTopFloor) return;
+        recordEdit();
+        setWalls(ws => ws.filter(w => floorOf(w) !== topFloor));
+        setFloors(fs => fs.slice(0, -1));
+        switchFloor(Math.min(activeFloor, topFloor - 1));
+    }, [canRemoveTopFloor, topFloor, activeFloor, recordEdit, switchFloor]);
+
+    const updateChannel = useCallback((changes: Partial<ChannelModel>) => setChannelModel(c => ({ ...c, ...changes })), []);
+
+    const toggleBodyBlocking = useCallback(() => {
+        if (!channelModel.enableBodyBlocking) setDevices(ds => ds.map(d => d.heading === undefined ? { ...d, heading: 90 } : d));
+        updateChannel({ enableBodyBlocking: !channelModel.enableBodyBlocking });
+    }, [channelModel.enableBodyBlocking, updateChannel]);
+
+    const selectedRadio = useMemo(() => radios.find(r => r.id === selectedRadioId) ?? null, [radios, selectedRadioId]);
+
+    const updateSelectedRadio = useCallback((changes: Partial<Radio>, editKey: string | null = null) => {
+        recordEdit(editKey);
+        setRadios(rs => rs.map(r => r.id === selectedRadioId ? { ...r, ...changes } : r));
+    }, [selectedRadioId, recordEdit]);
+
+    const setSelectedWallMaterial = useCallback((material: WallMaterial) => {
+        const props = WALL_MATERIALS[material];
+        updateSelectedWalls({ material, attenuation: props.attenuation, color: props.color });
+    }, [updateSelectedWalls]);
+
+    const deleteSelectedWalls = useCallback(() => {
+        if (selectedWallIds.length === 0) return;
+        recordEdit();
+        setWalls(ws => ws.filter(w => !selectedWallIds.includes(w.id)));
+        setSelectedWallIds([]);
+    }, [selectedWallIds, recordEdit]);
+
+    const splitSelectedWall = useCallback(() => {
+        if (selectedWalls.length !== 1) return;
+        const wall = selectedWalls[0];
+        const midpoint = { x: (wall.start.x + wall.end.x) / 2, y: (wall.start.y + wall.end.y) / 2 };
+        const parts = splitWall(wall, midpoint, generateId);
+        if (!parts) {
+            setWallEditError('Wall is too short to split');
+            return;
+        }
+        recordEdit();
+        setWalls(ws => ws.flatMap(w => w.id === wall.id ? parts : [w]));
+        setSelectedWallIds(parts.map(p => p.id));
+        setWallEditError(null);
+    }, [selectedWalls, recordEdit]);
+
+    const joinSelectedWalls = useCallback(() => {
+        if (selectedWalls.length !== 2) return;
+        const [a, b] = selectedWalls;
+        const joined = joinWalls(a, b);
+        if (!joined) {
+            setWallEditError('Only touching, collinear walls can be joined');
+            return;
+        }
+        recordEdit();
+        setWalls(ws => ws.filter(w => w.id !== b.id).map(w => w.id === a.id ? joined : w));
+        setSelectedWallIds([joined.id]);
+        setWallEditError(null);
+    }, [selectedWalls, recordEdit]);
+
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement;
+            if (['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+            const mod = e.ctrlKey || e.metaKey;
+            if (mod && e.key.toLowerCase() === 'z') {
+                e.preventDefault();
+                if (e.shiftKey) redo(); else undo();
+            } else if (mod && e.key.toLowerCase() === 'y') {
+                e.preventDefault();
+                redo();
+            } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedWallIds.length > 0) {
+                e.preventDefault();
+                deleteSelectedWalls();
+            } else if (e.key === 'Escape') {
+                setSelectedWallIds([]);
+                setSelectedRadioId(null);
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo, deleteSelectedWalls, selectedWallIds]);
+
+    // Wheel zoom about the pointer; in the 3D view the orbit controls take the wheel
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas || view3D) return;
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            // Line-based deltas (Firefox) are roughly a third of a notch each
+            const notches = (e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 33 : e.deltaY) / 100;
+            const canvasPos = getCanvasPos(e);
+            setView(v => zoomViewAt(v, canvasPos, Math.pow(WHEEL_ZOOM_STEP, -notches), CANVAS_WIDTH, CANVAS_HEIGHT));
+        };
+        canvas.addEventListener('wheel', handleWheel, { passive: false });
+        return () => canvas.removeEventListener('wheel', handleWheel);
+    }, [view3D]);
+
     const handleMouseDown = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+        if (view3D) return;
         e.preventDefault();
-        const mousePos = getMousePos(e);
+        // Middle and right drags always pan
+        if (e.button !== 0) {
+            panRef.current = getCanvasPos(e);
+            return;
+        }
+        const mousePos = getMousePos(e, view);
+        if (calibrationMode === 'scale') {
+            setCalibrationPoints(p => p.length >= 2 ? [mousePos] : [...p, mousePos]);
+            return;
+        }
+        if (calibrationMode === 'origin') {
+            setFrame(f => ({ ...f, origin: mousePos }));
+            setCalibrationMode('off');
+            return;
+        }
+        if (placeTestPointMode) {
+            setTestPoints(ps => [...ps, mousePos]);
+            return;
+        }
+        if (placeReferenceMode) {
+            setReferencePoints(ps => [...ps, { id: generateId(), position: mousePos, rssi: {} }]);
+            return;
+        }
+        if (drawPathMode) {
+            setMotionPath(p => [...p, mousePos]);
+            return;
+        }
+        if (drawZoneMode) {
+            tempZoneRef.current = { start: mousePos, end: mousePos };
+            drawTempShapes();
+            return;
+        }
         if (drawWallMode) {
             if (!tempWallStartRef.current) {
-                tempWallStartRef.current = { start: mousePos, end: mousePos };
+                const start = snapPoint(mousePos, floorWalls, snapOptions).point;
+                tempWallStartRef.current = { start, end: start };
+                drawTempShapes();
             }
             return;
         }
 
-        const { camera, interactiveObjects } = threeRef.current;
-        if (!camera || !interactiveObjects) return;
+        const { camera, radiosGroup, deviceGroup, wallsGroup } = threeRef.current;
+        if (!camera) return;
+        const pickable = [radiosGroup, deviceGroup, wallsGroup].flatMap(group => group.children).filter(obj => obj.userData.pickable);
 
+        const canvasPos = getCanvasPos(e);
         const threeMouse = new THREE.Vector2(
-            (mousePos.x / CANVAS_WIDTH) * 2 - 1,
-            -(mousePos.y / CANVAS_HEIGHT) * 2 + 1
+            (canvasPos.x / CANVAS_WIDTH) * 2 - 1,
+            -(canvasPos.y / CANVAS_HEIGHT) * 2 + 1
         );
         const raycaster = new THREE.Raycaster();
+        // Lines are picked within a few screen pixels at any zoom
+        raycaster.params.Line = { threshold: 6 / view.zoom };
         raycaster.setFromCamera(threeMouse, camera);
-        const intersects = raycaster.intersectObjects(interactiveObjects);
-        if (intersects.length > 0) {
-            const obj = intersects[0].object;
-            const target = obj.userData.target;
-            draggingRef.current = {
-                type: obj.userData.type,
-                target,
-                offset: { x: target.x - mousePos.x, y: target.y - mousePos.y }
-            };
+        const intersects = raycaster.intersectObjects(pickable);
+        if (intersects.length === 0) {
+            // Clicking empty space deselects; dragging from it pans
+            if (!e.shiftKey) setSelectedWallIds([]);
+            setSelectedRadioId(null);
+            panRef.current = canvasPos;
+            return;
+        }
+        const obj = intersects[0].object;
+        const { type, target, endpoint } = obj.userData;
+        setSelectedRadioId(type === 'radio' ? target.id : null);
+        if (type === 'wall' && e.shiftKey) {
+            setSelectedWallIds(ids => ids.includes(target.id) ? ids.filter(id => id !== target.id) : [...ids, target.id]);
+            return;
         }
-    }, [drawWallMode]);
+        if (type === 'device') {
+            stopPlayback();
+            setSelectedDeviceId(target.id);
+        }
+        // Dragging a selected wall moves the whole selection; any other wall is selected on its own
+        const wallIds = type === 'wall' ? (selectedWallIds.includes(target.id) ? selectedWallIds : [target.id]) : undefined;
+        if (wallIds) setSelectedWallIds(wallIds);
+        const anchor: Vector2D = type === 'wall' ? target.start : type === 'wallEndpoint' ? target[endpoint] : target;
+        dragStartSceneRef.current = sceneRef.current;
+        draggingRef.current = {
+            type,
+            target,
+            endpoint,
+            wallIds,
+            offset: { x: anchor.x - mousePos.x, y: anchor.y - mousePos.y }
+        };
+    }, [view3D, view, drawWallMode, drawPathMode, drawZoneMode, calibrationMode, placeReferenceMode, placeTestPointMode, stopPlayback, floorWalls, snapOptions, selectedWallIds, drawTempShapes]);
     
     const handleMouseMove = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
         e.preventDefault();
-        const mousePos = getMousePos(e);
+        if (panRef.current) {
+            const canvasPos = getCanvasPos(e);
+            const last = panRef.current;
+            setView(v => panView(v, canvasPos.x - last.x, canvasPos.y - last.y));
+            panRef.current = canvasPos;
+            return;
+        }
+        const mousePos = getMousePos(e, view);
 
         if (drawWallMode && tempWallStartRef.current) {
-            tempWallStartRef.current = { ...tempWallStartRef.current, end: mousePos };
+            const end = snapPoint(mousePos, floorWalls, snapOptions, tempWallStartRef.current.start).point;
+            tempWallStartRef.current = { ...tempWallStartRef.current, end };
+            drawTempShapes();
+            return;
+        }
+        if (drawZoneMode && tempZoneRef.current) {
+            tempZoneRef.current = { ...tempZoneRef.current, end: mousePos };
+            drawTempShapes();
             return;
         }
 
         if (draggingRef.current) {
-            const { type, target, offset } = draggingRef.current;
+            const { type, target, offset, endpoint, wallIds } = draggingRef.current;
             const newPos = { x: mousePos.x + offset.x, y: mousePos.y + offset.y };
             
             if (type === 'device') {
-                setDevice(d => ({...d, ...newPos}));
+                setDevices(ds => ds.map(d => d.id === (target as TrackedDevice).id ? { ...d, ...newPos } : d));
             } else if (type === 'radio') {
                 setRadios(rs => rs.map(r => r.id === (target as Radio).id ? { ...r, ...newPos } : r));
+            } else if (type === 'wallEndpoint' && endpoint) {
+                const wall = target as Wall;
+                const fixed = endpoint === 'start' ? wall.end : wall.start;
+                const point = snapPoint(newPos, floorWalls, snapOptions, fixed, [wall.id]).point;
+                setWalls(ws => ws.map(w => w.id === wall.id ? { ...w, [endpoint]: point } : w));
+            } else if (type === 'wall' && wallIds && dragStartSceneRef.current) {
+                // Translate from the walls as they were when the drag started so snapping never accumulates
+                const wall = target as Wall;
+                const point = snapPoint(newPos, floorWalls, { ...snapOptions, angleStep: 0 }, null, wallIds).point;
+                const delta = { x: point.x - wall.start.x, y: point.y - wall.start.y };
+                setWalls(dragStartSceneRef.current.walls.map(w => wallIds.includes(w.id) ? translateWall(w, delta) : w));
             }
         }
-    }, [drawWallMode]);
+    }, [view, drawWallMode, drawZoneMode, floorWalls, snapOptions, drawTempShapes]);
     
     const handleMouseUp = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
         e.preventDefault();
+        panRef.current = null;
         if (drawWallMode && tempWallStartRef.current) {
-            const end = getMousePos(e);
-            const start = tempWallStartRef.current.start;
+            const { start, end } = tempWallStartRef.current;
             if (distance(start, end) > 10) {
-                const material: WallMaterial = 'drywall';
+                const material = newWallMaterial;
                 const props = WALL_MATERIALS[material];
-                const newWall: Wall = { id: generateId(), start, end, material, attenuation: props.attenuation, color: props.color };
+                const newWall: Wall = { id: generateId(), start, end, material, attenuation: props.attenuation, color: props.color, floor: activeFloor };
+                recordEdit();
                 setWalls(w => [...w, newWall]);
+                setSelectedWallIds([newWall.id]);
             }
             tempWallStartRef.current = null;
             setDrawWallMode(false);
         }
+        if (drawZoneMode && tempZoneRef.current) {
+            const { start } = tempZoneRef.current;
+            const end = getMousePos(e, view);
+            const width = Math.abs(end.x - start.x);
+            const height = Math.abs(end.y - start.y);
+            if (width > 10 && height > 10) {
+                recordEdit();
+                setMountingZones(z => [...z, { id: generateId(), x: Math.min(start.x, end.x), y: Math.min(start.y, end.y), width, height }]);
+            }
+            tempZoneRef.current = null;
+            drawTempShapes();
+        }
+        if (draggingRef.current && dragStartSceneRef.current) {
+            // A click without movement leaves the scene untouched and adds no undo step
+            const before = dragStartSceneRef.current;
+            const now = sceneRef.current;
+            if (before.radios !== now.radios || before.walls !== now.walls || before.devices !== now.devices) recordEdit(null, before);
+        }
+        dragStartSceneRef.current = null;
         draggingRef.current = null;
-    }, [drawWallMode]);
+    }, [view, drawWallMode, drawZoneMode, newWallMaterial, recordEdit, activeFloor, drawTempShapes]);
     
+    // --- SCENARIO FILES ---
+    const loadFloorPlanImage = useCallback((src: string | null) => {
+        if (!src) {
+            floorPlanRef.current.texture?.dispose();
+            floorPlanRef.current = { ...floorPlanRef.current, image: null, texture: null };
+            setFloorPlanVersion(v => v + 1);
+            return;
+        }
+        const img = new Image();
+        // Referenced images must allow CORS to be used as a texture
+        if (!src.startsWith('data:')) img.crossOrigin = 'anonymous';
+        img.onload = () => {
+            const texture = new THREE.Texture(img);
+            texture.needsUpdate = true;
+            floorPlanRef.current.texture?.dispose();
+            floorPlanRef.current = { ...floorPlanRef.current, image: img, texture };
+            setFloorPlanVersion(v => v + 1);
+        };
+        img.onerror = () => setScenarioErrors([`Could not load floor plan image from ${src.startsWith('data:') ? 'embedded data' : src}`]);
+        img.src = src;
+    }, []);
+
+    // The canvas shows the plan of the floor being edited
+    const activeFloorImage = floors[activeFloor]?.image ?? null;
+    const activeFloorBackground = floors[activeFloor]?.background;
+    useEffect(() => {
+        loadFloorPlanImage(activeFloorImage);
+    }, [activeFloorImage, loadFloorPlanImage]);
+
+    const setActiveFloorImage = useCallback((src: string | null) => {
+        setFloors(fs => fs.map((f, i) => i === activeFloor ? { ...f, image: src } : f));
+    }, [activeFloor]);
+
+    const scenario = useMemo(() => ({
+        radios,
+        walls,
+        devices,
+        model: modelParams,
+        // Omitted while the estimator simply assumes the true model
+        receiver: receiverModel || assumeWallsKnown ? receiver : null,
+        minRSSI,
+        floors,
+        floorPlan: { ...frame, opacity: floorPlanOpacity, show: showFloorPlan },
+    }), [radios, walls, devices, modelParams, receiverModel, assumeWallsKnown, receiver, minRSSI, floors, frame, floorPlanOpacity, showFloorPlan]);
+
+    const applyScenario = useCallback((text: string) => {
+        const loaded = parseScenario(text);
+        setRadios(loaded.radios);
+        setWalls(loaded.walls);
+        setDevices(loaded.devices);
+        setSelectedDeviceId(loaded.devices[0].id);
+        setTxPower(loaded.model.txPower);
+        setPathLossExponent(loaded.model.pathLossExponent);
+        setEnableWalls(loaded.model.enableWalls);
+        setEnableAngleEffect(loaded.model.enableAngleEffect);
+        setEnableCumulativeEffect(loaded.model.enableCumulativeEffect);
+        setEnableNoise(loaded.model.enableNoise);
+        setNoiseStdDev(loaded.model.noiseStdDev);
+        setChannelModel(loaded.model.channel ?? DEFAULT_CHANNEL_MODEL);
+        const assumed = loaded.receiver;
+        const linked = !assumed || (assumed.txPower === loaded.model.txPower && assumed.pathLossExponent === loaded.model.pathLossExponent);
+        setReceiverModel(linked ? null : { txPower: assumed.txPower, pathLossExponent: assumed.pathLossExponent });
+        setAssumeWallsKnown(!!assumed?.compensateWalls);
+        setMinRSSI(loaded.minRSSI);
+        setFrame({ pixelsPerMeter: loaded.floorPlan.pixelsPerMeter, origin: loaded.floorPlan.origin, rotation: loaded.floorPlan.rotation });
+        setFloorPlanOpacity(loaded.floorPlan.opacity);
+        setShowFloorPlan(loaded.floorPlan.show);
+        setFloors(loaded.floors);
+        setActiveFloor(0);
+        setFloorAttenuation((loaded.model.building ?? DEFAULT_BUILDING_MODEL).floorAttenuation);
+        setStoreyHeight((loaded.model.building ?? DEFAULT_BUILDING_MODEL).storeyHeight);
+        setScenarioErrors([]);
+    }, []);
+
+    const reportScenarioError = (err: unknown, heading?: string) => {
+        const issues = err instanceof ScenarioValidationError ? err.issues : [(err as Error).message];
+        setScenarioErrors(heading ? [heading, ...issues] : issues);
+    };
+
+    const exportScenario = useCallback(() => {
+        downloadText(serializeScenario(scenario), 'scenario.json', 'application/json');
+    }, [scenario]);
+
+    // --- SNAPSHOT & RESULT EXPORTS ---
+    const { snapshot } = scene;
+    const exportPNG = useCallback(() => {
+        const url = snapshot();
+        if (url) downloadURL(url, 'scene.png');
+    }, [snapshot]);
+
+    const exportSVG = useCallback(() => {
+        // The area the canvas shows, as the PNG does
+        downloadText(sceneToSVG({
+            origin: { x: viewArea.x, y: viewArea.y },
+            width: viewArea.width,
+            height: viewArea.height,
+            walls: floorWalls,
+            radios: radios.filter(r => floorOf(r) === activeFloor),
+            device: { x: activeDevice.x, y: activeDevice.y, radius: device.radius, color: device.color },
+            otherDevices: devices.filter(d => d.id !== device.id && floorOf(d) === activeFloor)
+                .map(d => ({ position: d, radius: d.radius, color: d.color, estimate: deviceFixes.get(d.id).position })),
+            ranges: simulation.rangedMeasurements.map(m => ({ center: m.radio, radius: m.estimatedDistance * pixelsPerMeter })),
+            estimates: simulation.estimates.filter(e => e.result).map(e => ({ position: e.result.position, color: SOLVERS[e.solverId].color })),
+            background: showFloorPlan ? activeFloorBackground : undefined,
+        }), 'scene.svg', 'image/svg+xml');
+    }, [viewArea, floorWalls, radios, activeFloor, activeDevice, device, devices, deviceFixes, simulation, pixelsPerMeter, showFloorPlan, activeFloorBackground]);
+
+    const exportGeoJSON = useCallback(() => {
+        downloadText(sceneToGeoJSON(walls, radios, frame), 'scene.geojson', 'application/geo+json');
+    }, [walls, radios, frame]);
+
+    const exportMeasurements = useCallback(() => {
+        downloadText(measurementsToCSV(measurements, radioDiagnostics, estimatedPosition, hasGroundTruth ? activeDevice : null, frame), 'measurements.csv', 'text/csv');
+    }, [measurements, radioDiagnostics, estimatedPosition, hasGroundTruth, activeDevice, frame]);
+
+    const handleScenarioImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const before = sceneRef.current;
+                applyScenario(e.target.result as string);
+                recordEdit(null, before);
+            } catch (err) {
+                reportScenarioError(err);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
+
+    // Restore the last session once the default scene has been set up
+    useEffect(() => {
+        const saved = localStorage.getItem(AUTOSAVE_KEY);
+        if (!saved) return;
+        try {
+            applyScenario(saved);
+        } catch (err) {
+            reportScenarioError(err, 'The autosaved scenario was invalid and has been ignored:');
+        }
+    }, [applyScenario]);
+
+    useEffect(() => {
+        const timeoutId = setTimeout(() => {
+            const time = new Date().toLocaleTimeString();
+            try {
+                localStorage.setItem(AUTOSAVE_KEY, serializeScenario(scenario));
+                setAutosaveStatus(`Autosaved at ${time}`);
+            } catch {
+                // Embedded floor plan images can exceed the storage quota; keep everything else
+                try {
+                    localStorage.setItem(AUTOSAVE_KEY, serializeScenario({ ...scenario, floors: scenario.floors.map(f => ({ ...f, image: null })) }));
+                    setAutosaveStatus(`Autosaved at ${time} without the floor plan images (too large)`);
+                } catch {
+                    setAutosaveStatus('Autosave failed: browser storage is full');
+                }
+            }
+        }, AUTOSAVE_DELAY_MS);
+        return () => clearTimeout(timeoutId);
+    }, [scenario]);
+
     // --- FILE & OPENCV HANDLERS ---
     const handleFloorPlanUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
         const file = event.target.files?.[0];
         if (!file) return;
         const reader = new FileReader();
         reader.onload = (e) => {
-            const img = new Image();
-            img.onload = () => {
-                const texture = new THREE.Texture(img);
-                texture.needsUpdate = true;
-                floorPlanRef.current = { ...floorPlanRef.current, image: img, texture };
-                setShowFloorPlan(true);
-            };
-            img.src = e.target.result as string;
+            setActiveFloorImage(e.target.result as string);
+            setShowFloorPlan(true);
         };
         reader.readAsDataURL(file);
     };
 
-    const detectWalls = useCallback(() => {
-        if (!opencvReady || !floorPlanRef.current.image) return;
-        
-        const tempCanvas = document.createElement('canvas');
-        tempCanvas.width = CANVAS_WIDTH;
-        tempCanvas.height = CANVAS_HEIGHT;
-        const ctx = tempCanvas.getContext('2d');
-        if (!ctx) return;
-        ctx.drawImage(floorPlanRef.current.image, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-        
-        const src = cv.imread(tempCanvas);
-        const gray = new cv.Mat();
-        cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY, 0);
-        cv.GaussianBlur(gray, gray, new cv.Size(5, 5), 0, 0, cv.BORDER_DEFAULT);
-        const edges = new cv.Mat();
-        cv.Canny(gray, edges, 50, 150, 3, false);
-        const lines = new cv.Mat();
-        cv.HoughLinesP(edges, lines, 1, Math.PI / 180, 50, 50, 10);
+    const handleVectorPlanUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (e) => {
+            try {
+                const plan = parseVectorPlan(e.target.result as string, file.name);
+                const { width, height } = planToMeters(plan, plan.units);
+                if (width === 0 && height === 0) throw new Error('The plan has no extent');
+                setVectorImport({ plan, name: file.name, units: plan.units, assignments: Object.fromEntries(plan.layers.map(l => [l, suggestLayerAssignment(l)])), usePlanFrame: true });
+                setVectorImportError(null);
+            } catch (err) {
+                setVectorImport(null);
+                setVectorImportError((err as Error).message);
+            }
+        };
+        reader.readAsText(file);
+        event.target.value = '';
+    };
 
-        const newWalls: Wall[] = [];
-        const material = wallDetectionMaterial;
-        const props = WALL_MATERIALS[material];
-        for (let i = 0; i < lines.rows; ++i) {
-            const start = { x: lines.data32S[i * 4], y: lines.data32S[i * 4 + 1] };
-            const end = { x: lines.data32S[i * 4 + 2], y: lines.data32S[i * 4 + 3] };
-            newWalls.push({ id: generateId(), start, end, material, attenuation: props.attenuation, color: props.color });
-        }
-        setWalls(newWalls);
+    // The reviewed plan in meters and in the scene, at the current scale from the plan's corner or through the current frame
+    const vectorPlacement = useMemo(() => {
+        if (!vectorImport) return null;
+        const meters = planToMeters(vectorImport.plan, vectorImport.units);
+        const target = vectorImport.usePlanFrame ? planFrame(frame.pixelsPerMeter) : frame;
+        return { width: meters.width, height: meters.height, frame: target, ...placeVectorPlan(meters.segments, vectorImport.assignments, target, generateId) };
+    }, [vectorImport, frame]);
 
-        src.delete(); gray.delete(); edges.delete(); lines.delete();
-    }, [opencvReady, wallDetectionMaterial]);
-    
+    const applyVectorImport = useCallback(() => {
+        if (!vectorImport || !vectorPlacement) return;
+        recordEdit();
+        if (vectorImport.usePlanFrame) setFrame(vectorPlacement.frame);
+        const placed = boundsOfPoints([...vectorPlacement.walls, ...vectorPlacement.background].flatMap(s => [s.start, s.end]));
+        if (placed) setView(fitViewToArea(placed, CANVAS_WIDTH, CANVAS_HEIGHT));
+        replaceFloorWalls(activeFloor, vectorPlacement.walls);
+        setFloors(fs => fs.map((f, i) => i === activeFloor ? { ...f, background: vectorPlacement.background } : f));
+        setSelectedWallIds([]);
+        setShowFloorPlan(true);
+        setVectorImport(null);
+    }, [vectorImport, vectorPlacement, recordEdit, replaceFloorWalls, activeFloor]);
+
+    const clearActiveFloorBackground = useCallback(() => {
+        setFloors(fs => fs.map((f, i) => {
+            if (i !== activeFloor) return f;
+            const { background, ...rest } = f;
+            return rest;
+        }));
+    }, [activeFloor]);
+
+    // Everything placed and the devices, with a meter to spare
+    const fitViewToContent = useCallback(() => {
+        const points: Vector2D[] = [activeDevice, ...devices];
+        if (contentArea) points.push({ x: contentArea.x, y: contentArea.y }, { x: contentArea.x + contentArea.width, y: contentArea.y + contentArea.height });
+        setView(fitViewToArea(padRect(boundsOfPoints(points), pixelsPerMeter), CANVAS_WIDTH, CANVAS_HEIGHT));
+    }, [activeDevice, devices, contentArea, pixelsPerMeter]);
+    const zoomAtCenter = useCallback((factor: number) => {
+        setView(v => zoomViewAt(v, { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 }, factor, CANVAS_WIDTH, CANVAS_HEIGHT));
+    }, []);
+
+    // Line work of the active floor; while an import is reviewed, its preview instead
+    useBackgroundLayer(scene, {
+        lines: vectorPlacement ? vectorPlacement.background : showFloorPlan ? activeFloorBackground ?? NO_SEGMENTS : NO_SEGMENTS,
+        walls: vectorPlacement?.walls ?? NO_WALLS,
+        opacity: floorPlanOpacity,
+    });
+
+    // Live preview: the image stage reruns shortly after one of its parameters changes
+    const { cannyLow, cannyHigh, houghThreshold, minLineLength, maxLineGap, inkThreshold } = wallDetectionOptions;
     useEffect(() => {
-        floorPlanRef.current.opacity = floorPlanOpacity;
-    }, [floorPlanOpacity]);
-    
+        const { image } = floorPlanRef.current;
+        if (!reviewingDetection || !opencvReady || !image) return;
+        const id = window.setTimeout(() => setWallDetection(extractWallSegments(image, wallDetectionOptions)), 150);
+        return () => clearTimeout(id);
+    }, [reviewingDetection, opencvReady, floorPlanVersion, cannyLow, cannyHigh, houghThreshold, minLineLength, maxLineGap, inkThreshold]);
+
+    const detectedWalls = useMemo(() => wallDetection
+        ? refineDetectedSegments(wallDetection.segments, wallDetection.mask, { ...wallDetectionOptions, pixelsPerMeter })
+        : [], [wallDetection, wallDetectionOptions, pixelsPerMeter]);
+    // Edits refer to walls by index, so they do not survive a new detection
     useEffect(() => {
-        floorPlanRef.current.show = showFloorPlan;
-    }, [showFloorPlan]);
+        setDetectionEdits({ excluded: [], materials: {} });
+        setHighlightedDetection(null);
+    }, [detectedWalls]);
+
+    const updateDetectionOptions = useCallback((update: Partial<WallDetectionOptions>) => setWallDetectionOptions(o => ({ ...o, ...update })), []);
+
+    const closeWallDetection = useCallback(() => {
+        setReviewingDetection(false);
+        setWallDetection(null);
+    }, []);
+
+    const acceptDetectedWalls = useCallback(() => {
+        const newWalls: Wall[] = detectedWalls.flatMap((wall, i) => {
+            if (detectionEdits.excluded.includes(i)) return [];
+            const material = detectionEdits.materials[i] ?? wall.material;
+            const props = WALL_MATERIALS[material];
+            return [{ id: generateId(), start: wall.start, end: wall.end, material, attenuation: props.attenuation, color: props.color }];
+        });
+        recordEdit();
+        replaceFloorWalls(activeFloor, newWalls);
+        setSelectedWallIds([]);
+        closeWallDetection();
+    }, [detectedWalls, detectionEdits, recordEdit, replaceFloorWalls, activeFloor, closeWallDetection]);
+
+    useDetectionLayer(scene, {
+        walls: reviewingDetection ? detectedWalls : NO_DETECTED_WALLS,
+        excluded: detectionEdits.excluded,
+        materials: detectionEdits.materials,
+        highlighted: highlightedDetection,
+    });
 
 
     return (
@@ -636,80 +1655,333 @@ const App: React.FC = () => {
           </header>
           <div className="flex-grow p-4 flex flex-col md:flex-row gap-4 max-w-screen-2xl mx-auto w-full">
               <Sidebar position="left">
-                <SidebarSection title="Simulation Setup">
-                    <ControlGroup label={`Number of Radios: ${numRadios}`}>
-                        <Slider id="numRadios" value={numRadios} min={3} max={6} step={1} onChange={setNumRadios} />
-                    </ControlGroup>
-                </SidebarSection>
-                <SidebarSection title="RSSI Model">
-                     <ControlGroup label="Tx Power @ 1m">
-                        <Slider id="txPower" value={txPower} min={-80} max={-30} step={1} onChange={setTxPower} unit=" dBm" />
-                    </ControlGroup>
-                     <ControlGroup label="Path Loss Exponent (n)">
-                        <Slider id="pathLossExponent" value={pathLossExponent} min={2.0} max={4.0} step={0.1} onChange={setPathLossExponent} />
-                    </ControlGroup>
-                    <ControlGroup label="Min Detection RSSI">
-                        <Slider id="minRSSI" value={minRSSI} min={-120} max={-60} step={1} onChange={setMinRSSI} unit=" dBm" />
-                    </ControlGroup>
-                </SidebarSection>
-                <SidebarSection title="Environmental Effects">
-                    <div className="flex items-center justify-between">
-                        <label htmlFor="enableNoise" className="text-sm font-medium text-gray-300">Enable Noise</label>
-                        <button onClick={() => setEnableNoise(!enableNoise)} className={`px-4 py-1 rounded ${enableNoise ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableNoise ? 'On' : 'Off'}</button>
-                    </div>
-                    {enableNoise && (
-                        <ControlGroup label="Noise Standard Deviation">
-                            <Slider id="noiseStdDev" value={noiseStdDev} min={0} max={10} step={0.5} onChange={setNoiseStdDev} unit=" dB" />
-                        </ControlGroup>
-                    )}
-                     <div className="flex items-center justify-between">
-                        <label htmlFor="enableWalls" className="text-sm font-medium text-gray-300">Enable Walls</label>
-                        <button onClick={() => setEnableWalls(!enableWalls)} className={`px-4 py-1 rounded ${enableWalls ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableWalls ? 'On' : 'Off'}</button>
-                    </div>
-                    {enableWalls && <>
-                        <div className="flex items-center justify-between">
-                            <label className="text-sm font-medium text-gray-300">Angle Effect</label>
-                            <button onClick={() => setEnableAngleEffect(!enableAngleEffect)} className={`px-4 py-1 rounded ${enableAngleEffect ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableAngleEffect ? 'On' : 'Off'}</button>
-                        </div>
-                        <div className="flex items-center justify-between">
-                            <label className="text-sm font-medium text-gray-300">Cumulative Effect</label>
-                            <button onClick={() => setEnableCumulativeEffect(!enableCumulativeEffect)} className={`px-4 py-1 rounded ${enableCumulativeEffect ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableCumulativeEffect ? 'On' : 'Off'}</button>
-                        </div>
-                    </>}
-                </SidebarSection>
-                <SidebarSection title="Wall Editor">
-                    <div className="grid grid-cols-2 gap-2">
-                        <button onClick={() => setDrawWallMode(true)} disabled={drawWallMode} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
-                            Draw Wall
-                        </button>
-                         <button onClick={() => setWalls([])} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded">
-                            Clear Walls
-                        </button>
-                         <button onClick={resetWalls} className="bg-yellow-600 hover:bg-yellow-500 text-white font-bold py-2 px-4 rounded col-span-2">
-                            Reset to Demo
-                        </button>
-                    </div>
-                </SidebarSection>
-                <SidebarSection title="Floor Plan">
-                     <ControlGroup label="Upload Image">
-                        <input type="file" accept="image/*" onChange={handleFloorPlanUpload} className="text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-cyan-50 file:text-cyan-700 hover:file:bg-cyan-100"/>
-                    </ControlGroup>
-                     <div className="flex items-center justify-between">
-                        <label className="text-sm font-medium text-gray-300">Show Floor Plan</label>
-                        <button onClick={() => setShowFloorPlan(!showFloorPlan)} className={`px-4 py-1 rounded ${showFloorPlan ? 'bg-cyan-500' : 'bg-gray-600'}`}>{showFloorPlan ? 'On' : 'Off'}</button>
-                    </div>
-                     <ControlGroup label="Opacity">
-                        <Slider id="floorPlanOpacity" value={floorPlanOpacity} min={0.1} max={1.0} step={0.1} onChange={setFloorPlanOpacity} />
-                    </ControlGroup>
-                     <ControlGroup label="Wall Material for Detection">
-                        <select value={wallDetectionMaterial} onChange={(e) => setWallDetectionMaterial(e.target.value as WallMaterial)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
-                            {Object.entries(WALL_MATERIALS).map(([key, value]) => <option key={key} value={key}>{value.name}</option>)}
-                        </select>
-                    </ControlGroup>
-                    <button onClick={detectWalls} disabled={!opencvReady || !floorPlanRef.current.image} className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
-                        Detect Walls from Image
-                    </button>
-                </SidebarSection>
+                <ScenarioSection
+                    onExport={exportScenario}
+                    onImport={handleScenarioImport}
+                    onUndo={undo}
+                    onRedo={redo}
+                    canUndo={history.past.length > 0}
+                    canRedo={history.future.length > 0}
+                    errors={scenarioErrors}
+                    autosaveStatus={autosaveStatus}
+                />
+                <ExportSection
+                    onExportPNG={exportPNG}
+                    onExportSVG={exportSVG}
+                    onExportGeoJSON={exportGeoJSON}
+                    onExportMeasurements={exportMeasurements}
+                />
+                <SimulationSetupSection numRadios={numRadios} setNumRadios={setNumRadios} />
+                <ViewSection
+                    zoom={view.zoom}
+                    gridStep={gridStep}
+                    view3D={view3D}
+                    zoomIn={() => zoomAtCenter(WHEEL_ZOOM_STEP)}
+                    zoomOut={() => zoomAtCenter(1 / WHEEL_ZOOM_STEP)}
+                    fitViewToContent={fitViewToContent}
+                    resetView={() => setView(defaultView(CANVAS_WIDTH, CANVAS_HEIGHT))}
+                    siteSize={{ width: siteWorldBounds.maxX - siteWorldBounds.minX, height: siteWorldBounds.maxY - siteWorldBounds.minY }}
+                />
+                <FloorsSection
+                    floors={floors}
+                    activeFloor={activeFloor}
+                    radios={radios}
+                    devices={devices}
+                    device={device}
+                    switchFloor={switchFloor}
+                    setFloors={setFloors}
+                    addFloor={addFloor}
+                    removeTopFloor={removeTopFloor}
+                    canRemoveTopFloor={canRemoveTopFloor}
+                    floorAttenuation={floorAttenuation}
+                    setFloorAttenuation={setFloorAttenuation}
+                    storeyHeight={storeyHeight}
+                    setStoreyHeight={setStoreyHeight}
+                    setDeviceFloor={setDeviceFloor}
+                    setDevice={setDevice}
+                    view3D={view3D}
+                    setView3D={setView3D}
+                />
+                {selectedRadio && (
+                    <RadioInspectorSection
+                        radio={selectedRadio}
+                        floors={floors}
+                        storeyHeight={storeyHeight}
+                        txPower={txPower}
+                        advertisingInterval={advertisingInterval}
+                        onChange={updateSelectedRadio}
+                    />
+                )}
+                <TruePropagationModelSection
+                    txPower={txPower}
+                    setTxPower={setTxPower}
+                    pathLossExponent={pathLossExponent}
+                    setPathLossExponent={setPathLossExponent}
+                    minRSSI={minRSSI}
+                    setMinRSSI={setMinRSSI}
+                />
+                <AssumedModelSection
+                    receiverModel={receiverModel}
+                    setReceiverModel={setReceiverModel}
+                    txPower={txPower}
+                    pathLossExponent={pathLossExponent}
+                    assumeWallsKnown={assumeWallsKnown}
+                    setAssumeWallsKnown={setAssumeWallsKnown}
+                />
+                <PositionSolverSection
+                    solverId={solverId}
+                    setSolverId={setSolverId}
+                    compareSolverIds={compareSolverIds}
+                    setCompareSolverIds={setCompareSolverIds}
+                    maxIterations={maxIterations}
+                    setMaxIterations={setMaxIterations}
+                    convergenceThreshold={convergenceThreshold}
+                    setConvergenceThreshold={setConvergenceThreshold}
+                    robustMethod={robustMethod}
+                    setRobustMethod={setRobustMethod}
+                    inlierThreshold={inlierThreshold}
+                    setInlierThreshold={setInlierThreshold}
+                />
+                <EnvironmentalEffectsSection
+                    enableNoise={enableNoise}
+                    setEnableNoise={setEnableNoise}
+                    noiseStdDev={noiseStdDev}
+                    setNoiseStdDev={setNoiseStdDev}
+                    enableWalls={enableWalls}
+                    setEnableWalls={setEnableWalls}
+                    enableAngleEffect={enableAngleEffect}
+                    setEnableAngleEffect={setEnableAngleEffect}
+                    enableCumulativeEffect={enableCumulativeEffect}
+                    setEnableCumulativeEffect={setEnableCumulativeEffect}
+                    channelModel={channelModel}
+                    updateChannel={updateChannel}
+                    toggleBodyBlocking={toggleBodyBlocking}
+                    deviceHeading={device.heading}
+                    setDeviceHeading={heading => setDevice(d => ({ ...d, heading }))}
+                />
+                <PathLossCalibrationSection
+                    placeReferenceMode={placeReferenceMode}
+                    setPlaceReferenceMode={setPlaceReferenceMode}
+                    onImport={handleReferenceImport}
+                    measureReferencePoints={measureReferencePoints}
+                    referencePoints={referencePoints}
+                    setReferencePoints={setReferencePoints}
+                    setReferenceRSSI={setReferenceRSSI}
+                    radios={radios}
+                    frame={frame}
+                    fitMaterials={fitMaterials}
+                    setFitMaterials={setFitMaterials}
+                    runPathLossFit={runPathLossFit}
+                    pathLossSamples={pathLossSamples}
+                    pathLossFit={pathLossFit}
+                    setPathLossFit={setPathLossFit}
+                    pathLossFitError={pathLossFitError}
+                    setReceiverModel={setReceiverModel}
+                    applyFitToWalls={applyFitToWalls}
+                />
+                <FingerprintingSection
+                    radioMapSpacing={radioMapSpacing}
+                    setRadioMapSpacing={setRadioMapSpacing}
+                    radioMapSamples={radioMapSamples}
+                    setRadioMapSamples={setRadioMapSamples}
+                    generateRadioMap={generateRadioMap}
+                    canGenerate={radios.length > 0}
+                    radioMapComputing={radioMapComputing}
+                    onImport={handleSurveyImport}
+                    radioMap={radioMap}
+                    setRadioMap={setRadioMap}
+                    radioMapError={radioMapError}
+                    fingerprintMethod={fingerprintMethod}
+                    setFingerprintMethod={setFingerprintMethod}
+                    fingerprintK={fingerprintK}
+                    setFingerprintK={setFingerprintK}
+                    showRadioMap={showRadioMap}
+                    setShowRadioMap={setShowRadioMap}
+                />
+                <WallEditorSection
+                    newWallMaterial={newWallMaterial}
+                    setNewWallMaterial={setNewWallMaterial}
+                    drawWallMode={drawWallMode}
+                    setDrawWallMode={setDrawWallMode}
+                    clearWalls={() => { recordEdit(); replaceFloorWalls(activeFloor, []); setSelectedWallIds([]); }}
+                    resetWalls={() => { recordEdit(); resetWalls(activeFloor); setSelectedWallIds([]); }}
+                    snapToEndpoints={snapToEndpoints}
+                    setSnapToEndpoints={setSnapToEndpoints}
+                    snapToAngle={snapToAngle}
+                    setSnapToAngle={setSnapToAngle}
+                    snapToGrid={snapToGrid}
+                    setSnapToGrid={setSnapToGrid}
+                    snapGridSize={snapGridSize}
+                    setSnapGridSize={setSnapGridSize}
+                    selectedWalls={selectedWalls}
+                    selectedWallIds={selectedWallIds}
+                    pixelsPerMeter={pixelsPerMeter}
+                    setSelectedWallMaterial={setSelectedWallMaterial}
+                    updateSelectedWalls={updateSelectedWalls}
+                    splitSelectedWall={splitSelectedWall}
+                    joinSelectedWalls={joinSelectedWalls}
+                    deleteSelectedWalls={deleteSelectedWalls}
+                    wallEditError={wallEditError}
+                />
+                <MotionPathSection
+                    drawPathMode={drawPathMode}
+                    setDrawPathMode={setDrawPathMode}
+                    setMotionPath={setMotionPath}
+                    onImport={handlePathImport}
+                    pathImportError={pathImportError}
+                    walkingSpeed={walkingSpeed}
+                    setWalkingSpeed={setWalkingSpeed}
+                    advertisingInterval={advertisingInterval}
+                    setAdvertisingInterval={setAdvertisingInterval}
+                    trackingFilterId={trackingFilterId}
+                    setTrackingFilterId={setTrackingFilterId}
+                    rssiWindowSize={rssiWindowSize}
+                    setRssiWindowSize={setRssiWindowSize}
+                    hasTrack={trackSamples.length > 0}
+                    trackDuration={trackDuration}
+                    playbackTime={playbackTime}
+                    setPlaybackTime={setPlaybackTime}
+                    isPlaying={isPlaying}
+                    setIsPlaying={setIsPlaying}
+                    onPlayPause={handlePlayPause}
+                    stopPlayback={stopPlayback}
+                />
+                <LogReplaySection
+                    onImport={handleLogImport}
+                    clearLog={() => { stopLogReplay(); setRssiLog(null); setBeaconMapping({}); }}
+                    logImportError={logImportError}
+                    logReplayError={logReplayError}
+                    rssiLog={rssiLog}
+                    logWindow={logWindow}
+                    setLogWindow={setLogWindow}
+                    beaconMapping={beaconMapping}
+                    setBeaconMapping={setBeaconMapping}
+                    radios={radios}
+                    logTime={logTime}
+                    setLogTime={setLogTime}
+                    logDuration={logDuration}
+                    hasSamples={logSamples.length > 0}
+                    isLogPlaying={isLogPlaying}
+                    setIsLogPlaying={setIsLogPlaying}
+                    onPlayPause={handleLogPlayPause}
+                    stopLogReplay={stopLogReplay}
+                    stopPlayback={stopPlayback}
+                    logSummary={logSummary}
+                />
+                <ErrorHeatmapSection
+                    heatmapCellSize={heatmapCellSize}
+                    setHeatmapCellSize={setHeatmapCellSize}
+                    showTrials={enableNoise || channelModel.fading !== 'none'}
+                    heatmapTrials={heatmapTrials}
+                    setHeatmapTrials={setHeatmapTrials}
+                    heatmapMetric={heatmapMetric}
+                    setHeatmapMetric={setHeatmapMetric}
+                    heatmapScaleMax={heatmapScaleMax}
+                    setHeatmapScaleMax={setHeatmapScaleMax}
+                    showHeatmap={showHeatmap}
+                    setShowHeatmap={setShowHeatmap}
+                    computeHeatmap={computeHeatmap}
+                    heatmapComputing={heatmapComputing}
+                    errorMap={errorMap}
+                    setErrorMap={setErrorMap}
+                    heatmapError={heatmapError}
+                    heatmapSummary={heatmapSummary}
+                    heatmapStale={heatmapStale}
+                />
+                <CoverageSection
+                    coverageMode={coverageMode}
+                    setCoverageMode={setCoverageMode}
+                    radios={radios}
+                    coverageRadio={coverageRadio}
+                    setCoverageRadioId={setCoverageRadioId}
+                    coverageError={coverageError}
+                    coverageGrid={coverageGrid}
+                />
+                <PlacementOptimizerSection
+                    optimizerObjective={optimizerObjective}
+                    setOptimizerObjective={setOptimizerObjective}
+                    optimizerBudget={optimizerBudget}
+                    setOptimizerBudget={setOptimizerBudget}
+                    optimizerIterations={optimizerIterations}
+                    setOptimizerIterations={setOptimizerIterations}
+                    zoneCount={mountingZones.length}
+                    drawZoneMode={drawZoneMode}
+                    setDrawZoneMode={setDrawZoneMode}
+                    clearZones={() => { recordEdit(); setMountingZones([]); }}
+                    optimizerRunning={optimizerRunning}
+                    startOptimizer={startOptimizer}
+                    stopOptimizer={stopOptimizer}
+                    optimizerProgress={optimizerProgress}
+                    optimizerError={optimizerError}
+                    setPreviewCandidate={setPreviewCandidate}
+                    acceptCandidate={acceptCandidate}
+                />
+                <ExperimentsSection
+                    sweepEnabled={sweepEnabled}
+                    setSweepEnabled={setSweepEnabled}
+                    sweepText={sweepText}
+                    setSweepText={setSweepText}
+                    sweepSolverIds={sweepSolverIds}
+                    setSweepSolverIds={setSweepSolverIds}
+                    testPointCount={testPoints.length}
+                    placeTestPointMode={placeTestPointMode}
+                    setPlaceTestPointMode={setPlaceTestPointMode}
+                    clearTestPoints={() => setTestPoints([])}
+                    experimentRandomPoints={experimentRandomPoints}
+                    setExperimentRandomPoints={setExperimentRandomPoints}
+                    experimentTrials={experimentTrials}
+                    setExperimentTrials={setExperimentTrials}
+                    experimentRunning={experimentRunning}
+                    startExperiment={startExperiment}
+                    stopExperiment={stopExperiment}
+                    experimentProgress={experimentProgress}
+                    experimentError={experimentError}
+                    onExport={exportExperiment}
+                />
+                <CalibrationSection
+                    frame={frame}
+                    setFrame={setFrame}
+                    calibrationMode={calibrationMode}
+                    setCalibrationMode={setCalibrationMode}
+                    calibrationPoints={calibrationPoints}
+                    setCalibrationPoints={setCalibrationPoints}
+                    calibrationDistance={calibrationDistance}
+                    setCalibrationDistance={setCalibrationDistance}
+                    applyScaleCalibration={applyScaleCalibration}
+                    calibrationError={calibrationError}
+                    setCalibrationError={setCalibrationError}
+                />
+                <FloorPlanSection
+                    onUpload={handleFloorPlanUpload}
+                    floorPlanUrl={floorPlanUrl}
+                    setFloorPlanUrl={setFloorPlanUrl}
+                    loadFloorPlanUrl={() => { setActiveFloorImage(floorPlanUrl); setShowFloorPlan(true); }}
+                    showFloorPlan={showFloorPlan}
+                    setShowFloorPlan={setShowFloorPlan}
+                    floorPlanOpacity={floorPlanOpacity}
+                    setFloorPlanOpacity={setFloorPlanOpacity}
+                    canDetectWalls={opencvReady && !!floorPlanRef.current.image}
+                    reviewingDetection={reviewingDetection}
+                    startWallDetection={() => setReviewingDetection(true)}
+                    wallDetectionOptions={wallDetectionOptions}
+                    updateDetectionOptions={updateDetectionOptions}
+                    segmentCount={wallDetection ? wallDetection.segments.length : null}
+                    detectedWalls={detectedWalls}
+                    detectionEdits={detectionEdits}
+                    setDetectionEdits={setDetectionEdits}
+                    setHighlightedDetection={setHighlightedDetection}
+                    pixelsPerMeter={pixelsPerMeter}
+                    acceptDetectedWalls={acceptDetectedWalls}
+                    closeWallDetection={closeWallDetection}
+                    onVectorUpload={handleVectorPlanUpload}
+                    vectorImportError={vectorImportError}
+                    vectorImport={vectorImport}
+                    setVectorImport={setVectorImport}
+                    vectorPlacement={vectorPlacement}
+                    applyVectorImport={applyVectorImport}
+                    hasVectorBackground={!!activeFloorBackground}
+                    clearVectorBackground={clearActiveFloorBackground}
+                />
               </Sidebar>
 
               <main className="flex-grow flex items-center justify-center">
@@ -722,65 +1994,56 @@ const App: React.FC = () => {
                     onMouseMove={handleMouseMove}
                     onMouseUp={handleMouseUp}
                     onMouseLeave={handleMouseUp}
+                    onContextMenu={e => e.preventDefault()}
                   />
               </main>
 
               <Sidebar position="right">
-                <SidebarSection title="Live Data">
-                    <div className="overflow-x-auto">
-                        <table className="w-full text-sm text-left text-gray-300">
-                            <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
-                                <tr>
-                                    <th scope="col" className="px-4 py-2">Radio</th>
-                                    <th scope="col" className="px-4 py-2">RSSI</th>
-                                    <th scope="col" className="px-4 py-2">True Dist.</th>
-                                    <th scope="col" className="px-4 py-2">Est. Dist.</th>
-                                </tr>
-                            </thead>
-                            <tbody>
-                                {measurements.map(m => {
-                                    const rssiColor = m.rssi > -70 ? 'text-green-400' : m.rssi > -90 ? 'text-yellow-400' : 'text-red-400';
-                                    return (
-                                        <tr key={m.radio.id} className="border-b border-gray-700">
-                                            <td className="px-4 py-2 font-medium">{m.radio.label}</td>
-                                            <td className={`px-4 py-2 font-mono ${rssiColor}`}>{m.rssi.toFixed(1)}</td>
-                                            <td className="px-4 py-2 font-mono">{m.trueDistance.toFixed(2)}m</td>
-                                            <td className="px-4 py-2 font-mono">{m.estimatedDistance.toFixed(2)}m</td>
-                                        </tr>
-                                    );
-                                })}
-                            </tbody>
-                        </table>
-                    </div>
-                </SidebarSection>
-                 <SidebarSection title="Device Position">
-                    <ControlGroup label={`Device X: ${(device.x / PIXELS_PER_METER).toFixed(2)}m`}>
-                        <input
-                            type="range"
-                            min="0"
-                            max={CANVAS_WIDTH / PIXELS_PER_METER}
-                            step="0.1"
-                            value={device.x / PIXELS_PER_METER}
-                            onChange={e => handleDevicePosChange('x', e.target.value)}
-                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
-                        />
-                    </ControlGroup>
-                    <ControlGroup label={`Device Y: ${(device.y / PIXELS_PER_METER).toFixed(2)}m`}>
-                        <input
-                            type="range"
-                            min="0"
-                            max={CANVAS_HEIGHT / PIXELS_PER_METER}
-                            step="0.1"
-                            value={device.y / PIXELS_PER_METER}
-                            onChange={e => handleDevicePosChange('y', e.target.value)}
-                            className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
-                        />
-                    </ControlGroup>
-                    <div className="font-mono text-sm space-y-2 border-t border-gray-700 pt-3 mt-3">
-                        <p>Est: {estimatedPosition ? <span className="text-rose-400">X: {(estimatedPosition.x / PIXELS_PER_METER).toFixed(2)}m, Y: {(estimatedPosition.y / PIXELS_PER_METER).toFixed(2)}m</span> : <span className="text-gray-400">Not available</span>}</p>
-                        <p>Error: {estimatedPosition ? <span className="text-red-400">{(distance(device, estimatedPosition) / PIXELS_PER_METER).toFixed(2)}m</span> : <span className="text-gray-400">N/A</span>}</p>
-                    </div>
-                 </SidebarSection>
+                <LiveDataSection
+                    measurements={measurements}
+                    radioDiagnostics={radioDiagnostics}
+                    devices={devices}
+                    selectedDeviceId={device.id}
+                    deviceFixes={deviceFixes}
+                    deviceSummary={deviceSummary}
+                    frame={frame}
+                    selectDevice={setSelectedDeviceId}
+                />
+                <DevicesSection
+                    devices={devices}
+                    device={device}
+                    selectDevice={setSelectedDeviceId}
+                    renameDevice={renameDevice}
+                    addDevice={addDevice}
+                    removeSelectedDevice={removeSelectedDevice}
+                />
+                <DevicePositionSection
+                    deviceName={device.name}
+                    deviceWorld={deviceWorld}
+                    estimatedWorld={estimatedWorld}
+                    estimatedPosition={estimatedPosition}
+                    primaryEstimate={primaryEstimate}
+                    pixelsPerMeter={pixelsPerMeter}
+                    bounds={siteWorldBounds}
+                    handleDevicePosChange={handleDevicePosChange}
+                    truth={activeDevice}
+                    hasGroundTruth={hasGroundTruth}
+                    frame={frame}
+                    floors={floors}
+                    estimates={estimates}
+                    estimatedFloor={estimatedFloor}
+                    matchedEstimate={matchedEstimate}
+                    currentSample={currentSample}
+                    dop={dop}
+                    covariance={covariance}
+                    rssiStdDev={rssiStdDev}
+                    showUncertainty={showUncertainty}
+                    setShowUncertainty={setShowUncertainty}
+                    showFingerprinting={radioMap !== null}
+                    trilaterationEstimate={trilaterationEstimate}
+                    fingerprintMethod={fingerprintMethod}
+                    fingerprintEstimate={fingerprintEstimate}
+                />
               </Sidebar>
           </div>
       </div>
@@ -0,0 +1,60 @@
+import React from 'react';
+import { maximum } from '../engine';
+
+export interface CdfSeries {
+  label: string;
+  color: string;
+  points: { error: number; probability: number }[];
+}
+
+interface CdfChartProps {
+  series: CdfSeries[];
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { left: 32, right: 8, top: 8, bottom: 24 };
+
+/**
+ * Step plot of empirical error CDFs on shared axes: error in meters against
+ * the fraction of samples at or below it.
+ */
+const CdfChart: React.FC<CdfChartProps> = ({ series, width = 320, height = 180 }) => {
+  const maxError = maximum([1, ...series.flatMap(s => s.points.map(p => p.error))]);
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const x = (error: number) => PADDING.left + (error / maxError) * plotWidth;
+  const y = (probability: number) => PADDING.top + (1 - probability) * plotHeight;
+  const ticks = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full bg-gray-900/50 rounded">
+        {ticks.map(t => (
+          <g key={t}>
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={y(t)} y2={y(t)} stroke="#4b5563" strokeWidth={0.5} />
+            <text x={PADDING.left - 4} y={y(t) + 3} fontSize={9} fill="#9ca3af" textAnchor="end">{t * 100}%</text>
+            <text x={x(t * maxError)} y={height - 8} fontSize={9} fill="#9ca3af" textAnchor="middle">{(t * maxError).toFixed(1)}m</text>
+          </g>
+        ))}
+        {series.map(s => {
+          const path = s.points.reduce((d, p, i) => {
+            const previous = i === 0 ? 0 : s.points[i - 1].probability;
+            return `${d} L${x(p.error)},${y(previous)} L${x(p.error)},${y(p.probability)}`;
+          }, `M${x(0)},${y(0)}`);
+          return <path key={s.label} d={path} fill="none" stroke={s.color} strokeWidth={1.5} />;
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-1">
+        {series.map(s => (
+          <span key={s.label} className="text-xs text-gray-300">
+            <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CdfChart;
@@ -9,9 +9,10 @@ interface SliderProps {
   step: number;
   onChange: (value: number) => void;
   unit?: string;
+  precision?: number;
 }
 
-const Slider: React.FC<SliderProps> = ({ id, value, min, max, step, onChange, unit }) => {
+const Slider: React.FC<SliderProps> = ({ id, value, min, max, step, onChange, unit, precision }) => {
   return (
     <div className="flex items-center space-x-2">
       <input
@@ -25,7 +26,7 @@ const Slider: React.FC<SliderProps> = ({ id, value, min, max, step, onChange, un
         className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500"
       />
       <span className="text-sm text-cyan-300 font-mono w-24 text-right">
-        {value.toFixed(id === 'pathLossExponent' ? 1 : 0)}{unit}
+        {value.toFixed(precision ?? (id === 'pathLossExponent' ? 1 : 0))}{unit}
       </span>
     </div>
   );
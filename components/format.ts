@@ -0,0 +1,2 @@
+/** A 0xRRGGBB color as a CSS hex string. */
+export const toCssColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ReceiverModel } from '../../types';
+import { distance } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface AssumedModelSectionProps {
+  receiverModel: ReceiverModel | null;
+  setReceiverModel: React.Dispatch<React.SetStateAction<ReceiverModel | null>>;
+  txPower: number;
+  pathLossExponent: number;
+  assumeWallsKnown: boolean;
+  setAssumeWallsKnown: (value: boolean) => void;
+}
+
+const AssumedModelSection: React.FC<AssumedModelSectionProps> = ({ receiverModel, setReceiverModel, txPower, pathLossExponent, assumeWallsKnown, setAssumeWallsKnown }) => (
+  <SidebarSection title="Assumed Model">
+    <small className="text-gray-400 block">What the estimator believes when turning RSSI into distance.</small>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Match True Tx Power & n</label>
+      <button onClick={() => setReceiverModel(receiverModel ? null : { txPower, pathLossExponent })} className={`px-4 py-1 rounded ${!receiverModel ? 'bg-cyan-500' : 'bg-gray-600'}`}>{!receiverModel ? 'On' : 'Off'}</button>
+    </div>
+    {receiverModel && <>
+      <ControlGroup label="Assumed Tx Power @ 1m">
+        <Slider id="assumedTxPower" value={receiverModel.txPower} min={-80} max={-30} step={0.5} onChange={v => setReceiverModel(m => ({ ...m, txPower: v }))} unit=" dBm" precision={1} />
+      </ControlGroup>
+      <ControlGroup label="Assumed Path Loss Exponent (n)">
+        <Slider id="assumedPathLossExponent" value={receiverModel.pathLossExponent} min={1.5} max={4.5} step={0.05} onChange={v => setReceiverModel(m => ({ ...m, pathLossExponent: v }))} precision={2} />
+      </ControlGroup>
+    </>}
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Knows About Walls</label>
+      <button onClick={() => setAssumeWallsKnown(!assumeWallsKnown)} className={`px-4 py-1 rounded ${assumeWallsKnown ? 'bg-cyan-500' : 'bg-gray-600'}`}>{assumeWallsKnown ? 'On' : 'Off'}</button>
+    </div>
+    {assumeWallsKnown && <small className="text-gray-400 block">Ranges are corrected for the walls between each radio and the current fix, refined over a few passes.</small>}
+  </SidebarSection>
+);
+
+export default AssumedModelSection;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Vector2D, CoordinateFrame, CalibrationMode } from '../../types';
+import { DEFAULT_FRAME } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface CalibrationSectionProps {
+  frame: CoordinateFrame;
+  setFrame: React.Dispatch<React.SetStateAction<CoordinateFrame>>;
+  calibrationMode: CalibrationMode;
+  setCalibrationMode: (value: CalibrationMode) => void;
+  calibrationPoints: Vector2D[];
+  setCalibrationPoints: (value: Vector2D[]) => void;
+  calibrationDistance: number;
+  setCalibrationDistance: (value: number) => void;
+  applyScaleCalibration: () => void;
+  calibrationError: string | null;
+  setCalibrationError: (value: string | null) => void;
+}
+
+const CalibrationSection: React.FC<CalibrationSectionProps> = ({ frame, setFrame, calibrationMode, setCalibrationMode, calibrationPoints, setCalibrationPoints, calibrationDistance, setCalibrationDistance, applyScaleCalibration, calibrationError, setCalibrationError }) => (
+  <SidebarSection title="Calibration">
+    <p className="font-mono text-sm">Scale: {frame.pixelsPerMeter.toFixed(1)} px/m</p>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={() => { setCalibrationMode(calibrationMode === 'scale' ? 'off' : 'scale'); setCalibrationPoints([]); setCalibrationError(null); }} className={`${calibrationMode === 'scale' ? 'bg-green-600 hover:bg-green-500' : 'bg-cyan-600 hover:bg-cyan-500'} text-white font-bold py-2 px-4 rounded`}>
+        {calibrationMode === 'scale' ? 'Cancel' : 'Set Scale'}
+      </button>
+      <button onClick={() => setCalibrationMode(calibrationMode === 'origin' ? 'off' : 'origin')} className={`${calibrationMode === 'origin' ? 'bg-green-600 hover:bg-green-500' : 'bg-cyan-600 hover:bg-cyan-500'} text-white font-bold py-2 px-4 rounded`}>
+        {calibrationMode === 'origin' ? 'Cancel' : 'Set Origin'}
+      </button>
+    </div>
+    {calibrationMode === 'scale' && calibrationPoints.length < 2 && (
+      <small className="text-gray-400 block">Click two points on the floor plan ({calibrationPoints.length}/2).</small>
+    )}
+    {calibrationMode === 'origin' && <small className="text-gray-400 block">Click the point to use as (0, 0).</small>}
+    {calibrationMode === 'scale' && calibrationPoints.length === 2 && (
+      <ControlGroup label="Real Distance Between Points (m)">
+        <div className="flex space-x-2">
+          <input type="number" min="0.01" step="0.01" value={calibrationDistance} onChange={e => setCalibrationDistance(parseFloat(e.target.value))} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-2" />
+          <button onClick={applyScaleCalibration} className="bg-green-600 hover:bg-green-500 text-white font-bold py-2 px-3 rounded">
+            Apply
+          </button>
+        </div>
+      </ControlGroup>
+    )}
+    {calibrationError && <small className="text-red-400 block">{calibrationError}</small>}
+    <ControlGroup label="Rotation">
+      <Slider id="frameRotation" value={frame.rotation * 180 / Math.PI} min={-180} max={180} step={1} onChange={deg => setFrame(f => ({ ...f, rotation: deg * Math.PI / 180 }))} unit="°" />
+    </ControlGroup>
+    <button onClick={() => { setFrame(DEFAULT_FRAME); setCalibrationPoints([]); setCalibrationMode('off'); }} className="bg-yellow-600 hover:bg-yellow-500 text-white font-bold py-2 px-4 rounded">
+      Reset Calibration
+    </button>
+  </SidebarSection>
+);
+
+export default CalibrationSection;
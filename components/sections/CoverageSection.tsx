@@ -0,0 +1,47 @@
+import React from 'react';
+import { Radio, GridMap, CoverageMode } from '../../types';
+import { GDOP_SCALE_MAX } from '../../constants';
+import { MIN_RADIOS_FOR_FIX, deadZoneFraction } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+
+interface CoverageSectionProps {
+  coverageMode: CoverageMode;
+  setCoverageMode: (value: CoverageMode) => void;
+  radios: Radio[];
+  coverageRadio: Radio | undefined;
+  setCoverageRadioId: (value: string) => void;
+  coverageError: string | null;
+  coverageGrid: GridMap | null;
+}
+
+const CoverageSection: React.FC<CoverageSectionProps> = ({ coverageMode, setCoverageMode, radios, coverageRadio, setCoverageRadioId, coverageError, coverageGrid }) => (
+  <SidebarSection title="Coverage">
+    <ControlGroup label="Overlay">
+      <select value={coverageMode} onChange={(e) => setCoverageMode(e.target.value as CoverageMode)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        <option value="off">Off</option>
+        <option value="rssi">RSSI of One Radio</option>
+        <option value="visible">Visible Radios Count</option>
+        <option value="gdop">GDOP</option>
+      </select>
+    </ControlGroup>
+    {coverageMode === 'rssi' && (
+      <ControlGroup label="Radio" helpText="Dark areas are below the Min Detection RSSI.">
+        <select value={coverageRadio?.id ?? ''} onChange={(e) => setCoverageRadioId(e.target.value)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+          {radios.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+        </select>
+      </ControlGroup>
+    )}
+    {coverageMode === 'gdop' && (
+      <small className="text-gray-400 block">Geometry of the working radios alone: green near 1, red at {GDOP_SCALE_MAX} or more, gray where three radios give no fix.</small>
+    )}
+    {coverageError && <small className="text-red-400 block">{coverageError}</small>}
+    {coverageMode === 'visible' && coverageGrid && (
+      <div className="font-mono text-sm space-y-1">
+        <p>Dead zones (&lt;{MIN_RADIOS_FOR_FIX} radios): <span className="text-red-400">{(deadZoneFraction(coverageGrid) * 100).toFixed(1)}%</span></p>
+        <small className="text-gray-400 block font-sans">Red: no trilateration possible. Yellow: exactly {MIN_RADIOS_FOR_FIX} radios.</small>
+      </div>
+    )}
+  </SidebarSection>
+);
+
+export default CoverageSection;
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Vector2D, Floor, Device, SolverId, CoordinateFrame, SolverResult, TrackSample } from '../../types';
+import { SOLVERS, FINGERPRINT_METHODS, toWorld, floorOf, distance, covarianceEllipse, FingerprintMethod, FingerprintMatch, DilutionOfPrecision, Matrix } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import { toCssColor } from '../format';
+
+interface DevicePositionSectionProps {
+  deviceName: string;
+  deviceWorld: Vector2D;
+  estimatedWorld: Vector2D | null;
+  estimatedPosition: Vector2D | null;
+  primaryEstimate: SolverResult | null;
+  pixelsPerMeter: number;
+  bounds: { minX: number; maxX: number; minY: number; maxY: number };
+  handleDevicePosChange: (axis: 'x' | 'y', value: string) => void;
+  truth: Device;
+  hasGroundTruth: boolean;
+  frame: CoordinateFrame;
+  floors: Floor[];
+  estimates: { solverId: SolverId; result: SolverResult | null }[];
+  estimatedFloor: number | null;
+  matchedEstimate: SolverResult | null;
+  currentSample: TrackSample | null;
+  dop: DilutionOfPrecision | null;
+  covariance: Matrix | null;
+  rssiStdDev: number;
+  showUncertainty: boolean;
+  setShowUncertainty: (value: boolean) => void;
+  showFingerprinting: boolean;
+  trilaterationEstimate: Vector2D | null;
+  fingerprintMethod: FingerprintMethod;
+  fingerprintEstimate: FingerprintMatch | null;
+}
+
+const DevicePositionSection: React.FC<DevicePositionSectionProps> = ({ deviceName, deviceWorld, estimatedWorld, estimatedPosition, primaryEstimate, pixelsPerMeter, bounds, handleDevicePosChange, truth, hasGroundTruth, frame, floors, estimates, estimatedFloor, matchedEstimate, currentSample, dop, covariance, rssiStdDev, showUncertainty, setShowUncertainty, showFingerprinting, trilaterationEstimate, fingerprintMethod, fingerprintEstimate }) => (
+  <SidebarSection title={`Device Position: ${deviceName}`}>
+    <ControlGroup label={`Device X: ${deviceWorld.x.toFixed(2)}m`}>
+      <input
+        type="range"
+        min={bounds.minX}
+        max={bounds.maxX}
+        step="0.1"
+        value={deviceWorld.x}
+        onChange={e => handleDevicePosChange('x', e.target.value)}
+        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
+      />
+    </ControlGroup>
+    <ControlGroup label={`Device Y: ${deviceWorld.y.toFixed(2)}m`}>
+      <input
+        type="range"
+        min={bounds.minY}
+        max={bounds.maxY}
+        step="0.1"
+        value={deviceWorld.y}
+        onChange={e => handleDevicePosChange('y', e.target.value)}
+        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-sky-500"
+      />
+    </ControlGroup>
+    <div className="font-mono text-sm space-y-2 border-t border-gray-700 pt-3 mt-3">
+      <p>Est: {estimatedWorld ? <span className="text-rose-400">X: {estimatedWorld.x.toFixed(2)}m, Y: {estimatedWorld.y.toFixed(2)}m</span> : <span className="text-gray-400">Not available</span>}</p>
+      <p>Error: {estimatedPosition && hasGroundTruth ? <span className="text-red-400">{(distance(truth, estimatedPosition) / pixelsPerMeter).toFixed(2)}m</span> : <span className="text-gray-400">N/A</span>}</p>
+      {floors.length > 1 && estimatedFloor !== null && (
+        <p>Floor: <span className={estimatedFloor === floorOf(truth) ? 'text-green-400' : 'text-orange-400'}>{floors[estimatedFloor]?.name ?? estimatedFloor}</span>{hasGroundTruth && <span className="text-gray-400"> (true: {floors[floorOf(truth)]?.name})</span>}</p>
+      )}
+      {matchedEstimate && hasGroundTruth && estimatedPosition && (() => {
+        const matchedError = distance(truth, matchedEstimate.position) / pixelsPerMeter;
+        const cost = distance(truth, estimatedPosition) / pixelsPerMeter - matchedError;
+        return <>
+          <p>True-model error: <span className="text-gray-300">{matchedError.toFixed(2)}m</span></p>
+          <p>Mismatch cost: <span className={cost > 0 ? 'text-orange-400' : 'text-green-400'}>{cost >= 0 ? '+' : ''}{cost.toFixed(2)}m</span></p>
+        </>;
+      })()}
+      {currentSample && (
+        <p>Track: {currentSample.filtered ? <span className="text-yellow-400">{(distance(truth, currentSample.filtered) / pixelsPerMeter).toFixed(2)}m error</span> : <span className="text-gray-400">N/A</span>}</p>
+      )}
+      {dop && (
+        <p>DOP: <span className={dop.hdop > 3 ? 'text-orange-400' : 'text-gray-300'}>HDOP {dop.hdop.toFixed(2)}, GDOP {dop.gdop.toFixed(2)}</span></p>
+      )}
+      {covariance && (() => {
+        const { semiMajor, semiMinor } = covarianceEllipse(covariance);
+        return <>
+          <p>σx, σy: <span className="text-gray-300">{(Math.sqrt(covariance[0][0]) / pixelsPerMeter).toFixed(2)}m, {(Math.sqrt(covariance[1][1]) / pixelsPerMeter).toFixed(2)}m</span></p>
+          <p>1σ ellipse: <span className="text-gray-300">{(semiMajor / pixelsPerMeter).toFixed(2)}m × {(semiMinor / pixelsPerMeter).toFixed(2)}m</span></p>
+        </>;
+      })()}
+      {primaryEstimate && (
+        <p>Solver: <span className={primaryEstimate.converged ? 'text-gray-300' : 'text-yellow-400'}>
+          {primaryEstimate.converged ? `converged in ${primaryEstimate.iterations} it.` : `not converged after ${primaryEstimate.iterations} it.`}
+        </span></p>
+      )}
+    </div>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Uncertainty Ellipses</label>
+      <button onClick={() => setShowUncertainty(!showUncertainty)} className={`px-4 py-1 rounded ${showUncertainty ? 'bg-cyan-500' : 'bg-gray-600'}`}>{showUncertainty ? 'On' : 'Off'}</button>
+    </div>
+    <small className="text-gray-400 block">Solid: 1σ, dashed: 2σ, from the noise and shadowing spread ({rssiStdDev.toFixed(1)} dB). Without either the ellipse collapses to the point.</small>
+    {showFingerprinting && (
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-4 py-2">Method</th>
+            <th scope="col" className="px-4 py-2">Estimate</th>
+            <th scope="col" className="px-4 py-2">Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[
+            { name: 'Trilateration', position: trilaterationEstimate },
+            { name: FINGERPRINT_METHODS[fingerprintMethod].name, position: fingerprintEstimate?.position ?? null },
+          ].map(({ name, position }) => {
+            const world = position ? toWorld(position, frame) : null;
+            return (
+              <tr key={name} className="border-b border-gray-700">
+                <td className="px-4 py-2 font-medium">{name}</td>
+                <td className="px-4 py-2 font-mono">{world ? `${world.x.toFixed(1)}, ${world.y.toFixed(1)}` : 'N/A'}</td>
+                <td className="px-4 py-2 font-mono">{position && hasGroundTruth ? `${(distance(truth, position) / pixelsPerMeter).toFixed(2)}m` : 'N/A'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    )}
+    {estimates.length > 1 && (
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-4 py-2">Solver</th>
+            <th scope="col" className="px-4 py-2">Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimates.map(({ solverId: id, result }) => (
+            <tr key={id} className="border-b border-gray-700">
+              <td className="px-4 py-2 font-medium">
+                <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: toCssColor(SOLVERS[id].color) }} />
+                {SOLVERS[id].name}
+              </td>
+              <td className="px-4 py-2 font-mono">
+                {result && hasGroundTruth ? `${(distance(truth, result.position) / pixelsPerMeter).toFixed(2)}m${result.converged ? '' : '*'}` : 'N/A'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </SidebarSection>
+);
+
+export default DevicePositionSection;
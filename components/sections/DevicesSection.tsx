@@ -0,0 +1,40 @@
+import React from 'react';
+import { TrackedDevice } from '../../types';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import { toCssColor } from '../format';
+
+interface DevicesSectionProps {
+  devices: TrackedDevice[];
+  device: TrackedDevice;
+  selectDevice: (id: string) => void;
+  renameDevice: (name: string) => void;
+  addDevice: () => void;
+  removeSelectedDevice: () => void;
+}
+
+const DevicesSection: React.FC<DevicesSectionProps> = ({ devices, device, selectDevice, renameDevice, addDevice, removeSelectedDevice }) => (
+  <SidebarSection title="Devices">
+    <div className="space-y-1">
+      {devices.map(d => (
+        <button key={d.id} onClick={() => selectDevice(d.id)} className={`w-full flex items-center px-3 py-1 rounded text-sm text-left ${d.id === device.id ? 'bg-cyan-700 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}>
+          <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: toCssColor(d.color) }} />
+          {d.name}
+        </button>
+      ))}
+    </div>
+    <ControlGroup label="Name">
+      <input type="text" value={device.name} onChange={e => renameDevice(e.target.value)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-2" />
+    </ControlGroup>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={addDevice} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-2 rounded">
+        Add Device
+      </button>
+      <button onClick={removeSelectedDevice} disabled={devices.length <= 1} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+        Remove
+      </button>
+    </div>
+    <small className="text-gray-400 block">Click a device on the canvas or here to select it. The selected device is the one the position, floor and heading controls, path playback and the heatmaps use; every device is located with the primary solver.</small>
+  </SidebarSection>
+);
+
+export default DevicesSection;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { ChannelModel, FadingModel, Device } from '../../types';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface EnvironmentalEffectsSectionProps {
+  enableNoise: boolean;
+  setEnableNoise: (value: boolean) => void;
+  noiseStdDev: number;
+  setNoiseStdDev: (value: number) => void;
+  enableWalls: boolean;
+  setEnableWalls: (value: boolean) => void;
+  enableAngleEffect: boolean;
+  setEnableAngleEffect: (value: boolean) => void;
+  enableCumulativeEffect: boolean;
+  setEnableCumulativeEffect: (value: boolean) => void;
+  channelModel: ChannelModel;
+  updateChannel: (changes: Partial<ChannelModel>) => void;
+  toggleBodyBlocking: () => void;
+  deviceHeading: number | undefined;
+  setDeviceHeading: (heading: number) => void;
+}
+
+const EnvironmentalEffectsSection: React.FC<EnvironmentalEffectsSectionProps> = ({ enableNoise, setEnableNoise, noiseStdDev, setNoiseStdDev, enableWalls, setEnableWalls, enableAngleEffect, setEnableAngleEffect, enableCumulativeEffect, setEnableCumulativeEffect, channelModel, updateChannel, toggleBodyBlocking, deviceHeading, setDeviceHeading }) => (
+  <SidebarSection title="Environmental Effects">
+    <div className="flex items-center justify-between">
+      <label htmlFor="enableNoise" className="text-sm font-medium text-gray-300">Enable Noise</label>
+      <button onClick={() => setEnableNoise(!enableNoise)} className={`px-4 py-1 rounded ${enableNoise ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableNoise ? 'On' : 'Off'}</button>
+    </div>
+    {enableNoise && (
+      <ControlGroup label="Noise Standard Deviation">
+        <Slider id="noiseStdDev" value={noiseStdDev} min={0} max={10} step={0.5} onChange={setNoiseStdDev} unit=" dB" />
+      </ControlGroup>
+    )}
+    <div className="flex items-center justify-between">
+      <label htmlFor="enableWalls" className="text-sm font-medium text-gray-300">Enable Walls</label>
+      <button onClick={() => setEnableWalls(!enableWalls)} className={`px-4 py-1 rounded ${enableWalls ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableWalls ? 'On' : 'Off'}</button>
+    </div>
+    {enableWalls && <>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Angle Effect</label>
+        <button onClick={() => setEnableAngleEffect(!enableAngleEffect)} className={`px-4 py-1 rounded ${enableAngleEffect ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableAngleEffect ? 'On' : 'Off'}</button>
+      </div>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Cumulative Effect</label>
+        <button onClick={() => setEnableCumulativeEffect(!enableCumulativeEffect)} className={`px-4 py-1 rounded ${enableCumulativeEffect ? 'bg-cyan-500' : 'bg-gray-600'}`}>{enableCumulativeEffect ? 'On' : 'Off'}</button>
+      </div>
+    </>}
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Correlated Shadowing</label>
+      <button onClick={() => updateChannel({ enableShadowing: !channelModel.enableShadowing })} className={`px-4 py-1 rounded ${channelModel.enableShadowing ? 'bg-cyan-500' : 'bg-gray-600'}`}>{channelModel.enableShadowing ? 'On' : 'Off'}</button>
+    </div>
+    {channelModel.enableShadowing && <>
+      <ControlGroup label="Shadowing Standard Deviation">
+        <Slider id="shadowingStdDev" value={channelModel.shadowingStdDev} min={0} max={12} step={0.5} onChange={v => updateChannel({ shadowingStdDev: v })} unit=" dB" precision={1} />
+      </ControlGroup>
+      <ControlGroup label="Correlation Distance" helpText="Points closer than this see similar shadowing.">
+        <Slider id="shadowingCorrelationDistance" value={channelModel.shadowingCorrelationDistance} min={0.5} max={20} step={0.5} onChange={v => updateChannel({ shadowingCorrelationDistance: v })} unit="m" precision={1} />
+      </ControlGroup>
+    </>}
+    <ControlGroup label="Fast Fading">
+      <select value={channelModel.fading} onChange={e => updateChannel({ fading: e.target.value as FadingModel })} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        <option value="none">None</option>
+        <option value="rician">Rician (line of sight)</option>
+        <option value="rayleigh">Rayleigh (no line of sight)</option>
+      </select>
+    </ControlGroup>
+    {channelModel.fading === 'rician' && (
+      <ControlGroup label="Rician K-Factor">
+        <Slider id="ricianK" value={channelModel.ricianK} min={-5} max={20} step={1} onChange={v => updateChannel({ ricianK: v })} unit=" dB" />
+      </ControlGroup>
+    )}
+    {channelModel.fading !== 'none' && (
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Channel 37/38/39 Diversity</label>
+        <button onClick={() => updateChannel({ enableChannelDiversity: !channelModel.enableChannelDiversity })} className={`px-4 py-1 rounded ${channelModel.enableChannelDiversity ? 'bg-cyan-500' : 'bg-gray-600'}`}>{channelModel.enableChannelDiversity ? 'On' : 'Off'}</button>
+      </div>
+    )}
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Body Blocking</label>
+      <button onClick={toggleBodyBlocking} className={`px-4 py-1 rounded ${channelModel.enableBodyBlocking ? 'bg-cyan-500' : 'bg-gray-600'}`}>{channelModel.enableBodyBlocking ? 'On' : 'Off'}</button>
+    </div>
+    {channelModel.enableBodyBlocking && <>
+      <ControlGroup label="Body Attenuation">
+        <Slider id="bodyAttenuation" value={channelModel.bodyAttenuation} min={0} max={30} step={1} onChange={v => updateChannel({ bodyAttenuation: v })} unit=" dB" />
+      </ControlGroup>
+      <ControlGroup label="Blocked Cone Width">
+        <Slider id="bodyConeAngle" value={channelModel.bodyConeAngle} min={30} max={240} step={10} onChange={v => updateChannel({ bodyConeAngle: v })} unit="°" />
+      </ControlGroup>
+      <ControlGroup label="Device Heading" helpText="While walking a path the device faces its direction of travel.">
+        <Slider id="deviceHeading" value={deviceHeading ?? 90} min={0} max={355} step={5} onChange={setDeviceHeading} unit="°" />
+      </ControlGroup>
+    </>}
+  </SidebarSection>
+);
+
+export default EnvironmentalEffectsSection;
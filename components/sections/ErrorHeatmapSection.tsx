@@ -0,0 +1,71 @@
+import React from 'react';
+import { Floor } from '../../types';
+import { ErrorMap, GridSummary } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface ErrorHeatmapSectionProps {
+  heatmapCellSize: number;
+  setHeatmapCellSize: (value: number) => void;
+  showTrials: boolean;
+  heatmapTrials: number;
+  setHeatmapTrials: (value: number) => void;
+  heatmapMetric: 'mean' | 'p95';
+  setHeatmapMetric: (value: 'mean' | 'p95') => void;
+  heatmapScaleMax: number;
+  setHeatmapScaleMax: (value: number) => void;
+  showHeatmap: boolean;
+  setShowHeatmap: (value: boolean) => void;
+  computeHeatmap: () => void;
+  heatmapComputing: boolean;
+  errorMap: ErrorMap | null;
+  setErrorMap: (value: ErrorMap | null) => void;
+  heatmapError: string | null;
+  heatmapSummary: GridSummary | null;
+  heatmapStale: boolean;
+}
+
+const ErrorHeatmapSection: React.FC<ErrorHeatmapSectionProps> = ({ heatmapCellSize, setHeatmapCellSize, showTrials, heatmapTrials, setHeatmapTrials, heatmapMetric, setHeatmapMetric, heatmapScaleMax, setHeatmapScaleMax, showHeatmap, setShowHeatmap, computeHeatmap, heatmapComputing, errorMap, setErrorMap, heatmapError, heatmapSummary, heatmapStale }) => (
+  <SidebarSection title="Error Heatmap">
+    <ControlGroup label="Grid Resolution">
+      <Slider id="heatmapCellSize" value={heatmapCellSize} min={0.25} max={3} step={0.25} onChange={setHeatmapCellSize} unit=" m" precision={2} />
+    </ControlGroup>
+    {showTrials && (
+      <ControlGroup label="Monte Carlo Trials" helpText="Per cell; only used while readings are random (noise or fast fading).">
+        <Slider id="heatmapTrials" value={heatmapTrials} min={1} max={100} step={1} onChange={setHeatmapTrials} />
+      </ControlGroup>
+    )}
+    <ControlGroup label="Metric">
+      <select value={heatmapMetric} onChange={(e) => setHeatmapMetric(e.target.value as 'mean' | 'p95')} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        <option value="mean">Mean Error</option>
+        <option value="p95">95th Percentile Error</option>
+      </select>
+    </ControlGroup>
+    <ControlGroup label="Color Scale Max">
+      <Slider id="heatmapScaleMax" value={heatmapScaleMax} min={1} max={20} step={1} onChange={setHeatmapScaleMax} unit=" m" />
+    </ControlGroup>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Show Heatmap</label>
+      <button onClick={() => setShowHeatmap(!showHeatmap)} className={`px-4 py-1 rounded ${showHeatmap ? 'bg-cyan-500' : 'bg-gray-600'}`}>{showHeatmap ? 'On' : 'Off'}</button>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={computeHeatmap} disabled={heatmapComputing} className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        {heatmapComputing ? 'Computing...' : 'Compute'}
+      </button>
+      <button onClick={() => setErrorMap(null)} disabled={!errorMap} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Clear
+      </button>
+    </div>
+    {heatmapError && <small className="text-red-400 block">{heatmapError}</small>}
+    {heatmapSummary && (
+      <div className="font-mono text-sm space-y-1">
+        {heatmapStale && <p className="text-yellow-400">Scene changed; recompute to update.</p>}
+        <p>Floor mean: {isNaN(heatmapSummary.mean) ? 'N/A' : `${heatmapSummary.mean.toFixed(2)}m`}</p>
+        <p>Floor P95: {isNaN(heatmapSummary.p95) ? 'N/A' : `${heatmapSummary.p95.toFixed(2)}m`}</p>
+        <p>Fix available: {(heatmapSummary.coverage * 100).toFixed(0)}%</p>
+      </div>
+    )}
+  </SidebarSection>
+);
+
+export default ErrorHeatmapSection;
@@ -0,0 +1,129 @@
+import React from 'react';
+import { SolverId } from '../../types';
+import { SOLVERS, SWEEP_PARAMETERS, conditionLabel, errorCDF, SweepParameter, ExperimentProgress } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+import CdfChart from '../CdfChart';
+
+// Line colors for experiment conditions, reused in order
+const EXPERIMENT_COLORS = ['#22d3ee', '#f43f5e', '#f59e0b', '#a855f7', '#84cc16', '#ec4899', '#60a5fa', '#2dd4bf'];
+
+// Sweep parameters whose values are typed in as a list
+type SweepTextParameter = 'pathLossExponent' | 'noiseStdDev' | 'radioCount';
+
+interface ExperimentsSectionProps {
+  sweepEnabled: Record<SweepParameter, boolean>;
+  setSweepEnabled: React.Dispatch<React.SetStateAction<Record<SweepParameter, boolean>>>;
+  sweepText: Record<SweepTextParameter, string>;
+  setSweepText: React.Dispatch<React.SetStateAction<Record<SweepTextParameter, string>>>;
+  sweepSolverIds: SolverId[];
+  setSweepSolverIds: React.Dispatch<React.SetStateAction<SolverId[]>>;
+  testPointCount: number;
+  placeTestPointMode: boolean;
+  setPlaceTestPointMode: (value: boolean) => void;
+  clearTestPoints: () => void;
+  experimentRandomPoints: number;
+  setExperimentRandomPoints: (value: number) => void;
+  experimentTrials: number;
+  setExperimentTrials: (value: number) => void;
+  experimentRunning: boolean;
+  startExperiment: () => void;
+  stopExperiment: () => void;
+  experimentProgress: ExperimentProgress | null;
+  experimentError: string | null;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+const ExperimentsSection: React.FC<ExperimentsSectionProps> = ({ sweepEnabled, setSweepEnabled, sweepText, setSweepText, sweepSolverIds, setSweepSolverIds, testPointCount, placeTestPointMode, setPlaceTestPointMode, clearTestPoints, experimentRandomPoints, setExperimentRandomPoints, experimentTrials, setExperimentTrials, experimentRunning, startExperiment, stopExperiment, experimentProgress, experimentError, onExport }) => (
+  <SidebarSection title="Experiments">
+    <ControlGroup label="Sweep" helpText="Every combination of the checked parameters is run; the rest stay at the current settings.">
+      <div className="space-y-2">
+        {(Object.keys(SWEEP_PARAMETERS) as SweepParameter[]).map(parameter => (
+          <div key={parameter} className="space-y-1">
+            <label className="flex items-center text-sm text-gray-300">
+              <input type="checkbox" checked={sweepEnabled[parameter]} onChange={() => setSweepEnabled(s => ({ ...s, [parameter]: !s[parameter] }))} className="mr-2 accent-cyan-500" />
+              {SWEEP_PARAMETERS[parameter].name}
+              {parameter === 'walls' && <span className="text-gray-400 ml-1">(on, off)</span>}
+            </label>
+            {sweepEnabled[parameter] && (parameter === 'pathLossExponent' || parameter === 'noiseStdDev' || parameter === 'radioCount') && (
+              <input type="text" value={sweepText[parameter]} onChange={e => setSweepText(t => ({ ...t, [parameter]: e.target.value }))} className="bg-gray-600 border border-gray-500 text-white text-sm rounded block w-full p-1 font-mono" />
+            )}
+            {sweepEnabled[parameter] && parameter === 'solver' && (
+              <div className="flex flex-wrap gap-1">
+                {Object.values(SOLVERS).map(s => (
+                  <button key={s.id} onClick={() => setSweepSolverIds(ids => ids.includes(s.id) ? ids.filter(id => id !== s.id) : [...ids, s.id])} className={`px-2 py-1 rounded text-xs ${sweepSolverIds.includes(s.id) ? 'bg-cyan-500' : 'bg-gray-600'}`}>
+                    {s.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </ControlGroup>
+    <ControlGroup label={`Test Points: ${testPointCount || 'random'}`}>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => setPlaceTestPointMode(!placeTestPointMode)} className={`${placeTestPointMode ? 'bg-green-600 hover:bg-green-500' : 'bg-cyan-600 hover:bg-cyan-500'} text-white font-bold py-2 px-4 rounded`}>
+          {placeTestPointMode ? 'Done' : 'Place Points'}
+        </button>
+        <button onClick={clearTestPoints} disabled={testPointCount === 0} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Clear Points
+        </button>
+      </div>
+    </ControlGroup>
+    {testPointCount === 0 && (
+      <ControlGroup label="Random Points" helpText="Drawn uniformly over the floor when no test points are placed.">
+        <Slider id="experimentRandomPoints" value={experimentRandomPoints} min={10} max={500} step={10} onChange={setExperimentRandomPoints} />
+      </ControlGroup>
+    )}
+    <ControlGroup label="Trials per Point" helpText="Conditions without noise or fast fading run once.">
+      <Slider id="experimentTrials" value={experimentTrials} min={1} max={100} step={1} onChange={setExperimentTrials} />
+    </ControlGroup>
+    <button onClick={experimentRunning ? stopExperiment : startExperiment} className={`${experimentRunning ? 'bg-red-600 hover:bg-red-500' : 'bg-blue-600 hover:bg-blue-500'} text-white font-bold py-2 px-4 rounded`}>
+      {experimentRunning ? `Stop (${Math.round(100 * (experimentProgress?.done ?? 0) / (experimentProgress?.total || 1))}%)` : 'Run Experiment'}
+    </button>
+    {experimentError && <small className="text-red-400 block">{experimentError}</small>}
+    {experimentProgress && experimentProgress.results.length > 0 && <>
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-2 py-2">Condition</th>
+            <th scope="col" className="px-2 py-2">Mean</th>
+            <th scope="col" className="px-2 py-2">Median</th>
+            <th scope="col" className="px-2 py-2">P90</th>
+            <th scope="col" className="px-2 py-2">Fix</th>
+          </tr>
+        </thead>
+        <tbody>
+          {experimentProgress.results.map(({ condition, summary }, i) => (
+            <tr key={i} className="border-b border-gray-700">
+              <td className="px-2 py-2 font-medium">
+                <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: EXPERIMENT_COLORS[i % EXPERIMENT_COLORS.length] }} />
+                {conditionLabel(condition)}
+              </td>
+              <td className="px-2 py-2 font-mono">{isNaN(summary.mean) ? 'N/A' : `${summary.mean.toFixed(2)}m`}</td>
+              <td className="px-2 py-2 font-mono">{isNaN(summary.median) ? 'N/A' : `${summary.median.toFixed(2)}m`}</td>
+              <td className="px-2 py-2 font-mono">{isNaN(summary.p90) ? 'N/A' : `${summary.p90.toFixed(2)}m`}</td>
+              <td className="px-2 py-2 font-mono">{(summary.fixRate * 100).toFixed(0)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <CdfChart series={experimentProgress.results.map(({ condition, samples }, i) => ({
+        label: conditionLabel(condition),
+        color: EXPERIMENT_COLORS[i % EXPERIMENT_COLORS.length],
+        points: errorCDF(samples),
+      }))} />
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => onExport('csv')} disabled={experimentRunning} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Export CSV
+        </button>
+        <button onClick={() => onExport('json')} disabled={experimentRunning} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Export JSON
+        </button>
+      </div>
+    </>}
+  </SidebarSection>
+);
+
+export default ExperimentsSection;
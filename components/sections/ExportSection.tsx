@@ -0,0 +1,31 @@
+import React from 'react';
+import { SidebarSection } from '../Sidebar';
+
+interface ExportSectionProps {
+  onExportPNG: () => void;
+  onExportSVG: () => void;
+  onExportGeoJSON: () => void;
+  onExportMeasurements: () => void;
+}
+
+const ExportSection: React.FC<ExportSectionProps> = ({ onExportPNG, onExportSVG, onExportGeoJSON, onExportMeasurements }) => (
+  <SidebarSection title="Export">
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={onExportPNG} title="The canvas as shown, with overlays" className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded">
+        PNG
+      </button>
+      <button onClick={onExportSVG} title="Plan, walls, radios, ranges and estimates as vectors" className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded">
+        SVG
+      </button>
+      <button onClick={onExportGeoJSON} title="Walls and radios of all floors, in meters" className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded">
+        GeoJSON
+      </button>
+      <button onClick={onExportMeasurements} title="The Live Data table with the estimate and its error" className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded">
+        CSV
+      </button>
+    </div>
+    <small className="text-gray-400 block">PNG and SVG show the active floor; GeoJSON and CSV are in meters in the calibrated frame.</small>
+  </SidebarSection>
+);
+
+export default ExportSection;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { FINGERPRINT_METHODS, RadioMap, FingerprintMethod } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface FingerprintingSectionProps {
+  radioMapSpacing: number;
+  setRadioMapSpacing: (value: number) => void;
+  radioMapSamples: number;
+  setRadioMapSamples: (value: number) => void;
+  generateRadioMap: () => void;
+  canGenerate: boolean;
+  radioMapComputing: boolean;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  radioMap: RadioMap | null;
+  setRadioMap: (value: RadioMap | null) => void;
+  radioMapError: string | null;
+  fingerprintMethod: FingerprintMethod;
+  setFingerprintMethod: (value: FingerprintMethod) => void;
+  fingerprintK: number;
+  setFingerprintK: (value: number) => void;
+  showRadioMap: boolean;
+  setShowRadioMap: (value: boolean) => void;
+}
+
+const FingerprintingSection: React.FC<FingerprintingSectionProps> = ({ radioMapSpacing, setRadioMapSpacing, radioMapSamples, setRadioMapSamples, generateRadioMap, canGenerate, radioMapComputing, onImport, radioMap, setRadioMap, radioMapError, fingerprintMethod, setFingerprintMethod, fingerprintK, setFingerprintK, showRadioMap, setShowRadioMap }) => (
+  <SidebarSection title="Fingerprinting">
+    <ControlGroup label="Survey Spacing" helpText="Distance between simulated survey points.">
+      <Slider id="radioMapSpacing" value={radioMapSpacing} min={0.25} max={5} step={0.25} onChange={setRadioMapSpacing} unit="m" precision={2} />
+    </ControlGroup>
+    <ControlGroup label="Readings per Point" helpText="Noisy readings averaged at each survey point.">
+      <Slider id="radioMapSamples" value={radioMapSamples} min={1} max={20} step={1} onChange={setRadioMapSamples} />
+    </ControlGroup>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={generateRadioMap} disabled={!canGenerate || radioMapComputing} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        {radioMapComputing ? 'Generating...' : 'Generate Map'}
+      </button>
+      <label className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded text-center cursor-pointer">
+        Import Survey
+        <input type="file" accept=".csv,.json,.txt" onChange={onImport} className="hidden" />
+      </label>
+    </div>
+    <small className="text-gray-400 block">Generate a radio map from the simulator on the current floor, or import surveyed CSV lines "x,y,beacon,rssi" (meters). The map is not updated when the scene changes.</small>
+    {radioMapError && <small className="text-red-400 block">{radioMapError}</small>}
+    {radioMap && <>
+      <p className="font-mono text-sm">{radioMap.fingerprints.length} reference points{radioMap.spacing === null ? ' (survey)' : ''}</p>
+      <ControlGroup label="Matching Method">
+        <select value={fingerprintMethod} onChange={(e) => setFingerprintMethod(e.target.value as FingerprintMethod)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+          {Object.entries(FINGERPRINT_METHODS).map(([key, { name }]) => (
+            <option key={key} value={key}>{name}</option>
+          ))}
+        </select>
+      </ControlGroup>
+      <ControlGroup label="Neighbours (k)">
+        <Slider id="fingerprintK" value={fingerprintK} min={1} max={10} step={1} onChange={setFingerprintK} />
+      </ControlGroup>
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-300">Show Survey Grid</label>
+        <button onClick={() => setShowRadioMap(!showRadioMap)} className={`px-4 py-1 rounded ${showRadioMap ? 'bg-cyan-500' : 'bg-gray-600'}`}>{showRadioMap ? 'On' : 'Off'}</button>
+      </div>
+      <button onClick={() => setRadioMap(null)} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded w-full">
+        Clear Map
+      </button>
+    </>}
+  </SidebarSection>
+);
+
+export default FingerprintingSection;
@@ -0,0 +1,205 @@
+import React from 'react';
+import { Wall, WallMaterial } from '../../types';
+import { WALL_MATERIALS } from '../../constants';
+import { distance, WallDetectionOptions, DetectedWall, VectorPlan, PlanUnit, PLAN_UNITS, LayerAssignment } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+/** Review of detected walls, by index: walls left out, and materials picked instead of the suggested ones. */
+export interface DetectionEdits {
+  excluded: number[];
+  materials: Record<number, WallMaterial>;
+}
+
+/** A parsed vector plan under review, with the units and layer mapping picked so far. */
+export interface VectorImport {
+  plan: VectorPlan;
+  name: string;
+  units: PlanUnit;
+  assignments: Record<string, LayerAssignment>;
+  /** Put the world origin at the plan's corner, unrotated, instead of placing the plan through the current frame. */
+  usePlanFrame: boolean;
+}
+
+interface FloorPlanSectionProps {
+  onUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  floorPlanUrl: string;
+  setFloorPlanUrl: (value: string) => void;
+  loadFloorPlanUrl: () => void;
+  showFloorPlan: boolean;
+  setShowFloorPlan: (value: boolean) => void;
+  floorPlanOpacity: number;
+  setFloorPlanOpacity: (value: number) => void;
+  canDetectWalls: boolean;
+  reviewingDetection: boolean;
+  startWallDetection: () => void;
+  wallDetectionOptions: WallDetectionOptions;
+  updateDetectionOptions: (update: Partial<WallDetectionOptions>) => void;
+  /** Raw segments of the last detection; null until it has run. */
+  segmentCount: number | null;
+  detectedWalls: DetectedWall[];
+  detectionEdits: DetectionEdits;
+  setDetectionEdits: React.Dispatch<React.SetStateAction<DetectionEdits>>;
+  setHighlightedDetection: (index: number | null) => void;
+  pixelsPerMeter: number;
+  acceptDetectedWalls: () => void;
+  closeWallDetection: () => void;
+  onVectorUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  vectorImportError: string | null;
+  vectorImport: VectorImport | null;
+  setVectorImport: React.Dispatch<React.SetStateAction<VectorImport | null>>;
+  /** Size of the plan being imported, meters, and the walls it would add. */
+  vectorPlacement: { width: number; height: number; walls: Wall[] } | null;
+  applyVectorImport: () => void;
+  hasVectorBackground: boolean;
+  clearVectorBackground: () => void;
+}
+
+const FloorPlanSection: React.FC<FloorPlanSectionProps> = ({ onUpload, floorPlanUrl, setFloorPlanUrl, loadFloorPlanUrl, showFloorPlan, setShowFloorPlan, floorPlanOpacity, setFloorPlanOpacity, canDetectWalls, reviewingDetection, startWallDetection, wallDetectionOptions, updateDetectionOptions, segmentCount, detectedWalls, detectionEdits, setDetectionEdits, setHighlightedDetection, pixelsPerMeter, acceptDetectedWalls, closeWallDetection, onVectorUpload, vectorImportError, vectorImport, setVectorImport, vectorPlacement, applyVectorImport, hasVectorBackground, clearVectorBackground }) => (
+  <SidebarSection title="Floor Plan">
+    <ControlGroup label="Upload Image">
+      <input type="file" accept="image/*" onChange={onUpload} className="text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-cyan-50 file:text-cyan-700 hover:file:bg-cyan-100"/>
+    </ControlGroup>
+    <ControlGroup label="Or Image URL" helpText="Referenced images are not embedded in exported scenarios and must allow CORS.">
+      <div className="flex space-x-2">
+        <input type="url" value={floorPlanUrl} onChange={e => setFloorPlanUrl(e.target.value)} placeholder="https://..." className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-2" />
+        <button onClick={loadFloorPlanUrl} disabled={!floorPlanUrl} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-3 rounded">
+          Load
+        </button>
+      </div>
+    </ControlGroup>
+    <ControlGroup label="Import Vector Plan" helpText="SVG, DXF or GeoJSON; each layer becomes walls of a material, background lines, or nothing.">
+      <input type="file" accept=".svg,.dxf,.geojson,.json" onChange={onVectorUpload} className="text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-cyan-50 file:text-cyan-700 hover:file:bg-cyan-100"/>
+      {vectorImportError && <small className="text-red-400 block">{vectorImportError}</small>}
+    </ControlGroup>
+    {vectorImport && vectorPlacement && <>
+      <ControlGroup label="Units" helpText={`${vectorImport.name}: ${vectorImport.plan.segments.length} lines, ${vectorPlacement.width.toFixed(1)} x ${vectorPlacement.height.toFixed(1)} m.`}>
+        <select value={vectorImport.units} onChange={e => setVectorImport(v => ({ ...v, units: e.target.value as PlanUnit }))} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+          {Object.entries(PLAN_UNITS).map(([key, value]) => <option key={key} value={key}>{value.name}</option>)}
+        </select>
+      </ControlGroup>
+      <div className="max-h-64 overflow-y-auto">
+        <table className="w-full text-sm text-left text-gray-300">
+          <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+            <tr>
+              <th scope="col" className="px-2 py-2">Layer</th>
+              <th scope="col" className="px-2 py-2">Lines</th>
+              <th scope="col" className="px-2 py-2">Becomes</th>
+            </tr>
+          </thead>
+          <tbody>
+            {vectorImport.plan.layers.map(layer => (
+              <tr key={layer} className="border-b border-gray-700">
+                <td className="px-2 py-1 truncate max-w-[8rem]" title={layer}>{layer}</td>
+                <td className="px-2 py-1 font-mono">{vectorImport.plan.segments.filter(s => s.layer === layer).length}</td>
+                <td className="px-2 py-1">
+                  <select value={vectorImport.assignments[layer]} onChange={e => setVectorImport(v => ({ ...v, assignments: { ...v.assignments, [layer]: e.target.value as LayerAssignment } }))} className="bg-gray-600 border border-gray-500 text-white text-xs rounded block w-full p-1">
+                    <optgroup label="Walls">
+                      {Object.entries(WALL_MATERIALS).map(([key, value]) => <option key={key} value={key}>{value.name}</option>)}
+                    </optgroup>
+                    <option value="background">Background</option>
+                    <option value="ignore">Ignore</option>
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <label className="flex items-center text-sm text-gray-300">
+        <input type="checkbox" checked={vectorImport.usePlanFrame} onChange={e => setVectorImport(v => ({ ...v, usePlanFrame: e.target.checked }))} className="mr-2 accent-cyan-500" />
+        Measure from the plan's corner
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={applyVectorImport} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Import ({vectorPlacement.walls.length} walls)
+        </button>
+        <button onClick={() => setVectorImport(null)} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded">
+          Cancel
+        </button>
+      </div>
+    </>}
+    {hasVectorBackground && !vectorImport && (
+      <button onClick={clearVectorBackground} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded">
+        Clear Vector Plan
+      </button>
+    )}
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Show Floor Plan</label>
+      <button onClick={() => setShowFloorPlan(!showFloorPlan)} className={`px-4 py-1 rounded ${showFloorPlan ? 'bg-cyan-500' : 'bg-gray-600'}`}>{showFloorPlan ? 'On' : 'Off'}</button>
+    </div>
+    <ControlGroup label="Opacity">
+      <Slider id="floorPlanOpacity" value={floorPlanOpacity} min={0.1} max={1.0} step={0.1} onChange={setFloorPlanOpacity} />
+    </ControlGroup>
+    <button onClick={startWallDetection} disabled={!canDetectWalls || reviewingDetection} className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+      Detect Walls from Image
+    </button>
+    {reviewingDetection && <>
+      <ControlGroup label="Edge Thresholds" helpText="Canny low and high; lower values pick up fainter lines.">
+        <Slider id="cannyLow" value={wallDetectionOptions.cannyLow} min={10} max={250} step={5} onChange={v => updateDetectionOptions({ cannyLow: v })} />
+        <Slider id="cannyHigh" value={wallDetectionOptions.cannyHigh} min={20} max={500} step={10} onChange={v => updateDetectionOptions({ cannyHigh: v })} />
+      </ControlGroup>
+      <ControlGroup label="Line Votes" helpText="Hough threshold; higher keeps only well-supported lines.">
+        <Slider id="houghThreshold" value={wallDetectionOptions.houghThreshold} min={10} max={200} step={5} onChange={v => updateDetectionOptions({ houghThreshold: v })} />
+      </ControlGroup>
+      <ControlGroup label="Segment Length / Gap">
+        <Slider id="minLineLength" value={wallDetectionOptions.minLineLength} min={5} max={200} step={5} onChange={v => updateDetectionOptions({ minLineLength: v })} unit=" px" />
+        <Slider id="maxLineGap" value={wallDetectionOptions.maxLineGap} min={0} max={50} step={1} onChange={v => updateDetectionOptions({ maxLineGap: v })} unit=" px" />
+      </ControlGroup>
+      <ControlGroup label="Ink Threshold" helpText="Pixels darker than this count as wall when measuring thickness.">
+        <Slider id="inkThreshold" value={wallDetectionOptions.inkThreshold} min={10} max={250} step={5} onChange={v => updateDetectionOptions({ inkThreshold: v })} />
+      </ControlGroup>
+      <ControlGroup label="Axis Snap" helpText="Walls this close to horizontal or vertical are straightened; 0 turns it off.">
+        <Slider id="axisSnapAngle" value={wallDetectionOptions.axisSnapAngle * 180 / Math.PI} min={0} max={15} step={1} onChange={deg => updateDetectionOptions({ axisSnapAngle: deg * Math.PI / 180 })} unit="°" />
+      </ControlGroup>
+      <ControlGroup label="Merge Angle / Distance" helpText="Segments this close in direction and position become one wall, including both edges of a thick wall.">
+        <Slider id="mergeAngle" value={wallDetectionOptions.mergeAngle * 180 / Math.PI} min={0} max={15} step={1} onChange={deg => updateDetectionOptions({ mergeAngle: deg * Math.PI / 180 })} unit="°" />
+        <Slider id="mergeDistance" value={wallDetectionOptions.mergeDistance} min={0} max={40} step={1} onChange={v => updateDetectionOptions({ mergeDistance: v })} unit=" px" />
+      </ControlGroup>
+      <ControlGroup label="Min Wall Length">
+        <Slider id="minWallLength" value={wallDetectionOptions.minWallLength} min={0} max={5} step={0.1} onChange={v => updateDetectionOptions({ minWallLength: v })} unit=" m" precision={1} />
+      </ControlGroup>
+      {segmentCount !== null && <p className="text-sm text-gray-400">{segmentCount} segments merged into {detectedWalls.length} walls</p>}
+      {detectedWalls.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+              <tr>
+                <th scope="col" className="px-2 py-2"></th>
+                <th scope="col" className="px-2 py-2">Length</th>
+                <th scope="col" className="px-2 py-2">Thick</th>
+                <th scope="col" className="px-2 py-2">Material</th>
+              </tr>
+            </thead>
+            <tbody>
+              {detectedWalls.map((wall, i) => (
+                <tr key={i} onMouseEnter={() => setHighlightedDetection(i)} onMouseLeave={() => setHighlightedDetection(null)} className="border-b border-gray-700 hover:bg-gray-700/50">
+                  <td className="px-2 py-1">
+                    <input type="checkbox" checked={!detectionEdits.excluded.includes(i)} onChange={() => setDetectionEdits(e => ({ ...e, excluded: e.excluded.includes(i) ? e.excluded.filter(j => j !== i) : [...e.excluded, i] }))} className="accent-cyan-500" />
+                  </td>
+                  <td className="px-2 py-1 font-mono">{(distance(wall.start, wall.end) / pixelsPerMeter).toFixed(1)}m</td>
+                  <td className="px-2 py-1 font-mono">{wall.thickness > 0 ? `${(wall.thickness * 100).toFixed(0)}cm` : '-'}</td>
+                  <td className="px-2 py-1">
+                    <select value={detectionEdits.materials[i] ?? wall.material} onChange={e => setDetectionEdits(d => ({ ...d, materials: { ...d.materials, [i]: e.target.value as WallMaterial } }))} className="bg-gray-600 border border-gray-500 text-white text-xs rounded block w-full p-1">
+                      {Object.entries(WALL_MATERIALS).map(([key, value]) => <option key={key} value={key}>{value.name}</option>)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={acceptDetectedWalls} disabled={segmentCount === null} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Replace Walls ({detectedWalls.length - detectionEdits.excluded.length})
+        </button>
+        <button onClick={closeWallDetection} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded">
+          Cancel
+        </button>
+      </div>
+    </>}
+  </SidebarSection>
+);
+
+export default FloorPlanSection;
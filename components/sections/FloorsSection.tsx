@@ -0,0 +1,75 @@
+import React from 'react';
+import { Radio, Floor, TrackedDevice } from '../../types';
+import { floorOf } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface FloorsSectionProps {
+  floors: Floor[];
+  activeFloor: number;
+  radios: Radio[];
+  devices: TrackedDevice[];
+  /** The selected device, which the floor and height controls move. */
+  device: TrackedDevice;
+  switchFloor: (level: number) => void;
+  setFloors: React.Dispatch<React.SetStateAction<Floor[]>>;
+  addFloor: () => void;
+  removeTopFloor: () => void;
+  canRemoveTopFloor: boolean;
+  floorAttenuation: number;
+  setFloorAttenuation: (value: number) => void;
+  storeyHeight: number;
+  setStoreyHeight: (value: number) => void;
+  setDeviceFloor: (floor: number) => void;
+  setDevice: (update: (d: TrackedDevice) => TrackedDevice) => void;
+  view3D: boolean;
+  setView3D: (value: boolean) => void;
+}
+
+const FloorsSection: React.FC<FloorsSectionProps> = ({ floors, activeFloor, radios, devices, device, switchFloor, setFloors, addFloor, removeTopFloor, canRemoveTopFloor, floorAttenuation, setFloorAttenuation, storeyHeight, setStoreyHeight, setDeviceFloor, setDevice, view3D, setView3D }) => (
+  <SidebarSection title="Floors">
+    <div className="space-y-1">
+      {floors.map((floor, level) => ({ floor, level })).reverse().map(({ floor, level }) => (
+        <button key={floor.id} onClick={() => switchFloor(level)} className={`w-full text-left text-sm px-3 py-1 rounded ${level === activeFloor ? 'bg-cyan-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+          {floor.name}
+          <span className="float-right text-xs text-gray-300">
+            {radios.filter(r => floorOf(r) === level).length} radios{devices.some(d => floorOf(d) === level) ? ` · ${devices.filter(d => floorOf(d) === level).length} devices` : ''}
+          </span>
+        </button>
+      ))}
+    </div>
+    <ControlGroup label="Floor Name">
+      <input type="text" value={floors[activeFloor]?.name ?? ''} onChange={e => setFloors(fs => fs.map((f, i) => i === activeFloor ? { ...f, name: e.target.value } : f))} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-2" />
+    </ControlGroup>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={addFloor} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-2 rounded">
+        Add Floor
+      </button>
+      <button onClick={removeTopFloor} disabled={!canRemoveTopFloor} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+        Remove Top
+      </button>
+    </div>
+    {floors.length > 1 && !canRemoveTopFloor && <small className="text-gray-400 block">Move the radios and devices off the top floor to remove it.</small>}
+    <ControlGroup label="Floor Penetration Loss">
+      <Slider id="floorAttenuation" value={floorAttenuation} min={0} max={30} step={1} onChange={setFloorAttenuation} unit=" dB" />
+    </ControlGroup>
+    <ControlGroup label="Storey Height">
+      <Slider id="storeyHeight" value={storeyHeight} min={2} max={6} step={0.1} onChange={setStoreyHeight} unit="m" precision={1} />
+    </ControlGroup>
+    <ControlGroup label="Device Floor">
+      <select value={floorOf(device)} onChange={e => setDeviceFloor(parseInt(e.target.value, 10))} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {floors.map((f, i) => <option key={f.id} value={i}>{f.name}</option>)}
+      </select>
+    </ControlGroup>
+    <ControlGroup label="Device Height Above Floor">
+      <Slider id="deviceZ" value={device.z ?? 0} min={0} max={2.5} step={0.1} onChange={v => setDevice(d => ({ ...d, z: v }))} unit="m" precision={1} />
+    </ControlGroup>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">3D View</label>
+      <button onClick={() => setView3D(!view3D)} className={`px-4 py-1 rounded ${view3D ? 'bg-cyan-500' : 'bg-gray-600'}`}>{view3D ? 'On' : 'Off'}</button>
+    </div>
+    {view3D && <small className="text-gray-400 block">Drag to orbit, scroll to zoom. Switch back to the 2D view to edit.</small>}
+  </SidebarSection>
+);
+
+export default FloorsSection;
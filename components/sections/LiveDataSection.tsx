@@ -0,0 +1,95 @@
+import React from 'react';
+import { Radio, Measurement, TrackedDevice, CoordinateFrame } from '../../types';
+import { distance, toWorld, RadioDiagnostic, DeviceFix, DeviceErrorSummary } from '../../engine';
+import { SidebarSection } from '../Sidebar';
+import { toCssColor } from '../format';
+
+interface LiveDataSectionProps {
+  measurements: Measurement[];
+  radioDiagnostics: RadioDiagnostic[];
+  devices: TrackedDevice[];
+  selectedDeviceId: string;
+  deviceFixes: Map<string, DeviceFix>;
+  deviceSummary: DeviceErrorSummary;
+  frame: CoordinateFrame;
+  selectDevice: (id: string) => void;
+}
+
+const LiveDataSection: React.FC<LiveDataSectionProps> = ({ measurements, radioDiagnostics, devices, selectedDeviceId, deviceFixes, deviceSummary, frame, selectDevice }) => (
+  <SidebarSection title="Live Data">
+    {devices.length > 1 && <>
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-4 py-2">Device</th>
+            <th scope="col" className="px-4 py-2">Heard</th>
+            <th scope="col" className="px-4 py-2">Estimate</th>
+            <th scope="col" className="px-4 py-2">Error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {devices.map(d => {
+            const fix = deviceFixes.get(d.id);
+            const world = fix.position ? toWorld(fix.position, frame) : null;
+            return (
+              <tr key={d.id} onClick={() => selectDevice(d.id)} className={`border-b border-gray-700 cursor-pointer hover:bg-gray-700/50 ${d.id === selectedDeviceId ? 'bg-gray-700/50' : ''}`}>
+                <td className="px-4 py-2 font-medium">
+                  <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: toCssColor(d.color) }} />
+                  {d.name}
+                </td>
+                <td className="px-4 py-2 font-mono">{fix.heard}</td>
+                <td className="px-4 py-2 font-mono">{world ? `${world.x.toFixed(1)}, ${world.y.toFixed(1)}` : 'N/A'}</td>
+                <td className="px-4 py-2 font-mono">{fix.error !== null ? `${fix.error.toFixed(2)}m` : 'N/A'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="font-mono text-sm space-y-1">
+        <p>Fixes: <span className="text-gray-300">{deviceSummary.fixes} of {deviceSummary.devices}</span></p>
+        {deviceSummary.fixes > 0 && <>
+          <p>Mean / median: <span className="text-gray-300">{deviceSummary.mean.toFixed(2)}m / {deviceSummary.median.toFixed(2)}m</span></p>
+          <p>P90 / max: <span className="text-gray-300">{deviceSummary.p90.toFixed(2)}m / {deviceSummary.max.toFixed(2)}m</span></p>
+        </>}
+      </div>
+      <small className="text-gray-400 block">Readings of {devices.find(d => d.id === selectedDeviceId)?.name}:</small>
+    </>}
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-4 py-2">Radio</th>
+            <th scope="col" className="px-4 py-2">RSSI</th>
+            <th scope="col" className="px-4 py-2">True Dist.</th>
+            <th scope="col" className="px-4 py-2">Est. Dist.</th>
+            <th scope="col" className="px-4 py-2">Fit</th>
+          </tr>
+        </thead>
+        <tbody>
+          {measurements.map(m => {
+            const rssiColor = m.rssi > -70 ? 'text-green-400' : m.rssi > -90 ? 'text-yellow-400' : 'text-red-400';
+            return (
+              <tr key={m.radio.id} className="border-b border-gray-700">
+                <td className="px-4 py-2 font-medium">{m.radio.label}</td>
+                <td className={`px-4 py-2 font-mono ${rssiColor}`}>{m.rssi.toFixed(1)}</td>
+                <td className="px-4 py-2 font-mono">{isNaN(m.trueDistance) ? 'N/A' : `${m.trueDistance.toFixed(2)}m`}</td>
+                <td className="px-4 py-2 font-mono">{m.estimatedDistance.toFixed(2)}m</td>
+                <td className="px-4 py-2 font-mono">{(() => {
+                  // Residual: how much longer the range is than the distance to the fix
+                  const diagnostic = radioDiagnostics.find(d => d.radioId === m.radio.id);
+                  if (!diagnostic || isNaN(diagnostic.residual)) return <span className="text-gray-400">-</span>;
+                  const residual = `${diagnostic.residual >= 0 ? '+' : ''}${diagnostic.residual.toFixed(1)}m`;
+                  if (diagnostic.weight === 0) return <span className="text-red-400" title="Rejected as an outlier">rejected {residual}</span>;
+                  if (diagnostic.weight < 0.99) return <span className="text-yellow-400" title="Down-weighted">×{diagnostic.weight.toFixed(2)} {residual}</span>;
+                  return <span className="text-gray-300">{residual}</span>;
+                })()}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  </SidebarSection>
+);
+
+export default LiveDataSection;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { Radio } from '../../types';
+import { RSSILog, BeaconMapping, LogReplaySummary } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface LogReplaySectionProps {
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  clearLog: () => void;
+  logImportError: string | null;
+  logReplayError: string | null;
+  rssiLog: RSSILog | null;
+  logWindow: number;
+  setLogWindow: (value: number) => void;
+  beaconMapping: BeaconMapping;
+  setBeaconMapping: React.Dispatch<React.SetStateAction<BeaconMapping>>;
+  radios: Radio[];
+  logTime: number | null;
+  setLogTime: (value: number | null) => void;
+  logDuration: number;
+  hasSamples: boolean;
+  isLogPlaying: boolean;
+  setIsLogPlaying: (value: boolean) => void;
+  onPlayPause: () => void;
+  stopLogReplay: () => void;
+  stopPlayback: () => void;
+  logSummary: LogReplaySummary;
+}
+
+const LogReplaySection: React.FC<LogReplaySectionProps> = ({ onImport, clearLog, logImportError, logReplayError, rssiLog, logWindow, setLogWindow, beaconMapping, setBeaconMapping, radios, logTime, setLogTime, logDuration, hasSamples, isLogPlaying, setIsLogPlaying, onPlayPause, stopLogReplay, stopPlayback, logSummary }) => (
+  <SidebarSection title="RSSI Log Replay">
+    <div className="grid grid-cols-2 gap-2">
+      <label className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded text-center cursor-pointer">
+        Import Log
+        <input type="file" accept=".csv,.json,.txt" onChange={onImport} className="hidden" />
+      </label>
+      <button onClick={clearLog} disabled={!rssiLog} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Clear Log
+      </button>
+    </div>
+    <small className="text-gray-400 block">CSV or JSON with timestamp, beacon id or MAC and RSSI per reading; optional x, y ground truth in meters.</small>
+    {logImportError && <small className="text-red-400 block">{logImportError}</small>}
+    {logReplayError && <small className="text-red-400 block">{logReplayError}</small>}
+    {rssiLog && <>
+      <p className="text-sm text-gray-300">{rssiLog.readings.length} readings from {rssiLog.beaconIds.length} beacons over {rssiLog.duration.toFixed(1)}s</p>
+      <ControlGroup label="Epoch Window" helpText="Readings of the same beacon within a window are averaged.">
+        <Slider id="logWindow" value={logWindow} min={0.1} max={5} step={0.1} onChange={setLogWindow} unit=" s" precision={1} />
+      </ControlGroup>
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-4 py-2">Beacon</th>
+            <th scope="col" className="px-4 py-2">Radio</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rssiLog.beaconIds.map(beaconId => (
+            <tr key={beaconId} className="border-b border-gray-700">
+              <td className="px-4 py-2 font-mono break-all">{beaconId}</td>
+              <td className="px-4 py-2">
+                <select value={beaconMapping[beaconId] ?? ''} onChange={e => setBeaconMapping(m => ({ ...m, [beaconId]: e.target.value }))} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-1">
+                  <option value="">Ignore</option>
+                  {radios.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <ControlGroup label={`Timeline: ${(logTime ?? 0).toFixed(1)}s / ${logDuration.toFixed(1)}s`}>
+        <input
+          type="range"
+          min="0"
+          max={logDuration}
+          step={logWindow}
+          value={logTime ?? 0}
+          onChange={e => { stopPlayback(); setIsLogPlaying(false); setLogTime(parseFloat(e.target.value)); }}
+          className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+        />
+      </ControlGroup>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={onPlayPause} disabled={!hasSamples} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          {isLogPlaying ? 'Pause' : 'Play'}
+        </button>
+        <button onClick={stopLogReplay} disabled={logTime === null} className="bg-yellow-600 hover:bg-yellow-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Stop
+        </button>
+      </div>
+      <div className="font-mono text-sm space-y-1">
+        <p>Fixes: {logSummary.fixes} / {logSummary.epochs} epochs</p>
+        {rssiLog.hasGroundTruth ? <>
+          <p>Mean error: {isNaN(logSummary.mean) ? 'N/A' : `${logSummary.mean.toFixed(2)}m`}</p>
+          <p>Median: {isNaN(logSummary.median) ? 'N/A' : `${logSummary.median.toFixed(2)}m`}, P90: {isNaN(logSummary.p90) ? 'N/A' : `${logSummary.p90.toFixed(2)}m`}</p>
+          <p>Max: {isNaN(logSummary.max) ? 'N/A' : `${logSummary.max.toFixed(2)}m`}</p>
+        </> : <p className="text-gray-400">No ground truth in log</p>}
+      </div>
+    </>}
+  </SidebarSection>
+);
+
+export default LogReplaySection;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { Vector2D, TrackingFilterId } from '../../types';
+import { TRACKING_FILTERS } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface MotionPathSectionProps {
+  drawPathMode: boolean;
+  setDrawPathMode: (value: boolean) => void;
+  setMotionPath: (value: Vector2D[]) => void;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  pathImportError: string | null;
+  walkingSpeed: number;
+  setWalkingSpeed: (value: number) => void;
+  advertisingInterval: number;
+  setAdvertisingInterval: (value: number) => void;
+  trackingFilterId: TrackingFilterId;
+  setTrackingFilterId: (value: TrackingFilterId) => void;
+  rssiWindowSize: number;
+  setRssiWindowSize: (value: number) => void;
+  hasTrack: boolean;
+  trackDuration: number;
+  playbackTime: number | null;
+  setPlaybackTime: (value: number | null) => void;
+  isPlaying: boolean;
+  setIsPlaying: (value: boolean) => void;
+  onPlayPause: () => void;
+  stopPlayback: () => void;
+}
+
+const MotionPathSection: React.FC<MotionPathSectionProps> = ({ drawPathMode, setDrawPathMode, setMotionPath, onImport, pathImportError, walkingSpeed, setWalkingSpeed, advertisingInterval, setAdvertisingInterval, trackingFilterId, setTrackingFilterId, rssiWindowSize, setRssiWindowSize, hasTrack, trackDuration, playbackTime, setPlaybackTime, isPlaying, setIsPlaying, onPlayPause, stopPlayback }) => (
+  <SidebarSection title="Motion Path">
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={() => { stopPlayback(); setDrawPathMode(!drawPathMode); if (!drawPathMode) setMotionPath([]); }} className={`${drawPathMode ? 'bg-green-600 hover:bg-green-500' : 'bg-cyan-600 hover:bg-cyan-500'} text-white font-bold py-2 px-4 rounded`}>
+        {drawPathMode ? 'Finish Path' : 'Draw Path'}
+      </button>
+      <button onClick={() => { stopPlayback(); setMotionPath([]); }} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded">
+        Clear Path
+      </button>
+    </div>
+    {drawPathMode && <small className="text-gray-400 block">Click on the canvas to add waypoints.</small>}
+    <ControlGroup label="Import Path (JSON/CSV, meters)">
+      <input type="file" accept=".json,.csv,.txt" onChange={onImport} className="text-sm text-gray-300 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-cyan-50 file:text-cyan-700 hover:file:bg-cyan-100"/>
+    </ControlGroup>
+    {pathImportError && <small className="text-red-400 block">{pathImportError}</small>}
+    <ControlGroup label="Walking Speed">
+      <Slider id="walkingSpeed" value={walkingSpeed} min={0.2} max={3} step={0.1} onChange={setWalkingSpeed} unit=" m/s" precision={1} />
+    </ControlGroup>
+    <ControlGroup label="Advertising Interval">
+      <Slider id="advertisingInterval" value={advertisingInterval} min={20} max={1000} step={10} onChange={setAdvertisingInterval} unit=" ms" />
+    </ControlGroup>
+    <ControlGroup label="Tracking Filter">
+      <select value={trackingFilterId} onChange={(e) => setTrackingFilterId(e.target.value as TrackingFilterId)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {Object.values(TRACKING_FILTERS).map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+      </select>
+    </ControlGroup>
+    {(trackingFilterId === 'rssiMovingAverage' || trackingFilterId === 'rssiMedian') && (
+      <ControlGroup label="RSSI Window">
+        <Slider id="rssiWindowSize" value={rssiWindowSize} min={2} max={20} step={1} onChange={setRssiWindowSize} unit=" adv." />
+      </ControlGroup>
+    )}
+    <ControlGroup label={`Timeline: ${(playbackTime ?? 0).toFixed(1)}s / ${trackDuration.toFixed(1)}s`}>
+      <input
+        type="range"
+        min="0"
+        max={trackDuration}
+        step={advertisingInterval / 1000}
+        value={playbackTime ?? 0}
+        disabled={!hasTrack}
+        onChange={e => { setIsPlaying(false); setPlaybackTime(parseFloat(e.target.value)); }}
+        className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+      />
+    </ControlGroup>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={onPlayPause} disabled={!hasTrack || drawPathMode} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        {isPlaying ? 'Pause' : 'Play'}
+      </button>
+      <button onClick={stopPlayback} disabled={playbackTime === null} className="bg-yellow-600 hover:bg-yellow-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Stop
+      </button>
+    </div>
+  </SidebarSection>
+);
+
+export default MotionPathSection;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Wall, WallMaterial, Radio, ReceiverModel, CoordinateFrame, ReferencePoint } from '../../types';
+import { WALL_MATERIALS } from '../../constants';
+import { toWorld, PathLossFit } from '../../engine';
+import { SidebarSection } from '../Sidebar';
+
+interface PathLossCalibrationSectionProps {
+  placeReferenceMode: boolean;
+  setPlaceReferenceMode: (value: boolean) => void;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  measureReferencePoints: () => void;
+  referencePoints: ReferencePoint[];
+  setReferencePoints: React.Dispatch<React.SetStateAction<ReferencePoint[]>>;
+  setReferenceRSSI: (pointId: string, radioId: string, value: string) => void;
+  radios: Radio[];
+  frame: CoordinateFrame;
+  fitMaterials: boolean;
+  setFitMaterials: (value: boolean) => void;
+  runPathLossFit: () => void;
+  pathLossSamples: { label: string }[];
+  pathLossFit: PathLossFit | null;
+  setPathLossFit: (value: PathLossFit | null) => void;
+  pathLossFitError: string | null;
+  setReceiverModel: (value: ReceiverModel) => void;
+  applyFitToWalls: () => void;
+}
+
+const PathLossCalibrationSection: React.FC<PathLossCalibrationSectionProps> = ({ placeReferenceMode, setPlaceReferenceMode, onImport, measureReferencePoints, referencePoints, setReferencePoints, setReferenceRSSI, radios, frame, fitMaterials, setFitMaterials, runPathLossFit, pathLossSamples, pathLossFit, setPathLossFit, pathLossFitError, setReceiverModel, applyFitToWalls }) => (
+  <SidebarSection title="Path-Loss Calibration">
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={() => setPlaceReferenceMode(!placeReferenceMode)} className={`${placeReferenceMode ? 'bg-green-600 hover:bg-green-500' : 'bg-cyan-600 hover:bg-cyan-500'} text-white font-bold py-2 px-4 rounded`}>
+        {placeReferenceMode ? 'Done' : 'Place Points'}
+      </button>
+      <label className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded text-center cursor-pointer">
+        Import
+        <input type="file" accept=".csv,.json,.txt" onChange={onImport} className="hidden" />
+      </label>
+      <button onClick={measureReferencePoints} disabled={referencePoints.length === 0} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Simulate RSSI
+      </button>
+      <button onClick={() => { setReferencePoints([]); setPathLossFit(null); }} disabled={referencePoints.length === 0} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Clear Points
+      </button>
+    </div>
+    <small className="text-gray-400 block">Click the canvas to place reference points and type the RSSI measured from each radio, or import CSV lines "x,y,beacon,rssi" (meters).</small>
+    {referencePoints.map((point, i) => {
+      const world = toWorld(point.position, frame);
+      return (
+        <div key={point.id} className="border-t border-gray-700 pt-2 space-y-1">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-orange-400">P{i + 1} ({world.x.toFixed(1)}, {world.y.toFixed(1)} m)</span>
+            <button onClick={() => setReferencePoints(ps => ps.filter(p => p.id !== point.id))} className="text-red-400 hover:text-red-300 text-xs">Remove</button>
+          </div>
+          <div className="grid grid-cols-3 gap-1">
+            {radios.map(r => (
+              <label key={r.id} className="text-xs text-gray-400">
+                {r.label}
+                <input type="number" step="0.1" value={point.rssi[r.id] ?? ''} onChange={e => setReferenceRSSI(point.id, r.id, e.target.value)} placeholder="dBm" className="bg-gray-600 border border-gray-500 text-white text-xs rounded block w-full p-1" />
+              </label>
+            ))}
+          </div>
+        </div>
+      );
+    })}
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Fit Wall Materials</label>
+      <button onClick={() => setFitMaterials(!fitMaterials)} className={`px-4 py-1 rounded ${fitMaterials ? 'bg-cyan-500' : 'bg-gray-600'}`}>{fitMaterials ? 'On' : 'Off'}</button>
+    </div>
+    <button onClick={runPathLossFit} disabled={pathLossSamples.length === 0} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded w-full">
+      Fit Model ({pathLossSamples.length} samples)
+    </button>
+    {pathLossFitError && <small className="text-red-400 block">{pathLossFitError}</small>}
+    {pathLossFit && <>
+      <div className="font-mono text-sm space-y-1">
+        <p>Tx Power: {pathLossFit.txPower.toFixed(1)} dBm</p>
+        <p>Exponent n: {pathLossFit.pathLossExponent.toFixed(2)}</p>
+        {Object.entries(pathLossFit.materialAttenuation).map(([material, loss]) => (
+          <p key={material}>{WALL_MATERIALS[material as WallMaterial].name}: {(loss as number).toFixed(1)} dB</p>
+        ))}
+        <p>RMSE: {pathLossFit.rmse.toFixed(2)} dB</p>
+      </div>
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-4 py-2">Sample</th>
+            <th scope="col" className="px-4 py-2">Residual</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pathLossFit.residuals.map((r, i) => (
+            <tr key={i} className="border-b border-gray-700">
+              <td className="px-4 py-2 font-medium">{pathLossSamples[i]?.label}</td>
+              <td className={`px-4 py-2 font-mono ${Math.abs(r) > 6 ? 'text-red-400' : Math.abs(r) > 3 ? 'text-yellow-400' : 'text-green-400'}`}>{r > 0 ? '+' : ''}{r.toFixed(1)} dB</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => setReceiverModel({ txPower: pathLossFit.txPower, pathLossExponent: pathLossFit.pathLossExponent })} className="bg-green-600 hover:bg-green-500 text-white font-bold py-2 px-4 rounded">
+          Apply to Receiver
+        </button>
+        <button onClick={applyFitToWalls} disabled={Object.keys(pathLossFit.materialAttenuation).length === 0} className="bg-green-600 hover:bg-green-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Apply to Walls
+        </button>
+      </div>
+    </>}
+  </SidebarSection>
+);
+
+export default PathLossCalibrationSection;
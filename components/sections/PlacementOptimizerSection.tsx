@@ -0,0 +1,82 @@
+import React from 'react';
+import { Radio } from '../../types';
+import { PLACEMENT_OBJECTIVES, PlacementObjective, PlacementProgress, PlacementCandidate } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface PlacementOptimizerSectionProps {
+  optimizerObjective: PlacementObjective;
+  setOptimizerObjective: (value: PlacementObjective) => void;
+  optimizerBudget: number;
+  setOptimizerBudget: (value: number) => void;
+  optimizerIterations: number;
+  setOptimizerIterations: (value: number) => void;
+  zoneCount: number;
+  drawZoneMode: boolean;
+  setDrawZoneMode: (value: boolean) => void;
+  clearZones: () => void;
+  optimizerRunning: boolean;
+  startOptimizer: () => void;
+  stopOptimizer: () => void;
+  optimizerProgress: PlacementProgress | null;
+  optimizerError: string | null;
+  setPreviewCandidate: (value: PlacementCandidate | null) => void;
+  acceptCandidate: (candidate: PlacementCandidate) => void;
+}
+
+const PlacementOptimizerSection: React.FC<PlacementOptimizerSectionProps> = ({ optimizerObjective, setOptimizerObjective, optimizerBudget, setOptimizerBudget, optimizerIterations, setOptimizerIterations, zoneCount, drawZoneMode, setDrawZoneMode, clearZones, optimizerRunning, startOptimizer, stopOptimizer, optimizerProgress, optimizerError, setPreviewCandidate, acceptCandidate }) => (
+  <SidebarSection title="Placement Optimizer">
+    <ControlGroup label="Objective">
+      <select value={optimizerObjective} onChange={(e) => setOptimizerObjective(e.target.value as PlacementObjective)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {Object.entries(PLACEMENT_OBJECTIVES).map(([key, name]) => <option key={key} value={key}>{name}</option>)}
+      </select>
+    </ControlGroup>
+    <ControlGroup label="Radio Budget">
+      <Slider id="optimizerBudget" value={optimizerBudget} min={3} max={12} step={1} onChange={setOptimizerBudget} />
+    </ControlGroup>
+    <ControlGroup label="Iterations">
+      <Slider id="optimizerIterations" value={optimizerIterations} min={200} max={5000} step={100} onChange={setOptimizerIterations} />
+    </ControlGroup>
+    <ControlGroup label={`Mounting Zones: ${zoneCount || 'whole floor'}`}>
+      <div className="grid grid-cols-2 gap-2">
+        <button onClick={() => setDrawZoneMode(!drawZoneMode)} className={`${drawZoneMode ? 'bg-green-600 hover:bg-green-500' : 'bg-cyan-600 hover:bg-cyan-500'} text-white font-bold py-2 px-4 rounded`}>
+          {drawZoneMode ? 'Done' : 'Add Zones'}
+        </button>
+        <button onClick={clearZones} disabled={zoneCount === 0} className="bg-red-600 hover:bg-red-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+          Clear Zones
+        </button>
+      </div>
+    </ControlGroup>
+    {drawZoneMode && <small className="text-gray-400 block">Drag on the canvas to draw allowed mounting areas.</small>}
+    <button onClick={optimizerRunning ? stopOptimizer : startOptimizer} className={`${optimizerRunning ? 'bg-red-600 hover:bg-red-500' : 'bg-blue-600 hover:bg-blue-500'} text-white font-bold py-2 px-4 rounded`}>
+      {optimizerRunning ? `Stop (${Math.round(100 * (optimizerProgress?.iteration ?? 0) / (optimizerProgress?.total || 1))}%)` : 'Optimize Placement'}
+    </button>
+    {optimizerError && <small className="text-red-400 block">{optimizerError}</small>}
+    {optimizerProgress && optimizerProgress.candidates.length > 0 && (
+      <table className="w-full text-sm text-left text-gray-300">
+        <thead className="text-xs text-cyan-400 uppercase bg-gray-700/50">
+          <tr>
+            <th scope="col" className="px-2 py-2">Mean</th>
+            <th scope="col" className="px-2 py-2">Worst</th>
+            <th scope="col" className="px-2 py-2">≥3</th>
+            <th scope="col" className="px-2 py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {optimizerProgress.candidates.map((c, i) => (
+            <tr key={i} onMouseEnter={() => setPreviewCandidate(c)} onMouseLeave={() => setPreviewCandidate(null)} className="border-b border-gray-700 hover:bg-gray-700/50">
+              <td className="px-2 py-2 font-mono">{c.meanError.toFixed(2)}m</td>
+              <td className="px-2 py-2 font-mono">{c.worstError.toFixed(2)}m</td>
+              <td className="px-2 py-2 font-mono">{(c.coverage * 100).toFixed(0)}%</td>
+              <td className="px-2 py-2">
+                <button onClick={() => acceptCandidate(c)} className="bg-green-600 hover:bg-green-500 text-white text-xs font-bold py-1 px-2 rounded">Accept</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </SidebarSection>
+);
+
+export default PlacementOptimizerSection;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { SolverId, RobustMethodId } from '../../types';
+import { SOLVERS, ROBUST_METHODS } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+import { toCssColor } from '../format';
+
+interface PositionSolverSectionProps {
+  solverId: SolverId;
+  setSolverId: (value: SolverId) => void;
+  compareSolverIds: SolverId[];
+  setCompareSolverIds: React.Dispatch<React.SetStateAction<SolverId[]>>;
+  maxIterations: number;
+  setMaxIterations: (value: number) => void;
+  convergenceThreshold: number;
+  setConvergenceThreshold: (value: number) => void;
+  robustMethod: RobustMethodId;
+  setRobustMethod: (value: RobustMethodId) => void;
+  inlierThreshold: number;
+  setInlierThreshold: (value: number) => void;
+}
+
+const PositionSolverSection: React.FC<PositionSolverSectionProps> = ({ solverId, setSolverId, compareSolverIds, setCompareSolverIds, maxIterations, setMaxIterations, convergenceThreshold, setConvergenceThreshold, robustMethod, setRobustMethod, inlierThreshold, setInlierThreshold }) => (
+  <SidebarSection title="Position Solver">
+    <ControlGroup label="Solver">
+      <select value={solverId} onChange={(e) => setSolverId(e.target.value as SolverId)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {Object.values(SOLVERS).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+      </select>
+    </ControlGroup>
+    <ControlGroup label="Compare With">
+      {Object.values(SOLVERS).filter(s => s.id !== solverId).map(s => (
+        <label key={s.id} className="flex items-center space-x-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={compareSolverIds.includes(s.id)}
+            onChange={() => setCompareSolverIds(ids => ids.includes(s.id) ? ids.filter(id => id !== s.id) : [...ids, s.id])}
+            className="accent-cyan-500"
+          />
+          <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: toCssColor(s.color) }} />
+          <span>{s.name}</span>
+        </label>
+      ))}
+    </ControlGroup>
+    <ControlGroup label="Max Iterations">
+      <Slider id="maxIterations" value={maxIterations} min={5} max={200} step={5} onChange={setMaxIterations} />
+    </ControlGroup>
+    <ControlGroup label="Convergence Threshold">
+      <Slider id="convergenceThreshold" value={convergenceThreshold} min={0.01} max={1} step={0.01} onChange={setConvergenceThreshold} unit=" px" precision={2} />
+    </ControlGroup>
+    <ControlGroup label="Outlier Handling" helpText={ROBUST_METHODS[robustMethod].description}>
+      <select value={robustMethod} onChange={(e) => setRobustMethod(e.target.value as RobustMethodId)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {Object.entries(ROBUST_METHODS).map(([key, { name }]) => <option key={key} value={key}>{name}</option>)}
+      </select>
+    </ControlGroup>
+    {(robustMethod === 'ransac' || robustMethod === 'nlos') && (
+      <ControlGroup label="Rejection Threshold" helpText="Range residual beyond which a radio is treated as an outlier.">
+        <Slider id="inlierThreshold" value={inlierThreshold} min={0.5} max={10} step={0.5} onChange={setInlierThreshold} unit=" m" precision={1} />
+      </ControlGroup>
+    )}
+  </SidebarSection>
+);
+
+export default PositionSolverSection;
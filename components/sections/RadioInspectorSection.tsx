@@ -0,0 +1,67 @@
+import React from 'react';
+import { Radio, AntennaPattern, Floor } from '../../types';
+import { ANTENNA_PATTERNS } from '../../constants';
+import { floorOf } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface RadioInspectorSectionProps {
+  radio: Radio;
+  floors: Floor[];
+  storeyHeight: number;
+  txPower: number;
+  advertisingInterval: number;
+  onChange: (changes: Partial<Radio>, editKey?: string | null) => void;
+}
+
+const RadioInspectorSection: React.FC<RadioInspectorSectionProps> = ({ radio, floors, storeyHeight, txPower, advertisingInterval, onChange }) => (
+  <SidebarSection title={`Radio Inspector: ${radio.label}`}>
+    <ControlGroup label="Floor">
+      <select value={floorOf(radio)} onChange={e => onChange({ floor: parseInt(e.target.value, 10) })} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {floors.map((f, i) => <option key={f.id} value={i}>{f.name}</option>)}
+      </select>
+    </ControlGroup>
+    <ControlGroup label="Mounting Height">
+      <Slider id="radioHeight" value={radio.height ?? 0} min={0} max={storeyHeight} step={0.1} onChange={v => onChange({ height: v }, `height:${radio.id}`)} unit="m" precision={1} />
+    </ControlGroup>
+    <ControlGroup label="Label">
+      <input type="text" value={radio.label} onChange={e => onChange({ label: e.target.value }, `label:${radio.id}`)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-2" />
+    </ControlGroup>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Enabled</label>
+      <button onClick={() => onChange({ enabled: radio.enabled === false })} className={`px-4 py-1 rounded ${radio.enabled !== false ? 'bg-cyan-500' : 'bg-red-600'}`}>{radio.enabled !== false ? 'On' : 'Failed'}</button>
+    </div>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Own Tx Power</label>
+      <button onClick={() => onChange({ txPower: radio.txPower === undefined ? txPower : undefined })} className={`px-4 py-1 rounded ${radio.txPower !== undefined ? 'bg-cyan-500' : 'bg-gray-600'}`}>{radio.txPower !== undefined ? 'On' : 'Off'}</button>
+    </div>
+    {radio.txPower !== undefined && (
+      <ControlGroup label="Measured Power @ 1m" helpText="Advertised by the beacon, so the receiver ranges with it too.">
+        <Slider id="radioTxPower" value={radio.txPower} min={-80} max={-30} step={0.5} onChange={v => onChange({ txPower: v }, `txPower:${radio.id}`)} unit=" dBm" precision={1} />
+      </ControlGroup>
+    )}
+    <ControlGroup label="Antenna">
+      <select value={radio.antenna ?? 'omni'} onChange={e => onChange({ antenna: e.target.value as AntennaPattern })} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {Object.entries(ANTENNA_PATTERNS).map(([key, { name, beamwidth }]) => (
+          <option key={key} value={key}>{name}{beamwidth < 360 ? ` (${beamwidth}°)` : ''}</option>
+        ))}
+      </select>
+    </ControlGroup>
+    {(radio.antenna ?? 'omni') !== 'omni' && (
+      <ControlGroup label="Orientation">
+        <Slider id="radioOrientation" value={radio.orientation ?? 0} min={0} max={355} step={5} onChange={v => onChange({ orientation: v }, `orientation:${radio.id}`)} unit="°" />
+      </ControlGroup>
+    )}
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Own Advertising Interval</label>
+      <button onClick={() => onChange({ advertisingInterval: radio.advertisingInterval === undefined ? advertisingInterval : undefined })} className={`px-4 py-1 rounded ${radio.advertisingInterval !== undefined ? 'bg-cyan-500' : 'bg-gray-600'}`}>{radio.advertisingInterval !== undefined ? 'On' : 'Off'}</button>
+    </div>
+    {radio.advertisingInterval !== undefined && (
+      <ControlGroup label="Advertising Interval" helpText="Used by the motion path simulation; between advertisements the last reading is repeated.">
+        <Slider id="radioAdvertisingInterval" value={radio.advertisingInterval} min={20} max={2000} step={10} onChange={v => onChange({ advertisingInterval: v }, `advertisingInterval:${radio.id}`)} unit=" ms" />
+      </ControlGroup>
+    )}
+  </SidebarSection>
+);
+
+export default RadioInspectorSection;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { SidebarSection } from '../Sidebar';
+
+interface ScenarioSectionProps {
+  onExport: () => void;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  errors: string[];
+  autosaveStatus: string | null;
+}
+
+const ScenarioSection: React.FC<ScenarioSectionProps> = ({ onExport, onImport, onUndo, onRedo, canUndo, canRedo, errors, autosaveStatus }) => (
+  <SidebarSection title="Scenario">
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={onExport} className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded">
+        Export
+      </button>
+      <label className="bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 px-4 rounded text-center cursor-pointer">
+        Import
+        <input type="file" accept=".json,application/json" onChange={onImport} className="hidden" />
+      </label>
+      <button onClick={onUndo} disabled={!canUndo} title="Ctrl+Z" className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Undo
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} title="Ctrl+Shift+Z" className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Redo
+      </button>
+    </div>
+    {errors.length > 0 && (
+      <ul className="text-sm text-red-400 list-disc list-inside">
+        {errors.map((issue, i) => <li key={i}>{issue}</li>)}
+      </ul>
+    )}
+    {autosaveStatus && <small className="text-gray-400 block">{autosaveStatus}</small>}
+  </SidebarSection>
+);
+
+export default ScenarioSection;
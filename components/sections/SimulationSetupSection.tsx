@@ -0,0 +1,18 @@
+import React from 'react';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface SimulationSetupSectionProps {
+  numRadios: number;
+  setNumRadios: (value: number) => void;
+}
+
+const SimulationSetupSection: React.FC<SimulationSetupSectionProps> = ({ numRadios, setNumRadios }) => (
+  <SidebarSection title="Simulation Setup">
+    <ControlGroup label={`Number of Radios: ${numRadios}`}>
+      <Slider id="numRadios" value={numRadios} min={3} max={6} step={1} onChange={setNumRadios} />
+    </ControlGroup>
+  </SidebarSection>
+);
+
+export default SimulationSetupSection;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface TruePropagationModelSectionProps {
+  txPower: number;
+  setTxPower: (value: number) => void;
+  pathLossExponent: number;
+  setPathLossExponent: (value: number) => void;
+  minRSSI: number;
+  setMinRSSI: (value: number) => void;
+}
+
+const TruePropagationModelSection: React.FC<TruePropagationModelSectionProps> = ({ txPower, setTxPower, pathLossExponent, setPathLossExponent, minRSSI, setMinRSSI }) => (
+  <SidebarSection title="True Propagation Model">
+    <small className="text-gray-400 block">Generates the RSSI the device would really see.</small>
+    <ControlGroup label="Tx Power @ 1m">
+      <Slider id="txPower" value={txPower} min={-80} max={-30} step={1} onChange={setTxPower} unit=" dBm" />
+    </ControlGroup>
+    <ControlGroup label="Path Loss Exponent (n)">
+      <Slider id="pathLossExponent" value={pathLossExponent} min={2.0} max={4.0} step={0.1} onChange={setPathLossExponent} />
+    </ControlGroup>
+    <ControlGroup label="Min Detection RSSI">
+      <Slider id="minRSSI" value={minRSSI} min={-120} max={-60} step={1} onChange={setMinRSSI} unit=" dBm" />
+    </ControlGroup>
+  </SidebarSection>
+);
+
+export default TruePropagationModelSection;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+
+interface ViewSectionProps {
+  zoom: number;
+  gridStep: number;
+  view3D: boolean;
+  zoomIn: () => void;
+  zoomOut: () => void;
+  fitViewToContent: () => void;
+  resetView: () => void;
+  /** Width and height of the area the sweeps cover, meters. */
+  siteSize: { width: number; height: number };
+}
+
+const ViewSection: React.FC<ViewSectionProps> = ({ zoom, gridStep, view3D, zoomIn, zoomOut, fitViewToContent, resetView, siteSize }) => (
+  <SidebarSection title="View">
+    <ControlGroup label={`Zoom: ${(zoom * 100).toFixed(0)}%`} helpText={`Scroll to zoom; drag empty space or right-drag to pan. Grid every ${gridStep} m.`}>
+      <div className="grid grid-cols-4 gap-2">
+        <button onClick={zoomOut} disabled={view3D} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+          −
+        </button>
+        <button onClick={zoomIn} disabled={view3D} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+          +
+        </button>
+        <button onClick={fitViewToContent} disabled={view3D} title="Zoom to everything placed" className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+          Fit
+        </button>
+        <button onClick={resetView} disabled={view3D} title="Back to 100%" className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+          1:1
+        </button>
+      </div>
+    </ControlGroup>
+    <small className="text-gray-400 block">Site: {siteSize.width.toFixed(0)} × {siteSize.height.toFixed(0)} m; heatmaps, coverage and the optimizer cover all of it.</small>
+  </SidebarSection>
+);
+
+export default ViewSection;
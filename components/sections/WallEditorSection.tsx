@@ -0,0 +1,105 @@
+import React from 'react';
+import { Wall, WallMaterial } from '../../types';
+import { WALL_MATERIALS } from '../../constants';
+import { wallLength } from '../../engine';
+import { SidebarSection, ControlGroup } from '../Sidebar';
+import Slider from '../Slider';
+
+interface WallEditorSectionProps {
+  newWallMaterial: WallMaterial;
+  setNewWallMaterial: (value: WallMaterial) => void;
+  drawWallMode: boolean;
+  setDrawWallMode: (value: boolean) => void;
+  clearWalls: () => void;
+  resetWalls: () => void;
+  snapToEndpoints: boolean;
+  setSnapToEndpoints: (value: boolean) => void;
+  snapToAngle: boolean;
+  setSnapToAngle: (value: boolean) => void;
+  snapToGrid: boolean;
+  setSnapToGrid: (value: boolean) => void;
+  snapGridSize: number;
+  setSnapGridSize: (value: number) => void;
+  selectedWalls: Wall[];
+  selectedWallIds: string[];
+  pixelsPerMeter: number;
+  setSelectedWallMaterial: (material: WallMaterial) => void;
+  updateSelectedWalls: (changes: Partial<Wall>, editKey?: string | null) => void;
+  splitSelectedWall: () => void;
+  joinSelectedWalls: () => void;
+  deleteSelectedWalls: () => void;
+  wallEditError: string | null;
+}
+
+const WallEditorSection: React.FC<WallEditorSectionProps> = ({ newWallMaterial, setNewWallMaterial, drawWallMode, setDrawWallMode, clearWalls, resetWalls, snapToEndpoints, setSnapToEndpoints, snapToAngle, setSnapToAngle, snapToGrid, setSnapToGrid, snapGridSize, setSnapGridSize, selectedWalls, selectedWallIds, pixelsPerMeter, setSelectedWallMaterial, updateSelectedWalls, splitSelectedWall, joinSelectedWalls, deleteSelectedWalls, wallEditError }) => (
+  <SidebarSection title="Wall Editor">
+    <ControlGroup label="New Wall Material">
+      <select value={newWallMaterial} onChange={(e) => setNewWallMaterial(e.target.value as WallMaterial)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+        {Object.entries(WALL_MATERIALS).map(([key, { name }]) => (
+          <option key={key} value={key}>{name}</option>
+        ))}
+      </select>
+    </ControlGroup>
+    <div className="grid grid-cols-2 gap-2">
+      <button onClick={() => setDrawWallMode(true)} disabled={drawWallMode} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded">
+        Draw Wall
+      </button>
+      <button onClick={clearWalls} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-4 rounded">
+        Clear Walls
+      </button>
+      <button onClick={resetWalls} className="bg-yellow-600 hover:bg-yellow-500 text-white font-bold py-2 px-4 rounded col-span-2">
+        Reset to Demo
+      </button>
+    </div>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Snap to Endpoints</label>
+      <button onClick={() => setSnapToEndpoints(!snapToEndpoints)} className={`px-4 py-1 rounded ${snapToEndpoints ? 'bg-cyan-500' : 'bg-gray-600'}`}>{snapToEndpoints ? 'On' : 'Off'}</button>
+    </div>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Snap to 15° Angles</label>
+      <button onClick={() => setSnapToAngle(!snapToAngle)} className={`px-4 py-1 rounded ${snapToAngle ? 'bg-cyan-500' : 'bg-gray-600'}`}>{snapToAngle ? 'On' : 'Off'}</button>
+    </div>
+    <div className="flex items-center justify-between">
+      <label className="text-sm font-medium text-gray-300">Snap to Grid</label>
+      <button onClick={() => setSnapToGrid(!snapToGrid)} className={`px-4 py-1 rounded ${snapToGrid ? 'bg-cyan-500' : 'bg-gray-600'}`}>{snapToGrid ? 'On' : 'Off'}</button>
+    </div>
+    {snapToGrid && (
+      <ControlGroup label="Grid Size">
+        <Slider id="snapGridSize" value={snapGridSize} min={0.1} max={2} step={0.1} onChange={setSnapGridSize} unit="m" precision={1} />
+      </ControlGroup>
+    )}
+    <small className="text-gray-400 block">Click a wall to select it, Shift+click to add to the selection. Drag a wall or its end handles to move it; Delete removes the selection.</small>
+    {selectedWalls.length > 0 && (
+      <div className="space-y-3 border-t border-gray-700 pt-3">
+        <p className="text-sm font-medium text-cyan-400">
+          {selectedWalls.length === 1 ? `1 wall selected (${(wallLength(selectedWalls[0]) / pixelsPerMeter).toFixed(2)}m)` : `${selectedWalls.length} walls selected`}
+        </p>
+        <ControlGroup label="Material">
+          <select value={selectedWalls.every(w => w.material === selectedWalls[0].material) ? selectedWalls[0].material : ''} onChange={(e) => setSelectedWallMaterial(e.target.value as WallMaterial)} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg focus:ring-cyan-500 focus:border-cyan-500 block w-full p-2.5">
+            {!selectedWalls.every(w => w.material === selectedWalls[0].material) && <option value="" disabled>Mixed</option>}
+            {Object.entries(WALL_MATERIALS).map(([key, { name }]) => (
+              <option key={key} value={key}>{name}</option>
+            ))}
+          </select>
+        </ControlGroup>
+        <ControlGroup label="Attenuation (dB)">
+          <input type="number" min="0" step="0.5" value={selectedWalls[0].attenuation} onChange={e => { const value = parseFloat(e.target.value); if (!isNaN(value) && value >= 0) updateSelectedWalls({ attenuation: value }, `attenuation:${selectedWallIds.join(',')}`); }} className="bg-gray-600 border border-gray-500 text-white text-sm rounded-lg block w-full p-2" />
+        </ControlGroup>
+        <div className="grid grid-cols-3 gap-2">
+          <button onClick={splitSelectedWall} disabled={selectedWalls.length !== 1} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+            Split
+          </button>
+          <button onClick={joinSelectedWalls} disabled={selectedWalls.length !== 2} className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-gray-500 disabled:cursor-not-allowed text-white font-bold py-2 px-2 rounded">
+            Join
+          </button>
+          <button onClick={deleteSelectedWalls} className="bg-red-600 hover:bg-red-500 text-white font-bold py-2 px-2 rounded">
+            Delete
+          </button>
+        </div>
+        {wallEditError && <small className="text-red-400 block">{wallEditError}</small>}
+      </div>
+    )}
+  </SidebarSection>
+);
+
+export default WallEditorSection;
@@ -1,5 +1,5 @@
 
-import { WallMaterial } from './types';
+import { WallMaterial, AntennaPattern } from './types';
 
 type WallMaterialProperties = {
   attenuation: number;
@@ -17,6 +17,23 @@ export const WALL_MATERIALS: Record<WallMaterial, WallMaterialProperties> = {
     door_metal: { attenuation: 12, color: 0x555555, name: 'Metal Door' }
 };
 
+type AntennaPatternProperties = {
+  name: string;
+  /** Half-power (-3 dB) beamwidth in degrees; 360 for omnidirectional. */
+  beamwidth: number;
+  /** Maximum attenuation off boresight, dB. */
+  frontToBack: number;
+};
+
+export const ANTENNA_PATTERNS: Record<AntennaPattern, AntennaPatternProperties> = {
+    omni:   { name: 'Omnidirectional', beamwidth: 360, frontToBack: 0 },
+    patch:  { name: 'Patch',           beamwidth: 90,  frontToBack: 15 },
+    sector: { name: 'Sector',          beamwidth: 60,  frontToBack: 25 }
+};
+
 export const CANVAS_WIDTH = 1200;
 export const CANVAS_HEIGHT = 900;
 export const PIXELS_PER_METER = 40;
+
+// GDOP at which the GDOP overlay turns fully red
+export const GDOP_SCALE_MAX = 5;
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Radio, Device, ChannelModel } from '../types';
+import { DEFAULT_CHANNEL_MODEL, shadowingAt, fadingGain, advertisingFadingGain, bodyLoss } from './channel';
+import { createSeededRandom } from './random';
+import { mean } from './stats';
+
+const radio: Radio = { id: 'r1', x: 0, y: 0, radius: 10, label: 'R1' };
+const channel: ChannelModel = { ...DEFAULT_CHANNEL_MODEL, enableShadowing: true, shadowingStdDev: 6, shadowingCorrelationDistance: 3 };
+
+const std = (values: number[]) => {
+    const m = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - m) ** 2)));
+};
+
+describe('shadowingAt', () => {
+    it('is zero when disabled and fixed in space when enabled', () => {
+        expect(shadowingAt(radio, { x: 4, y: 7 }, DEFAULT_CHANNEL_MODEL)).toBe(0);
+        expect(shadowingAt(radio, { x: 4, y: 7 }, channel)).toBe(shadowingAt(radio, { x: 4, y: 7 }, channel));
+        expect(shadowingAt(radio, { x: 4, y: 7 }, channel)).not.toBe(shadowingAt({ ...radio, id: 'r2' }, { x: 4, y: 7 }, channel));
+    });
+
+    it('has the configured spread and is correlated over short distances', () => {
+        const random = createSeededRandom(3);
+        const points = Array.from({ length: 2000 }, () => ({ x: random() * 200, y: random() * 200 }));
+        const values = points.map(p => shadowingAt(radio, p, channel));
+        expect(std(values)).toBeGreaterThan(4);
+        expect(std(values)).toBeLessThan(8);
+
+        const step = (d: number) => mean(points.map(p => Math.abs(shadowingAt(radio, p, channel) - shadowingAt(radio, { x: p.x + d, y: p.y }, channel))));
+        expect(step(0.3)).toBeLessThan(step(20) / 4);
+    });
+});
+
+describe('fadingGain', () => {
+    const draws = (model: ChannelModel, gain = fadingGain) => {
+        const random = createSeededRandom(7);
+        return Array.from({ length: 5000 }, () => gain(model, random));
+    };
+
+    it('is zero without fading', () => {
+        expect(draws(DEFAULT_CHANNEL_MODEL).every(g => g === 0)).toBe(true);
+    });
+
+    it('keeps unit mean power and spreads less with a strong line of sight', () => {
+        const rayleigh = draws({ ...DEFAULT_CHANNEL_MODEL, fading: 'rayleigh' });
+        const rician = draws({ ...DEFAULT_CHANNEL_MODEL, fading: 'rician', ricianK: 10 });
+        expect(mean(rayleigh.map(g => Math.pow(10, g / 10)))).toBeCloseTo(1, 1);
+        expect(mean(rician.map(g => Math.pow(10, g / 10)))).toBeCloseTo(1, 1);
+        expect(std(rician)).toBeLessThan(std(rayleigh) / 2);
+    });
+
+    it('picks the strongest advertising channel with diversity', () => {
+        const single = draws({ ...DEFAULT_CHANNEL_MODEL, fading: 'rayleigh' }, advertisingFadingGain);
+        const diverse = draws({ ...DEFAULT_CHANNEL_MODEL, fading: 'rayleigh', enableChannelDiversity: true }, advertisingFadingGain);
+        expect(mean(diverse)).toBeGreaterThan(mean(single) + 3);
+        expect(std(diverse)).toBeLessThan(std(single));
+    });
+});
+
+describe('bodyLoss', () => {
+    const blocking = { ...DEFAULT_CHANNEL_MODEL, enableBodyBlocking: true, bodyAttenuation: 10, bodyConeAngle: 120 };
+    // Facing +x; radios to the left of the device are behind the user
+    const device: Device = { x: 100, y: 100, radius: 10, heading: 0 };
+
+    it('attenuates radios inside the cone behind the user', () => {
+        expect(bodyLoss({ x: 0, y: 100 }, device, blocking)).toBe(10);
+        expect(bodyLoss({ x: 0, y: 60 }, device, blocking)).toBe(10);
+        expect(bodyLoss({ x: 200, y: 100 }, device, blocking)).toBe(0);
+        expect(bodyLoss({ x: 100, y: 0 }, device, blocking)).toBe(0);
+    });
+
+    it('does nothing without a heading or when disabled', () => {
+        expect(bodyLoss({ x: 0, y: 100 }, { ...device, heading: undefined }, blocking)).toBe(0);
+        expect(bodyLoss({ x: 0, y: 100 }, device, DEFAULT_CHANNEL_MODEL)).toBe(0);
+    });
+});
@@ -0,0 +1,110 @@
+import { Vector2D, Radio, Device, ChannelModel } from '../types';
+import { RandomSource, createSeededRandom, gaussian } from './random';
+
+export const DEFAULT_CHANNEL_MODEL: ChannelModel = {
+    enableShadowing: false,
+    shadowingStdDev: 4,
+    shadowingCorrelationDistance: 3,
+    fading: 'none',
+    ricianK: 6,
+    enableChannelDiversity: false,
+    enableBodyBlocking: false,
+    bodyAttenuation: 10,
+    bodyConeAngle: 120,
+};
+
+/** BLE primary advertising channels. */
+export const ADVERTISING_CHANNELS = [37, 38, 39] as const;
+
+// --- SHADOWING ---
+// Sinusoids per shadowing field; enough for a smooth, roughly Gaussian field
+const SHADOWING_COMPONENTS = 32;
+// Fields are cheap to rebuild, so a full cache is simply emptied
+const MAX_CACHED_FIELDS = 256;
+
+interface ShadowingField {
+    /** Wave numbers for a unit correlation distance; `shadowingAt` scales them. */
+    waves: { kx: number; ky: number; phase: number }[];
+}
+
+const fieldCache = new Map<string, ShadowingField>();
+
+const hashString = (s: string): number => {
+    let h = 2166136261;
+    for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+    return h >>> 0;
+};
+
+const shadowingField = (radioId: string): ShadowingField => {
+    let field = fieldCache.get(radioId);
+    if (!field) {
+        const random = createSeededRandom(hashString(radioId));
+        field = {
+            waves: Array.from({ length: SHADOWING_COMPONENTS }, () => ({
+                kx: gaussian(random),
+                ky: gaussian(random),
+                phase: random() * 2 * Math.PI,
+            })),
+        };
+        if (fieldCache.size >= MAX_CACHED_FIELDS) fieldCache.clear();
+        fieldCache.set(radioId, field);
+    }
+    return field;
+};
+
+/**
+ * Shadowing in dB seen from one radio at a point given in meters. The field is
+ * fixed per radio, zero-mean with the configured standard deviation, and points
+ * closer than the correlation distance see similar values.
+ */
+export const shadowingAt = (radio: Radio, pointMeters: Vector2D, channel: ChannelModel): number => {
+    if (!channel.enableShadowing || channel.shadowingStdDev <= 0 || channel.shadowingCorrelationDistance <= 0) return 0;
+    const { waves } = shadowingField(radio.id);
+    // Wave numbers with standard deviation s give a correlation of exp(-s^2 d^2 / 2);
+    // s = sqrt(2) / dc makes it 1/e at the correlation distance
+    const scale = Math.SQRT2 / channel.shadowingCorrelationDistance;
+    const x = pointMeters.x * scale;
+    const y = pointMeters.y * scale;
+    const sum = waves.reduce((s, w) => s + Math.cos(w.kx * x + w.ky * y + w.phase), 0);
+    return channel.shadowingStdDev * Math.sqrt(2 / waves.length) * sum;
+};
+
+// --- FAST FADING ---
+/**
+ * Power gain in dB of one faded packet. Rayleigh has no line of sight;
+ * Rician adds a direct path K times stronger than the scattered power.
+ */
+export const fadingGain = (channel: ChannelModel, random: RandomSource): number => {
+    if (channel.fading === 'none') return 0;
+    const k = channel.fading === 'rician' ? Math.pow(10, channel.ricianK / 10) : 0;
+    const los = Math.sqrt(k / (k + 1));
+    const scatter = Math.sqrt(1 / (2 * (k + 1)));
+    const re = los + scatter * gaussian(random);
+    const im = scatter * gaussian(random);
+    // Floor keeps a deep fade finite
+    return 10 * Math.log10(Math.max(re * re + im * im, 1e-6));
+};
+
+/**
+ * Fading of one advertising event. With channel diversity the event is sent
+ * on all three advertising channels and the strongest packet is kept.
+ */
+export const advertisingFadingGain = (channel: ChannelModel, random: RandomSource): number => {
+    if (!channel.enableChannelDiversity) return fadingGain(channel, random);
+    return Math.max(...ADVERTISING_CHANNELS.map(() => fadingGain(channel, random)));
+};
+
+// --- BODY BLOCKING ---
+/**
+ * Loss in dB when the radio lies in the cone behind the user, who faces the
+ * device's heading. A device without a heading is never blocked.
+ */
+export const bodyLoss = (radio: Vector2D, device: Device, channel: ChannelModel): number => {
+    if (!channel.enableBodyBlocking || device.heading === undefined) return 0;
+    if (radio.x === device.x && radio.y === device.y) return 0;
+    // Canvas y points down; headings are counter-clockwise on screen
+    const bearing = Math.atan2(-(radio.y - device.y), radio.x - device.x) * 180 / Math.PI;
+    let fromBehind = Math.abs(bearing - (device.heading + 180)) % 360;
+    fromBehind = Math.min(fromBehind, 360 - fromBehind);
+    return fromBehind <= channel.bodyConeAngle / 2 ? channel.bodyAttenuation : 0;
+};
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { Wall } from '../types';
+import { computeCoverageMap, computeVisibleRadiosMap, deadZoneFraction } from './coverage';
+import { gridValueAt } from './grid';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const params = testParams({ enableWalls: true, enableNoise: true, noiseStdDev: 10 });
+const radios = testRadios([{ x: 20, y: 20 }, { x: 380, y: 20 }, { x: 20, y: 380 }]);
+const device = testDevice(0, 0);
+// Metal wall shielding the bottom-right corner from R1
+const walls: Wall[] = [{ id: 'w', start: { x: 100, y: 150 }, end: { x: 400, y: 150 }, material: 'metal', attenuation: 20, color: 0 }];
+const options = { width: 400, height: 400, cellSize: 40 };
+
+describe('computeCoverageMap', () => {
+    it('falls off with distance and is noise free', () => {
+        const map = computeCoverageMap(radios[0], [], device, params, options);
+        expect(gridValueAt(map, { x: 20, y: 20 })).toBeGreaterThan(gridValueAt(map, { x: 380, y: 380 }));
+        expect(computeCoverageMap(radios[0], [], device, params, options)).toEqual(map);
+    });
+
+    it('includes wall attenuation', () => {
+        const open = computeCoverageMap(radios[0], [], device, params, options);
+        const shielded = computeCoverageMap(radios[0], walls, device, params, options);
+        const behind = { x: 300, y: 300 };
+        expect(gridValueAt(open, behind) - gridValueAt(shielded, behind)).toBeCloseTo(20);
+    });
+});
+
+describe('computeVisibleRadiosMap', () => {
+    it('counts radios above the threshold', () => {
+        const map = computeVisibleRadiosMap(radios, [], device, params, -120, options);
+        expect(map.values.every(v => v === 3)).toBe(true);
+        expect(deadZoneFraction(map)).toBe(0);
+    });
+
+    it('reports dead zones where fewer than three radios are heard', () => {
+        const map = computeVisibleRadiosMap(radios, walls, device, params, -85, options);
+        expect(gridValueAt(map, { x: 300, y: 300 })).toBeLessThan(3);
+        expect(deadZoneFraction(map)).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,74 @@
+import { Vector2D, Wall, Radio, Device, RSSIModelParams, GridMap } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from '../constants';
+import { calculateRSSI } from './propagation';
+import { sampleGrid } from './grid';
+import { slantDistance } from './floors';
+
+/** Trilateration needs at least this many radios above the detection threshold. */
+export const MIN_RADIOS_FOR_FIX = 3;
+
+export interface CoverageOptions {
+    /** Top-left corner of the area, pixels. */
+    origin: Vector2D;
+    width: number;
+    height: number;
+    /** Cell edge length in pixels. */
+    cellSize: number;
+    pixelsPerMeter: number;
+}
+
+export const DEFAULT_COVERAGE_OPTIONS: CoverageOptions = {
+    origin: { x: 0, y: 0 },
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    cellSize: PIXELS_PER_METER / 2,
+    pixelsPerMeter: PIXELS_PER_METER,
+};
+
+// Coverage shows the expected signal, so noise and fast fading are left out;
+// shadowing is fixed in space and stays in
+const meanRSSI = (radio: Radio, receiver: Device, walls: Wall[], params: RSSIModelParams, pixelsPerMeter: number) =>
+    calculateRSSI(slantDistance(radio, receiver, pixelsPerMeter, params.building), radio, receiver, walls, {
+        ...params,
+        enableNoise: false,
+        channel: params.channel && { ...params.channel, fading: 'none' },
+    }, Math.random, pixelsPerMeter);
+
+/**
+ * Expected RSSI (dBm) from one radio at every cell, wall attenuation included.
+ */
+export const computeCoverageMap = (
+    radio: Radio,
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    options: Partial<CoverageOptions> = {}
+): GridMap => {
+    const o = { ...DEFAULT_COVERAGE_OPTIONS, ...options };
+    return sampleGrid(o.width, o.height, o.cellSize, center => meanRSSI(radio, { ...device, ...center }, walls, params, o.pixelsPerMeter), o.origin);
+};
+
+/**
+ * Number of radios heard above minRSSI at every cell.
+ */
+export const computeVisibleRadiosMap = (
+    radios: Radio[],
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    minRSSI: number,
+    options: Partial<CoverageOptions> = {}
+): GridMap => {
+    const o = { ...DEFAULT_COVERAGE_OPTIONS, ...options };
+    return sampleGrid(o.width, o.height, o.cellSize, center => {
+        const receiver = { ...device, ...center };
+        return radios.filter(radio => meanRSSI(radio, receiver, walls, params, o.pixelsPerMeter) > minRSSI).length;
+    }, o.origin);
+};
+
+/**
+ * Fraction of cells where fewer than MIN_RADIOS_FOR_FIX radios are visible.
+ */
+export const deadZoneFraction = (visibleRadios: GridMap): number =>
+    visibleRadios.values.length === 0 ? 0
+        : visibleRadios.values.filter(v => v < MIN_RADIOS_FOR_FIX).length / visibleRadios.values.length;
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { TrackedDevice } from '../types';
+import { createDevice, locateDevices, summarizeDeviceFixes, DEVICE_COLORS } from './devices';
+import { testParams, testRadios } from './testFixtures';
+
+const params = testParams();
+const radios = testRadios([{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 0, y: 400 }, { x: 400, y: 400 }]);
+
+describe('createDevice', () => {
+    it('takes the first free name and color', () => {
+        const first = createDevice({ x: 1, y: 2 }, [], 'd1');
+        expect(first).toEqual({ id: 'd1', name: 'Device 1', color: DEVICE_COLORS[0], x: 1, y: 2, radius: 10 });
+        const renamed = { ...first, name: 'Device 2' };
+        const second = createDevice({ x: 0, y: 0 }, [renamed], 'd2');
+        expect(second.name).toBe('Device 3');
+        expect(second.color).toBe(DEVICE_COLORS[1]);
+    });
+});
+
+describe('locateDevices', () => {
+    const devices: TrackedDevice[] = [
+        { id: 'd1', name: 'One', color: 0, x: 120, y: 160, radius: 10 },
+        { id: 'd2', name: 'Two', color: 0, x: 300, y: 250, radius: 10 },
+    ];
+
+    it('solves each device from its own measurements', () => {
+        const fixes = locateDevices(devices, radios, [], params, params, { pixelsPerMeter: 40 });
+        expect(fixes.map(f => f.deviceId)).toEqual(['d1', 'd2']);
+        fixes.forEach((fix, i) => {
+            expect(fix.heard).toBe(4);
+            expect(fix.position!.x).toBeCloseTo(devices[i].x, 0);
+            expect(fix.position!.y).toBeCloseTo(devices[i].y, 0);
+            expect(fix.error).toBeLessThan(0.05);
+        });
+        expect(fixes[0].measurements[0].trueDistance).toBeCloseTo(5);
+    });
+
+    it('leaves a device without a fix when too few radios are heard', () => {
+        const [fix] = locateDevices([devices[0]], radios, [], params, params, { minRSSI: -70 });
+        expect(fix.position).toBeNull();
+        expect(fix.error).toBeNull();
+    });
+});
+
+describe('summarizeDeviceFixes', () => {
+    it('summarizes the error over devices with a fix', () => {
+        const fix = (error: number | null) => ({ deviceId: 'd', measurements: [], heard: 0, position: null, floor: null, error });
+        const summary = summarizeDeviceFixes([fix(1), fix(3), fix(null), fix(2)]);
+        expect(summary).toMatchObject({ devices: 4, fixes: 3, mean: 2, median: 2, max: 3 });
+        expect(summary.p90).toBeCloseTo(2.8);
+        expect(summarizeDeviceFixes([]).max).toBeNaN();
+    });
+});
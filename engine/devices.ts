@@ -0,0 +1,96 @@
+import { Vector2D, Wall, Radio, Measurement, RSSIModelParams, ReceiverModel, SolverId, TrackedDevice } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { computeMeasurements } from './propagation';
+import { SolverOptions } from './solvers';
+import { estimatePosition } from './estimation';
+import { distance } from './geometry';
+import { RandomSource } from './random';
+import { mean, median, percentile, maximum } from './stats';
+
+// --- DEVICES ---
+// Marker colors, first the one the single device always had (sky-400)
+export const DEVICE_COLORS = [0x38bdf8, 0xfacc15, 0xfb923c, 0xa3e635, 0xe879f9, 0xf87171, 0x34d399, 0x818cf8];
+
+/**
+ * A new device at the position, named and colored after the ones already
+ * placed: the first free "Device n" and the first palette color not in use.
+ */
+export const createDevice = (position: Vector2D, existing: TrackedDevice[], id: string): TrackedDevice => {
+    const names = new Set(existing.map(d => d.name));
+    let n = existing.length + 1;
+    while (names.has(`Device ${n}`)) n++;
+    const color = DEVICE_COLORS.find(c => !existing.some(d => d.color === c)) ?? DEVICE_COLORS[existing.length % DEVICE_COLORS.length];
+    return { id, name: `Device ${n}`, color, x: position.x, y: position.y, radius: 10 };
+};
+
+// --- LOCATING ---
+export interface DeviceLocateOptions {
+    solverId: SolverId;
+    solverOptions: Partial<SolverOptions>;
+    minRSSI: number;
+    pixelsPerMeter: number;
+}
+
+export interface DeviceFix {
+    deviceId: string;
+    measurements: Measurement[];
+    /** Radios heard above the sensitivity threshold. */
+    heard: number;
+    position: Vector2D | null;
+    floor: number | null;
+    /** Distance between the fix and the device in meters, when there is a fix. */
+    error: number | null;
+}
+
+/**
+ * Measures and solves each device on its own: its own readings from every
+ * radio, its own estimate with the given solver, and its error.
+ */
+export const locateDevices = (
+    devices: TrackedDevice[],
+    radios: Radio[],
+    walls: Wall[],
+    params: RSSIModelParams,
+    receiver: ReceiverModel,
+    options: Partial<DeviceLocateOptions> = {},
+    random: RandomSource = Math.random
+): DeviceFix[] => {
+    const { solverId = 'gaussNewton', solverOptions = {}, minRSSI = -100, pixelsPerMeter = PIXELS_PER_METER } = options;
+    return devices.map(device => {
+        const measurements = computeMeasurements(radios, device, walls, params, random, pixelsPerMeter, receiver);
+        const active = measurements.filter(m => m.rssi > minRSSI);
+        const estimate = estimatePosition(solverId, active, receiver, walls, { ...solverOptions, pixelsPerMeter });
+        const position = estimate.result?.position ?? null;
+        return {
+            deviceId: device.id,
+            measurements,
+            heard: active.length,
+            position,
+            floor: estimate.result ? estimate.floor : null,
+            error: position ? distance(position, device) / pixelsPerMeter : null,
+        };
+    });
+};
+
+export interface DeviceErrorSummary {
+    devices: number;
+    /** Devices the solver produced a position for. */
+    fixes: number;
+    /** Error statistics in meters over devices with a fix. */
+    mean: number;
+    median: number;
+    p90: number;
+    max: number;
+}
+
+export const summarizeDeviceFixes = (fixes: DeviceFix[]): DeviceErrorSummary => {
+    const errors = fixes.filter(f => f.error !== null).map(f => f.error!);
+    return {
+        devices: fixes.length,
+        fixes: errors.length,
+        mean: mean(errors),
+        median: median(errors),
+        p90: percentile(errors, 90),
+        max: maximum(errors),
+    };
+};
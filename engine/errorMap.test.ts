@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { computeErrorMap, summarizeGrid } from './errorMap';
+import { createSeededRandom } from './random';
+import { DEFAULT_CHANNEL_MODEL } from './channel';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const params = testParams({ noiseStdDev: 4 });
+const radios = testRadios([{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 400 }, { x: 0, y: 400 }]);
+const device = testDevice(0, 0);
+const options = { width: 400, height: 400, cellSize: 80, trials: 10 };
+
+describe('computeErrorMap', () => {
+    it('covers the area with one value per cell', () => {
+        const map = computeErrorMap(radios, [], device, params, options);
+        expect(map.mean.cols).toBe(5);
+        expect(map.mean.rows).toBe(5);
+        expect(map.mean.values).toHaveLength(25);
+        expect(map.p95.values).toHaveLength(25);
+    });
+
+    it('is near zero everywhere without noise', () => {
+        const map = computeErrorMap(radios, [], device, params, options);
+        expect(Math.max(...map.mean.values)).toBeLessThan(0.05);
+    });
+
+    it('grows with noise and has p95 above the mean', () => {
+        const noisy = { ...params, enableNoise: true };
+        const map = computeErrorMap(radios, [], device, noisy, options, createSeededRandom(5));
+        const summary = summarizeGrid(map.mean);
+        expect(summary.mean).toBeGreaterThan(0.1);
+        map.mean.values.forEach((v, i) => expect(map.p95.values[i]).toBeGreaterThanOrEqual(v));
+    });
+
+    it('runs Monte Carlo trials under fast fading without noise', () => {
+        const faded = { ...params, channel: { ...DEFAULT_CHANNEL_MODEL, fading: 'rayleigh' as const } };
+        const map = computeErrorMap(radios, [], device, faded, options, createSeededRandom(5));
+        expect(map.mean.values.some((v, i) => map.p95.values[i] > v)).toBe(true);
+    });
+
+    it('marks cells without a fix as NaN', () => {
+        const map = computeErrorMap(radios, [], device, params, { ...options, minRSSI: -65 });
+        expect(map.mean.values.some(v => isNaN(v))).toBe(true);
+        expect(summarizeGrid(map.mean).coverage).toBeLessThan(1);
+    });
+});
@@ -0,0 +1,94 @@
+import { Vector2D, Wall, Radio, Device, RSSIModelParams, ReceiverModel, SolverId, GridMap } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from '../constants';
+import { computeMeasurements, isStochasticModel } from './propagation';
+import { SolverOptions } from './solvers';
+import { estimatePosition } from './estimation';
+import { sampleGrid } from './grid';
+import { distance } from './geometry';
+import { RandomSource } from './random';
+import { mean, percentile } from './stats';
+
+export interface ErrorMapOptions {
+    /** Top-left corner of the area, pixels. */
+    origin: Vector2D;
+    width: number;
+    height: number;
+    /** Cell edge length in pixels. */
+    cellSize: number;
+    /** Monte Carlo trials per cell; only meaningful with noise or fast fading. */
+    trials: number;
+    solverId: SolverId;
+    solverOptions: Partial<SolverOptions>;
+    minRSSI: number;
+    pixelsPerMeter: number;
+    /** Model the receiver uses to invert RSSI; null means it knows the true one. */
+    receiver: ReceiverModel | null;
+}
+
+export const DEFAULT_ERROR_MAP_OPTIONS: ErrorMapOptions = {
+    origin: { x: 0, y: 0 },
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    cellSize: PIXELS_PER_METER,
+    trials: 20,
+    solverId: 'gaussNewton',
+    solverOptions: {},
+    minRSSI: -100,
+    pixelsPerMeter: PIXELS_PER_METER,
+    receiver: null,
+};
+
+export interface ErrorMap {
+    /** Mean positioning error per cell, meters. */
+    mean: GridMap;
+    /** 95th percentile positioning error per cell, meters. */
+    p95: GridMap;
+}
+
+/**
+ * Sweeps a virtual device over the floor and records the positioning error at
+ * each cell. Trials where no fix is possible are left out; a cell with no fix
+ * in any trial is NaN.
+ */
+export const computeErrorMap = (
+    radios: Radio[],
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    options: Partial<ErrorMapOptions> = {},
+    random: RandomSource = Math.random
+): ErrorMap => {
+    const o = { ...DEFAULT_ERROR_MAP_OPTIONS, ...options };
+    const trials = isStochasticModel(params) ? Math.max(1, o.trials) : 1;
+    const p95Values: number[] = [];
+
+    const meanGrid = sampleGrid(o.width, o.height, o.cellSize, center => {
+        const errors: number[] = [];
+        for (let i = 0; i < trials; i++) {
+            const measurements = computeMeasurements(radios, { ...device, ...center }, walls, params, random, o.pixelsPerMeter, o.receiver ?? params);
+            const active = measurements.filter(m => m.rssi > o.minRSSI);
+            const { result } = estimatePosition(o.solverId, active, o.receiver ?? params, walls, { ...o.solverOptions, pixelsPerMeter: o.pixelsPerMeter });
+            if (result) errors.push(distance(result.position, center) / o.pixelsPerMeter);
+        }
+        p95Values.push(percentile(errors, 95));
+        return mean(errors);
+    }, o.origin);
+
+    return { mean: meanGrid, p95: { ...meanGrid, values: p95Values } };
+};
+
+export interface GridSummary {
+    mean: number;
+    p95: number;
+    /** Fraction of cells that have a value. */
+    coverage: number;
+}
+
+export const summarizeGrid = (grid: GridMap): GridSummary => {
+    const values = grid.values.filter(v => !isNaN(v));
+    return {
+        mean: mean(values),
+        p95: percentile(values, 95),
+        coverage: grid.values.length === 0 ? 0 : values.length / grid.values.length,
+    };
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { Wall } from '../types';
+import { estimatePosition, rangeMeasurements } from './estimation';
+import { computeMeasurements } from './propagation';
+import { distance } from './geometry';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const radios = testRadios([{ x: 100, y: 100 }, { x: 700, y: 100 }, { x: 400, y: 600 }, { x: 100, y: 600 }]);
+const walls: Wall[] = [{ id: 'w', start: { x: 250, y: 0 }, end: { x: 250, y: 380 }, material: 'concrete', attenuation: 10, color: 0 }];
+const truth = testParams({ pathLossExponent: 2.5, enableWalls: true, noiseStdDev: 0 });
+const device = testDevice(420, 300);
+
+describe('estimatePosition', () => {
+    it('removes the wall bias when the receiver knows the walls', () => {
+        const measurements = computeMeasurements(radios, device, walls, truth);
+        const naive = estimatePosition('gaussNewton', measurements, { txPower: -59, pathLossExponent: 2.5 }, walls);
+        const aware = estimatePosition('gaussNewton', measurements, { txPower: -59, pathLossExponent: 2.5, compensateWalls: true }, walls);
+        expect(distance(naive.result!.position, device)).toBeGreaterThan(5);
+        expect(distance(aware.result!.position, device)).toBeLessThan(1);
+        expect(aware.measurements[0].estimatedDistance).toBeCloseTo(distance(radios[0], device) / 40, 2);
+    });
+
+    it('degrades when the assumed exponent is wrong', () => {
+        const measurements = computeMeasurements(radios, device, [], truth);
+        const matched = estimatePosition('gaussNewton', measurements, { txPower: -59, pathLossExponent: 2.5 }, []);
+        const mismatched = estimatePosition('gaussNewton', measurements, { txPower: -59, pathLossExponent: 2 }, []);
+        expect(distance(matched.result!.position, device)).toBeLessThan(0.5);
+        expect(distance(mismatched.result!.position, device)).toBeGreaterThan(distance(matched.result!.position, device));
+    });
+
+    it('finds the floor and projects ranges onto it when the building is known', () => {
+        const building = { floorAttenuation: 15, storeyHeight: 3 };
+        // Radios on two floors, all mounted 2.5 m up; the device is on the upper floor
+        const storeyed = [...radios.map(r => ({ ...r, height: 2.5 })), ...radios.map(r => ({ ...r, id: `${r.id}-1`, floor: 1, height: 2.5 }))];
+        const upstairs = { ...device, floor: 1 };
+        const measurements = computeMeasurements(storeyed, upstairs, [], { ...truth, building });
+        const receiver = { txPower: -59, pathLossExponent: 2.5, compensateWalls: true, building };
+        const estimate = estimatePosition('gaussNewton', measurements, receiver, []);
+        expect(estimate.floor).toBe(1);
+        expect(distance(estimate.result!.position, device)).toBeLessThan(1);
+
+        const flat = estimatePosition('gaussNewton', measurements.filter(m => m.radio.floor === 1), { txPower: -59, pathLossExponent: 2.5 }, []);
+        expect(distance(flat.result!.position, device)).toBeGreaterThan(distance(estimate.result!.position, device));
+    });
+});
+
+describe('rangeMeasurements', () => {
+    it('inverts RSSI with the receiver model', () => {
+        const [m] = computeMeasurements([radios[0]], testDevice(100 + 80, 100), [], truth);
+        expect(rangeMeasurements([m], { txPower: -59, pathLossExponent: 2.5 }, [])[0].estimatedDistance).toBeCloseTo(2);
+    });
+});
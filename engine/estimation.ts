@@ -0,0 +1,78 @@
+import { Wall, Measurement, ReceiverModel, SolverId, SolverResult } from '../types';
+import { estimateDistanceFromRSSI, receiverForRadio } from './propagation';
+import { SolverOptions } from './solvers';
+import { robustSolve, RadioDiagnostic } from './robust';
+import { findWallIntersections } from './geometry';
+import { estimateFloor, floorsBetween, wallsBetweenFloors, radioElevation } from './floors';
+
+export interface Estimate {
+    result: SolverResult | null;
+    /** Measurements with the ranges the solver finally used. */
+    measurements: Measurement[];
+    /** Estimated floor index of the device. */
+    floor: number;
+    /** How much each radio counted in the final fix, in measurement order. */
+    diagnostics: RadioDiagnostic[];
+}
+
+/** Fix-and-correct rounds for a wall-aware receiver. */
+export const WALL_COMPENSATION_PASSES = 3;
+
+/**
+ * Re-derives each range from RSSI under the receiver's model. A wall-aware
+ * receiver adds back the loss of the walls between the radio and `position`
+ * (plain sum of wall attenuations; the angle and cumulative effects are not
+ * known to the receiver) and, knowing the building, of the floors between the
+ * radio and `floor`. With the building known, ranges are projected onto the
+ * device's floor, assumed to be held at floor level.
+ */
+export const rangeMeasurements = (
+    measurements: Measurement[],
+    receiver: ReceiverModel,
+    walls: Wall[],
+    position: { x: number; y: number } | null = null,
+    floor = 0
+): Measurement[] =>
+    measurements.map(m => {
+        const device = { floor };
+        let loss = 0;
+        if (receiver.compensateWalls && position) {
+            loss += findWallIntersections(m.radio, position, wallsBetweenFloors(walls, m.radio, device)).reduce((sum, { wall }) => sum + wall.attenuation, 0);
+        }
+        if (receiver.compensateWalls && receiver.building) loss += floorsBetween(m.radio, device) * receiver.building.floorAttenuation;
+        let range = estimateDistanceFromRSSI(m.rssi + loss, receiverForRadio(receiver, m.radio));
+        if (receiver.building) {
+            const dz = radioElevation(m.radio, receiver.building) - floor * receiver.building.storeyHeight;
+            range = Math.sqrt(Math.max(range * range - dz * dz, 0));
+        }
+        return { ...m, estimatedDistance: range };
+    });
+
+/**
+ * Solves for the device position and floor as the receiver sees it. The floor
+ * comes first, from the received power per floor. Without wall knowledge the
+ * position is a single solve. With it, the wall loss along each path depends
+ * on the unknown position, so the fix is refined a few times from the
+ * previous one. Outliers are handled as `options.robust` asks.
+ */
+export const estimatePosition = (
+    solverId: SolverId,
+    measurements: Measurement[],
+    receiver: ReceiverModel,
+    walls: Wall[],
+    options: Partial<SolverOptions> = {}
+): Estimate => {
+    const floor = estimateFloor(measurements);
+    let ranged = rangeMeasurements(measurements, receiver, walls, null, floor);
+    let solved = robustSolve(solverId, ranged, options);
+    if (!receiver.compensateWalls || walls.length === 0) return { ...solved, measurements: ranged, floor };
+    for (let pass = 0; pass < WALL_COMPENSATION_PASSES && solved.result; pass++) {
+        const compensated = rangeMeasurements(measurements, receiver, walls, solved.result.position, floor);
+        const next = robustSolve(solverId, compensated, options);
+        // Keep the last fix together with the ranges it was solved from
+        if (!next.result) break;
+        ranged = compensated;
+        solved = next;
+    }
+    return { ...solved, measurements: ranged, floor };
+};
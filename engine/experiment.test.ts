@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+    evenRadioLayout, parseSweepValues, sweepConditions, conditionLabel, runExperiment, summarizeErrors, errorCDF,
+    experimentToCSV, experimentToJSON, ExperimentOptions, ExperimentProgress,
+} from './experiment';
+import { DEFAULT_CHANNEL_MODEL } from './channel';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const params = testParams();
+const radios = testRadios(evenRadioLayout(4, 1200, 900));
+const device = testDevice(0, 0);
+
+const run = (options: Partial<ExperimentOptions>, model = params): ExperimentProgress => {
+    const generator = runExperiment(radios, [], device, model, options);
+    let step = generator.next();
+    while (!step.done) step = generator.next();
+    return step.value;
+};
+
+describe('evenRadioLayout', () => {
+    it('places the requested number of radios inside the margin', () => {
+        for (const count of [3, 4, 5, 8]) {
+            const layout = evenRadioLayout(count, 1200, 900, 50);
+            expect(layout).toHaveLength(count);
+            layout.forEach(p => {
+                expect(p.x).toBeGreaterThanOrEqual(50 - 1e-9);
+                expect(p.y).toBeGreaterThanOrEqual(50 - 1e-9);
+                expect(p.x).toBeLessThanOrEqual(1150 + 1e-9);
+                expect(p.y).toBeLessThanOrEqual(850 + 1e-9);
+            });
+        }
+    });
+});
+
+describe('parseSweepValues', () => {
+    it('accepts comma- or space-separated numbers', () => {
+        expect(parseSweepValues('pathLossExponent', '2, 2.5 3')).toEqual([2, 2.5, 3]);
+    });
+
+    it('rejects invalid values with the parameter name', () => {
+        expect(() => parseSweepValues('noiseStdDev', '1, x')).toThrow(/Noise σ.*"x"/);
+        expect(() => parseSweepValues('radioCount', '2')).toThrow(/at least 3/);
+        expect(() => parseSweepValues('pathLossExponent', ' ')).toThrow(/at least one value/);
+    });
+});
+
+describe('sweepConditions', () => {
+    it('builds the cartesian product in sweep order', () => {
+        const conditions = sweepConditions([
+            { parameter: 'walls', values: [true, false] },
+            { parameter: 'noiseStdDev', values: [0, 4] },
+        ]);
+        expect(conditions).toEqual([
+            { walls: true, noiseStdDev: 0 }, { walls: true, noiseStdDev: 4 },
+            { walls: false, noiseStdDev: 0 }, { walls: false, noiseStdDev: 4 },
+        ]);
+        expect(conditionLabel(conditions[1])).toBe('walls on, σ=4 dB');
+        expect(sweepConditions([])).toEqual([{}]);
+        expect(conditionLabel({})).toBe('Current settings');
+    });
+});
+
+describe('runExperiment', () => {
+    it('is exact without noise and runs one trial per point', () => {
+        const { results, done, total } = run({ randomPoints: 10, trials: 5 });
+        expect(results).toHaveLength(1);
+        expect(done).toBe(10);
+        expect(total).toBe(10);
+        expect(results[0].summary.fixRate).toBe(1);
+        expect(results[0].summary.p90).toBeLessThan(0.05);
+    });
+
+    it('repeats trials under fast fading even without noise', () => {
+        const faded = { ...params, channel: { ...DEFAULT_CHANNEL_MODEL, fading: 'rayleigh' as const } };
+        const { total } = run({ randomPoints: 10, trials: 5 }, faded);
+        expect(total).toBe(50);
+    });
+
+    it('gets worse with more noise and reproduces with the same seed', () => {
+        const options = { randomPoints: 20, trials: 5, sweeps: [{ parameter: 'noiseStdDev' as const, values: [2, 8] }] };
+        const { results } = run(options);
+        expect(results[0].samples).toHaveLength(100);
+        expect(results[1].summary.mean).toBeGreaterThan(results[0].summary.mean);
+        expect(run(options).results[1].summary).toEqual(results[1].summary);
+    });
+
+    it('uses the given test points and the swept radio count', () => {
+        const points = [{ x: 300, y: 300 }, { x: 900, y: 600 }];
+        const { results } = run({ points, sweeps: [{ parameter: 'radioCount', values: [3, 6] }] });
+        expect(results.map(r => r.samples.map(s => s.point))).toEqual([points, points]);
+        results.forEach(r => expect(r.summary.mean).toBeLessThan(0.05));
+    });
+});
+
+describe('summaries and export', () => {
+    const samples = [
+        { point: { x: 0, y: 0 }, trial: 0, error: 1 },
+        { point: { x: 0, y: 0 }, trial: 1, error: 3 },
+        { point: { x: 40, y: 0 }, trial: 0, error: null },
+        { point: { x: 40, y: 0 }, trial: 1, error: 2 },
+    ];
+
+    it('summarises fixes only and reports the fix rate', () => {
+        expect(summarizeErrors(samples)).toEqual({ count: 4, fixRate: 0.75, mean: 2, median: 2, p90: 2.8 });
+    });
+
+    it('builds a CDF that levels off at the fix rate', () => {
+        expect(errorCDF(samples)).toEqual([
+            { error: 1, probability: 0.25 },
+            { error: 2, probability: 0.5 },
+            { error: 3, probability: 0.75 },
+        ]);
+    });
+
+    it('exports one CSV row per trial and JSON with the summaries', () => {
+        const results = [{ condition: { walls: false }, samples, summary: summarizeErrors(samples) }];
+        const sweeps = [{ parameter: 'walls' as const, values: [false] }];
+        const lines = experimentToCSV(results, sweeps).trim().split('\n');
+        expect(lines[0]).toBe('walls,x_m,y_m,trial,error_m');
+        expect(lines).toHaveLength(5);
+        expect(lines[3]).toBe('false,1.000,0.000,0,');
+        const json = JSON.parse(experimentToJSON(results, sweeps));
+        expect(json.results[0].summary.fixRate).toBe(0.75);
+        expect(json.results[0].samples[2]).toEqual({ x: 1, y: 0, trial: 0, error: null });
+    });
+});
@@ -0,0 +1,272 @@
+import { Vector2D, Wall, Radio, Device, RSSIModelParams, ReceiverModel, SolverId, CoordinateFrame } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from '../constants';
+import { computeMeasurements, isStochasticModel } from './propagation';
+import { SolverOptions, SOLVERS } from './solvers';
+import { estimatePosition } from './estimation';
+import { distance } from './geometry';
+import { DEFAULT_FRAME, toWorld } from './frame';
+import { RandomSource, createSeededRandom } from './random';
+import { mean, median, percentile } from './stats';
+
+// --- RADIO LAYOUTS ---
+/**
+ * Default layout for a number of radios: a triangle for three, the corners
+ * for four, otherwise a ring around the centre.
+ */
+export const evenRadioLayout = (count: number, width = CANVAS_WIDTH, height = CANVAS_HEIGHT, margin = 50): Vector2D[] => {
+    if (count === 3) return [{ x: width / 2, y: margin }, { x: margin, y: height - margin }, { x: width - margin, y: height - margin }];
+    if (count === 4) return [{ x: margin, y: margin }, { x: width - margin, y: margin }, { x: width - margin, y: height - margin }, { x: margin, y: height - margin }];
+    const radius = Math.min(width, height) / 2 - margin;
+    return Array.from({ length: count }, (_, i) => {
+        const angle = (i * 2 * Math.PI / count) - Math.PI / 2;
+        return { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) };
+    });
+};
+
+// --- SWEEPS ---
+export type SweepParameter = 'pathLossExponent' | 'noiseStdDev' | 'radioCount' | 'walls' | 'solver';
+export type SweepValue = number | boolean | SolverId;
+
+export const SWEEP_PARAMETERS: Record<SweepParameter, { name: string; column: string }> = {
+    pathLossExponent: { name: 'Path-Loss Exponent', column: 'path_loss_exponent' },
+    noiseStdDev: { name: 'Noise σ (dB)', column: 'noise_std_db' },
+    radioCount: { name: 'Number of Radios', column: 'radio_count' },
+    walls: { name: 'Walls', column: 'walls' },
+    solver: { name: 'Solver', column: 'solver' },
+};
+
+export interface Sweep {
+    parameter: SweepParameter;
+    values: SweepValue[];
+}
+
+/** One combination of swept values. */
+export type ExperimentCondition = Partial<Record<SweepParameter, SweepValue>>;
+
+/**
+ * Parses a comma-separated list of values for a numeric sweep parameter.
+ */
+export const parseSweepValues = (parameter: 'pathLossExponent' | 'noiseStdDev' | 'radioCount', text: string): number[] => {
+    const { name } = SWEEP_PARAMETERS[parameter];
+    const values = text.split(/[,;\s]+/).filter(s => s !== '').map(s => {
+        const value = Number(s);
+        if (isNaN(value)) throw new Error(`${name}: "${s}" is not a number`);
+        if (parameter === 'radioCount' && (!Number.isInteger(value) || value < 3)) throw new Error(`${name}: ${s} must be a whole number of at least 3`);
+        if (parameter === 'pathLossExponent' && value <= 0) throw new Error(`${name}: ${s} must be positive`);
+        if (parameter === 'noiseStdDev' && value < 0) throw new Error(`${name}: ${s} must not be negative`);
+        return value;
+    });
+    if (values.length === 0) throw new Error(`${name}: enter at least one value`);
+    return values;
+};
+
+/**
+ * Every combination of the swept values, in sweep order. No sweeps give a
+ * single condition: the current settings.
+ */
+export const sweepConditions = (sweeps: Sweep[]): ExperimentCondition[] =>
+    sweeps.reduce<ExperimentCondition[]>(
+        (conditions, { parameter, values }) => conditions.flatMap(c => values.map(v => ({ ...c, [parameter]: v }))),
+        [{}]
+    );
+
+export const conditionLabel = (condition: ExperimentCondition): string => {
+    const parts = (Object.entries(condition) as [SweepParameter, SweepValue][]).map(([parameter, value]) => {
+        switch (parameter) {
+            case 'pathLossExponent': return `n=${value}`;
+            case 'noiseStdDev': return `σ=${value} dB`;
+            case 'radioCount': return `${value} radios`;
+            case 'walls': return value ? 'walls on' : 'walls off';
+            case 'solver': return SOLVERS[value as SolverId].name;
+        }
+    });
+    return parts.length > 0 ? parts.join(', ') : 'Current settings';
+};
+
+// --- RUNNER ---
+export interface ExperimentOptions {
+    sweeps: Sweep[];
+    /** Test points in canvas pixels; when empty, `randomPoints` are drawn uniformly inside the margin. */
+    points: Vector2D[];
+    randomPoints: number;
+    /** Repetitions per point under noise or fast fading; a deterministic condition runs once. */
+    trials: number;
+    /** Every condition replays the same random stream, so they are compared on the same noise. */
+    seed: number;
+    /** Top-left corner of the area, pixels. */
+    origin: Vector2D;
+    width: number;
+    height: number;
+    margin: number;
+    solverId: SolverId;
+    solverOptions: Partial<SolverOptions>;
+    minRSSI: number;
+    pixelsPerMeter: number;
+    /** Model the receiver uses to invert RSSI; null means it knows the true one. */
+    receiver: ReceiverModel | null;
+}
+
+export const DEFAULT_EXPERIMENT_OPTIONS: ExperimentOptions = {
+    sweeps: [],
+    points: [],
+    randomPoints: 50,
+    trials: 10,
+    seed: 1,
+    origin: { x: 0, y: 0 },
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    margin: 20,
+    solverId: 'gaussNewton',
+    solverOptions: {},
+    minRSSI: -100,
+    pixelsPerMeter: PIXELS_PER_METER,
+    receiver: null,
+};
+
+export interface ExperimentSample {
+    /** True position in canvas pixels. */
+    point: Vector2D;
+    trial: number;
+    /** Positioning error in meters; null when no fix was possible. */
+    error: number | null;
+}
+
+export interface ErrorSummary {
+    count: number;
+    /** Fraction of samples with a fix. */
+    fixRate: number;
+    /** Statistics over the samples with a fix, meters. */
+    mean: number;
+    median: number;
+    p90: number;
+}
+
+export interface ExperimentResult {
+    condition: ExperimentCondition;
+    samples: ExperimentSample[];
+    summary: ErrorSummary;
+}
+
+export interface ExperimentProgress {
+    done: number;
+    total: number;
+    /** Finished conditions, in sweep order. */
+    results: ExperimentResult[];
+}
+
+export const summarizeErrors = (samples: ExperimentSample[]): ErrorSummary => {
+    const errors = samples.filter(s => s.error !== null).map(s => s.error as number);
+    return {
+        count: samples.length,
+        fixRate: samples.length === 0 ? 0 : errors.length / samples.length,
+        mean: mean(errors),
+        median: median(errors),
+        p90: percentile(errors, 90),
+    };
+};
+
+const randomPoint = (o: ExperimentOptions, random: RandomSource): Vector2D => ({
+    x: o.origin.x + o.margin + random() * (o.width - 2 * o.margin),
+    y: o.origin.y + o.margin + random() * (o.height - 2 * o.margin),
+});
+
+/**
+ * The scene and models as one condition changes them. A receiver that knows
+ * the true model follows the swept exponent; an explicit one keeps its own.
+ * A radio-count sweep replaces the radios with the default layout.
+ */
+const applyCondition = (
+    condition: ExperimentCondition,
+    radios: Radio[],
+    params: RSSIModelParams,
+    o: ExperimentOptions
+): { radios: Radio[]; params: RSSIModelParams; receiver: ReceiverModel; solverId: SolverId } => {
+    let next = { ...params };
+    if (condition.pathLossExponent !== undefined) next.pathLossExponent = condition.pathLossExponent as number;
+    if (condition.noiseStdDev !== undefined) next = { ...next, enableNoise: (condition.noiseStdDev as number) > 0, noiseStdDev: condition.noiseStdDev as number };
+    if (condition.walls !== undefined) next.enableWalls = condition.walls as boolean;
+    const layout = condition.radioCount === undefined ? radios
+        : evenRadioLayout(condition.radioCount as number, o.width, o.height).map((p, i) => ({ id: `radio-${i}`, x: o.origin.x + p.x, y: o.origin.y + p.y, radius: 10, label: `R${i + 1}` }));
+    return {
+        radios: layout,
+        params: next,
+        receiver: o.receiver ?? next,
+        solverId: (condition.solver as SolverId | undefined) ?? o.solverId,
+    };
+};
+
+/**
+ * Runs every sweep condition over the test points and records the error of
+ * each trial. Yields progress regularly so callers can spread the work over
+ * several frames.
+ */
+export function* runExperiment(
+    radios: Radio[],
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    options: Partial<ExperimentOptions> = {},
+    yieldEvery = 50
+): Generator<ExperimentProgress, ExperimentProgress> {
+    const o = { ...DEFAULT_EXPERIMENT_OPTIONS, ...options };
+    const conditions = sweepConditions(o.sweeps);
+    const pointRandom = createSeededRandom(o.seed);
+    const points = o.points.length > 0 ? o.points : Array.from({ length: Math.max(1, o.randomPoints) }, () => randomPoint(o, pointRandom));
+    const scenes = conditions.map(c => applyCondition(c, radios, params, o));
+    const trialsOf = (p: RSSIModelParams) => isStochasticModel(p) ? Math.max(1, o.trials) : 1;
+    const total = scenes.reduce((sum, s) => sum + points.length * trialsOf(s.params), 0);
+    const results: ExperimentResult[] = [];
+    let done = 0;
+
+    for (let c = 0; c < conditions.length; c++) {
+        const scene = scenes[c];
+        const random = createSeededRandom(o.seed + 1);
+        const samples: ExperimentSample[] = [];
+        for (const point of points) {
+            for (let trial = 0; trial < trialsOf(scene.params); trial++) {
+                const measurements = computeMeasurements(scene.radios, { ...device, ...point }, walls, scene.params, random, o.pixelsPerMeter, scene.receiver);
+                const active = measurements.filter(m => m.rssi > o.minRSSI);
+                const { result } = estimatePosition(scene.solverId, active, scene.receiver, walls, { ...o.solverOptions, pixelsPerMeter: o.pixelsPerMeter });
+                samples.push({ point, trial, error: result ? distance(result.position, point) / o.pixelsPerMeter : null });
+                done++;
+                if (done % yieldEvery === 0) yield { done, total, results: [...results] };
+            }
+        }
+        results.push({ condition: conditions[c], samples, summary: summarizeErrors(samples) });
+    }
+    return { done, total, results };
+}
+
+// --- ANALYSIS & EXPORT ---
+/**
+ * Empirical CDF of the errors. Samples without a fix count towards the total,
+ * so the curve levels off at the fix rate.
+ */
+export const errorCDF = (samples: ExperimentSample[]): { error: number; probability: number }[] => {
+    const errors = samples.filter(s => s.error !== null).map(s => s.error as number).sort((a, b) => a - b);
+    return errors.map((error, i) => ({ error, probability: (i + 1) / samples.length }));
+};
+
+/**
+ * One row per trial: the swept values, the test point in world meters, and
+ * the error in meters (empty without a fix).
+ */
+export const experimentToCSV = (results: ExperimentResult[], sweeps: Sweep[], frame: CoordinateFrame = DEFAULT_FRAME): string => {
+    const parameters = sweeps.map(s => s.parameter);
+    const header = [...parameters.map(p => SWEEP_PARAMETERS[p].column), 'x_m', 'y_m', 'trial', 'error_m'];
+    const rows = results.flatMap(({ condition, samples }) => samples.map(s => {
+        const world = toWorld(s.point, frame);
+        return [...parameters.map(p => String(condition[p])), world.x.toFixed(3), world.y.toFixed(3), String(s.trial), s.error === null ? '' : s.error.toFixed(4)];
+    }));
+    return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+};
+
+export const experimentToJSON = (results: ExperimentResult[], sweeps: Sweep[], frame: CoordinateFrame = DEFAULT_FRAME): string =>
+    JSON.stringify({
+        sweeps,
+        results: results.map(({ condition, samples, summary }) => ({
+            condition,
+            summary,
+            samples: samples.map(s => ({ ...toWorld(s.point, frame), trial: s.trial, error: s.error })),
+        })),
+    }, null, 2);
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Wall, Radio, Measurement, CoordinateFrame } from '../types';
+import { sceneToGeoJSON, measurementsToCSV, sceneToSVG } from './export';
+import { parseGeoJSONPlan } from './vectorImport';
+
+const frame: CoordinateFrame = { pixelsPerMeter: 40, origin: { x: 40, y: 40 }, rotation: 0 };
+const walls: Wall[] = [{ id: 'w1', start: { x: 40, y: 40 }, end: { x: 440, y: 40 }, material: 'concrete', attenuation: 10, color: 0x888888 }];
+const radios: Radio[] = [
+    { id: 'r1', x: 40, y: 120, radius: 10, label: 'Beacon, "A"' },
+    { id: 'r2', x: 440, y: 120, radius: 10, label: 'B', enabled: false, txPower: -62 },
+];
+
+describe('sceneToGeoJSON', () => {
+    it('writes walls and radios in meters with y up', () => {
+        const doc = JSON.parse(sceneToGeoJSON(walls, radios, frame));
+        expect(doc.type).toBe('FeatureCollection');
+        expect(doc.features[0].geometry).toEqual({ type: 'LineString', coordinates: [[0, 0], [10, 0]] });
+        expect(doc.features[0].properties).toMatchObject({ kind: 'wall', layer: 'concrete', attenuation: 10 });
+        expect(doc.features[1].geometry).toEqual({ type: 'Point', coordinates: [0, -2] });
+        expect(doc.features[2].properties).toMatchObject({ kind: 'radio', enabled: false, txPower: -62 });
+    });
+
+    it('is read back by the vector importer as meters', () => {
+        const plan = parseGeoJSONPlan(sceneToGeoJSON(walls, radios, frame));
+        expect(plan.units).toBe('m');
+        expect(plan.layers).toEqual(['concrete']);
+    });
+});
+
+describe('measurementsToCSV', () => {
+    const measurements: Measurement[] = [
+        { radio: radios[0], trueDistance: 2, rssi: -67.25, estimatedDistance: 2.5 },
+        { radio: radios[1], trueDistance: NaN, rssi: -80, estimatedDistance: 9 },
+    ];
+
+    it('writes one row per radio with the estimate and its error', () => {
+        const csv = measurementsToCSV(measurements, [{ radioId: 'r1', residual: 0.5, weight: 1 }], { x: 80, y: 120 }, { x: 40, y: 120 }, frame);
+        const lines = csv.trim().split('\n');
+        expect(lines[0]).toBe('radio_id,label,radio_x_m,radio_y_m,rssi_dbm,true_distance_m,estimated_distance_m,residual_m,weight,estimate_x_m,estimate_y_m,error_m');
+        expect(lines[1]).toBe('r1,"Beacon, ""A""",0.000,2.000,-67.25,2.000,2.500,0.500,1.000,1.000,2.000,1.000');
+        expect(lines[2]).toBe('r2,B,10.000,2.000,-80.00,,9.000,,,1.000,2.000,1.000');
+    });
+
+    it('leaves the estimate empty without a fix', () => {
+        const csv = measurementsToCSV(measurements, [], null, null, frame);
+        expect(csv.split('\n')[1].endsWith(',,,')).toBe(true);
+    });
+});
+
+describe('sceneToSVG', () => {
+    it('draws the scene in canvas pixels with escaped labels', () => {
+        const svg = sceneToSVG({
+            width: 480, height: 320, walls, radios,
+            device: { x: 100, y: 100, radius: 10 },
+            estimates: [{ position: { x: 110, y: 105 }, color: 0xf43f5e }],
+        });
+        expect(svg).toContain('viewBox="0 0 480 320"');
+        expect(svg).toContain('<line x1="40" y1="40" x2="440" y2="40" stroke="#888888"');
+        expect(svg).toContain('Beacon, &quot;A&quot;');
+        expect(svg).toContain('<circle cx="110" cy="105" r="6" fill="#f43f5e"/>');
+        expect(svg).not.toContain('id="ranges"');
+        expect(svg).toContain('<circle cx="100" cy="100" r="10" fill="#38bdf8"/>');
+    });
+
+    it('joins further devices to their own estimates in their colors', () => {
+        const svg = sceneToSVG({
+            width: 480, height: 320, walls: [], radios: [],
+            device: { x: 100, y: 100, radius: 10, color: 0xfacc15 },
+            otherDevices: [
+                { position: { x: 200, y: 200 }, radius: 10, color: 0xfb923c, estimate: { x: 210, y: 190 } },
+                { position: { x: 300, y: 200 }, radius: 10, color: 0xa3e635, estimate: null },
+            ],
+        });
+        expect(svg).toContain('<circle cx="100" cy="100" r="10" fill="#facc15"/>');
+        expect(svg).toContain('<line x1="200" y1="200" x2="210" y2="190" stroke="#fb923c" stroke-dasharray="5 3"/>');
+        expect(svg).toContain('<circle cx="300" cy="200" r="10" fill="#a3e635"/>');
+    });
+
+    it('draws only the given area', () => {
+        const svg = sceneToSVG({ origin: { x: -100, y: 50.5 }, width: 800, height: 600, walls, radios: [], device: null });
+        expect(svg).toContain('width="800" height="600" viewBox="-100 50.5 800 600"');
+    });
+});
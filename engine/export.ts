@@ -0,0 +1,142 @@
+import { Vector2D, Segment, Wall, Radio, Measurement, CoordinateFrame } from '../types';
+import { DEFAULT_FRAME, toWorld } from './frame';
+import { distance } from './geometry';
+import { RadioDiagnostic } from './robust';
+
+/**
+ * Scene and result exports for reports and other tools. Geometry leaves the
+ * simulator in world meters, except the SVG drawing, which keeps the canvas
+ * layout.
+ */
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// --- GEOJSON ---
+/**
+ * Walls as LineStrings and radios as Points in world meters with y up, so that
+ * GIS tools show the plan the right way round. Coordinates are not
+ * longitude/latitude; the (pre-RFC 7946) crs member says so, and makes the
+ * vector importer read them back as meters.
+ */
+export const sceneToGeoJSON = (walls: Wall[], radios: Radio[], frame: CoordinateFrame = DEFAULT_FRAME): string => {
+    const position = (p: Vector2D) => {
+        const world = toWorld(p, frame);
+        return [round(world.x, 4), round(-world.y, 4)];
+    };
+    const features = [
+        ...walls.map(wall => ({
+            type: 'Feature',
+            properties: { kind: 'wall', id: wall.id, layer: wall.material, attenuation: wall.attenuation, floor: wall.floor ?? 0 },
+            geometry: { type: 'LineString', coordinates: [position(wall.start), position(wall.end)] },
+        })),
+        ...radios.map(radio => ({
+            type: 'Feature',
+            properties: {
+                kind: 'radio',
+                id: radio.id,
+                label: radio.label,
+                floor: radio.floor ?? 0,
+                enabled: radio.enabled !== false,
+                ...(radio.txPower !== undefined && { txPower: radio.txPower }),
+                ...(radio.height !== undefined && { height: radio.height }),
+            },
+            geometry: { type: 'Point', coordinates: position(radio) },
+        })),
+    ];
+    return JSON.stringify({ type: 'FeatureCollection', crs: { type: 'name', properties: { name: 'local meters' } }, features }, null, 2);
+};
+
+// --- CSV ---
+/**
+ * The Live Data table: one row per radio with its measurement and the
+ * solver's view of it, followed by the estimate and its error, repeated on
+ * each row so rows stand alone. Positions and distances in meters; empty
+ * cells where there is no value (no fix, no ground truth).
+ */
+export const measurementsToCSV = (
+    measurements: Measurement[],
+    diagnostics: RadioDiagnostic[],
+    estimate: Vector2D | null,
+    truth: Vector2D | null,
+    frame: CoordinateFrame = DEFAULT_FRAME
+): string => {
+    const header = ['radio_id', 'label', 'radio_x_m', 'radio_y_m', 'rssi_dbm', 'true_distance_m', 'estimated_distance_m', 'residual_m', 'weight', 'estimate_x_m', 'estimate_y_m', 'error_m'];
+    const cell = (value: number | null | undefined, digits: number) => value === null || value === undefined || isNaN(value) ? '' : value.toFixed(digits);
+    const estimateWorld = estimate ? toWorld(estimate, frame) : null;
+    const error = estimate && truth ? distance(estimate, truth) / frame.pixelsPerMeter : null;
+    const rows = measurements.map(m => {
+        const radio = toWorld(m.radio, frame);
+        const diagnostic = diagnostics.find(d => d.radioId === m.radio.id);
+        return [
+            csvField(m.radio.id), csvField(m.radio.label), radio.x.toFixed(3), radio.y.toFixed(3),
+            cell(m.rssi, 2), cell(m.trueDistance, 3), cell(m.estimatedDistance, 3),
+            cell(diagnostic?.residual, 3), cell(diagnostic?.weight, 3),
+            cell(estimateWorld?.x, 3), cell(estimateWorld?.y, 3), cell(error, 3),
+        ];
+    });
+    return [header, ...rows].map(row => row.join(',')).join('\n') + '\n';
+};
+
+/** Quotes a field that would otherwise break the row. */
+const csvField = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// --- SVG ---
+/** What the vector snapshot shows, in canvas pixels. */
+export interface SceneDrawing {
+    /** Top-left corner of the drawn area; the canvas origin when unset. */
+    origin?: Vector2D;
+    width: number;
+    height: number;
+    walls: Wall[];
+    radios: Radio[];
+    /** The selected device; sky-400 unless colored. */
+    device: (Vector2D & { radius: number; color?: number }) | null;
+    /** Further devices, each joined to its own estimate. */
+    otherDevices?: { position: Vector2D; radius: number; color: number; estimate: Vector2D | null }[];
+    /** Range circles around the radios. */
+    ranges?: { center: Vector2D; radius: number }[];
+    /** Solver estimates, joined to the device. */
+    estimates?: { position: Vector2D; color: number }[];
+    /** Floor plan line work. */
+    background?: Segment[];
+}
+
+const svgColor = (color: number) => `#${color.toString(16).padStart(6, '0')}`;
+const escapeXML = (text: string) => text.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]));
+const n = (value: number) => String(round(value, 2));
+
+/**
+ * A clean vector drawing of the scene: plan, walls, radios with their labels,
+ * range circles, the device and the estimates, with no overlays. Colors match
+ * the canvas; the background is left transparent.
+ */
+export const sceneToSVG = (scene: SceneDrawing): string => {
+    const line = (s: Segment, attrs: string) => `<line x1="${n(s.start.x)}" y1="${n(s.start.y)}" x2="${n(s.end.x)}" y2="${n(s.end.y)}" ${attrs}/>`;
+    const circle = (c: Vector2D, r: number, attrs: string) => `<circle cx="${n(c.x)}" cy="${n(c.y)}" r="${n(r)}" ${attrs}/>`;
+    const group = (id: string, items: string[]) => items.length > 0 ? [`  <g id="${id}">`, ...items.map(i => `    ${i}`), '  </g>'] : [];
+    const origin = scene.origin ?? { x: 0, y: 0 };
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${n(scene.width)}" height="${n(scene.height)}" viewBox="${n(origin.x)} ${n(origin.y)} ${n(scene.width)} ${n(scene.height)}">`,
+        ...group('background', (scene.background ?? []).map(s => line(s, 'stroke="#9ca3af" stroke-width="1"'))),
+        ...group('walls', scene.walls.map(w => line(w, `stroke="${svgColor(w.color)}" stroke-width="3" stroke-linecap="round"`))),
+        ...group('ranges', (scene.ranges ?? []).map(r => circle(r.center, r.radius, 'fill="none" stroke="#6b7280" stroke-width="1"'))),
+        ...group('radios', scene.radios.flatMap(r => [
+            circle(r, r.radius, `fill="${r.enabled === false ? '#6b7280' : '#4ade80'}"`),
+            `<text x="${n(r.x + r.radius + 4)}" y="${n(r.y + 4)}" font-family="sans-serif" font-size="12" fill="#374151">${escapeXML(r.label)}</text>`,
+        ])),
+        ...group('estimates', (scene.estimates ?? []).flatMap(e => [
+            ...(scene.device ? [line({ start: scene.device, end: e.position }, `stroke="${svgColor(e.color)}" stroke-dasharray="5 3"`)] : []),
+            circle(e.position, 6, `fill="${svgColor(e.color)}"`),
+        ])),
+        ...group('devices', (scene.otherDevices ?? []).flatMap(d => [
+            ...(d.estimate ? [
+                line({ start: d.position, end: d.estimate }, `stroke="${svgColor(d.color)}" stroke-dasharray="5 3"`),
+                circle(d.estimate, 6, `fill="${svgColor(d.color)}"`),
+            ] : []),
+            circle(d.position, d.radius, `fill="${svgColor(d.color)}"`),
+        ])),
+        ...group('device', scene.device ? [circle(scene.device, scene.device.radius, `fill="${svgColor(scene.device.color ?? 0x38bdf8)}"`)] : []),
+        '</svg>',
+        '',
+    ].join('\n');
+};
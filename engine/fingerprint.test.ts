@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { Wall } from '../types';
+import { computeMeasurements } from './propagation';
+import { performTrilateration } from './trilateration';
+import { buildRadioMap, radioMapFromSurvey, matchFingerprint, RadioMap } from './fingerprint';
+import { distance } from './geometry';
+import { testParams, cornerRadios as radios, testDevice } from './testFixtures';
+
+const params = testParams({ enableWalls: true });
+const device = testDevice(600, 450);
+
+const options = { width: 1200, height: 900, spacing: 50, samplesPerPoint: 1 };
+
+describe('buildRadioMap', () => {
+    it('samples a fingerprint at every grid cell centre', () => {
+        const map = buildRadioMap(radios, [], device, params, options);
+        expect(map.fingerprints).toHaveLength(24 * 18);
+        expect(map.fingerprints[0].position).toEqual({ x: 25, y: 25 });
+        expect(Object.keys(map.fingerprints[0].rssi).sort()).toEqual(['r1', 'r2', 'r3', 'r4']);
+        expect(map.spacing).toBe(50);
+    });
+});
+
+describe('radioMapFromSurvey', () => {
+    it('groups readings by point and averages repeats', () => {
+        const map = radioMapFromSurvey([
+            { position: { x: 10, y: 10 }, beaconId: 'a', rssi: -60 },
+            { position: { x: 10, y: 10 }, beaconId: 'a', rssi: -70 },
+            { position: { x: 10, y: 10 }, beaconId: 'b', rssi: -80 },
+            { position: { x: 90, y: 10 }, beaconId: 'b', rssi: -50 },
+            { position: { x: 90, y: 10 }, beaconId: 'unknown', rssi: -50 },
+        ], { a: 'r1', b: 'r2' });
+        expect(map.spacing).toBeNull();
+        expect(map.fingerprints).toEqual([
+            { position: { x: 10, y: 10 }, floor: 0, rssi: { r1: -65, r2: -80 } },
+            { position: { x: 90, y: 10 }, floor: 0, rssi: { r2: -50 } },
+        ]);
+    });
+
+    it('rejects a survey with no mapped beacons', () => {
+        expect(() => radioMapFromSurvey([{ position: { x: 0, y: 0 }, beaconId: 'x', rssi: -60 }], {})).toThrow(/No survey readings/);
+    });
+});
+
+describe('matchFingerprint', () => {
+    const map: RadioMap = {
+        spacing: null,
+        fingerprints: [
+            { position: { x: 0, y: 0 }, floor: 0, rssi: { r1: -50, r2: -90 } },
+            { position: { x: 100, y: 0 }, floor: 0, rssi: { r1: -70, r2: -70 } },
+            { position: { x: 200, y: 0 }, floor: 0, rssi: { r1: -90, r2: -50 } },
+        ],
+    };
+    const measure = (r1: number, r2: number) => [
+        { radio: radios[0], rssi: r1, trueDistance: 0, estimatedDistance: 0 },
+        { radio: radios[1], rssi: r2, trueDistance: 0, estimatedDistance: 0 },
+    ];
+
+    it('returns the closest fingerprint with k = 1', () => {
+        const match = matchFingerprint(map, measure(-68, -72), { k: 1 });
+        expect(match!.position).toEqual({ x: 100, y: 0 });
+        expect(match!.neighbours[0].signalDistance).toBeCloseTo(Math.sqrt(8));
+    });
+
+    it('averages neighbours with k-NN and leans to the closer one with weighted k-NN', () => {
+        const knn = matchFingerprint(map, measure(-55, -85), { k: 2, method: 'knn' });
+        const wknn = matchFingerprint(map, measure(-55, -85), { k: 2, method: 'wknn' });
+        expect(knn!.position.x).toBeCloseTo(50);
+        expect(wknn!.position.x).toBeLessThan(50);
+    });
+
+    it('treats unheard radios as the missing level', () => {
+        const match = matchFingerprint(map, measure(-50, -90).slice(0, 1), { k: 1, missingRSSI: -90 });
+        expect(match!.position).toEqual({ x: 0, y: 0 });
+    });
+
+    it('returns null without measurements', () => {
+        expect(matchFingerprint(map, [])).toBeNull();
+    });
+
+    it('beats trilateration behind walls the ranging model ignores', () => {
+        const walls: Wall[] = [
+            { id: 'w1', start: { x: 400, y: 0 }, end: { x: 400, y: 900 }, material: 'concrete', attenuation: 12, color: 0 },
+            { id: 'w2', start: { x: 0, y: 600 }, end: { x: 1200, y: 600 }, material: 'brick', attenuation: 8, color: 0 },
+        ];
+        const map = buildRadioMap(radios, walls, device, params, { ...options, spacing: 25 });
+        const truth = { ...device, x: 700, y: 300 };
+        const measurements = computeMeasurements(radios, truth, walls, params);
+        const fingerprint = matchFingerprint(map, measurements, { k: 4, method: 'wknn', missingRSSI: -120 })!;
+        const trilateration = performTrilateration(measurements)!;
+        expect(distance(fingerprint.position, truth)).toBeLessThan(25);
+        expect(distance(fingerprint.position, truth)).toBeLessThan(distance(trilateration, truth));
+    });
+});
@@ -0,0 +1,163 @@
+import { Vector2D, Wall, Radio, Device, Measurement, RSSIModelParams } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from '../constants';
+import { computeMeasurements } from './propagation';
+import { floorOf } from './floors';
+import { ReferenceReading } from './pathLossFit';
+import { BeaconMapping } from './rssiLog';
+import { RandomSource } from './random';
+
+// --- RADIO MAP ---
+export interface Fingerprint {
+    /** Survey point in canvas pixels. */
+    position: Vector2D;
+    floor: number;
+    /** Mean RSSI per radio id, dBm. Radios not heard are absent. */
+    rssi: Record<string, number>;
+}
+
+export interface RadioMap {
+    fingerprints: Fingerprint[];
+    /** Grid spacing in pixels for a simulated map; null for an imported survey. */
+    spacing: number | null;
+}
+
+export interface RadioMapOptions {
+    /** Top-left corner of the area, pixels. */
+    origin: Vector2D;
+    width: number;
+    height: number;
+    /** Distance between survey points, pixels. */
+    spacing: number;
+    /** Readings averaged per survey point, as a surveyor standing still would. */
+    samplesPerPoint: number;
+    pixelsPerMeter: number;
+}
+
+export const DEFAULT_RADIO_MAP_OPTIONS: RadioMapOptions = {
+    origin: { x: 0, y: 0 },
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    spacing: PIXELS_PER_METER,
+    samplesPerPoint: 5,
+    pixelsPerMeter: PIXELS_PER_METER,
+};
+
+/**
+ * Surveys the simulated world on a regular grid on the device's floor,
+ * averaging a few noisy readings per point in dBm.
+ */
+export const buildRadioMap = (
+    radios: Radio[],
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    options: Partial<RadioMapOptions> = {},
+    random: RandomSource = Math.random
+): RadioMap => {
+    const o = { ...DEFAULT_RADIO_MAP_OPTIONS, ...options };
+    const samples = Math.max(1, Math.round(o.samplesPerPoint));
+    const fingerprints: Fingerprint[] = [];
+    for (let y = o.origin.y + o.spacing / 2; y < o.origin.y + o.height; y += o.spacing) {
+        for (let x = o.origin.x + o.spacing / 2; x < o.origin.x + o.width; x += o.spacing) {
+            const sums: Record<string, number> = {};
+            for (let i = 0; i < samples; i++) {
+                computeMeasurements(radios, { ...device, x, y }, walls, params, random, o.pixelsPerMeter).forEach(m => {
+                    sums[m.radio.id] = (sums[m.radio.id] ?? 0) + m.rssi;
+                });
+            }
+            const rssi = Object.fromEntries(Object.entries(sums).map(([id, sum]) => [id, sum / samples]));
+            fingerprints.push({ position: { x, y }, floor: floorOf(device), rssi });
+        }
+    }
+    return { fingerprints, spacing: o.spacing };
+};
+
+/**
+ * Builds a radio map from surveyed readings, averaging repeated readings of a
+ * beacon at the same point. Beacons without a mapped radio are skipped.
+ */
+export const radioMapFromSurvey = (readings: ReferenceReading[], mapping: BeaconMapping, floor = 0): RadioMap => {
+    const points = new Map<string, { position: Vector2D; sums: Record<string, { sum: number; count: number }> }>();
+    readings.forEach(({ position, beaconId, rssi }) => {
+        const radioId = mapping[beaconId];
+        if (!radioId) return;
+        const key = `${position.x.toFixed(3)},${position.y.toFixed(3)}`;
+        const point = points.get(key) ?? { position, sums: {} };
+        const entry = point.sums[radioId] ?? { sum: 0, count: 0 };
+        point.sums[radioId] = { sum: entry.sum + rssi, count: entry.count + 1 };
+        points.set(key, point);
+    });
+    const fingerprints = [...points.values()].map(({ position, sums }) => ({
+        position,
+        floor,
+        rssi: Object.fromEntries(Object.entries(sums).map(([id, { sum, count }]) => [id, sum / count])),
+    }));
+    if (fingerprints.length === 0) throw new Error('No survey readings match a radio');
+    return { fingerprints, spacing: null };
+};
+
+// --- MATCHING ---
+export type FingerprintMethod = 'knn' | 'wknn';
+
+export const FINGERPRINT_METHODS: Record<FingerprintMethod, { name: string }> = {
+    knn: { name: 'k-NN' },
+    wknn: { name: 'Weighted k-NN' },
+};
+
+export interface FingerprintOptions {
+    method: FingerprintMethod;
+    k: number;
+    /** RSSI assumed for a radio that is not heard, dBm; weaker readings are raised to it. */
+    missingRSSI: number;
+}
+
+export const DEFAULT_FINGERPRINT_OPTIONS: FingerprintOptions = {
+    method: 'wknn',
+    k: 4,
+    missingRSSI: -100,
+};
+
+export interface FingerprintNeighbour {
+    fingerprint: Fingerprint;
+    /** Euclidean distance in signal space, dB. */
+    signalDistance: number;
+}
+
+export interface FingerprintMatch {
+    /** Estimated position in canvas pixels. */
+    position: Vector2D;
+    /** Floor of the closest fingerprint. */
+    floor: number;
+    neighbours: FingerprintNeighbour[];
+}
+
+/**
+ * Locates the device by comparing its RSSI vector with the radio map. k-NN
+ * averages the positions of the k closest fingerprints in signal space;
+ * weighted k-NN weights them by inverse signal distance.
+ */
+export const matchFingerprint = (map: RadioMap, measurements: Measurement[], options: Partial<FingerprintOptions> = {}): FingerprintMatch | null => {
+    const { method, k, missingRSSI } = { ...DEFAULT_FINGERPRINT_OPTIONS, ...options };
+    if (map.fingerprints.length === 0 || measurements.length === 0) return null;
+
+    const observed: Record<string, number> = Object.fromEntries(measurements.map(m => [m.radio.id, m.rssi]));
+    const level = (v: number | undefined) => Math.max(v ?? missingRSSI, missingRSSI);
+    const ids = [...new Set([...Object.keys(observed), ...map.fingerprints.flatMap(f => Object.keys(f.rssi))])];
+
+    const neighbours = map.fingerprints
+        .map(fingerprint => ({
+            fingerprint,
+            signalDistance: Math.sqrt(ids.reduce((sum, id) => sum + (level(observed[id]) - level(fingerprint.rssi[id])) ** 2, 0)),
+        }))
+        .sort((a, b) => a.signalDistance - b.signalDistance)
+        .slice(0, Math.max(1, Math.round(k)));
+
+    // Small offset keeps an exact match from taking an infinite weight
+    const weights = neighbours.map(n => method === 'wknn' ? 1 / (n.signalDistance + 1e-3) : 1);
+    const total = weights.reduce((a, b) => a + b, 0);
+    const position = neighbours.reduce((p, n, i) => ({
+        x: p.x + n.fingerprint.position.x * weights[i] / total,
+        y: p.y + n.fingerprint.position.y * weights[i] / total,
+    }), { x: 0, y: 0 });
+    return { position, floor: neighbours[0].fingerprint.floor, neighbours };
+};
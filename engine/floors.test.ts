@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { Radio, Device, Wall } from '../types';
+import { slantDistance, radioElevation, deviceElevation, floorsBetween, wallsBetweenFloors, estimateFloor } from './floors';
+import { calculateRSSI } from './propagation';
+import { testParams } from './testFixtures';
+
+const building = { floorAttenuation: 12, storeyHeight: 3 };
+const radio: Radio = { id: 'r1', x: 0, y: 0, radius: 10, label: 'R1', floor: 1, height: 2.5 };
+const device: Device = { x: 160, y: 0, radius: 10, z: 1 };
+
+describe('floor geometry', () => {
+    it('stacks floors by storey height', () => {
+        expect(radioElevation(radio, building)).toBeCloseTo(5.5);
+        expect(deviceElevation(device, building)).toBeCloseTo(1);
+        expect(deviceElevation({ ...device, floor: 2 }, building)).toBeCloseTo(7);
+        expect(floorsBetween(radio, device)).toBe(1);
+    });
+
+    it('measures the 3D distance between radio and device', () => {
+        // 4 m apart on the plan, 4.5 m apart in height
+        expect(slantDistance(radio, device, 40, building)).toBeCloseTo(Math.hypot(4, 4.5));
+        expect(slantDistance({ ...radio, floor: undefined, height: undefined }, { ...device, z: undefined }, 40, building)).toBeCloseTo(4);
+    });
+
+    it('only keeps walls on the two floors of a path', () => {
+        const wall = (id: string, floor?: number): Wall => ({ id, start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, material: 'glass', attenuation: 2, color: 0, floor });
+        const walls = [wall('ground'), wall('first', 1), wall('second', 2)];
+        expect(wallsBetweenFloors(walls, radio, device).map(w => w.id)).toEqual(['ground', 'first']);
+    });
+});
+
+describe('floor loss', () => {
+    it('subtracts the floor attenuation once per slab', () => {
+        const params = testParams({ pathLossExponent: 2, enableWalls: true, noiseStdDev: 0, building });
+        const same = calculateRSSI(5, radio, { ...device, floor: 1 }, [], params);
+        expect(calculateRSSI(5, radio, device, [], params)).toBeCloseTo(same - 12);
+        expect(calculateRSSI(5, { ...radio, floor: 3 }, device, [], params)).toBeCloseTo(same - 36);
+    });
+});
+
+describe('estimateFloor', () => {
+    it('picks the floor delivering the most power', () => {
+        const on = (floor: number): Radio => ({ ...radio, floor });
+        expect(estimateFloor([{ radio: on(0), rssi: -80 }, { radio: on(0), rssi: -82 }, { radio: on(1), rssi: -65 }])).toBe(1);
+        expect(estimateFloor([])).toBe(0);
+    });
+});
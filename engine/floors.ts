@@ -0,0 +1,51 @@
+import { Radio, Device, Wall, BuildingModel } from '../types';
+
+export const DEFAULT_BUILDING_MODEL: BuildingModel = {
+    floorAttenuation: 15,
+    storeyHeight: 3,
+};
+
+export const floorOf = (item: { floor?: number }): number => item.floor ?? 0;
+
+/** Height of a radio above the lowest floor, m. */
+export const radioElevation = (radio: Radio, building: BuildingModel = DEFAULT_BUILDING_MODEL): number =>
+    floorOf(radio) * building.storeyHeight + (radio.height ?? 0);
+
+/** Height of the device above the lowest floor, m. */
+export const deviceElevation = (device: Device, building: BuildingModel = DEFAULT_BUILDING_MODEL): number =>
+    floorOf(device) * building.storeyHeight + (device.z ?? 0);
+
+export const floorsBetween = (a: { floor?: number }, b: { floor?: number }): number => Math.abs(floorOf(a) - floorOf(b));
+
+/**
+ * Walls that can block a path between two floors. Walls on other floors are
+ * left out; the slabs in between are accounted for by the floor loss.
+ */
+export const wallsBetweenFloors = (walls: Wall[], a: { floor?: number }, b: { floor?: number }): Wall[] =>
+    walls.filter(w => floorOf(w) === floorOf(a) || floorOf(w) === floorOf(b));
+
+/**
+ * Straight-line distance in meters between a radio and the device, heights
+ * and floors included.
+ */
+export const slantDistance = (radio: Radio, device: Device, pixelsPerMeter: number, building: BuildingModel = DEFAULT_BUILDING_MODEL): number => {
+    const horizontal = Math.hypot(radio.x - device.x, radio.y - device.y) / pixelsPerMeter;
+    return Math.hypot(horizontal, radioElevation(radio, building) - deviceElevation(device, building));
+};
+
+/**
+ * Floor the device is most likely on: the floor whose radios deliver the most
+ * received power in total. Falls back to the lowest floor without readings.
+ */
+export const estimateFloor = (measurements: { radio: Radio; rssi: number }[]): number => {
+    const power = new Map<number, number>();
+    measurements.forEach(m => power.set(floorOf(m.radio), (power.get(floorOf(m.radio)) ?? 0) + Math.pow(10, m.rssi / 10)));
+    let best = 0, bestPower = -Infinity;
+    power.forEach((p, floor) => {
+        if (p > bestPower) {
+            best = floor;
+            bestPower = p;
+        }
+    });
+    return best;
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { CoordinateFrame } from '../types';
+import { toWorld, fromWorld, scaleFromReference, worldBounds, DEFAULT_FRAME } from './frame';
+
+const frame: CoordinateFrame = { pixelsPerMeter: 50, origin: { x: 100, y: 200 }, rotation: Math.PI / 6 };
+
+describe('coordinate frames', () => {
+    it('matches the legacy fixed scale by default', () => {
+        expect(toWorld({ x: 400, y: 80 }, DEFAULT_FRAME)).toEqual({ x: 10, y: 2 });
+    });
+
+    it('round-trips between canvas and world', () => {
+        const p = { x: 321, y: 654 };
+        const back = fromWorld(toWorld(p, frame), frame);
+        expect(back.x).toBeCloseTo(p.x);
+        expect(back.y).toBeCloseTo(p.y);
+    });
+
+    it('places the origin and rotates the axes', () => {
+        expect(toWorld(frame.origin, frame)).toEqual({ x: 0, y: 0 });
+        const alongX = fromWorld({ x: 1, y: 0 }, frame);
+        expect(alongX.x - frame.origin.x).toBeCloseTo(50 * Math.cos(Math.PI / 6));
+        expect(alongX.y - frame.origin.y).toBeCloseTo(50 * Math.sin(Math.PI / 6));
+    });
+
+    it('derives the scale from two reference points', () => {
+        expect(scaleFromReference({ x: 0, y: 0 }, { x: 300, y: 400 }, 10)).toBe(50);
+        expect(() => scaleFromReference({ x: 0, y: 0 }, { x: 0, y: 0 }, 10)).toThrow('distinct');
+        expect(() => scaleFromReference({ x: 0, y: 0 }, { x: 1, y: 0 }, 0)).toThrow('positive');
+    });
+
+    it('bounds a canvas in world coordinates', () => {
+        expect(worldBounds(1200, 900, DEFAULT_FRAME)).toEqual({ minX: 0, maxX: 30, minY: 0, maxY: 22.5 });
+    });
+});
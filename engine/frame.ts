@@ -0,0 +1,55 @@
+import { Vector2D, CoordinateFrame } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { distance } from './geometry';
+
+export const DEFAULT_FRAME: CoordinateFrame = {
+    pixelsPerMeter: PIXELS_PER_METER,
+    origin: { x: 0, y: 0 },
+    rotation: 0,
+};
+
+/**
+ * Canvas pixels -> world meters.
+ */
+export const toWorld = (p: Vector2D, frame: CoordinateFrame): Vector2D => {
+    const dx = (p.x - frame.origin.x) / frame.pixelsPerMeter;
+    const dy = (p.y - frame.origin.y) / frame.pixelsPerMeter;
+    const cos = Math.cos(frame.rotation), sin = Math.sin(frame.rotation);
+    return { x: dx * cos + dy * sin, y: -dx * sin + dy * cos };
+};
+
+/**
+ * World meters -> canvas pixels.
+ */
+export const fromWorld = (p: Vector2D, frame: CoordinateFrame): Vector2D => {
+    const cos = Math.cos(frame.rotation), sin = Math.sin(frame.rotation);
+    return {
+        x: frame.origin.x + (p.x * cos - p.y * sin) * frame.pixelsPerMeter,
+        y: frame.origin.y + (p.x * sin + p.y * cos) * frame.pixelsPerMeter,
+    };
+};
+
+/**
+ * Scale implied by two canvas points a known real distance apart.
+ */
+export const scaleFromReference = (a: Vector2D, b: Vector2D, meters: number): number => {
+    if (meters <= 0) throw new Error('Reference distance must be positive');
+    const pixels = distance(a, b);
+    if (pixels === 0) throw new Error('Reference points must be distinct');
+    return pixels / meters;
+};
+
+/**
+ * Axis-aligned world-space bounds of a canvas-space rectangle with its
+ * top-left corner at origin.
+ */
+export const worldBounds = (width: number, height: number, frame: CoordinateFrame, origin: Vector2D = { x: 0, y: 0 }) => {
+    const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }]
+        .map(p => toWorld({ x: origin.x + p.x, y: origin.y + p.y }, frame));
+    return {
+        minX: Math.min(...corners.map(c => c.x)),
+        maxX: Math.max(...corners.map(c => c.x)),
+        minY: Math.min(...corners.map(c => c.y)),
+        maxY: Math.max(...corners.map(c => c.y)),
+    };
+};
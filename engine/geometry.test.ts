@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { Wall } from '../types';
+import { findWallIntersections, containRect } from './geometry';
+
+const wall = (x1: number, y1: number, x2: number, y2: number): Wall => ({
+    id: `${x1},${y1}-${x2},${y2}`, start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, material: 'concrete', attenuation: 10, color: 0
+});
+
+describe('findWallIntersections', () => {
+    it('finds a wall crossing the path', () => {
+        const hits = findWallIntersections({ x: 0, y: 50 }, { x: 100, y: 50 }, [wall(50, 0, 50, 100)]);
+        expect(hits).toHaveLength(1);
+        expect(hits[0].point.x).toBeCloseTo(50);
+        expect(hits[0].point.y).toBeCloseTo(50);
+    });
+
+    it('ignores walls that the path does not reach', () => {
+        expect(findWallIntersections({ x: 0, y: 50 }, { x: 40, y: 50 }, [wall(50, 0, 50, 100)])).toHaveLength(0);
+        expect(findWallIntersections({ x: 0, y: 150 }, { x: 100, y: 150 }, [wall(50, 0, 50, 100)])).toHaveLength(0);
+    });
+
+    it('ignores parallel walls', () => {
+        expect(findWallIntersections({ x: 0, y: 50 }, { x: 100, y: 50 }, [wall(0, 60, 100, 60)])).toHaveLength(0);
+    });
+
+    it('reports every wall crossed', () => {
+        const walls = [wall(25, 0, 25, 100), wall(75, 0, 75, 100), wall(50, 0, 50, 10)];
+        expect(findWallIntersections({ x: 0, y: 50 }, { x: 100, y: 50 }, walls)).toHaveLength(2);
+    });
+});
+
+describe('containRect', () => {
+    it('keeps the aspect ratio and centers the result', () => {
+        expect(containRect(400, 400, 1200, 900)).toEqual({ x: 150, y: 0, width: 900, height: 900 });
+        expect(containRect(2400, 600, 1200, 900)).toEqual({ x: 0, y: 300, width: 1200, height: 300 });
+    });
+});
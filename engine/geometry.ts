@@ -0,0 +1,37 @@
+import { Vector2D, Wall, Intersection, Rect } from '../types';
+
+export const clamp = (num: number, min: number, max: number) => Math.min(Math.max(num, min), max);
+export const distance = (p1: Vector2D, p2: Vector2D) => Math.sqrt(Math.pow(p1.x - p2.x, 2) + Math.pow(p1.y - p2.y, 2));
+
+/**
+ * Largest rectangle with the given aspect ratio that fits inside the container, centered.
+ */
+export const containRect = (width: number, height: number, containerWidth: number, containerHeight: number): Rect => {
+    const scale = Math.min(containerWidth / width, containerHeight / height);
+    const w = width * scale;
+    const h = height * scale;
+    return { x: (containerWidth - w) / 2, y: (containerHeight - h) / 2, width: w, height: h };
+};
+
+/**
+ * Returns every wall crossed by the open segment p1 -> p2. Touching a wall at an
+ * endpoint or running parallel to it does not count as a crossing.
+ */
+export const findWallIntersections = (p1: Vector2D, p2: Vector2D, walls: Wall[]): Intersection[] => {
+    const intersections: Intersection[] = [];
+    for (const wall of walls) {
+        const p3 = wall.start;
+        const p4 = wall.end;
+        const den = (p1.x - p2.x) * (p3.y - p4.y) - (p1.y - p2.y) * (p3.x - p4.x);
+        if (den === 0) continue;
+        const t = ((p1.x - p3.x) * (p3.y - p4.y) - (p1.y - p3.y) * (p3.x - p4.x)) / den;
+        const u = -((p1.x - p2.x) * (p1.y - p3.y) - (p1.y - p2.y) * (p1.x - p3.x)) / den;
+        if (t > 0 && t < 1 && u > 0 && u < 1) {
+            intersections.push({
+                point: { x: p1.x + t * (p2.x - p1.x), y: p1.y + t * (p2.y - p1.y) },
+                wall
+            });
+        }
+    }
+    return intersections;
+};
@@ -0,0 +1,36 @@
+import { Vector2D, GridMap } from '../types';
+
+export const cellCenter = (grid: Pick<GridMap, 'cellSize' | 'origin'>, col: number, row: number): Vector2D => ({
+    x: (grid.origin?.x ?? 0) + (col + 0.5) * grid.cellSize,
+    y: (grid.origin?.y ?? 0) + (row + 0.5) * grid.cellSize,
+});
+
+/**
+ * Evaluates fn at the center of every cell of a width x height area whose
+ * top-left corner is at origin.
+ */
+export const sampleGrid = (width: number, height: number, cellSize: number, fn: (center: Vector2D) => number, origin?: Vector2D): GridMap => {
+    const cols = Math.max(1, Math.ceil(width / cellSize));
+    const rows = Math.max(1, Math.ceil(height / cellSize));
+    const values: number[] = new Array(cols * rows);
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            values[row * cols + col] = fn(cellCenter({ cellSize, origin }, col, row));
+        }
+    }
+    return origin ? { cols, rows, cellSize, origin, values } : { cols, rows, cellSize, values };
+};
+
+/**
+ * Smallest cell size, at least cellSize, that keeps a width x height area
+ * within maxCells cells, so that sweeps of large sites stay affordable.
+ */
+export const limitCellSize = (width: number, height: number, cellSize: number, maxCells: number): number =>
+    Math.max(cellSize, Math.sqrt(width * height / maxCells));
+
+export const gridValueAt = (grid: GridMap, p: Vector2D): number => {
+    const col = Math.floor((p.x - (grid.origin?.x ?? 0)) / grid.cellSize);
+    const row = Math.floor((p.y - (grid.origin?.y ?? 0)) / grid.cellSize);
+    if (col < 0 || row < 0 || col >= grid.cols || row >= grid.rows) return NaN;
+    return grid.values[row * grid.cols + col];
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { createHistory, recordHistory, undoHistory, redoHistory } from './history';
+
+describe('history', () => {
+    it('undoes and redoes edits in order', () => {
+        let history = recordHistory(createHistory<number>(), 1);
+        history = recordHistory(history, 2);
+        // present is 3
+        const undone = undoHistory(history, 3)!;
+        expect(undone.state).toBe(2);
+        const redone = redoHistory(undone.history, undone.state)!;
+        expect(redone.state).toBe(3);
+        expect(redone.history.past).toEqual([1, 2]);
+    });
+
+    it('drops redo steps after a new edit and honours the limit', () => {
+        const undone = undoHistory(recordHistory(createHistory<number>(), 1), 2)!;
+        const history = recordHistory(undone.history, 1);
+        expect(history.future).toEqual([]);
+        expect(redoHistory(history, 5)).toBeNull();
+        expect(recordHistory({ past: [1, 2, 3], future: [] }, 4, 3).past).toEqual([2, 3, 4]);
+    });
+
+    it('returns null when there is nothing to undo', () => {
+        expect(undoHistory(createHistory<number>(), 0)).toBeNull();
+    });
+});
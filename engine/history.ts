@@ -0,0 +1,36 @@
+/**
+ * Undo/redo stacks of immutable snapshots. The present state is owned by the
+ * caller; the history only keeps what came before and after it.
+ */
+export interface History<T> {
+    past: T[];
+    future: T[];
+}
+
+export const MAX_HISTORY = 100;
+
+export const createHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+/**
+ * Records the state as it was before an edit. Any redo steps are discarded.
+ */
+export const recordHistory = <T>(history: History<T>, before: T, limit = MAX_HISTORY): History<T> => ({
+    past: [...history.past, before].slice(-limit),
+    future: [],
+});
+
+export const undoHistory = <T>(history: History<T>, present: T): { history: History<T>; state: T } | null => {
+    if (history.past.length === 0) return null;
+    return {
+        history: { past: history.past.slice(0, -1), future: [present, ...history.future] },
+        state: history.past[history.past.length - 1],
+    };
+};
+
+export const redoHistory = <T>(history: History<T>, present: T): { history: History<T>; state: T } | null => {
+    if (history.future.length === 0) return null;
+    return {
+        history: { past: [...history.past, present], future: history.future.slice(1) },
+        state: history.future[0],
+    };
+};
@@ -0,0 +1,33 @@
+export * from '../types';
+export * from './random';
+export * from './geometry';
+export * from './walls';
+export * from './history';
+export * from './frame';
+export * from './view';
+export * from './matrix';
+export * from './channel';
+export * from './floors';
+export * from './propagation';
+export * from './solvers';
+export * from './robust';
+export * from './trilateration';
+export * from './fingerprint';
+export * from './uncertainty';
+export * from './experiment';
+export * from './estimation';
+export * from './motion';
+export * from './tracking';
+export * from './rssiLog';
+export * from './devices';
+export * from './pathLossFit';
+export * from './stats';
+export * from './grid';
+export * from './errorMap';
+export * from './coverage';
+export * from './placement';
+export * from './scenario';
+export * from './wallDetection';
+export * from './vectorImport';
+export * from './export';
+export * from './tasks';
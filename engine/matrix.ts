@@ -0,0 +1,40 @@
+/**
+ * Minimal dense matrix helpers for the small (≤ a few dozen rows) systems
+ * used by the tracking filters. Matrices are row-major arrays.
+ */
+export type Matrix = number[][];
+
+export const identity = (n: number): Matrix => Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+
+export const transpose = (a: Matrix): Matrix => a[0].map((_, j) => a.map(row => row[j]));
+
+export const multiply = (a: Matrix, b: Matrix): Matrix =>
+    a.map(row => b[0].map((_, j) => row.reduce((sum, v, k) => sum + v * b[k][j], 0)));
+
+export const add = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => v + b[i][j]));
+
+export const subtract = (a: Matrix, b: Matrix): Matrix => a.map((row, i) => row.map((v, j) => v - b[i][j]));
+
+/**
+ * Gauss-Jordan inversion with partial pivoting. Returns null for singular input.
+ */
+export const invert = (a: Matrix): Matrix | null => {
+    const n = a.length;
+    const m = a.map((row, i) => [...row, ...identity(n)[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        const p = m[col][col];
+        for (let j = 0; j < 2 * n; j++) m[col][j] /= p;
+        for (let row = 0; row < n; row++) {
+            if (row === col) continue;
+            const f = m[row][col];
+            for (let j = 0; j < 2 * n; j++) m[row][j] -= f * m[col][j];
+        }
+    }
+    return m.map(row => row.slice(n));
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { pathLength, positionAlongPath, headingAlongPath, parseMotionPath } from './motion';
+import { DEFAULT_FRAME } from './frame';
+
+const path = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 50 }];
+
+describe('positionAlongPath', () => {
+    it('interpolates along each segment', () => {
+        expect(pathLength(path)).toBe(150);
+        expect(positionAlongPath(path, 50)).toEqual({ x: 50, y: 0 });
+        expect(positionAlongPath(path, 125)).toEqual({ x: 100, y: 25 });
+    });
+
+    it('clamps to the ends of the path', () => {
+        expect(positionAlongPath(path, -10)).toEqual({ x: 0, y: 0 });
+        expect(positionAlongPath(path, 1000)).toEqual({ x: 100, y: 50 });
+    });
+});
+
+describe('headingAlongPath', () => {
+    it('follows the direction of the current segment, counter-clockwise on screen', () => {
+        expect(headingAlongPath(path, 50)).toBeCloseTo(0);
+        // Canvas y grows downwards, so the second segment heads down the screen
+        expect(headingAlongPath(path, 125)).toBeCloseTo(-90);
+        expect(headingAlongPath(path, 500)).toBeCloseTo(-90);
+        expect(headingAlongPath([{ x: 5, y: 5 }], 0)).toBeUndefined();
+    });
+});
+
+describe('parseMotionPath', () => {
+    it('accepts JSON pairs, objects and a waypoints wrapper in meters', () => {
+        const expected = [{ x: 40, y: 80 }, { x: 120, y: 80 }];
+        const frame = { ...DEFAULT_FRAME, pixelsPerMeter: 40 };
+        expect(parseMotionPath('[[1, 2], [3, 2]]', frame)).toEqual(expected);
+        expect(parseMotionPath('[[0, 0], [1, 0]]', { pixelsPerMeter: 10, origin: { x: 5, y: 5 }, rotation: 0 })).toEqual([{ x: 5, y: 5 }, { x: 15, y: 5 }]);
+        expect(parseMotionPath('[{"x": 1, "y": 2}, {"x": 3, "y": 2}]', frame)).toEqual(expected);
+        expect(parseMotionPath('{"waypoints": [[1, 2], [3, 2]]}', frame)).toEqual(expected);
+    });
+
+    it('accepts CSV with an optional header', () => {
+        expect(parseMotionPath('x,y\n1,2\n3,2\n')).toEqual([{ x: 40, y: 80 }, { x: 120, y: 80 }]);
+    });
+
+    it('rejects malformed input with a clear message', () => {
+        expect(() => parseMotionPath('[[1, 2]]')).toThrow('at least two waypoints');
+        expect(() => parseMotionPath('[[1, "a"], [2, 3]]')).toThrow('Waypoint 1');
+        expect(() => parseMotionPath('1,2\nfoo,bar')).toThrow('Line 2');
+        expect(() => parseMotionPath('[1,')).toThrow('Invalid JSON');
+    });
+});
@@ -0,0 +1,85 @@
+import { Vector2D, CoordinateFrame } from '../types';
+import { distance } from './geometry';
+import { DEFAULT_FRAME, fromWorld } from './frame';
+
+export const pathLength = (path: Vector2D[]): number =>
+    path.reduce((sum, p, i) => (i === 0 ? 0 : sum + distance(path[i - 1], p)), 0);
+
+/**
+ * Point at the given distance (pixels) along a polyline; clamps to its ends.
+ */
+export const positionAlongPath = (path: Vector2D[], travelled: number): Vector2D => {
+    if (path.length === 0) return { x: 0, y: 0 };
+    let remaining = Math.max(travelled, 0);
+    for (let i = 1; i < path.length; i++) {
+        const segment = distance(path[i - 1], path[i]);
+        if (remaining <= segment && segment > 0) {
+            const t = remaining / segment;
+            return { x: path[i - 1].x + t * (path[i].x - path[i - 1].x), y: path[i - 1].y + t * (path[i].y - path[i - 1].y) };
+        }
+        remaining -= segment;
+    }
+    return { ...path[path.length - 1] };
+};
+
+/**
+ * Direction of travel at the given distance along a polyline, in degrees
+ * counter-clockwise from the canvas +x axis as seen on screen. Undefined for a
+ * path without any length.
+ */
+export const headingAlongPath = (path: Vector2D[], travelled: number): number | undefined => {
+    let remaining = Math.max(travelled, 0);
+    let heading: number | undefined;
+    for (let i = 1; i < path.length; i++) {
+        const segment = distance(path[i - 1], path[i]);
+        if (segment === 0) continue;
+        heading = Math.atan2(-(path[i].y - path[i - 1].y), path[i].x - path[i - 1].x) * 180 / Math.PI;
+        if (remaining <= segment) return heading;
+        remaining -= segment;
+    }
+    return heading;
+};
+
+/**
+ * Parses a walking path given in meters, either as JSON (`[[x, y], ...]`,
+ * `[{x, y}, ...]` or `{ waypoints: [...] }`) or as CSV with one `x,y` per line.
+ * Returns waypoints in canvas pixels.
+ */
+export const parseMotionPath = (text: string, frame: CoordinateFrame = DEFAULT_FRAME): Vector2D[] => {
+    const trimmed = text.trim();
+    let points: Vector2D[];
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        let data: unknown;
+        try {
+            data = JSON.parse(trimmed);
+        } catch (e) {
+            throw new Error(`Invalid JSON: ${(e as Error).message}`);
+        }
+        const list = Array.isArray(data) ? data : (data as { waypoints?: unknown }).waypoints;
+        if (!Array.isArray(list)) throw new Error('Expected an array of waypoints or an object with a "waypoints" array');
+        points = list.map((p, i) => {
+            const x = Array.isArray(p) ? p[0] : p?.x;
+            const y = Array.isArray(p) ? p[1] : p?.y;
+            if (typeof x !== 'number' || typeof y !== 'number') throw new Error(`Waypoint ${i + 1} must have numeric x and y`);
+            return { x, y };
+        });
+    } else {
+        points = [];
+        trimmed.split(/\r?\n/).forEach((line, i) => {
+            const cells = line.split(/[,;\t]/).map(c => c.trim());
+            if (cells.length < 2 || cells[0] === '') return;
+            const x = parseFloat(cells[0]);
+            const y = parseFloat(cells[1]);
+            if (isNaN(x) || isNaN(y)) {
+                // Allow a header row
+                if (i === 0) return;
+                throw new Error(`Line ${i + 1}: expected "x,y" in meters`);
+            }
+            points.push({ x, y });
+        });
+    }
+
+    if (points.length < 2) throw new Error('A path needs at least two waypoints');
+    return points.map(p => fromWorld(p, frame));
+};
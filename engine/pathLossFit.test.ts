@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { Wall } from '../types';
+import { fitPathLossModel, parseReferenceReadings, PathLossSample } from './pathLossFit';
+import { calculateRSSI } from './propagation';
+import { distance } from './geometry';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const wall = (x1: number, y1: number, x2: number, y2: number, material: Wall['material'], attenuation: number): Wall => ({
+    id: `${x1},${y1}`, start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, material, attenuation, color: 0
+});
+
+const truth = testParams({ txPower: -62, pathLossExponent: 2.4, enableWalls: true, noiseStdDev: 0 });
+const walls = [wall(300, -1000, 300, 1000, 'concrete', 11), wall(600, -1000, 600, 1000, 'drywall', 4)];
+
+const makeSamples = (): PathLossSample[] => {
+    const [radio] = testRadios([{ x: 0, y: 0 }]);
+    const samples: PathLossSample[] = [];
+    for (let x = 60; x <= 900; x += 80) {
+        for (const y of [0, 200]) {
+            const position = { x, y };
+            const rssi = calculateRSSI(distance(radio, position) / 40, radio, testDevice(x, y), walls, truth);
+            samples.push({ radio, position, rssi });
+        }
+    }
+    return samples;
+};
+
+describe('fitPathLossModel', () => {
+    it('recovers txPower, exponent and material losses from noiseless samples', () => {
+        const fit = fitPathLossModel(makeSamples(), walls, { pixelsPerMeter: 40 });
+        expect(fit.txPower).toBeCloseTo(-62, 6);
+        expect(fit.pathLossExponent).toBeCloseTo(2.4, 6);
+        expect(fit.materialAttenuation.concrete).toBeCloseTo(11, 6);
+        expect(fit.materialAttenuation.drywall).toBeCloseTo(4, 6);
+        expect(fit.rmse).toBeLessThan(1e-6);
+    });
+
+    it('absorbs wall losses into the exponent when materials are not fitted', () => {
+        const fit = fitPathLossModel(makeSamples(), walls, { pixelsPerMeter: 40, fitMaterials: false });
+        expect(fit.materialAttenuation).toEqual({});
+        expect(fit.pathLossExponent).toBeGreaterThan(2.4);
+        expect(fit.residuals).toHaveLength(makeSamples().length);
+    });
+
+    it('rejects under-determined input', () => {
+        const radio = { x: 0, y: 0 };
+        expect(() => fitPathLossModel([{ radio, position: { x: 40, y: 0 }, rssi: -60 }], [])).toThrow('At least 2 samples');
+        const sameDistance = [0, 1, 2].map(i => ({ radio, position: { x: 40 * Math.cos(i), y: 40 * Math.sin(i) }, rssi: -60 }));
+        expect(() => fitPathLossModel(sameDistance, [])).toThrow('do not constrain');
+    });
+});
+
+describe('parseReferenceReadings', () => {
+    it('reads CSV with a header and converts meters to pixels', () => {
+        expect(parseReferenceReadings('x,y,beacon,rssi\n1,2,R1,-65')).toEqual([{ position: { x: 40, y: 80 }, beaconId: 'R1', rssi: -65 }]);
+    });
+
+    it('reports malformed readings', () => {
+        expect(() => parseReferenceReadings('[{"x": 1, "y": 2, "beacon": "R1"}]')).toThrow('Reading 1');
+    });
+});
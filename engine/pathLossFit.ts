@@ -0,0 +1,126 @@
+import { Vector2D, Wall, WallMaterial, CoordinateFrame } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { distance, findWallIntersections } from './geometry';
+import { DEFAULT_FRAME, fromWorld } from './frame';
+import { transpose, multiply, invert } from './matrix';
+
+export interface PathLossSample {
+    /** Transmitter position in canvas pixels. */
+    radio: Vector2D;
+    /** Reference point in canvas pixels. */
+    position: Vector2D;
+    /** Measured RSSI, dBm. */
+    rssi: number;
+}
+
+export interface PathLossFit {
+    txPower: number;
+    pathLossExponent: number;
+    /** Fitted loss per crossing for every material crossed by at least one sample, dB. */
+    materialAttenuation: Partial<Record<WallMaterial, number>>;
+    /** Measured minus predicted RSSI per sample, dB. */
+    residuals: number[];
+    rmse: number;
+}
+
+export interface PathLossFitOptions {
+    pixelsPerMeter: number;
+    /** Also fit a loss per wall material; otherwise walls are ignored. */
+    fitMaterials: boolean;
+}
+
+export const DEFAULT_PATH_LOSS_FIT_OPTIONS: PathLossFitOptions = {
+    pixelsPerMeter: PIXELS_PER_METER,
+    fitMaterials: true,
+};
+
+// Samples closer than this are treated as being at this distance
+const MIN_FIT_DISTANCE = 0.1;
+
+/**
+ * Least-squares fit of the log-distance model
+ *   rssi = txPower - 10 n log10(d) - sum over crossed walls of A(material)
+ * to measured samples. The angle and cumulative wall effects are not modelled.
+ * Throws when there are too few samples or they do not constrain every parameter
+ * (e.g. all taken at the same distance).
+ */
+export const fitPathLossModel = (samples: PathLossSample[], walls: Wall[], options: Partial<PathLossFitOptions> = {}): PathLossFit => {
+    const { pixelsPerMeter, fitMaterials } = { ...DEFAULT_PATH_LOSS_FIT_OPTIONS, ...options };
+
+    const crossings = samples.map(s => {
+        const counts: Partial<Record<WallMaterial, number>> = {};
+        if (fitMaterials) {
+            findWallIntersections(s.radio, s.position, walls).forEach(({ wall }) => {
+                counts[wall.material] = (counts[wall.material] ?? 0) + 1;
+            });
+        }
+        return counts;
+    });
+    const materials = [...new Set(crossings.flatMap(c => Object.keys(c) as WallMaterial[]))].sort();
+    const unknowns = 2 + materials.length;
+    if (samples.length < unknowns) {
+        throw new Error(`At least ${unknowns} samples are needed to fit ${unknowns} parameters, got ${samples.length}`);
+    }
+
+    const A = samples.map((s, i) => {
+        const d = Math.max(distance(s.radio, s.position) / pixelsPerMeter, MIN_FIT_DISTANCE);
+        return [1, -10 * Math.log10(d), ...materials.map(m => -(crossings[i][m] ?? 0))];
+    });
+    const b = samples.map(s => [s.rssi]);
+    const At = transpose(A);
+    const inverse = invert(multiply(At, A));
+    if (!inverse) throw new Error('Samples do not constrain the model; take them at more varied distances and wall crossings');
+    const x = multiply(inverse, multiply(At, b)).map(row => row[0]);
+
+    const residuals = samples.map((s, i) => s.rssi - A[i].reduce((sum, a, j) => sum + a * x[j], 0));
+    return {
+        txPower: x[0],
+        pathLossExponent: x[1],
+        materialAttenuation: Object.fromEntries(materials.map((m, j) => [m, x[2 + j]])),
+        residuals,
+        rmse: Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length),
+    };
+};
+
+export interface ReferenceReading {
+    /** Reference point in canvas pixels. */
+    position: Vector2D;
+    beaconId: string;
+    rssi: number;
+}
+
+/**
+ * Parses reference measurements as CSV lines `x,y,beacon,rssi` (x and y in
+ * meters; a header row is allowed) or JSON `[{ x, y, beacon, rssi }, ...]`.
+ */
+export const parseReferenceReadings = (text: string, frame: CoordinateFrame = DEFAULT_FRAME): ReferenceReading[] => {
+    const trimmed = text.trim();
+    let rows: { x: unknown; y: unknown; beacon: unknown; rssi: unknown }[];
+    if (trimmed.startsWith('[')) {
+        let data: unknown;
+        try {
+            data = JSON.parse(trimmed);
+        } catch (e) {
+            throw new Error(`Invalid JSON: ${(e as Error).message}`);
+        }
+        if (!Array.isArray(data)) throw new Error('Expected an array of readings');
+        rows = data.map(item => ({ x: item?.x, y: item?.y, beacon: item?.beacon ?? item?.beaconId ?? item?.radio, rssi: item?.rssi }));
+    } else {
+        rows = trimmed.split(/\r?\n/).filter(line => line.trim() !== '').map(line => {
+            const [x, y, beacon, rssi] = line.split(/[,;\t]/).map(c => c.trim());
+            return { x: Number(x), y: Number(y), beacon, rssi: Number(rssi) };
+        });
+        // Allow a header row
+        if (rows.length > 0 && isNaN(rows[0].x as number)) rows = rows.slice(1);
+    }
+
+    const readings = rows.map((row, i) => {
+        const { x, y, beacon, rssi } = row;
+        if (typeof x !== 'number' || typeof y !== 'number' || typeof rssi !== 'number' || [x, y, rssi].some(isNaN) || !beacon) {
+            throw new Error(`Reading ${i + 1}: expected x, y (meters), beacon and numeric RSSI`);
+        }
+        return { position: fromWorld({ x, y }, frame), beaconId: String(beacon), rssi };
+    });
+    if (readings.length === 0) throw new Error('No readings found');
+    return readings;
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateLayout, optimizePlacement, PlacementProgress } from './placement';
+import { createSeededRandom } from './random';
+import { testParams, testDevice } from './testFixtures';
+
+const params = testParams({ noiseStdDev: 4 });
+const device = testDevice(0, 0);
+const area = { width: 400, height: 400, cellSize: 80, minRSSI: -85 };
+
+const run = (options: object): PlacementProgress => {
+    const generator = optimizePlacement([], device, params, { ...area, budget: 3, iterations: 120, restarts: 2, ...options }, createSeededRandom(2));
+    let step = generator.next();
+    while (!step.done) step = generator.next();
+    return step.value;
+};
+
+describe('evaluateLayout', () => {
+    it('prefers well-spread layouts over clustered ones', () => {
+        const noisy = { ...params, enableNoise: true };
+        const clustered = evaluateLayout([{ x: 10, y: 10 }, { x: 60, y: 10 }, { x: 10, y: 60 }], [], device, noisy, area);
+        const spread = evaluateLayout([{ x: 200, y: 20 }, { x: 20, y: 380 }, { x: 380, y: 380 }], [], device, noisy, area);
+        expect(spread.meanError).toBeLessThan(clustered.meanError);
+    });
+
+    it('is deterministic under noise', () => {
+        const noisy = { ...params, enableNoise: true };
+        const layout = [{ x: 200, y: 20 }, { x: 20, y: 380 }, { x: 380, y: 380 }];
+        expect(evaluateLayout(layout, [], device, noisy, area)).toEqual(evaluateLayout(layout, [], device, noisy, area));
+    });
+});
+
+describe('optimizePlacement', () => {
+    it('returns one candidate per restart, best first', () => {
+        const result = run({});
+        expect(result.iteration).toBe(result.total);
+        expect(result.candidates).toHaveLength(2);
+        expect(result.candidates[0].score).toBeLessThanOrEqual(result.candidates[1].score);
+        expect(result.candidates[0].positions).toHaveLength(3);
+    });
+
+    it('keeps radios inside the allowed zones', () => {
+        const zones = [{ x: 0, y: 0, width: 400, height: 40 }, { x: 0, y: 360, width: 400, height: 40 }];
+        const result = run({ zones });
+        for (const candidate of result.candidates) {
+            for (const p of candidate.positions) {
+                expect(zones.some(z => p.x >= z.x && p.x <= z.x + z.width && p.y >= z.y && p.y <= z.y + z.height)).toBe(true);
+            }
+        }
+    });
+
+    it('improves on random layouts for the coverage objective', () => {
+        const result = run({ objective: 'coverage' });
+        expect(result.candidates[0].coverage).toBeGreaterThan(0.5);
+    });
+});
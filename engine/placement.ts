@@ -0,0 +1,227 @@
+import { Vector2D, Rect, Wall, Radio, Device, RSSIModelParams, ReceiverModel, SolverId } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from '../constants';
+import { computeMeasurements, isStochasticModel } from './propagation';
+import { SolverOptions } from './solvers';
+import { estimatePosition } from './estimation';
+import { MIN_RADIOS_FOR_FIX } from './coverage';
+import { cellCenter } from './grid';
+import { clamp, distance } from './geometry';
+import { RandomSource, createSeededRandom, gaussian } from './random';
+
+export type PlacementObjective = 'meanError' | 'worstError' | 'coverage';
+
+export const PLACEMENT_OBJECTIVES: Record<PlacementObjective, string> = {
+    meanError: 'Minimise Mean Error',
+    worstError: 'Minimise Worst-Case Error',
+    coverage: 'Maximise ≥3-Radio Coverage',
+};
+
+export interface PlacementOptions {
+    /** Number of radios to place. */
+    budget: number;
+    /** Allowed mounting areas; the whole floor (minus margin) when empty. */
+    zones: Rect[];
+    objective: PlacementObjective;
+    /** Top-left corner of the area, pixels. */
+    origin: Vector2D;
+    width: number;
+    height: number;
+    margin: number;
+    /** Evaluation grid cell size in pixels. */
+    cellSize: number;
+    /** Layout evaluations across all restarts. */
+    iterations: number;
+    /** Independent annealing runs; each contributes one candidate. */
+    restarts: number;
+    /** Monte Carlo trials per evaluation point with noise or fast fading. */
+    trials: number;
+    /** Error (m) charged for points where no fix is possible. */
+    noFixPenalty: number;
+    solverId: SolverId;
+    solverOptions: Partial<SolverOptions>;
+    minRSSI: number;
+    pixelsPerMeter: number;
+    /** Model the receiver uses to invert RSSI; null means it knows the true one. */
+    receiver: ReceiverModel | null;
+}
+
+export const DEFAULT_PLACEMENT_OPTIONS: PlacementOptions = {
+    budget: 4,
+    zones: [],
+    objective: 'meanError',
+    origin: { x: 0, y: 0 },
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    margin: 20,
+    cellSize: PIXELS_PER_METER * 2,
+    iterations: 1200,
+    restarts: 4,
+    trials: 3,
+    noFixPenalty: 10,
+    solverId: 'gaussNewton',
+    solverOptions: {},
+    minRSSI: -100,
+    pixelsPerMeter: PIXELS_PER_METER,
+    receiver: null,
+};
+
+export interface LayoutMetrics {
+    meanError: number;
+    worstError: number;
+    /** Fraction of evaluation points with at least three radios above minRSSI. */
+    coverage: number;
+}
+
+export interface PlacementCandidate extends LayoutMetrics {
+    positions: Vector2D[];
+    /** Lower is better. */
+    score: number;
+}
+
+export interface PlacementProgress {
+    iteration: number;
+    total: number;
+    /** Best layout of each finished or running restart, best first. */
+    candidates: PlacementCandidate[];
+}
+
+const EVALUATION_SEED = 12345;
+
+/**
+ * Scores a radio layout on a coarse grid. Noise uses a fixed seed so that
+ * layouts are compared on the same noise realisation.
+ */
+export const evaluateLayout = (
+    positions: Vector2D[],
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    options: Partial<PlacementOptions> = {}
+): LayoutMetrics => {
+    const o = { ...DEFAULT_PLACEMENT_OPTIONS, ...options };
+    const radios: Radio[] = positions.map((p, i) => ({ id: `candidate-${i}`, x: p.x, y: p.y, radius: 10, label: `R${i + 1}` }));
+    const random = createSeededRandom(EVALUATION_SEED);
+    const trials = isStochasticModel(params) ? Math.max(1, o.trials) : 1;
+    const cols = Math.max(1, Math.ceil(o.width / o.cellSize));
+    const rows = Math.max(1, Math.ceil(o.height / o.cellSize));
+
+    let errorSum = 0, errorCount = 0, worstError = 0, covered = 0;
+    for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+            const point = cellCenter(o, col, row);
+            for (let t = 0; t < trials; t++) {
+                const measurements = computeMeasurements(radios, { ...device, ...point }, walls, params, random, o.pixelsPerMeter, o.receiver ?? params);
+                const active = measurements.filter(m => m.rssi > o.minRSSI);
+                if (t === 0 && active.length >= MIN_RADIOS_FOR_FIX) covered++;
+                const { result } = estimatePosition(o.solverId, active, o.receiver ?? params, walls, { ...o.solverOptions, pixelsPerMeter: o.pixelsPerMeter });
+                const error = result ? Math.min(distance(result.position, point) / o.pixelsPerMeter, o.noFixPenalty) : o.noFixPenalty;
+                errorSum += error;
+                errorCount++;
+                worstError = Math.max(worstError, error);
+            }
+        }
+    }
+    return { meanError: errorSum / errorCount, worstError, coverage: covered / (cols * rows) };
+};
+
+const scoreOf = (metrics: LayoutMetrics, objective: PlacementObjective): number => {
+    switch (objective) {
+        case 'worstError': return metrics.worstError;
+        // Ties in coverage are broken by mean error
+        case 'coverage': return -metrics.coverage + metrics.meanError * 1e-3;
+        default: return metrics.meanError;
+    }
+};
+
+const allowedZones = (o: PlacementOptions): Rect[] =>
+    o.zones.length > 0 ? o.zones : [{ x: o.origin.x + o.margin, y: o.origin.y + o.margin, width: o.width - 2 * o.margin, height: o.height - 2 * o.margin }];
+
+const randomPointInZones = (zones: Rect[], random: RandomSource): Vector2D => {
+    const total = zones.reduce((sum, z) => sum + z.width * z.height, 0);
+    let pick = random() * total;
+    const zone = zones.find(z => (pick -= z.width * z.height) <= 0) ?? zones[zones.length - 1];
+    return { x: zone.x + random() * zone.width, y: zone.y + random() * zone.height };
+};
+
+/**
+ * Moves p onto the closest allowed zone.
+ */
+const projectToZones = (p: Vector2D, zones: Rect[]): Vector2D => {
+    let best = p, bestDist = Infinity;
+    for (const z of zones) {
+        const q = { x: clamp(p.x, z.x, z.x + z.width), y: clamp(p.y, z.y, z.y + z.height) };
+        const d = distance(p, q);
+        if (d < bestDist) {
+            best = q;
+            bestDist = d;
+        }
+    }
+    return best;
+};
+
+/**
+ * Simulated annealing over radio positions with random restarts. Yields
+ * progress regularly so callers can spread the work over several frames.
+ */
+export function* optimizePlacement(
+    walls: Wall[],
+    device: Device,
+    params: RSSIModelParams,
+    options: Partial<PlacementOptions> = {},
+    random: RandomSource = Math.random,
+    yieldEvery = 10
+): Generator<PlacementProgress, PlacementProgress> {
+    const o = { ...DEFAULT_PLACEMENT_OPTIONS, ...options };
+    const zones = allowedZones(o);
+    const restarts = Math.max(1, o.restarts);
+    const perRestart = Math.max(1, Math.floor(o.iterations / restarts));
+    const total = perRestart * restarts;
+    const candidates: PlacementCandidate[] = [];
+    let iteration = 0;
+
+    const progress = (): PlacementProgress => ({
+        iteration,
+        total,
+        candidates: [...candidates].sort((a, b) => a.score - b.score),
+    });
+
+    const evaluate = (positions: Vector2D[]): PlacementCandidate => {
+        const metrics = evaluateLayout(positions, walls, device, params, o);
+        return { positions, ...metrics, score: scoreOf(metrics, o.objective) };
+    };
+
+    for (let r = 0; r < restarts; r++) {
+        let current = evaluate(Array.from({ length: o.budget }, () => randomPointInZones(zones, random)));
+        let best = current;
+        candidates.push(best);
+        iteration++;
+
+        const startStep = Math.max(o.width, o.height) / 4;
+        const endStep = o.pixelsPerMeter / 4;
+        const startTemperature = Math.max(Math.abs(current.score) * 0.1, 1e-3);
+
+        for (let i = 1; i < perRestart; i++) {
+            const progressFraction = i / perRestart;
+            const step = startStep * Math.pow(endStep / startStep, progressFraction);
+            const temperature = startTemperature * Math.pow(1e-3, progressFraction);
+
+            const moved = random() * o.budget | 0;
+            const positions = current.positions.map((p, j) => j !== moved ? p : projectToZones({
+                x: p.x + gaussian(random) * step,
+                y: p.y + gaussian(random) * step,
+            }, zones));
+            const candidate = evaluate(positions);
+            const delta = candidate.score - current.score;
+            if (delta < 0 || random() < Math.exp(-delta / temperature)) {
+                current = candidate;
+                if (current.score < best.score) {
+                    best = current;
+                    candidates[r] = best;
+                }
+            }
+            iteration++;
+            if (iteration % yieldEvery === 0) yield progress();
+        }
+    }
+    return progress();
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { Wall, Radio } from '../types';
+import { calculateRSSI, calculateWallAttenuation, estimateDistanceFromRSSI, computeMeasurements, antennaGain } from './propagation';
+import { createSeededRandom } from './random';
+import { DEFAULT_CHANNEL_MODEL } from './channel';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const params = testParams({ enableWalls: true, noiseStdDev: 5 });
+
+const wall = (x1: number, y1: number, x2: number, y2: number, attenuation = 10): Wall => ({
+    id: `${x1},${y1}-${x2},${y2}`, start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, material: 'concrete', attenuation, color: 0
+});
+
+const [radio] = testRadios([{ x: 0, y: 0 }]);
+const device = testDevice(400, 0);
+
+describe('calculateRSSI', () => {
+    it('equals txPower at 1 m in free space', () => {
+        expect(calculateRSSI(1, radio, device, [], params)).toBeCloseTo(-59);
+    });
+
+    it('subtracts the attenuation of each crossed wall', () => {
+        const walls = [wall(100, -50, 100, 50, 10), wall(200, -50, 200, 50, 3)];
+        const free = calculateRSSI(10, radio, device, [], params);
+        expect(calculateRSSI(10, radio, device, walls, params)).toBeCloseTo(free - 13);
+        expect(calculateRSSI(10, radio, device, walls, { ...params, enableWalls: false })).toBeCloseTo(free);
+    });
+
+    it('clamps to the receiver range', () => {
+        expect(calculateRSSI(0, radio, device, [], params)).toBe(-30);
+        expect(calculateRSSI(1e9, radio, device, [], params)).toBe(-120);
+    });
+
+    it('uses the radio\'s own Tx power and ignores disabled radios', () => {
+        expect(calculateRSSI(1, { ...radio, txPower: -70 }, device, [], params)).toBeCloseTo(-70);
+        expect(calculateRSSI(1, { ...radio, enabled: false }, device, [], params)).toBe(-120);
+    });
+
+    it('applies body blocking from the channel model', () => {
+        const channel = { ...DEFAULT_CHANNEL_MODEL, enableBodyBlocking: true, bodyAttenuation: 8 };
+        const free = calculateRSSI(10, radio, device, [], params);
+        // The device faces away from the radio at the origin
+        expect(calculateRSSI(10, radio, { ...device, heading: 0 }, [], { ...params, channel })).toBeCloseTo(free - 8);
+        expect(calculateRSSI(10, radio, { ...device, heading: 180 }, [], { ...params, channel })).toBeCloseTo(free);
+    });
+
+    it('is reproducible with a seeded random source', () => {
+        const noisy = { ...params, enableNoise: true };
+        const a = calculateRSSI(10, radio, device, [], noisy, createSeededRandom(42));
+        const b = calculateRSSI(10, radio, device, [], noisy, createSeededRandom(42));
+        expect(a).toBe(b);
+        expect(a).not.toBeCloseTo(calculateRSSI(10, radio, device, [], params));
+    });
+});
+
+describe('antennaGain', () => {
+    it('is zero for omnidirectional radios', () => {
+        expect(antennaGain(radio, device)).toBe(0);
+    });
+
+    it('falls off the boresight up to the front-to-back ratio', () => {
+        // Device is at bearing 0; the canvas y axis points down so 90° faces up the screen
+        const patch: Radio = { ...radio, antenna: 'patch', orientation: 0 };
+        expect(antennaGain(patch, device)).toBeCloseTo(0);
+        expect(antennaGain({ ...patch, orientation: 45 }, device)).toBeCloseTo(-3);
+        expect(antennaGain({ ...patch, orientation: 180 }, device)).toBe(-15);
+        expect(antennaGain({ ...patch, orientation: 90 }, { x: 0, y: -100 })).toBeCloseTo(0);
+        expect(antennaGain({ ...patch, orientation: 350 }, device)).toBeCloseTo(antennaGain({ ...patch, orientation: 10 }, device));
+    });
+});
+
+describe('calculateWallAttenuation', () => {
+    it('halves the loss for grazing paths when the angle effect is on', () => {
+        const perpendicular = wall(100, -50, 100, 50);
+        const withAngle = { ...params, enableAngleEffect: true };
+        expect(calculateWallAttenuation(radio, device, [perpendicular], withAngle)).toBeCloseTo(10);
+
+        // Nearly parallel to the path: factor tends to 0.5
+        const grazing = wall(0, -1, 400, 1);
+        expect(calculateWallAttenuation(radio, device, [grazing], withAngle)).toBeCloseTo(5, 1);
+    });
+
+    it('compounds successive walls when the cumulative effect is on', () => {
+        const walls = [wall(100, -50, 100, 50), wall(200, -50, 200, 50), wall(300, -50, 300, 50)];
+        const cumulative = { ...params, enableCumulativeEffect: true };
+        expect(calculateWallAttenuation(radio, device, walls, params)).toBeCloseTo(30);
+        expect(calculateWallAttenuation(radio, device, walls, cumulative)).toBeCloseTo(10 + 11 + 12.1);
+    });
+});
+
+describe('estimateDistanceFromRSSI', () => {
+    it('inverts the noiseless free-space model', () => {
+        for (const d of [0.5, 1, 7.3, 25]) {
+            const rssi = calculateRSSI(d, radio, device, [], params);
+            expect(estimateDistanceFromRSSI(rssi, params)).toBeCloseTo(d, 6);
+        }
+    });
+});
+
+describe('computeMeasurements', () => {
+    it('reports true distance in meters', () => {
+        const [m] = computeMeasurements([radio], device, [], params, Math.random, 40);
+        expect(m.trueDistance).toBeCloseTo(10);
+        expect(m.estimatedDistance).toBeCloseTo(10);
+    });
+
+    it('ranges each radio with its own Tx power', () => {
+        const [m] = computeMeasurements([{ ...radio, txPower: -65 }], device, [], params, Math.random, 40);
+        expect(m.estimatedDistance).toBeCloseTo(10);
+    });
+});
@@ -0,0 +1,131 @@
+import { Vector2D, Wall, Radio, Device, Measurement, RSSIModelParams, ReceiverModel } from '../types';
+import { PIXELS_PER_METER, ANTENNA_PATTERNS } from '../constants';
+import { clamp, findWallIntersections } from './geometry';
+import { RandomSource, gaussian } from './random';
+import { shadowingAt, advertisingFadingGain, bodyLoss } from './channel';
+import { DEFAULT_BUILDING_MODEL, floorsBetween, wallsBetweenFloors, slantDistance } from './floors';
+
+export const MAX_RSSI = -30;
+export const MIN_RSSI = -120;
+
+/**
+ * Total wall loss in dB along the path transmitter -> receiver.
+ */
+export const calculateWallAttenuation = (transmitter: Vector2D, receiver: Vector2D, walls: Wall[], params: RSSIModelParams): number => {
+    const intersections = findWallIntersections(transmitter, receiver, walls);
+    let totalAttenuation = 0;
+    intersections.forEach((intersection, i) => {
+        let wallLoss = intersection.wall.attenuation;
+        if (params.enableAngleEffect) {
+            const wallVec = { x: intersection.wall.end.x - intersection.wall.start.x, y: intersection.wall.end.y - intersection.wall.start.y };
+            const wallNormal = { x: -wallVec.y, y: wallVec.x };
+            const signalVec = { x: receiver.x - transmitter.x, y: receiver.y - transmitter.y };
+            const dot = signalVec.x * wallNormal.x + signalVec.y * wallNormal.y;
+            const magSignal = Math.sqrt(signalVec.x**2 + signalVec.y**2);
+            const magNormal = Math.sqrt(wallNormal.x**2 + wallNormal.y**2);
+            const cosTheta = dot / (magSignal * magNormal);
+            const angleFactor = 0.5 + 0.5 * Math.abs(cosTheta);
+            wallLoss *= angleFactor;
+        }
+        if (params.enableCumulativeEffect && i > 0) {
+            wallLoss *= Math.pow(1.1, i);
+        }
+        totalAttenuation += wallLoss;
+    });
+    return totalAttenuation;
+};
+
+/**
+ * Antenna gain in dB (0 on boresight, negative off it) of the radio towards a
+ * point. Directional patterns use a parabolic main lobe,
+ * 12 (theta / beamwidth)^2, capped at the front-to-back ratio.
+ */
+export const antennaGain = (radio: Radio, toward: Vector2D): number => {
+    const pattern = ANTENNA_PATTERNS[radio.antenna ?? 'omni'];
+    if (!pattern || pattern.frontToBack === 0) return 0;
+    if (toward.x === radio.x && toward.y === radio.y) return 0;
+    // Canvas y points down; orientation is counter-clockwise on screen
+    const bearing = Math.atan2(-(toward.y - radio.y), toward.x - radio.x) * 180 / Math.PI;
+    let offAxis = Math.abs(bearing - (radio.orientation ?? 0)) % 360;
+    offAxis = Math.min(offAxis, 360 - offAxis);
+    return -Math.min(12 * (offAxis / pattern.beamwidth) ** 2, pattern.frontToBack);
+};
+
+/**
+ * The receiver model applied to one radio. A radio's own measured power is
+ * advertised in its packets, so it replaces the assumed Tx power.
+ */
+export const receiverForRadio = (receiver: ReceiverModel, radio: Radio): ReceiverModel =>
+    radio.txPower === undefined ? receiver : { ...receiver, txPower: radio.txPower };
+
+/**
+ * Whether repeated measurements of a fixed scene differ, so sweeps need more
+ * than one Monte Carlo trial. Shadowing is fixed in space and does not count.
+ */
+export const isStochasticModel = (params: RSSIModelParams): boolean =>
+    params.enableNoise || (params.channel !== undefined && params.channel.fading !== 'none');
+
+/**
+ * Log-distance path loss from the radio's own Tx power and antenna, with
+ * optional wall attenuation, channel effects and Gaussian noise. Each floor
+ * slab between radio and device adds the floor loss, and only walls on their
+ * two floors count. A disabled radio is never heard.
+ */
+export const calculateRSSI = (
+    distanceMeters: number,
+    transmitter: Radio,
+    receiver: Device,
+    walls: Wall[],
+    params: RSSIModelParams,
+    random: RandomSource = Math.random,
+    pixelsPerMeter: number = PIXELS_PER_METER
+): number => {
+    if (transmitter.enabled === false) return MIN_RSSI;
+    if (distanceMeters <= 0) return MAX_RSSI;
+    let rssi = (transmitter.txPower ?? params.txPower) + antennaGain(transmitter, receiver)
+        - 10 * params.pathLossExponent * Math.log10(distanceMeters);
+
+    if (params.enableWalls) {
+        rssi -= calculateWallAttenuation(transmitter, receiver, wallsBetweenFloors(walls, transmitter, receiver), params);
+    }
+    rssi -= floorsBetween(transmitter, receiver) * (params.building ?? DEFAULT_BUILDING_MODEL).floorAttenuation;
+
+    if (params.channel) {
+        rssi += shadowingAt(transmitter, { x: receiver.x / pixelsPerMeter, y: receiver.y / pixelsPerMeter }, params.channel);
+        rssi -= bodyLoss(transmitter, receiver, params.channel);
+        rssi += advertisingFadingGain(params.channel, random);
+    }
+
+    if (params.enableNoise) {
+        rssi += gaussian(random) * params.noiseStdDev;
+    }
+    return clamp(rssi, MIN_RSSI, MAX_RSSI);
+};
+
+/**
+ * Inverts the log-distance model; returns meters.
+ */
+export const estimateDistanceFromRSSI = (rssi: number, params: ReceiverModel): number => {
+    const exponent = (params.txPower - rssi) / (10 * params.pathLossExponent);
+    return Math.pow(10, exponent);
+};
+
+/**
+ * Simulates one measurement per radio for a device at its current position.
+ * True distances are 3D, across heights and floors. Ranges are inverted with
+ * the receiver model, which defaults to the true one.
+ */
+export const computeMeasurements = (
+    radios: Radio[],
+    device: Device,
+    walls: Wall[],
+    params: RSSIModelParams,
+    random: RandomSource = Math.random,
+    pixelsPerMeter: number = PIXELS_PER_METER,
+    receiver: ReceiverModel = params
+): Measurement[] => radios.map(radio => {
+    const trueDistMeters = slantDistance(radio, device, pixelsPerMeter, params.building);
+    const rssi = calculateRSSI(trueDistMeters, radio, device, walls, params, random, pixelsPerMeter);
+    const estimatedDistMeters = estimateDistanceFromRSSI(rssi, receiverForRadio(receiver, radio));
+    return { radio, trueDistance: trueDistMeters, rssi, estimatedDistance: estimatedDistMeters };
+});
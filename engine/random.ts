@@ -0,0 +1,28 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), shaped like `Math.random`.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Creates a deterministic random source (mulberry32) so simulations can be replayed exactly.
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Draws a standard normal sample using the Box-Muller transform.
+ */
+export const gaussian = (random: RandomSource): number => {
+    // 1 - u keeps the argument of the log in (0, 1]
+    const u1 = 1 - random();
+    const u2 = random();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+};
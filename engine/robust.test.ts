@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { Measurement, RobustMethodId } from '../types';
+import { robustSolve } from './robust';
+import { distance } from './geometry';
+import { testRadios } from './testFixtures';
+
+const radios = testRadios([{ x: 50, y: 50 }, { x: 1150, y: 50 }, { x: 1150, y: 850 }, { x: 50, y: 850 }, { x: 600, y: 50 }]);
+
+const truth = { x: 500, y: 400 };
+
+// Exact ranges except for r3, which a wall makes look `bias` meters farther
+const measure = (bias: number): Measurement[] => radios.map(radio => {
+    const d = distance(truth, radio) / 40;
+    return { radio, rssi: -70, trueDistance: d, estimatedDistance: d + (radio.id === 'r3' ? bias : 0) };
+});
+
+const errorOf = (method: RobustMethodId, measurements: Measurement[]) => {
+    const { result } = robustSolve('gaussNewton', measurements, { robust: method, pixelsPerMeter: 40 });
+    return distance(result!.position, truth) / 40;
+};
+
+describe('robustSolve', () => {
+    it('matches the plain solver and reports full weights without outlier handling', () => {
+        const { result, diagnostics } = robustSolve('gaussNewton', measure(0), { pixelsPerMeter: 40 });
+        expect(distance(result!.position, truth)).toBeLessThan(1);
+        expect(diagnostics.map(d => d.weight)).toEqual([1, 1, 1, 1, 1]);
+        diagnostics.forEach(d => expect(Math.abs(d.residual)).toBeLessThan(0.05));
+    });
+
+    it('reduces the pull of a biased radio with every method', () => {
+        const biased = measure(8);
+        const plain = errorOf('none', biased);
+        expect(plain).toBeGreaterThan(1);
+        for (const method of ['huber', 'tukey', 'ransac', 'nlos'] as const) {
+            expect(errorOf(method, biased)).toBeLessThan(plain);
+        }
+        expect(errorOf('tukey', biased)).toBeLessThan(0.1);
+        expect(errorOf('ransac', biased)).toBeLessThan(0.1);
+        expect(errorOf('nlos', biased)).toBeLessThan(0.1);
+    });
+
+    it('down-weights or rejects only the biased radio', () => {
+        const biased = measure(8);
+        const weightOf = (method: RobustMethodId, id: string) =>
+            robustSolve('gaussNewton', biased, { robust: method, pixelsPerMeter: 40 }).diagnostics.find(d => d.radioId === id)!.weight;
+        expect(weightOf('huber', 'r3')).toBeLessThan(0.5);
+        expect(weightOf('tukey', 'r3')).toBe(0);
+        expect(weightOf('ransac', 'r3')).toBe(0);
+        expect(weightOf('nlos', 'r3')).toBe(0);
+        for (const method of ['ransac', 'nlos'] as const) {
+            expect(radios.filter(r => r.id !== 'r3').map(r => weightOf(method, r.id))).toEqual([1, 1, 1, 1]);
+        }
+        const { diagnostics } = robustSolve('gaussNewton', biased, { robust: 'nlos', pixelsPerMeter: 40 });
+        expect(diagnostics.find(d => d.radioId === 'r3')!.residual).toBeCloseTo(8, 1);
+    });
+
+    it('keeps every radio when none overshoots the threshold', () => {
+        const { diagnostics } = robustSolve('gaussNewton', measure(1), { robust: 'nlos', inlierThreshold: 2, pixelsPerMeter: 40 });
+        expect(diagnostics.every(d => d.weight === 1)).toBe(true);
+    });
+
+    it('cannot reject anything from three radios', () => {
+        const { result, diagnostics } = robustSolve('gaussNewton', measure(8).slice(1, 4), { robust: 'ransac', pixelsPerMeter: 40 });
+        expect(result).not.toBeNull();
+        expect(diagnostics.every(d => d.weight === 1)).toBe(true);
+    });
+});
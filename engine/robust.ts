@@ -0,0 +1,141 @@
+import { Vector2D, Measurement, SolverId, SolverResult, RobustMethodId } from '../types';
+import { distance } from './geometry';
+import { SolverOptions, DEFAULT_SOLVER_OPTIONS, buildNormalEquations, solveStep, solvePosition } from './solvers';
+import { median } from './stats';
+
+export const ROBUST_METHODS: Record<RobustMethodId, { name: string; description: string }> = {
+    none: { name: 'None', description: 'Every radio counts fully.' },
+    huber: { name: 'Huber M-estimator', description: 'Large residuals count linearly instead of quadratically.' },
+    tukey: { name: 'Tukey M-estimator', description: 'Large residuals are faded out entirely.' },
+    ransac: { name: 'RANSAC', description: 'The three-radio fit most others agree with wins; the rest are rejected.' },
+    nlos: { name: 'NLOS Detection', description: 'Radios whose range is much longer than the fit are dropped one at a time.' },
+};
+
+export interface RadioDiagnostic {
+    radioId: string;
+    /** Measured range minus the distance to the final fix, meters. Walls make it positive. */
+    residual: number;
+    /** Share of a full measurement the radio had in the final fix: 1 full, 0 rejected. */
+    weight: number;
+}
+
+export interface RobustResult {
+    result: SolverResult | null;
+    diagnostics: RadioDiagnostic[];
+}
+
+// Tuning constants for 95% efficiency under Gaussian noise
+const HUBER_C = 1.345;
+const TUKEY_C = 4.685;
+// Residual scale floor in meters, so that a near-perfect fit does not make every residual an outlier
+const MIN_SCALE = 0.25;
+// Three-radio subsets tried by RANSAC before switching to random sampling
+const MAX_RANSAC_SUBSETS = 200;
+
+const rangeResidual = (position: Vector2D, m: Measurement, pixelsPerMeter: number) =>
+    m.estimatedDistance - distance(position, m.radio) / pixelsPerMeter;
+
+const diagnose = (position: Vector2D | null, measurements: Measurement[], weights: number[], pixelsPerMeter: number): RadioDiagnostic[] =>
+    measurements.map((m, i) => ({
+        radioId: m.radio.id,
+        residual: position ? rangeResidual(position, m, pixelsPerMeter) : NaN,
+        weight: weights[i],
+    }));
+
+// --- M-ESTIMATORS ---
+type WeightFunction = (u: number) => number;
+
+const huberWeight: WeightFunction = u => Math.abs(u) <= HUBER_C ? 1 : HUBER_C / Math.abs(u);
+const tukeyWeight: WeightFunction = u => Math.abs(u) <= TUKEY_C ? (1 - (u / TUKEY_C) ** 2) ** 2 : 0;
+
+/**
+ * Iteratively reweighted Gauss-Newton from a starting fix. Residuals are
+ * scaled by their median absolute deviation before weighting.
+ */
+const reweightedFit = (start: SolverResult, measurements: Measurement[], weightOf: WeightFunction, o: SolverOptions): { result: SolverResult; weights: number[] } => {
+    const pos = { ...start.position };
+    let weights = measurements.map(() => 1);
+    for (let iter = 0; iter < o.maxIterations; iter++) {
+        const residuals = measurements.map(m => rangeResidual(pos, m, o.pixelsPerMeter));
+        const scale = Math.max(1.4826 * median(residuals.map(Math.abs)), MIN_SCALE);
+        weights = residuals.map(r => weightOf(r / scale));
+        if (weights.filter(w => w > 0).length < 3) break;
+        const byRadio = new Map(measurements.map((m, i) => [m.radio.id, weights[i]]));
+        const { JtJ, Jtr } = buildNormalEquations(pos, measurements, m => byRadio.get(m.radio.id) ?? 0, o.pixelsPerMeter);
+        const delta = solveStep(JtJ, Jtr);
+        if (!delta) break;
+        pos.x += delta.x;
+        pos.y += delta.y;
+        if (Math.hypot(delta.x, delta.y) < o.convergenceThreshold) {
+            return { result: { position: pos, iterations: start.iterations + iter + 1, converged: start.converged }, weights };
+        }
+    }
+    return { result: { position: pos, iterations: start.iterations + o.maxIterations, converged: false }, weights };
+};
+
+// --- CONSENSUS ---
+const subsetsOfThree = (n: number, o: SolverOptions): number[][] => {
+    const all: number[][] = [];
+    for (let a = 0; a < n; a++) for (let b = a + 1; b < n; b++) for (let c = b + 1; c < n; c++) all.push([a, b, c]);
+    if (all.length <= MAX_RANSAC_SUBSETS) return all;
+    return Array.from({ length: MAX_RANSAC_SUBSETS }, () => all[Math.floor(o.random() * all.length)]);
+};
+
+const ransacFit = (solverId: SolverId, measurements: Measurement[], o: SolverOptions): RobustResult => {
+    let best: { inliers: boolean[]; count: number; cost: number } | null = null;
+    for (const subset of subsetsOfThree(measurements.length, o)) {
+        const fit = solvePosition(solverId, subset.map(i => measurements[i]), o);
+        if (!fit) continue;
+        const residuals = measurements.map(m => rangeResidual(fit.position, m, o.pixelsPerMeter));
+        const inliers = residuals.map(r => Math.abs(r) <= o.inlierThreshold);
+        const count = inliers.filter(Boolean).length;
+        const cost = residuals.reduce((sum, r, i) => sum + (inliers[i] ? r * r : 0), 0);
+        if (!best || count > best.count || (count === best.count && cost < best.cost)) best = { inliers, count, cost };
+    }
+    // Without a consensus of at least three radios nothing can be told apart
+    const weights = best && best.count >= 3 ? best.inliers.map(inlier => inlier ? 1 : 0) : measurements.map(() => 1);
+    const result = solvePosition(solverId, measurements.filter((_, i) => weights[i] > 0), o);
+    return { result, diagnostics: diagnose(result?.position ?? null, measurements, weights, o.pixelsPerMeter) };
+};
+
+/**
+ * Drops the radio whose range overshoots the fit the most, while it
+ * overshoots by more than the threshold and at least three radios remain.
+ * Walls only ever lengthen a range, so only positive residuals are suspect.
+ */
+const nlosFit = (solverId: SolverId, measurements: Measurement[], o: SolverOptions): RobustResult => {
+    const weights = measurements.map(() => 1);
+    let result = solvePosition(solverId, measurements, o);
+    while (result && weights.filter(w => w > 0).length > 3) {
+        let worst = -1, worstResidual = o.inlierThreshold;
+        measurements.forEach((m, i) => {
+            const r = rangeResidual(result!.position, m, o.pixelsPerMeter);
+            if (weights[i] > 0 && r > worstResidual) {
+                worst = i;
+                worstResidual = r;
+            }
+        });
+        if (worst < 0) break;
+        weights[worst] = 0;
+        result = solvePosition(solverId, measurements.filter((_, i) => weights[i] > 0), o) ?? result;
+    }
+    return { result, diagnostics: diagnose(result?.position ?? null, measurements, weights, o.pixelsPerMeter) };
+};
+
+/**
+ * Solves with the chosen solver and outlier handling. The M-estimators refine
+ * the solver's fix (Tukey starting from Huber, as it needs a good start);
+ * RANSAC and NLOS detection reject radios and re-solve without them.
+ */
+export const robustSolve = (solverId: SolverId, measurements: Measurement[], options: Partial<SolverOptions> = {}): RobustResult => {
+    const o = { ...DEFAULT_SOLVER_OPTIONS, ...options };
+    const full = measurements.map(() => 1);
+    if (o.robust === 'ransac') return ransacFit(solverId, measurements, o);
+    if (o.robust === 'nlos') return nlosFit(solverId, measurements, o);
+
+    const start = solvePosition(solverId, measurements, o);
+    if (!start || o.robust === 'none') return { result: start, diagnostics: diagnose(start?.position ?? null, measurements, full, o.pixelsPerMeter) };
+    let fit = reweightedFit(start, measurements, huberWeight, o);
+    if (o.robust === 'tukey') fit = reweightedFit(fit.result, measurements, tukeyWeight, o);
+    return { result: fit.result, diagnostics: diagnose(fit.result.position, measurements, fit.weights, o.pixelsPerMeter) };
+};
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import { Radio } from '../types';
+import { parseRSSILog, groupLogEpochs, autoMapBeacons, epochMeasurements, replayLog, summarizeReplay } from './rssiLog';
+import { estimateDistanceFromRSSI } from './propagation';
+
+const model = { txPower: -59, pathLossExponent: 2 };
+const radios: Radio[] = [
+    { id: 'r1', x: 0, y: 0, radius: 10, label: 'R1' },
+    { id: 'r2', x: 400, y: 0, radius: 10, label: 'R2' },
+    { id: 'r3', x: 0, y: 400, radius: 10, label: 'R3' },
+];
+
+// RSSI that the inverse model maps back to the exact range
+const rssiAt = (meters: number) => model.txPower - 10 * model.pathLossExponent * Math.log10(meters);
+
+describe('parseRSSILog', () => {
+    it('reads CSV with ground truth and relative timestamps', () => {
+        const log = parseRSSILog('timestamp,mac,rssi,x,y\n100.5,AA:BB,-60,1,2\n100,CC:DD,-70,,\n');
+        expect(log.readings).toHaveLength(2);
+        expect(log.readings[0]).toEqual({ time: 0, beaconId: 'CC:DD', rssi: -70, truth: null });
+        expect(log.readings[1].time).toBeCloseTo(0.5);
+        expect(log.readings[1].truth).toEqual({ x: 40, y: 80 });
+        expect(log.beaconIds).toEqual(['AA:BB', 'CC:DD']);
+        expect(log.hasGroundTruth).toBe(true);
+    });
+
+    it('reads JSON with ISO and millisecond timestamps', () => {
+        const log = parseRSSILog(JSON.stringify({ readings: [
+            { time: '2024-01-01T00:00:01Z', beacon_id: 'b1', rssi: -65 },
+            { time: '2024-01-01T00:00:00Z', beacon_id: 'b2', rssi: -75 },
+        ] }));
+        expect(log.duration).toBeCloseTo(1);
+        expect(parseRSSILog('[{"ts": 1700000000500, "id": "a", "rssi": -50}, {"ts": 1700000001500, "id": "a", "rssi": -50}]').duration).toBeCloseTo(1);
+    });
+
+    it('reports the offending row', () => {
+        expect(() => parseRSSILog('time,beacon,rssi\n0,a,-60\n1,b,loud')).toThrow('Line 3: missing or invalid RSSI');
+        expect(() => parseRSSILog('time,rssi\n0,-60')).toThrow('beacon column');
+        expect(() => parseRSSILog('[{"time": 0, "beacon": "a", "rssi": -60, "x": 1}]')).toThrow('Reading 1: ground truth');
+    });
+
+    it('keeps delimiters and escaped quotes inside quoted CSV cells', () => {
+        const log = parseRSSILog('"time","beacon","rssi"\n0,"Lobby, east",-61\n1;"Desk ""A""";-70');
+        expect(log.beaconIds).toEqual(['Desk "A"', 'Lobby, east']);
+        expect(log.readings.map(r => r.rssi)).toEqual([-61, -70]);
+        expect(() => parseRSSILog('time,beacon,rssi\n0,"Lobby,-61')).toThrow('Line 2: unterminated quoted field');
+    });
+
+    it('reads logs with hundreds of thousands of readings', () => {
+        const lines = ['time,beacon,rssi'];
+        for (let i = 200000; i > 0; i--) lines.push(`${i / 10},b${i % 4},-60`);
+        const log = parseRSSILog(lines.join('\n'));
+        expect(log.readings).toHaveLength(200000);
+        expect(log.duration).toBeCloseTo(19999.9);
+    });
+});
+
+describe('groupLogEpochs', () => {
+    it('averages repeated advertisements within a window', () => {
+        const log = parseRSSILog('time,beacon,rssi\n0,a,-60\n0.4,a,-70\n0.5,b,-80\n1.2,a,-50');
+        const epochs = groupLogEpochs(log, 1);
+        expect(epochs).toHaveLength(2);
+        expect(epochs[0].rssi).toEqual({ a: -65, b: -80 });
+        expect(epochs[1]).toMatchObject({ time: 1, rssi: { a: -50 } });
+    });
+});
+
+describe('epochMeasurements', () => {
+    it('measures the true range to mounted radios in 3D', () => {
+        const mounted = radios.map(r => ({ ...r, height: 3 }));
+        const [epoch] = groupLogEpochs(parseRSSILog('time,beacon,rssi,x,y\n0,R1,-60,4,0'), 1);
+        const [m] = epochMeasurements(epoch, mounted, { R1: 'r1' }, model, 40);
+        expect(m.trueDistance).toBeCloseTo(5);
+    });
+});
+
+describe('replayLog', () => {
+    it('maps beacons by label and reports error against ground truth', () => {
+        const truth = { x: 3, y: 4 }; // meters; radios are 10 m apart at 40 px/m
+        const lines = ['time,beacon,rssi,x,y'];
+        [['R1', { x: 0, y: 0 }], ['R2', { x: 10, y: 0 }], ['R3', { x: 0, y: 10 }]].forEach(([id, p]) => {
+            const pos = p as { x: number; y: number };
+            lines.push(`0,${id},${rssiAt(Math.hypot(truth.x - pos.x, truth.y - pos.y))},${truth.x},${truth.y}`);
+        });
+        lines.push('0,unknown,-40,3,4');
+        const log = parseRSSILog(lines.join('\n'));
+        const mapping = autoMapBeacons(log.beaconIds, radios);
+        expect(mapping).toEqual({ R1: 'r1', R2: 'r2', R3: 'r3' });
+
+        const samples = replayLog(groupLogEpochs(log, 1), radios, mapping, {
+            solverId: 'gaussNewton', solverOptions: {}, modelParams: model, minRSSI: -100, pixelsPerMeter: 40, walls: [],
+        });
+        expect(samples).toHaveLength(1);
+        expect(samples[0].measurements).toHaveLength(3);
+        expect(samples[0].measurements[0].estimatedDistance).toBeCloseTo(estimateDistanceFromRSSI(samples[0].measurements[0].rssi, model));
+        expect(samples[0].error).toBeLessThan(0.01);
+
+        const summary = summarizeReplay(samples);
+        expect(summary).toMatchObject({ epochs: 1, fixes: 1 });
+        expect(summary.max).toBeLessThan(0.01);
+    });
+});
@@ -0,0 +1,281 @@
+import { Vector2D, Wall, Radio, Measurement, ReceiverModel, SolverId, SolverResult, CoordinateFrame } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { estimateDistanceFromRSSI, receiverForRadio } from './propagation';
+import { SolverOptions } from './solvers';
+import { estimatePosition } from './estimation';
+import { distance } from './geometry';
+import { slantDistance } from './floors';
+import { DEFAULT_FRAME, fromWorld } from './frame';
+import { mean, median, percentile, minimum, maximum } from './stats';
+
+// --- PARSING ---
+export interface RSSILogReading {
+    /** Seconds since the first reading in the log. */
+    time: number;
+    beaconId: string;
+    rssi: number;
+    /** Ground-truth receiver position in canvas pixels, when the log has one. */
+    truth: Vector2D | null;
+}
+
+export interface RSSILog {
+    readings: RSSILogReading[];
+    beaconIds: string[];
+    duration: number;
+    hasGroundTruth: boolean;
+}
+
+const COLUMN_ALIASES: Record<'time' | 'beacon' | 'rssi' | 'x' | 'y', string[]> = {
+    time: ['timestamp', 'time', 'ts', 't'],
+    beacon: ['beacon', 'beacon_id', 'beaconid', 'id', 'mac', 'address', 'uuid'],
+    rssi: ['rssi'],
+    x: ['x', 'true_x', 'truth_x', 'gt_x'],
+    y: ['y', 'true_y', 'truth_y', 'gt_y'],
+};
+
+const findKey = (keys: string[], field: keyof typeof COLUMN_ALIASES): string | undefined =>
+    keys.find(k => COLUMN_ALIASES[field].includes(k.trim().toLowerCase()));
+
+/**
+ * Numeric timestamps are seconds, except values that only make sense as Unix
+ * milliseconds. Anything else must be a date string.
+ */
+const parseTimestamp = (value: unknown): number => {
+    if (typeof value === 'number') return value > 1e11 ? value / 1000 : value;
+    if (typeof value !== 'string' || value.trim() === '') return NaN;
+    const numeric = Number(value);
+    if (!isNaN(numeric)) return parseTimestamp(numeric);
+    const ms = Date.parse(value);
+    return isNaN(ms) ? NaN : ms / 1000;
+};
+
+const parseOptionalNumber = (value: unknown): number | null => {
+    if (value === undefined || value === null || value === '') return null;
+    const n = typeof value === 'number' ? value : Number(value);
+    return isNaN(n) ? NaN : n;
+};
+
+const readRecord = (record: Record<string, unknown>, keys: string[], label: string, frame: CoordinateFrame): Omit<RSSILogReading, 'time'> & { timestamp: number } => {
+    const get = (field: keyof typeof COLUMN_ALIASES) => {
+        const key = findKey(keys, field);
+        return key === undefined ? undefined : record[key];
+    };
+    const timestamp = parseTimestamp(get('time'));
+    if (isNaN(timestamp)) throw new Error(`${label}: missing or invalid timestamp`);
+    const beacon = get('beacon');
+    if (beacon === undefined || beacon === null || String(beacon).trim() === '') throw new Error(`${label}: missing beacon id`);
+    const rssi = parseOptionalNumber(get('rssi'));
+    if (rssi === null || isNaN(rssi)) throw new Error(`${label}: missing or invalid RSSI`);
+    const x = parseOptionalNumber(get('x'));
+    const y = parseOptionalNumber(get('y'));
+    if ((x === null) !== (y === null) || (x !== null && isNaN(x)) || (y !== null && isNaN(y))) {
+        throw new Error(`${label}: ground truth needs numeric x and y in meters`);
+    }
+    return {
+        timestamp,
+        beaconId: String(beacon).trim(),
+        rssi,
+        truth: x === null ? null : fromWorld({ x, y: y! }, frame),
+    };
+};
+
+/**
+ * Splits a CSV row on commas, semicolons or tabs. Double-quoted cells may contain
+ * delimiters, and a doubled quote inside them stands for a literal quote.
+ */
+const splitCSVRow = (line: string, label: string): string[] => {
+    const cells: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const c = line[i];
+        if (quoted) {
+            if (c !== '"') cell += c;
+            else if (line[i + 1] === '"') cell += line[++i];
+            else quoted = false;
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === ',' || c === ';' || c === '\t') {
+            cells.push(cell.trim());
+            cell = '';
+        } else {
+            cell += c;
+        }
+    }
+    if (quoted) throw new Error(`${label}: unterminated quoted field`);
+    cells.push(cell.trim());
+    return cells;
+};
+
+/**
+ * Parses a BLE scan log, either JSON (an array of readings or `{ readings: [...] }`)
+ * or CSV with a header row. Each reading needs a timestamp, a beacon id (or MAC)
+ * and an RSSI; optional `x`/`y` columns give the ground-truth position in meters.
+ */
+export const parseRSSILog = (text: string, frame: CoordinateFrame = DEFAULT_FRAME): RSSILog => {
+    const trimmed = text.trim();
+    let records: ReturnType<typeof readRecord>[];
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        let data: unknown;
+        try {
+            data = JSON.parse(trimmed);
+        } catch (e) {
+            throw new Error(`Invalid JSON: ${(e as Error).message}`);
+        }
+        const list = Array.isArray(data) ? data : (data as { readings?: unknown }).readings;
+        if (!Array.isArray(list)) throw new Error('Expected an array of readings or an object with a "readings" array');
+        records = list.map((item, i) => {
+            if (typeof item !== 'object' || item === null) throw new Error(`Reading ${i + 1}: expected an object`);
+            return readRecord(item as Record<string, unknown>, Object.keys(item), `Reading ${i + 1}`, frame);
+        });
+    } else {
+        const lines = trimmed.split(/\r?\n/);
+        const header = splitCSVRow(lines[0], 'Line 1');
+        for (const field of ['time', 'beacon', 'rssi'] as const) {
+            if (!findKey(header, field)) throw new Error(`CSV header must include a ${field} column (e.g. ${COLUMN_ALIASES[field][0]})`);
+        }
+        records = [];
+        lines.slice(1).forEach((line, i) => {
+            if (line.trim() === '') return;
+            const cells = splitCSVRow(line, `Line ${i + 2}`);
+            const record = Object.fromEntries(header.map((key, j) => [key, cells[j]]));
+            records.push(readRecord(record, header, `Line ${i + 2}`, frame));
+        });
+    }
+
+    if (records.length === 0) throw new Error('The log contains no readings');
+    const start = minimum(records.map(r => r.timestamp));
+    const readings = records
+        .map(({ timestamp, ...r }) => ({ ...r, time: timestamp - start }))
+        .sort((a, b) => a.time - b.time);
+    return {
+        readings,
+        beaconIds: [...new Set(readings.map(r => r.beaconId))].sort(),
+        duration: readings[readings.length - 1].time,
+        hasGroundTruth: readings.some(r => r.truth !== null),
+    };
+};
+
+// --- EPOCHS ---
+export interface RSSILogEpoch {
+    /** Start of the window, seconds. */
+    time: number;
+    /** Mean RSSI per beacon id within the window. */
+    rssi: Record<string, number>;
+    /** Last ground-truth position reported within the window. */
+    truth: Vector2D | null;
+}
+
+/**
+ * Groups readings into fixed time windows, averaging repeated advertisements
+ * of the same beacon. Empty windows are skipped.
+ */
+export const groupLogEpochs = (log: RSSILog, windowSeconds: number): RSSILogEpoch[] => {
+    const buckets = new Map<number, RSSILogReading[]>();
+    for (const reading of log.readings) {
+        const index = Math.floor(reading.time / windowSeconds);
+        const bucket = buckets.get(index);
+        if (bucket) bucket.push(reading); else buckets.set(index, [reading]);
+    }
+    return [...buckets.entries()].sort((a, b) => a[0] - b[0]).map(([index, readings]) => {
+        const byBeacon = new Map<string, number[]>();
+        readings.forEach(r => byBeacon.set(r.beaconId, [...(byBeacon.get(r.beaconId) ?? []), r.rssi]));
+        const truths = readings.filter(r => r.truth).map(r => r.truth!);
+        return {
+            time: index * windowSeconds,
+            rssi: Object.fromEntries([...byBeacon.entries()].map(([id, values]) => [id, mean(values)])),
+            truth: truths.length > 0 ? truths[truths.length - 1] : null,
+        };
+    });
+};
+
+// --- BEACON MAPPING ---
+/** Beacon id from the log -> `Radio.id`. Unmapped beacons are ignored. */
+export type BeaconMapping = Record<string, string>;
+
+/**
+ * Maps beacon ids to radios whose label or id matches, ignoring case.
+ */
+export const autoMapBeacons = (beaconIds: string[], radios: Radio[]): BeaconMapping => {
+    const mapping: BeaconMapping = {};
+    for (const beaconId of beaconIds) {
+        const key = beaconId.toLowerCase();
+        const radio = radios.find(r => r.label.toLowerCase() === key || r.id.toLowerCase() === key);
+        if (radio) mapping[beaconId] = radio.id;
+    }
+    return mapping;
+};
+
+/**
+ * Measurements for one epoch. `trueDistance` is NaN when the log has no ground
+ * truth; logs carry no floor or height, so the truth is taken on the lowest floor.
+ */
+export const epochMeasurements = (
+    epoch: RSSILogEpoch,
+    radios: Radio[],
+    mapping: BeaconMapping,
+    modelParams: ReceiverModel,
+    pixelsPerMeter: number = PIXELS_PER_METER
+): Measurement[] => Object.entries(epoch.rssi).flatMap(([beaconId, rssi]) => {
+    const radio = radios.find(r => r.id === mapping[beaconId]);
+    if (!radio) return [];
+    return [{
+        radio,
+        trueDistance: epoch.truth ? slantDistance(radio, { ...epoch.truth, radius: 0 }, pixelsPerMeter, modelParams.building) : NaN,
+        rssi,
+        estimatedDistance: estimateDistanceFromRSSI(rssi, receiverForRadio(modelParams, radio)),
+    }];
+});
+
+// --- REPLAY ---
+export interface LogReplayOptions {
+    solverId: SolverId;
+    solverOptions: Partial<SolverOptions>;
+    modelParams: ReceiverModel;
+    minRSSI: number;
+    pixelsPerMeter: number;
+    /** Walls known to a wall-aware receiver model. */
+    walls: Wall[];
+}
+
+export interface LogReplaySample {
+    time: number;
+    measurements: Measurement[];
+    estimate: SolverResult | null;
+    truth: Vector2D | null;
+    /** Distance between estimate and ground truth in meters, when both exist. */
+    error: number | null;
+}
+
+export const replayLog = (epochs: RSSILogEpoch[], radios: Radio[], mapping: BeaconMapping, options: LogReplayOptions): LogReplaySample[] =>
+    epochs.map(epoch => {
+        const measurements = epochMeasurements(epoch, radios, mapping, options.modelParams, options.pixelsPerMeter);
+        const active = measurements.filter(m => m.rssi > options.minRSSI);
+        const estimate = estimatePosition(options.solverId, active, options.modelParams, options.walls, { ...options.solverOptions, pixelsPerMeter: options.pixelsPerMeter }).result;
+        const error = estimate && epoch.truth ? distance(estimate.position, epoch.truth) / options.pixelsPerMeter : null;
+        return { time: epoch.time, measurements, estimate, truth: epoch.truth, error };
+    });
+
+export interface LogReplaySummary {
+    epochs: number;
+    /** Epochs where the solver produced a position. */
+    fixes: number;
+    /** Error statistics in meters over epochs with both a fix and ground truth. */
+    mean: number;
+    median: number;
+    p90: number;
+    max: number;
+}
+
+export const summarizeReplay = (samples: LogReplaySample[]): LogReplaySummary => {
+    const errors = samples.filter(s => s.error !== null).map(s => s.error!);
+    return {
+        epochs: samples.length,
+        fixes: samples.filter(s => s.estimate).length,
+        mean: mean(errors),
+        median: median(errors),
+        p90: percentile(errors, 90),
+        max: maximum(errors),
+    };
+};
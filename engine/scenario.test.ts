@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { Scenario } from '../types';
+import { serializeScenario, parseScenario, validateScenario, ScenarioValidationError, SCENARIO_VERSION } from './scenario';
+
+const scenario: Omit<Scenario, 'version'> = {
+    radios: [
+        { id: 'r1', x: 50, y: 50, radius: 10, label: 'R1' },
+        { id: 'r2', x: 150, y: 50, radius: 10, label: 'R2', txPower: -62, antenna: 'patch', orientation: 90, advertisingInterval: 500, enabled: false, floor: 1, height: 2.5 },
+    ],
+    walls: [
+        { id: 'w1', start: { x: 0, y: 0 }, end: { x: 100, y: 0 }, material: 'brick', attenuation: 8, color: 0xaa6644 },
+        { id: 'w2', start: { x: 0, y: 0 }, end: { x: 0, y: 100 }, material: 'glass', attenuation: 2, color: 0x8888ff, floor: 1 },
+    ],
+    devices: [
+        { id: 'd1', name: 'Visitor', color: 0x38bdf8, x: 200, y: 300, radius: 10, heading: 45, floor: 1, z: 1.2 },
+        { id: 'd2', name: 'Forklift', color: 0xfacc15, x: 400, y: 100, radius: 12 },
+    ],
+    model: {
+        txPower: -59,
+        pathLossExponent: 2.7,
+        enableWalls: true,
+        enableAngleEffect: false,
+        enableCumulativeEffect: true,
+        enableNoise: true,
+        noiseStdDev: 3,
+        channel: {
+            enableShadowing: true,
+            shadowingStdDev: 6,
+            shadowingCorrelationDistance: 2,
+            fading: 'rician',
+            ricianK: 3,
+            enableChannelDiversity: true,
+            enableBodyBlocking: true,
+            bodyAttenuation: 12,
+            bodyConeAngle: 90,
+        },
+        building: { floorAttenuation: 18, storeyHeight: 3.5 },
+    },
+    receiver: { txPower: -65, pathLossExponent: 2.2, compensateWalls: true },
+    minRSSI: -95,
+    floors: [
+        { id: 'f0', name: 'Ground Floor', image: 'data:image/png;base64,AAAA' },
+        { id: 'f1', name: 'First Floor', image: null, background: [{ start: { x: 0, y: 0 }, end: { x: 120, y: 0 } }] },
+    ],
+    floorPlan: { pixelsPerMeter: 32, origin: { x: 10, y: 20 }, rotation: 0.1, opacity: 0.7, show: true },
+};
+
+const issuesOf = (fn: () => unknown): string[] => {
+    try {
+        fn();
+    } catch (e) {
+        expect(e).toBeInstanceOf(ScenarioValidationError);
+        return (e as ScenarioValidationError).issues;
+    }
+    throw new Error('expected a validation error');
+};
+
+describe('scenario files', () => {
+    it('round-trips through JSON', () => {
+        expect(parseScenario(serializeScenario(scenario))).toEqual({ ...scenario, version: SCENARIO_VERSION });
+    });
+
+    it('fills in optional fields', () => {
+        const minimal = {
+            version: 1,
+            radios: [{ id: 'r1', x: 1, y: 2, label: 'R1' }],
+            walls: [{ id: 'w1', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, material: 'glass' }],
+            device: { x: 5, y: 5 },
+            model: { txPower: -60, pathLossExponent: 2 },
+        };
+        const result = validateScenario(minimal);
+        expect(result.radios[0].radius).toBe(10);
+        expect(result.walls[0].attenuation).toBe(2);
+        expect(result.model.enableWalls).toBe(true);
+        expect(result.floors).toEqual([{ id: 'floor-0', name: 'Ground Floor', image: null }]);
+        expect(result.floorPlan.pixelsPerMeter).toBe(40);
+        expect(result.floorPlan.origin).toEqual({ x: 0, y: 0 });
+        expect(result.minRSSI).toBe(-100);
+        expect(result.receiver).toBeNull();
+        expect(result.devices).toEqual([{ id: 'device-1', name: 'Device 1', color: 0x38bdf8, x: 5, y: 5, radius: 10 }]);
+    });
+
+    it('turns the single device of version 2 files into the first of the devices', () => {
+        const result = validateScenario({
+            version: 2,
+            radios: [],
+            walls: [],
+            device: { x: 5, y: 5, heading: 90 },
+            model: { txPower: -60, pathLossExponent: 2 },
+        });
+        expect(result).not.toHaveProperty('device');
+        expect(result.devices).toEqual([{ id: 'device-1', name: 'Device 1', color: 0x38bdf8, x: 5, y: 5, radius: 10, heading: 90 }]);
+        expect(issuesOf(() => validateScenario({ ...scenario, version: 3, devices: [] }))).toEqual(['devices: must list at least one device']);
+    });
+
+    it('moves the floor plan image of version 1 files onto the ground floor', () => {
+        const result = validateScenario({
+            version: 1,
+            radios: [],
+            walls: [],
+            device: { x: 5, y: 5 },
+            model: { txPower: -60, pathLossExponent: 2 },
+            floorPlan: { image: 'plan.png', pixelsPerMeter: 20 },
+        });
+        expect(result.version).toBe(SCENARIO_VERSION);
+        expect(result.floors).toEqual([{ id: 'floor-0', name: 'Ground Floor', image: 'plan.png' }]);
+        expect(result.floorPlan).not.toHaveProperty('image');
+        expect(result.floorPlan.pixelsPerMeter).toBe(20);
+    });
+
+    it('lists every problem with its path', () => {
+        const issues = issuesOf(() => validateScenario({
+            version: 1,
+            radios: [{ id: 'r1', x: 'a', y: 2, label: 'R1' }, { id: 'r1', x: 1, y: 2, label: 'R2', antenna: 'yagi', advertisingInterval: 0 }],
+            walls: [{ id: 'w1', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, material: 'cardboard' }],
+            device: { x: 5, y: 5, floor: 2 },
+            model: { txPower: -60, pathLossExponent: -1, channel: { fading: 'nakagami' } },
+        }));
+        expect(issues).toContain('devices[0].floor: no floor 2, the scenario has 1');
+        expect(issues).toContain('radios[0].x: must be a finite number');
+        expect(issues).toContain('radios[1].id: duplicate id "r1"');
+        expect(issues.some(i => i.startsWith('radios[1].antenna: must be one of'))).toBe(true);
+        expect(issues).toContain('radios[1].advertisingInterval: must be positive');
+        expect(issues.some(i => i.startsWith('walls[0].material: must be one of'))).toBe(true);
+        expect(issues).toContain('model.pathLossExponent: must be positive');
+        expect(issues.some(i => i.startsWith('model.channel.fading: must be one of'))).toBe(true);
+    });
+
+    it('rejects unknown versions and formats', () => {
+        expect(issuesOf(() => validateScenario({ ...scenario, version: 99 }))[0]).toMatch(/newer than this simulator/);
+        expect(issuesOf(() => validateScenario({ ...scenario }))[0]).toMatch(/^version/);
+        expect(issuesOf(() => validateScenario({ ...scenario, version: 1, format: 'other' }))[0]).toMatch(/^format/);
+        expect(issuesOf(() => parseScenario('{'))[0]).toMatch(/Not valid JSON/);
+    });
+});
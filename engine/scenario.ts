@@ -0,0 +1,369 @@
+import { Radio, AntennaPattern, Wall, TrackedDevice, RSSIModelParams, ChannelModel, FadingModel, BuildingModel, Floor, ReceiverModel, Scenario, ScenarioFloorPlan, WallMaterial } from '../types';
+import { WALL_MATERIALS, ANTENNA_PATTERNS, PIXELS_PER_METER } from '../constants';
+import { DEFAULT_CHANNEL_MODEL } from './channel';
+import { DEFAULT_BUILDING_MODEL } from './floors';
+import { DEVICE_COLORS } from './devices';
+
+export const SCENARIO_FORMAT = 'bluetooth-trilateration-scenario';
+export const SCENARIO_VERSION = 3;
+
+/**
+ * Thrown when a scenario file does not match the schema. Each issue names the
+ * offending field, e.g. `walls[2].material: must be one of drywall, ...`.
+ */
+export class ScenarioValidationError extends Error {
+    issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid scenario:\n${issues.join('\n')}`);
+        this.name = 'ScenarioValidationError';
+        this.issues = issues;
+    }
+}
+
+// --- VALIDATION HELPERS ---
+type Obj = Record<string, unknown>;
+
+class Validator {
+    issues: string[] = [];
+
+    object(value: unknown, path: string): Obj | null {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            this.issues.push(`${path}: must be an object`);
+            return null;
+        }
+        return value as Obj;
+    }
+
+    array(value: unknown, path: string): unknown[] {
+        if (!Array.isArray(value)) {
+            this.issues.push(`${path}: must be an array`);
+            return [];
+        }
+        return value;
+    }
+
+    number(obj: Obj, key: string, path: string, fallback?: number): number {
+        const value = obj[key];
+        if (value === undefined && fallback !== undefined) return fallback;
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            this.issues.push(`${path}.${key}: must be a finite number`);
+            return NaN;
+        }
+        return value;
+    }
+
+    string(obj: Obj, key: string, path: string, fallback?: string): string {
+        const value = obj[key];
+        if (value === undefined && fallback !== undefined) return fallback;
+        if (typeof value !== 'string') {
+            this.issues.push(`${path}.${key}: must be a string`);
+            return '';
+        }
+        return value;
+    }
+
+    boolean(obj: Obj, key: string, path: string, fallback?: boolean): boolean {
+        const value = obj[key];
+        if (value === undefined && fallback !== undefined) return fallback;
+        if (typeof value !== 'boolean') {
+            this.issues.push(`${path}.${key}: must be true or false`);
+            return false;
+        }
+        return value;
+    }
+}
+
+const readFloorIndex = (v: Validator, obj: Obj, path: string, target: { floor?: number }) => {
+    if (obj.floor === undefined) return;
+    target.floor = v.number(obj, 'floor', path);
+    if (!Number.isInteger(target.floor) || target.floor < 0) v.issues.push(`${path}.floor: must be a floor index`);
+};
+
+const readRadio = (v: Validator, value: unknown, path: string): Radio | null => {
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const radio: Radio = {
+        id: v.string(obj, 'id', path),
+        x: v.number(obj, 'x', path),
+        y: v.number(obj, 'y', path),
+        radius: v.number(obj, 'radius', path, 10),
+        label: v.string(obj, 'label', path),
+    };
+    // Hardware properties are optional and only kept when present
+    if (obj.txPower !== undefined) radio.txPower = v.number(obj, 'txPower', path);
+    if (obj.antenna !== undefined) {
+        const antenna = v.string(obj, 'antenna', path) as AntennaPattern;
+        if (antenna in ANTENNA_PATTERNS) radio.antenna = antenna;
+        else v.issues.push(`${path}.antenna: must be one of ${Object.keys(ANTENNA_PATTERNS).join(', ')}`);
+    }
+    if (obj.orientation !== undefined) radio.orientation = v.number(obj, 'orientation', path);
+    if (obj.advertisingInterval !== undefined) {
+        radio.advertisingInterval = v.number(obj, 'advertisingInterval', path);
+        if (radio.advertisingInterval <= 0) v.issues.push(`${path}.advertisingInterval: must be positive`);
+    }
+    if (obj.enabled !== undefined) radio.enabled = v.boolean(obj, 'enabled', path);
+    readFloorIndex(v, obj, path, radio);
+    if (obj.height !== undefined) radio.height = v.number(obj, 'height', path);
+    return radio;
+};
+
+const readWall = (v: Validator, value: unknown, path: string): Wall | null => {
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const start = v.object(obj.start, `${path}.start`);
+    const end = v.object(obj.end, `${path}.end`);
+    const material = v.string(obj, 'material', path) as WallMaterial;
+    if (material && !(material in WALL_MATERIALS)) {
+        v.issues.push(`${path}.material: must be one of ${Object.keys(WALL_MATERIALS).join(', ')}`);
+        return null;
+    }
+    if (!start || !end || !material) return null;
+    const props = WALL_MATERIALS[material];
+    const wall: Wall = {
+        id: v.string(obj, 'id', path),
+        start: { x: v.number(start, 'x', `${path}.start`), y: v.number(start, 'y', `${path}.start`) },
+        end: { x: v.number(end, 'x', `${path}.end`), y: v.number(end, 'y', `${path}.end`) },
+        material,
+        attenuation: v.number(obj, 'attenuation', path, props.attenuation),
+        color: v.number(obj, 'color', path, props.color),
+    };
+    readFloorIndex(v, obj, path, wall);
+    return wall;
+};
+
+const readDevice = (v: Validator, value: unknown, path: string, index: number): TrackedDevice | null => {
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const device: TrackedDevice = {
+        id: v.string(obj, 'id', path),
+        name: v.string(obj, 'name', path),
+        color: v.number(obj, 'color', path, DEVICE_COLORS[index % DEVICE_COLORS.length]),
+        x: v.number(obj, 'x', path),
+        y: v.number(obj, 'y', path),
+        radius: v.number(obj, 'radius', path, 10),
+    };
+    if (obj.heading !== undefined) device.heading = v.number(obj, 'heading', path);
+    readFloorIndex(v, obj, path, device);
+    if (obj.z !== undefined) device.z = v.number(obj, 'z', path);
+    return device;
+};
+
+const readBuilding = (v: Validator, value: unknown, path: string): BuildingModel | undefined => {
+    if (value === undefined) return undefined;
+    const obj = v.object(value, path);
+    if (!obj) return undefined;
+    const building: BuildingModel = {
+        floorAttenuation: v.number(obj, 'floorAttenuation', path, DEFAULT_BUILDING_MODEL.floorAttenuation),
+        storeyHeight: v.number(obj, 'storeyHeight', path, DEFAULT_BUILDING_MODEL.storeyHeight),
+    };
+    if (building.storeyHeight <= 0) v.issues.push(`${path}.storeyHeight: must be positive`);
+    return building;
+};
+
+const FADING_MODELS: FadingModel[] = ['none', 'rayleigh', 'rician'];
+
+const readChannel = (v: Validator, value: unknown, path: string): ChannelModel | null => {
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const d = DEFAULT_CHANNEL_MODEL;
+    const channel: ChannelModel = {
+        enableShadowing: v.boolean(obj, 'enableShadowing', path, d.enableShadowing),
+        shadowingStdDev: v.number(obj, 'shadowingStdDev', path, d.shadowingStdDev),
+        shadowingCorrelationDistance: v.number(obj, 'shadowingCorrelationDistance', path, d.shadowingCorrelationDistance),
+        fading: v.string(obj, 'fading', path, d.fading) as FadingModel,
+        ricianK: v.number(obj, 'ricianK', path, d.ricianK),
+        enableChannelDiversity: v.boolean(obj, 'enableChannelDiversity', path, d.enableChannelDiversity),
+        enableBodyBlocking: v.boolean(obj, 'enableBodyBlocking', path, d.enableBodyBlocking),
+        bodyAttenuation: v.number(obj, 'bodyAttenuation', path, d.bodyAttenuation),
+        bodyConeAngle: v.number(obj, 'bodyConeAngle', path, d.bodyConeAngle),
+    };
+    if (!FADING_MODELS.includes(channel.fading)) v.issues.push(`${path}.fading: must be one of ${FADING_MODELS.join(', ')}`);
+    if (channel.shadowingStdDev < 0) v.issues.push(`${path}.shadowingStdDev: must not be negative`);
+    if (channel.shadowingCorrelationDistance <= 0) v.issues.push(`${path}.shadowingCorrelationDistance: must be positive`);
+    return channel;
+};
+
+const readModel = (v: Validator, value: unknown, path: string): RSSIModelParams | null => {
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const model: RSSIModelParams = {
+        txPower: v.number(obj, 'txPower', path),
+        pathLossExponent: v.number(obj, 'pathLossExponent', path),
+        enableWalls: v.boolean(obj, 'enableWalls', path, true),
+        enableAngleEffect: v.boolean(obj, 'enableAngleEffect', path, true),
+        enableCumulativeEffect: v.boolean(obj, 'enableCumulativeEffect', path, true),
+        enableNoise: v.boolean(obj, 'enableNoise', path, false),
+        noiseStdDev: v.number(obj, 'noiseStdDev', path, 5),
+    };
+    if (obj.channel !== undefined) model.channel = readChannel(v, obj.channel, `${path}.channel`) ?? undefined;
+    const building = readBuilding(v, obj.building, `${path}.building`);
+    if (building) model.building = building;
+    if (model.pathLossExponent <= 0) v.issues.push(`${path}.pathLossExponent: must be positive`);
+    if (model.noiseStdDev < 0) v.issues.push(`${path}.noiseStdDev: must not be negative`);
+    return model;
+};
+
+const readReceiver = (v: Validator, value: unknown, path: string): ReceiverModel | null => {
+    if (value === undefined || value === null) return null;
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const receiver: ReceiverModel = {
+        txPower: v.number(obj, 'txPower', path),
+        pathLossExponent: v.number(obj, 'pathLossExponent', path),
+        compensateWalls: v.boolean(obj, 'compensateWalls', path, false),
+    };
+    const building = readBuilding(v, obj.building, `${path}.building`);
+    if (building) receiver.building = building;
+    if (receiver.pathLossExponent <= 0) v.issues.push(`${path}.pathLossExponent: must be positive`);
+    return receiver;
+};
+
+const readFloorPlan = (v: Validator, value: unknown, path: string): ScenarioFloorPlan => {
+    const fallback: ScenarioFloorPlan = { pixelsPerMeter: PIXELS_PER_METER, origin: { x: 0, y: 0 }, rotation: 0, opacity: 0.5, show: false };
+    if (value === undefined) return fallback;
+    const obj = v.object(value, path);
+    if (!obj) return fallback;
+    const origin = obj.origin === undefined ? null : v.object(obj.origin, `${path}.origin`);
+    const floorPlan: ScenarioFloorPlan = {
+        pixelsPerMeter: v.number(obj, 'pixelsPerMeter', path, PIXELS_PER_METER),
+        origin: origin ? { x: v.number(origin, 'x', `${path}.origin`), y: v.number(origin, 'y', `${path}.origin`) } : fallback.origin,
+        rotation: v.number(obj, 'rotation', path, 0),
+        opacity: v.number(obj, 'opacity', path, 0.5),
+        show: v.boolean(obj, 'show', path, false),
+    };
+    if (floorPlan.pixelsPerMeter <= 0) v.issues.push(`${path}.pixelsPerMeter: must be positive`);
+    if (floorPlan.opacity < 0 || floorPlan.opacity > 1) v.issues.push(`${path}.opacity: must be between 0 and 1`);
+    return floorPlan;
+};
+
+const GROUND_FLOOR: Floor = { id: 'floor-0', name: 'Ground Floor', image: null };
+
+const readFloor = (v: Validator, value: unknown, path: string): Floor | null => {
+    const obj = v.object(value, path);
+    if (!obj) return null;
+    const image = obj.image ?? null;
+    if (image !== null && typeof image !== 'string') v.issues.push(`${path}.image: must be a data URL, a URL or null`);
+    const floor: Floor = {
+        id: v.string(obj, 'id', path),
+        name: v.string(obj, 'name', path),
+        image: typeof image === 'string' ? image : null,
+    };
+    // Imported vector line work is optional and only kept when present
+    if (obj.background !== undefined) {
+        floor.background = v.array(obj.background, `${path}.background`).flatMap((s, i) => {
+            const segmentPath = `${path}.background[${i}]`;
+            const segment = v.object(s, segmentPath);
+            const start = segment && v.object(segment.start, `${segmentPath}.start`);
+            const end = segment && v.object(segment.end, `${segmentPath}.end`);
+            if (!start || !end) return [];
+            return [{
+                start: { x: v.number(start, 'x', `${segmentPath}.start`), y: v.number(start, 'y', `${segmentPath}.start`) },
+                end: { x: v.number(end, 'x', `${segmentPath}.end`), y: v.number(end, 'y', `${segmentPath}.end`) },
+            }];
+        });
+    }
+    return floor;
+};
+
+/**
+ * Upgrades older scenario documents to the current version, one step per
+ * format change.
+ */
+const migrate = (obj: Obj): Obj => {
+    let doc = obj;
+    if (doc.version === 1) {
+        // Version 2 added floors; the single floor plan image moves onto the ground floor
+        const { image = null, ...floorPlan } = (doc.floorPlan ?? {}) as Obj;
+        doc = { ...doc, version: 2, floorPlan, floors: [{ ...GROUND_FLOOR, image }] };
+    }
+    if (doc.version === 2) {
+        // Version 3 tracks several named devices; the single device becomes the first
+        const { device, ...rest } = doc;
+        const first = typeof device === 'object' && device !== null ? { id: 'device-1', name: 'Device 1', ...device as Obj } : device;
+        doc = { ...rest, version: 3, devices: [first] };
+    }
+    return doc;
+};
+
+// --- PUBLIC API ---
+/**
+ * Checks an untrusted value against the scenario schema, filling in defaults
+ * for optional fields. Throws ScenarioValidationError listing every problem.
+ */
+export const validateScenario = (data: unknown): Scenario => {
+    const v = new Validator();
+    const raw = v.object(data, 'scenario');
+    if (!raw) throw new ScenarioValidationError(v.issues);
+
+    if (raw.format !== undefined && raw.format !== SCENARIO_FORMAT) {
+        throw new ScenarioValidationError([`format: expected "${SCENARIO_FORMAT}", got ${JSON.stringify(raw.format)}`]);
+    }
+    const version = raw.version;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new ScenarioValidationError(['version: must be a positive integer']);
+    }
+    if (version > SCENARIO_VERSION) {
+        throw new ScenarioValidationError([`version: ${version} is newer than this simulator supports (${SCENARIO_VERSION})`]);
+    }
+    const obj = migrate(raw);
+
+    const radios = v.array(obj.radios, 'radios').map((r, i) => readRadio(v, r, `radios[${i}]`));
+    const walls = v.array(obj.walls, 'walls').map((w, i) => readWall(v, w, `walls[${i}]`));
+    const devices = v.array(obj.devices, 'devices').map((d, i) => readDevice(v, d, `devices[${i}]`, i));
+    if (Array.isArray(obj.devices) && devices.length === 0) v.issues.push('devices: must list at least one device');
+    const model = readModel(v, obj.model, 'model');
+    const receiver = readReceiver(v, obj.receiver, 'receiver');
+    const minRSSI = v.number(obj, 'minRSSI', 'scenario', -100);
+    const floorPlan = readFloorPlan(v, obj.floorPlan, 'floorPlan');
+    const floors = obj.floors === undefined
+        ? [{ ...GROUND_FLOOR }]
+        : v.array(obj.floors, 'floors').map((f, i) => readFloor(v, f, `floors[${i}]`));
+    if (Array.isArray(obj.floors) && floors.length === 0) v.issues.push('floors: must list at least one floor');
+
+    const checkFloor = (item: { floor?: number } | null, path: string) => {
+        if (item?.floor !== undefined && item.floor >= floors.length) v.issues.push(`${path}.floor: no floor ${item.floor}, the scenario has ${floors.length}`);
+    };
+    radios.forEach((r, i) => checkFloor(r, `radios[${i}]`));
+    walls.forEach((w, i) => checkFloor(w, `walls[${i}]`));
+    devices.forEach((d, i) => checkFloor(d, `devices[${i}]`));
+
+    const ids = new Set<string>();
+    radios.forEach((r, i) => {
+        if (!r) return;
+        if (ids.has(r.id)) v.issues.push(`radios[${i}].id: duplicate id "${r.id}"`);
+        ids.add(r.id);
+    });
+    const deviceIds = new Set<string>();
+    devices.forEach((d, i) => {
+        if (!d) return;
+        if (deviceIds.has(d.id)) v.issues.push(`devices[${i}].id: duplicate id "${d.id}"`);
+        deviceIds.add(d.id);
+    });
+
+    if (v.issues.length > 0) throw new ScenarioValidationError(v.issues);
+    return {
+        version: SCENARIO_VERSION,
+        radios: radios as Radio[],
+        walls: walls as Wall[],
+        devices: devices as TrackedDevice[],
+        model: model!,
+        receiver,
+        minRSSI,
+        floors: floors as Floor[],
+        floorPlan,
+    };
+};
+
+export const serializeScenario = (scenario: Omit<Scenario, 'version'>): string =>
+    JSON.stringify({ format: SCENARIO_FORMAT, ...scenario, version: SCENARIO_VERSION }, null, 2);
+
+export const parseScenario = (text: string): Scenario => {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        throw new ScenarioValidationError([`Not valid JSON: ${(e as Error).message}`]);
+    }
+    return validateScenario(data);
+};
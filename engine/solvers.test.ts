@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Measurement, SolverId } from '../types';
+import { computeMeasurements } from './propagation';
+import { SOLVERS, solvePosition } from './solvers';
+import { distance } from './geometry';
+import { createSeededRandom } from './random';
+import { testParams, cornerRadios as radios, testRadios, testDevice } from './testFixtures';
+
+const params = testParams();
+const device = testDevice(500, 400);
+const exact = computeMeasurements(radios, device, [], params);
+
+// Maximum error in meters each solver may show with exact ranges
+const tolerances: Record<SolverId, number> = {
+    gaussNewton: 0.05,
+    weightedLeastSquares: 0.05,
+    levenbergMarquardt: 0.05,
+    particleFilter: 0.5,
+    // Geometric approximations, only expected to land in the right area
+    minMax: 6,
+    weightedCentroid: 6,
+};
+
+describe('SOLVERS', () => {
+    for (const id of Object.keys(SOLVERS) as SolverId[]) {
+        it(`${id} locates the device with exact ranges`, () => {
+            const result = solvePosition(id, exact, { random: createSeededRandom(1) });
+            expect(result).not.toBeNull();
+            expect(distance(result!.position, device) / 40).toBeLessThan(tolerances[id]);
+        });
+
+        it(`${id} needs at least three measurements`, () => {
+            expect(solvePosition(id, exact.slice(0, 2))).toBeNull();
+        });
+    }
+});
+
+describe('solvePosition', () => {
+    it('reports convergence and iteration count', () => {
+        const result = solvePosition('gaussNewton', exact)!;
+        expect(result.converged).toBe(true);
+        expect(result.iterations).toBeGreaterThan(0);
+        expect(result.iterations).toBeLessThanOrEqual(50);
+    });
+
+    it('reports non-convergence when the iteration budget runs out', () => {
+        const result = solvePosition('gaussNewton', exact, { maxIterations: 1 })!;
+        expect(result.converged).toBe(false);
+        expect(result.iterations).toBe(1);
+    });
+
+    // Collinear radios: starting on their line, the cross-track direction is unobservable
+    const collinear: Measurement[] = computeMeasurements(
+        testRadios([0, 1, 2].map(i => ({ x: 100 + i * 400, y: 100 }))),
+        device, [], params
+    );
+
+    it('flags a singular geometry instead of silently returning', () => {
+        const result = solvePosition('gaussNewton', collinear)!;
+        expect(result.converged).toBe(false);
+        expect(result.iterations).toBe(0);
+    });
+
+    it('keeps Levenberg-Marquardt stepping through a singular geometry', () => {
+        const result = solvePosition('levenbergMarquardt', collinear)!;
+        expect(Number.isFinite(result.position.x)).toBe(true);
+        expect(Number.isFinite(result.position.y)).toBe(true);
+        expect(result.iterations).toBeGreaterThan(0);
+    });
+
+    it('is reproducible for the particle filter with a seeded source', () => {
+        const noisy = computeMeasurements(radios, device, [], { ...params, enableNoise: true }, createSeededRandom(3));
+        const a = solvePosition('particleFilter', noisy, { random: createSeededRandom(9) })!;
+        const b = solvePosition('particleFilter', noisy, { random: createSeededRandom(9) })!;
+        expect(a.position).toEqual(b.position);
+    });
+});
@@ -0,0 +1,246 @@
+import { Vector2D, Measurement, SolverId, SolverResult, RobustMethodId } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { distance } from './geometry';
+import { RandomSource, gaussian } from './random';
+import { maximum } from './stats';
+
+export interface SolverOptions {
+    pixelsPerMeter: number;
+    maxIterations: number;
+    /** Step size in pixels below which an iterative solver stops. */
+    convergenceThreshold: number;
+    particleCount: number;
+    random: RandomSource;
+    /** Outlier handling applied by `estimatePosition`; the solvers themselves ignore it. */
+    robust: RobustMethodId;
+    /** Range residual in meters beyond which RANSAC and NLOS detection reject a radio. */
+    inlierThreshold: number;
+}
+
+export const DEFAULT_SOLVER_OPTIONS: SolverOptions = {
+    pixelsPerMeter: PIXELS_PER_METER,
+    maxIterations: 50,
+    convergenceThreshold: 0.1,
+    particleCount: 500,
+    random: Math.random,
+    robust: 'none',
+    inlierThreshold: 2,
+};
+
+export interface PositionSolver {
+    id: SolverId;
+    name: string;
+    color: number;
+    solve: (measurements: Measurement[], options: SolverOptions) => SolverResult | null;
+}
+
+// --- SHARED HELPERS ---
+export type WeightFn = (m: Measurement) => number;
+
+const uniformWeight: WeightFn = () => 1;
+// Log-normal shadowing makes the range error grow with distance, so the
+// variance of each range scales with d^2.
+export const inverseSquareWeight: WeightFn = m => 1 / Math.max(m.estimatedDistance, 0.1) ** 2;
+
+const weightedCentroid = (measurements: Measurement[], weight: WeightFn): Vector2D => {
+    let totalWeight = 0;
+    const sum = measurements.reduce((acc, m) => {
+        const w = weight(m);
+        totalWeight += w;
+        return { x: acc.x + m.radio.x * w, y: acc.y + m.radio.y * w };
+    }, { x: 0, y: 0 });
+    return { x: sum.x / totalWeight, y: sum.y / totalWeight };
+};
+
+export interface NormalEquations {
+    JtJ: [[number, number], [number, number]];
+    Jtr: [number, number];
+    cost: number;
+    rows: number;
+}
+
+export const buildNormalEquations = (pos: Vector2D, measurements: Measurement[], weight: WeightFn, pixelsPerMeter: number): NormalEquations => {
+    const JtJ: NormalEquations['JtJ'] = [[0, 0], [0, 0]];
+    const Jtr: NormalEquations['Jtr'] = [0, 0];
+    let cost = 0;
+    let rows = 0;
+    for (const m of measurements) {
+        const dist = distance(pos, m.radio);
+        if (dist < 1e-6) continue;
+        const w = weight(m);
+        const jx = (pos.x - m.radio.x) / dist;
+        const jy = (pos.y - m.radio.y) / dist;
+        const r = dist - m.estimatedDistance * pixelsPerMeter;
+        JtJ[0][0] += w * jx * jx;
+        JtJ[0][1] += w * jx * jy;
+        JtJ[1][1] += w * jy * jy;
+        Jtr[0] += w * jx * r;
+        Jtr[1] += w * jy * r;
+        cost += w * r * r;
+        rows++;
+    }
+    JtJ[1][0] = JtJ[0][1];
+    return { JtJ, Jtr, cost, rows };
+};
+
+/**
+ * Solves (A + damping * diag(A)) x = -b. Returns null when the system is singular.
+ * A zero diagonal entry is damped as if it were 1 so that LM can still step.
+ */
+export const solveStep = (A: NormalEquations['JtJ'], b: NormalEquations['Jtr'], damping = 0): Vector2D | null => {
+    const a00 = A[0][0] + damping * (A[0][0] || 1);
+    const a11 = A[1][1] + damping * (A[1][1] || 1);
+    const det = a00 * a11 - A[0][1] * A[1][0];
+    if (Math.abs(det) < 1e-9) return null;
+    return {
+        x: -(a11 * b[0] - A[0][1] * b[1]) / det,
+        y: -(-A[1][0] * b[0] + a00 * b[1]) / det,
+    };
+};
+
+const gaussNewton = (measurements: Measurement[], options: SolverOptions, weight: WeightFn): SolverResult | null => {
+    if (measurements.length < 3) return null;
+    const pos = weightedCentroid(measurements, m => 1 / m.estimatedDistance);
+
+    for (let iter = 0; iter < options.maxIterations; iter++) {
+        const { JtJ, Jtr, rows } = buildNormalEquations(pos, measurements, weight, options.pixelsPerMeter);
+        if (rows < 2) return { position: pos, iterations: iter, converged: false };
+
+        const delta = solveStep(JtJ, Jtr);
+        if (!delta) return { position: pos, iterations: iter, converged: false };
+
+        pos.x += delta.x;
+        pos.y += delta.y;
+
+        if (Math.hypot(delta.x, delta.y) < options.convergenceThreshold) {
+            return { position: pos, iterations: iter + 1, converged: true };
+        }
+    }
+    return { position: pos, iterations: options.maxIterations, converged: false };
+};
+
+// --- SOLVERS ---
+const levenbergMarquardt = (measurements: Measurement[], options: SolverOptions): SolverResult | null => {
+    if (measurements.length < 3) return null;
+    let pos = weightedCentroid(measurements, m => 1 / m.estimatedDistance);
+    let damping = 1e-3;
+    let current = buildNormalEquations(pos, measurements, inverseSquareWeight, options.pixelsPerMeter);
+
+    for (let iter = 0; iter < options.maxIterations; iter++) {
+        if (current.rows < 2) return { position: pos, iterations: iter, converged: false };
+
+        const delta = solveStep(current.JtJ, current.Jtr, damping);
+        if (!delta) {
+            damping = Math.min(damping * 10, 1e9);
+            continue;
+        }
+        const candidate = { x: pos.x + delta.x, y: pos.y + delta.y };
+        const next = buildNormalEquations(candidate, measurements, inverseSquareWeight, options.pixelsPerMeter);
+        if (next.cost < current.cost) {
+            pos = candidate;
+            current = next;
+            damping = Math.max(damping / 10, 1e-9);
+            if (Math.hypot(delta.x, delta.y) < options.convergenceThreshold) {
+                return { position: pos, iterations: iter + 1, converged: true };
+            }
+        } else {
+            damping = Math.min(damping * 10, 1e9);
+        }
+    }
+    return { position: pos, iterations: options.maxIterations, converged: false };
+};
+
+const minMax = (measurements: Measurement[], options: SolverOptions): SolverResult | null => {
+    if (measurements.length < 3) return null;
+    let left = -Infinity, right = Infinity, top = -Infinity, bottom = Infinity;
+    for (const m of measurements) {
+        const r = m.estimatedDistance * options.pixelsPerMeter;
+        left = Math.max(left, m.radio.x - r);
+        right = Math.min(right, m.radio.x + r);
+        top = Math.max(top, m.radio.y - r);
+        bottom = Math.min(bottom, m.radio.y + r);
+    }
+    // An empty box still has a meaningful center: it lies between the conflicting constraints.
+    const converged = left <= right && top <= bottom;
+    return { position: { x: (left + right) / 2, y: (top + bottom) / 2 }, iterations: 1, converged };
+};
+
+const particleFilter = (measurements: Measurement[], options: SolverOptions): SolverResult | null => {
+    if (measurements.length < 3) return null;
+    const { random, particleCount, pixelsPerMeter } = options;
+    const ranges = measurements.map(m => m.estimatedDistance * pixelsPerMeter);
+    // Range uncertainty grows with distance; keep a floor so near radios don't dominate.
+    const sigmas = ranges.map(r => Math.max(pixelsPerMeter, 0.25 * r));
+
+    const box = minMax(measurements, options)!.position;
+    const spread = maximum(ranges);
+    let particles: Vector2D[] = Array.from({ length: particleCount }, () => ({
+        x: box.x + (random() * 2 - 1) * spread,
+        y: box.y + (random() * 2 - 1) * spread,
+    }));
+
+    let estimate = box;
+    let jitter = spread / 4;
+    for (let iter = 0; iter < options.maxIterations; iter++) {
+        const logWeights = particles.map(p => measurements.reduce((sum, m, i) => {
+            const r = (distance(p, m.radio) - ranges[i]) / sigmas[i];
+            return sum - 0.5 * r * r;
+        }, 0));
+        const maxLog = maximum(logWeights);
+        const weights = logWeights.map(l => Math.exp(l - maxLog));
+        const total = weights.reduce((a, b) => a + b, 0);
+
+        const next = particles.reduce((acc, p, i) => ({ x: acc.x + p.x * weights[i] / total, y: acc.y + p.y * weights[i] / total }), { x: 0, y: 0 });
+        const step = distance(next, estimate);
+        estimate = next;
+        if (iter > 0 && step < options.convergenceThreshold) {
+            return { position: estimate, iterations: iter + 1, converged: true };
+        }
+
+        // Systematic resampling followed by a shrinking random walk
+        const resampled: Vector2D[] = [];
+        const stride = total / particleCount;
+        let u = random() * stride;
+        let cumulative = weights[0];
+        let j = 0;
+        for (let k = 0; k < particleCount; k++) {
+            while (u > cumulative && j < particleCount - 1) cumulative += weights[++j];
+            resampled.push({ x: particles[j].x + gaussian(random) * jitter, y: particles[j].y + gaussian(random) * jitter });
+            u += stride;
+        }
+        particles = resampled;
+        jitter = Math.max(jitter * 0.7, options.convergenceThreshold);
+    }
+    return { position: estimate, iterations: options.maxIterations, converged: false };
+};
+
+export const SOLVERS: Record<SolverId, PositionSolver> = {
+    gaussNewton: {
+        id: 'gaussNewton', name: 'Gauss-Newton', color: 0xf43f5e, // rose-500
+        solve: (measurements, options) => gaussNewton(measurements, options, uniformWeight),
+    },
+    weightedLeastSquares: {
+        id: 'weightedLeastSquares', name: 'Weighted Least Squares', color: 0xf59e0b, // amber-500
+        solve: (measurements, options) => gaussNewton(measurements, options, inverseSquareWeight),
+    },
+    levenbergMarquardt: {
+        id: 'levenbergMarquardt', name: 'Levenberg-Marquardt', color: 0xa855f7, // purple-500
+        solve: levenbergMarquardt,
+    },
+    minMax: {
+        id: 'minMax', name: 'Min-Max', color: 0x84cc16, // lime-500
+        solve: minMax,
+    },
+    weightedCentroid: {
+        id: 'weightedCentroid', name: 'Weighted Centroid', color: 0x2dd4bf, // teal-400
+        solve: measurements => measurements.length < 3 ? null
+            : { position: weightedCentroid(measurements, inverseSquareWeight), iterations: 1, converged: true },
+    },
+    particleFilter: {
+        id: 'particleFilter', name: 'Particle Filter', color: 0xec4899, // pink-500
+        solve: particleFilter,
+    },
+};
+
+export const solvePosition = (solverId: SolverId, measurements: Measurement[], options: Partial<SolverOptions> = {}): SolverResult | null =>
+    SOLVERS[solverId].solve(measurements, { ...DEFAULT_SOLVER_OPTIONS, ...options });
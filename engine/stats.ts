@@ -0,0 +1,23 @@
+// Loops rather than Math.min(...values), which overflows the stack on large arrays
+export const minimum = (values: number[]): number =>
+    values.length === 0 ? NaN : values.reduce((a, b) => (b < a ? b : a), Infinity);
+
+export const maximum = (values: number[]): number =>
+    values.length === 0 ? NaN : values.reduce((a, b) => (b > a ? b : a), -Infinity);
+
+export const mean = (values: number[]): number =>
+    values.length === 0 ? NaN : values.reduce((a, b) => a + b, 0) / values.length;
+
+/**
+ * Linear-interpolated percentile, p in [0, 100].
+ */
+export const percentile = (values: number[], p: number): number => {
+    if (values.length === 0) return NaN;
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lo = Math.floor(rank);
+    const hi = Math.ceil(rank);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+};
+
+export const median = (values: number[]): number => percentile(values, 50);
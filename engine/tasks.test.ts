@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { runSimulationTask, SimulationTask, SimulationProgress } from './tasks';
+import { computeGDOPMap } from './uncertainty';
+import { PlacementProgress } from './placement';
+import { parseRSSILog, groupLogEpochs, replayLog } from './rssiLog';
+import { testParams, testRadios, testDevice } from './testFixtures';
+
+const params = testParams({ noiseStdDev: 4 });
+const device = testDevice(0, 0);
+
+const run = (task: SimulationTask) => {
+    const progress: SimulationProgress[] = [];
+    const generator = runSimulationTask(task);
+    let step = generator.next();
+    while (!step.done) {
+        progress.push(step.value as SimulationProgress);
+        step = generator.next();
+    }
+    return { progress, result: step.value };
+};
+
+describe('runSimulationTask', () => {
+    it('returns grid sweeps without yielding', () => {
+        const anchors = [{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 0, y: 200 }];
+        const options = { width: 200, height: 200, cellSize: 50 };
+        const { progress, result } = run({ kind: 'gdop', anchors, options });
+        expect(progress).toHaveLength(0);
+        expect(result).toEqual(computeGDOPMap(anchors, options));
+    });
+
+    it('passes on the progress of iterative tasks', () => {
+        const { progress, result } = run({
+            kind: 'placement', walls: [], device, params,
+            options: { width: 400, height: 400, cellSize: 100, budget: 3, iterations: 40, restarts: 1 },
+        });
+        expect(progress.length).toBeGreaterThan(0);
+        const final = result as PlacementProgress;
+        expect(final.iteration).toBe(final.total);
+        expect(final.candidates[0].positions).toHaveLength(3);
+    });
+
+    it('replays a recorded log', () => {
+        const log = parseRSSILog('time,beacon,rssi\n0,R1,-60\n0,R2,-70\n0,R3,-70\n1.5,R1,-65');
+        const radios = testRadios([{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 0, y: 400 }]);
+        const mapping = { R1: 'r1', R2: 'r2', R3: 'r3' };
+        const options = { solverId: 'gaussNewton' as const, solverOptions: {}, modelParams: params, minRSSI: -100, pixelsPerMeter: 40, walls: [] };
+        const { progress, result } = run({ kind: 'replay', log, windowSeconds: 1, radios, mapping, options });
+        expect(progress).toHaveLength(0);
+        expect(result).toEqual(replayLog(groupLogEpochs(log, 1), radios, mapping, options));
+        expect(() => structuredClone(result)).not.toThrow();
+    });
+
+    it('takes and returns data that can be posted to a worker', () => {
+        const task: SimulationTask = { kind: 'gdop', anchors: [{ x: 0, y: 0 }], options: { width: 100, height: 100, cellSize: 50 } };
+        expect(() => structuredClone(task)).not.toThrow();
+        expect(() => structuredClone(run(task).result)).not.toThrow();
+    });
+});
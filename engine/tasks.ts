@@ -0,0 +1,52 @@
+import { Vector2D, Wall, Radio, Device, RSSIModelParams, GridMap } from '../types';
+import { computeErrorMap, ErrorMap, ErrorMapOptions } from './errorMap';
+import { computeCoverageMap, computeVisibleRadiosMap, CoverageOptions } from './coverage';
+import { computeGDOPMap, GDOPMapOptions } from './uncertainty';
+import { buildRadioMap, RadioMap, RadioMapOptions } from './fingerprint';
+import { optimizePlacement, PlacementOptions, PlacementProgress } from './placement';
+import { runExperiment, ExperimentOptions, ExperimentProgress } from './experiment';
+import { RSSILog, BeaconMapping, groupLogEpochs, replayLog, LogReplayOptions, LogReplaySample } from './rssiLog';
+
+/**
+ * Long-running computations, described as plain data so that they can be
+ * posted to a Web Worker. Options must not contain functions.
+ */
+export type SimulationTask =
+    | { kind: 'errorMap'; radios: Radio[]; walls: Wall[]; device: Device; params: RSSIModelParams; options: Partial<ErrorMapOptions> }
+    | { kind: 'coverage'; radio: Radio; walls: Wall[]; device: Device; params: RSSIModelParams; options: Partial<CoverageOptions> }
+    | { kind: 'visibleRadios'; radios: Radio[]; walls: Wall[]; device: Device; params: RSSIModelParams; minRSSI: number; options: Partial<CoverageOptions> }
+    | { kind: 'gdop'; anchors: Vector2D[]; options: Partial<GDOPMapOptions> }
+    | { kind: 'radioMap'; radios: Radio[]; walls: Wall[]; device: Device; params: RSSIModelParams; options: Partial<RadioMapOptions> }
+    | { kind: 'placement'; walls: Wall[]; device: Device; params: RSSIModelParams; options: Partial<PlacementOptions> }
+    | { kind: 'experiment'; radios: Radio[]; walls: Wall[]; device: Device; params: RSSIModelParams; options: Partial<ExperimentOptions> }
+    | { kind: 'replay'; log: RSSILog; windowSeconds: number; radios: Radio[]; mapping: BeaconMapping; options: LogReplayOptions };
+
+export interface SimulationResults {
+    errorMap: ErrorMap;
+    coverage: GridMap;
+    visibleRadios: GridMap;
+    gdop: GridMap;
+    radioMap: RadioMap;
+    placement: PlacementProgress;
+    experiment: ExperimentProgress;
+    replay: LogReplaySample[];
+}
+
+export type SimulationProgress = PlacementProgress | ExperimentProgress;
+
+/**
+ * Runs a task. Iterative tasks yield progress along the way; every task
+ * returns its result.
+ */
+export function* runSimulationTask(task: SimulationTask): Generator<SimulationProgress, SimulationResults[SimulationTask['kind']]> {
+    switch (task.kind) {
+        case 'errorMap': return computeErrorMap(task.radios, task.walls, task.device, task.params, task.options);
+        case 'coverage': return computeCoverageMap(task.radio, task.walls, task.device, task.params, task.options);
+        case 'visibleRadios': return computeVisibleRadiosMap(task.radios, task.walls, task.device, task.params, task.minRSSI, task.options);
+        case 'gdop': return computeGDOPMap(task.anchors, task.options);
+        case 'radioMap': return buildRadioMap(task.radios, task.walls, task.device, task.params, task.options);
+        case 'placement': return yield* optimizePlacement(task.walls, task.device, task.params, task.options);
+        case 'experiment': return yield* runExperiment(task.radios, task.walls, task.device, task.params, task.options);
+        case 'replay': return replayLog(groupLogEpochs(task.log, task.windowSeconds), task.radios, task.mapping, task.options);
+    }
+}
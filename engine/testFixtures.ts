@@ -0,0 +1,26 @@
+import { Radio, Device, RSSIModelParams, Vector2D } from '../types';
+
+// Shared inputs for the engine tests; each suite overrides only what it exercises
+
+export const testParams = (overrides: Partial<RSSIModelParams> = {}): RSSIModelParams => ({
+    txPower: -59,
+    pathLossExponent: 2.7,
+    enableWalls: false,
+    enableAngleEffect: false,
+    enableCumulativeEffect: false,
+    enableNoise: false,
+    noiseStdDev: 3,
+    ...overrides,
+});
+
+export const testRadios = (points: Vector2D[]): Radio[] =>
+    points.map((p, i) => ({ id: `r${i + 1}`, x: p.x, y: p.y, radius: 10, label: `R${i + 1}` }));
+
+/**
+ * One radio near each corner of the default 1200x900 canvas.
+ */
+export const cornerRadios: Radio[] = testRadios([
+    { x: 50, y: 50 }, { x: 1150, y: 50 }, { x: 1150, y: 850 }, { x: 50, y: 850 },
+]);
+
+export const testDevice = (x: number, y: number): Device => ({ x, y, radius: 10 });
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { TrackingFilterId, TrackSample } from '../types';
+import { simulateTrack, sampleAtTime, TRACKING_FILTERS } from './tracking';
+import { distance } from './geometry';
+import { createSeededRandom } from './random';
+import { testParams, cornerRadios as radios, testDevice } from './testFixtures';
+
+const params = testParams({ enableNoise: true, noiseStdDev: 4 });
+const device = testDevice(0, 0);
+const path = [{ x: 300, y: 300 }, { x: 900, y: 300 }, { x: 900, y: 600 }];
+
+const meanError = (samples: TrackSample[], key: 'raw' | 'filtered') => {
+    const errors = samples.filter(s => s[key]).map(s => distance(s[key]!, s.truth) / 40);
+    return errors.reduce((a, b) => a + b, 0) / errors.length;
+};
+
+const run = (filterId: TrackingFilterId) => simulateTrack(radios, [], path, device, params, {
+    speed: 1.4,
+    advertisingInterval: 200,
+    filterId,
+    tracking: { modelParams: params },
+}, createSeededRandom(11));
+
+describe('simulateTrack', () => {
+    it('emits one epoch per advertising interval along the whole path', () => {
+        const samples = run('none');
+        // 900 px = 22.5 m at 1.4 m/s ≈ 16.07 s, sampled every 0.2 s
+        expect(samples).toHaveLength(81);
+        expect(samples[0].truth).toEqual(path[0]);
+        expect(samples[1].time).toBeCloseTo(0.2);
+        expect(samples[0].measurements).toHaveLength(radios.length);
+    });
+
+    it('is reproducible with a seeded random source', () => {
+        expect(run('kalman')).toEqual(run('kalman'));
+    });
+
+    for (const id of Object.keys(TRACKING_FILTERS) as TrackingFilterId[]) {
+        if (id === 'none') continue;
+        it(`${id} reduces the error of the raw fixes`, () => {
+            const samples = run(id);
+            expect(meanError(samples, 'filtered')).toBeLessThan(meanError(samples, 'raw'));
+        });
+    }
+
+    it('repeats the last reading of a radio until it advertises again', () => {
+        const slow = radios.map((r, i) => i === 0 ? { ...r, advertisingInterval: 600 } : r);
+        const samples = simulateTrack(slow, [], path, device, params, {
+            speed: 1.4, advertisingInterval: 200, filterId: 'none', tracking: { modelParams: params },
+        }, createSeededRandom(11));
+        const rssiOf = (i: number, radio: number) => samples[i].measurements[radio].rssi;
+        expect(rssiOf(1, 0)).toBe(rssiOf(0, 0));
+        expect(rssiOf(2, 0)).toBe(rssiOf(0, 0));
+        expect(rssiOf(3, 0)).not.toBe(rssiOf(0, 0));
+        expect(rssiOf(1, 1)).not.toBe(rssiOf(0, 1));
+    });
+
+    it('returns nothing for a degenerate path', () => {
+        expect(simulateTrack(radios, [], [path[0]], device, params, { speed: 1, advertisingInterval: 100, filterId: 'none', tracking: {} })).toEqual([]);
+    });
+});
+
+describe('sampleAtTime', () => {
+    it('returns the latest sample at or before the time', () => {
+        const samples = run('none');
+        expect(sampleAtTime(samples, 0.5)!.time).toBeCloseTo(0.4);
+        expect(sampleAtTime(samples, 100)).toBe(samples[samples.length - 1]);
+        expect(sampleAtTime([], 1)).toBeNull();
+    });
+});
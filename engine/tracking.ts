@@ -0,0 +1,285 @@
+import { Vector2D, Wall, Radio, Device, Measurement, RSSIModelParams, ReceiverModel, SolverId, TrackingFilterId, TrackSample } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { computeMeasurements, estimateDistanceFromRSSI, receiverForRadio } from './propagation';
+import { SolverOptions } from './solvers';
+import { estimatePosition } from './estimation';
+import { pathLength, positionAlongPath, headingAlongPath } from './motion';
+import { distance } from './geometry';
+import { RandomSource } from './random';
+import { mean, median } from './stats';
+import { Matrix, identity, transpose, multiply, add, subtract, invert } from './matrix';
+
+export interface TrackingOptions {
+    solverId: SolverId;
+    solverOptions: Partial<SolverOptions>;
+    /** Receiver-side model used to turn smoothed RSSI back into ranges. */
+    modelParams: ReceiverModel;
+    minRSSI: number;
+    pixelsPerMeter: number;
+    /** Walls known to a wall-aware receiver model. */
+    walls: Wall[];
+    /** Number of advertisements kept by the RSSI smoothing filters. */
+    windowSize: number;
+    /** Acceleration standard deviation of the constant-velocity model, m/s². */
+    processNoise: number;
+    /** Standard deviation of a single-epoch position fix, m. */
+    measurementNoise: number;
+}
+
+export const DEFAULT_TRACKING_OPTIONS: TrackingOptions = {
+    solverId: 'gaussNewton',
+    solverOptions: {},
+    modelParams: { txPower: -59, pathLossExponent: 2.7 },
+    minRSSI: -100,
+    pixelsPerMeter: PIXELS_PER_METER,
+    walls: [],
+    windowSize: 5,
+    processNoise: 0.5,
+    measurementNoise: 2,
+};
+
+export interface TrackingStep {
+    raw: Vector2D | null;
+    filtered: Vector2D | null;
+}
+
+export interface TrackingFilter {
+    /** Feeds one advertising epoch; dt is seconds since the previous one. */
+    step: (measurements: Measurement[], dt: number) => TrackingStep;
+}
+
+export const TRACKING_FILTERS: Record<TrackingFilterId, { id: TrackingFilterId; name: string }> = {
+    none: { id: 'none', name: 'None (raw fixes)' },
+    kalman: { id: 'kalman', name: 'Kalman (position)' },
+    extendedKalman: { id: 'extendedKalman', name: 'Extended Kalman (ranges)' },
+    rssiMovingAverage: { id: 'rssiMovingAverage', name: 'RSSI Moving Average' },
+    rssiMedian: { id: 'rssiMedian', name: 'RSSI Median' },
+};
+
+// --- CONSTANT-VELOCITY MODEL ---
+// State is [x, y, vx, vy] in pixels and pixels/second.
+const transition = (dt: number): Matrix => [
+    [1, 0, dt, 0],
+    [0, 1, 0, dt],
+    [0, 0, 1, 0],
+    [0, 0, 0, 1],
+];
+
+const processCovariance = (dt: number, accelStd: number): Matrix => {
+    const q = accelStd ** 2;
+    const a = q * dt ** 4 / 4, b = q * dt ** 3 / 2, c = q * dt ** 2;
+    return [
+        [a, 0, b, 0],
+        [0, a, 0, b],
+        [b, 0, c, 0],
+        [0, b, 0, c],
+    ];
+};
+
+interface KalmanState {
+    x: Matrix; // 4x1
+    P: Matrix; // 4x4
+}
+
+const initialState = (pos: Vector2D, positionStd: number): KalmanState => ({
+    x: [[pos.x], [pos.y], [0], [0]],
+    P: [
+        [positionStd ** 2, 0, 0, 0],
+        [0, positionStd ** 2, 0, 0],
+        [0, 0, positionStd ** 2, 0],
+        [0, 0, 0, positionStd ** 2],
+    ],
+});
+
+const predict = (state: KalmanState, dt: number, accelStd: number): KalmanState => {
+    const F = transition(dt);
+    return {
+        x: multiply(F, state.x),
+        P: add(multiply(multiply(F, state.P), transpose(F)), processCovariance(dt, accelStd)),
+    };
+};
+
+/**
+ * Standard (extended) Kalman update given the innovation y, measurement Jacobian H and noise R.
+ */
+const update = (state: KalmanState, y: Matrix, H: Matrix, R: Matrix): KalmanState => {
+    const Ht = transpose(H);
+    const S = add(multiply(multiply(H, state.P), Ht), R);
+    const Sinv = invert(S);
+    if (!Sinv) return state;
+    const K = multiply(multiply(state.P, Ht), Sinv);
+    return {
+        x: add(state.x, multiply(K, y)),
+        P: multiply(subtract(identity(4), multiply(K, H)), state.P),
+    };
+};
+
+const statePosition = (state: KalmanState): Vector2D => ({ x: state.x[0][0], y: state.x[1][0] });
+
+// --- FILTERS ---
+const solve = (measurements: Measurement[], options: TrackingOptions): Vector2D | null => {
+    const active = measurements.filter(m => m.rssi > options.minRSSI);
+    return estimatePosition(options.solverId, active, options.modelParams, options.walls, { ...options.solverOptions, pixelsPerMeter: options.pixelsPerMeter }).result?.position ?? null;
+};
+
+const createRawFilter = (options: TrackingOptions): TrackingFilter => ({
+    step: measurements => {
+        const raw = solve(measurements, options);
+        return { raw, filtered: raw };
+    },
+});
+
+const createKalmanFilter = (options: TrackingOptions): TrackingFilter => {
+    const accelStd = options.processNoise * options.pixelsPerMeter;
+    const fixStd = options.measurementNoise * options.pixelsPerMeter;
+    const H = [[1, 0, 0, 0], [0, 1, 0, 0]];
+    const R = [[fixStd ** 2, 0], [0, fixStd ** 2]];
+    let state: KalmanState | null = null;
+
+    return {
+        step: (measurements, dt) => {
+            const raw = solve(measurements, options);
+            if (state) state = predict(state, dt, accelStd);
+            if (raw) {
+                if (!state) {
+                    state = initialState(raw, fixStd);
+                } else {
+                    const y = [[raw.x - state.x[0][0]], [raw.y - state.x[1][0]]];
+                    state = update(state, y, H, R);
+                }
+            }
+            return { raw, filtered: state ? statePosition(state) : null };
+        },
+    };
+};
+
+const createExtendedKalmanFilter = (options: TrackingOptions): TrackingFilter => {
+    const accelStd = options.processNoise * options.pixelsPerMeter;
+    let state: KalmanState | null = null;
+
+    return {
+        step: (measurements, dt) => {
+            const raw = solve(measurements, options);
+            const active = measurements.filter(m => m.rssi > options.minRSSI);
+            if (!state) {
+                // The range model cannot be linearised without a first fix
+                if (raw) state = initialState(raw, options.measurementNoise * options.pixelsPerMeter);
+                return { raw, filtered: raw };
+            }
+            state = predict(state, dt, accelStd);
+            const pos = statePosition(state);
+            const rows = active.filter(m => distance(pos, m.radio) > 1e-6);
+            if (rows.length > 0) {
+                const H = rows.map(m => {
+                    const d = distance(pos, m.radio);
+                    return [(pos.x - m.radio.x) / d, (pos.y - m.radio.y) / d, 0, 0];
+                });
+                const y = rows.map(m => [m.estimatedDistance * options.pixelsPerMeter - distance(pos, m.radio)]);
+                // Range errors grow with distance under log-normal noise
+                const R = rows.map((m, i) => rows.map((_, j) => {
+                    if (i !== j) return 0;
+                    const sigma = Math.max(options.pixelsPerMeter, 0.25 * m.estimatedDistance * options.pixelsPerMeter);
+                    return sigma ** 2;
+                }));
+                state = update(state, y, H, R);
+            }
+            return { raw, filtered: statePosition(state) };
+        },
+    };
+};
+
+const createRssiSmoothingFilter = (options: TrackingOptions, reduce: (values: number[]) => number): TrackingFilter => {
+    const history = new Map<string, number[]>();
+    return {
+        step: measurements => {
+            const raw = solve(measurements, options);
+            const smoothed = measurements.map(m => {
+                const values = [...(history.get(m.radio.id) ?? []), m.rssi].slice(-options.windowSize);
+                history.set(m.radio.id, values);
+                const rssi = reduce(values);
+                return { ...m, rssi, estimatedDistance: estimateDistanceFromRSSI(rssi, receiverForRadio(options.modelParams, m.radio)) };
+            });
+            return { raw, filtered: solve(smoothed, options) };
+        },
+    };
+};
+
+export const createTrackingFilter = (id: TrackingFilterId, options: Partial<TrackingOptions> = {}): TrackingFilter => {
+    const resolved = { ...DEFAULT_TRACKING_OPTIONS, ...options };
+    switch (id) {
+        case 'kalman': return createKalmanFilter(resolved);
+        case 'extendedKalman': return createExtendedKalmanFilter(resolved);
+        case 'rssiMovingAverage': return createRssiSmoothingFilter(resolved, mean);
+        case 'rssiMedian': return createRssiSmoothingFilter(resolved, median);
+        default: return createRawFilter(resolved);
+    }
+};
+
+// --- SIMULATION ---
+export interface TrackConfig {
+    /** Walking speed, m/s. */
+    speed: number;
+    /** BLE advertising interval, ms. */
+    advertisingInterval: number;
+    filterId: TrackingFilterId;
+    tracking: Partial<TrackingOptions>;
+}
+
+/**
+ * Walks a device along the path, producing one measurement epoch per
+ * advertising interval and running the tracking filter over the stream.
+ * A radio with its own, longer interval only reports when it has advertised
+ * since its last report; in between the scanner repeats its previous reading.
+ */
+export const simulateTrack = (
+    radios: Radio[],
+    walls: Wall[],
+    path: Vector2D[],
+    device: Device,
+    params: RSSIModelParams,
+    config: TrackConfig,
+    random: RandomSource = Math.random
+): TrackSample[] => {
+    if (path.length < 2 || config.speed <= 0 || config.advertisingInterval <= 0) return [];
+    const pixelsPerMeter = config.tracking.pixelsPerMeter ?? PIXELS_PER_METER;
+    const duration = pathLength(path) / (config.speed * pixelsPerMeter);
+    const dt = config.advertisingInterval / 1000;
+    const filter = createTrackingFilter(config.filterId, { walls, ...config.tracking });
+
+    const samples: TrackSample[] = [];
+    const nextAdvertisement = new Map<string, number>();
+    let previous: Measurement[] = [];
+    for (let time = 0; time <= duration + 1e-9; time += dt) {
+        const travelled = time * config.speed * pixelsPerMeter;
+        const truth = positionAlongPath(path, travelled);
+        // The user faces the way they walk
+        const heading = headingAlongPath(path, travelled) ?? device.heading;
+        const fresh = computeMeasurements(radios, { ...device, ...truth, heading }, walls, params, random, pixelsPerMeter, config.tracking.modelParams ?? params);
+        const measurements = fresh.map((m, i) => {
+            const interval = m.radio.advertisingInterval;
+            if (!interval) return m;
+            let next = nextAdvertisement.get(m.radio.id) ?? 0;
+            if (time + 1e-9 < next && previous[i]) return previous[i];
+            while (next <= time + 1e-9) next += interval / 1000;
+            nextAdvertisement.set(m.radio.id, next);
+            return m;
+        });
+        previous = measurements;
+        const { raw, filtered } = filter.step(measurements, dt);
+        samples.push({ time, truth, measurements, raw, filtered });
+    }
+    return samples;
+};
+
+/**
+ * Latest sample at or before the given time.
+ */
+export const sampleAtTime = <T extends { time: number }>(samples: T[], time: number): T | null => {
+    if (samples.length === 0) return null;
+    let lo = 0, hi = samples.length - 1;
+    while (lo < hi) {
+        const mid = Math.ceil((lo + hi) / 2);
+        if (samples[mid].time <= time) lo = mid; else hi = mid - 1;
+    }
+    return samples[lo];
+};
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { computeMeasurements } from './propagation';
+import { performTrilateration } from './trilateration';
+import { distance } from './geometry';
+import { createSeededRandom } from './random';
+import { testParams, cornerRadios as radios, testDevice } from './testFixtures';
+
+const params = testParams();
+
+describe('performTrilateration', () => {
+    it('needs at least three measurements', () => {
+        const device = testDevice(600, 450);
+        const measurements = computeMeasurements(radios.slice(0, 2), device, [], params);
+        expect(performTrilateration(measurements)).toBeNull();
+    });
+
+    it('converges to the true position with exact ranges', () => {
+        for (const device of [{ x: 600, y: 450 }, { x: 200, y: 700 }, { x: 1000, y: 120 }]) {
+            const measurements = computeMeasurements(radios, { ...device, radius: 10 }, [], params);
+            const estimate = performTrilateration(measurements);
+            expect(estimate).not.toBeNull();
+            expect(distance(estimate!, device)).toBeLessThan(1);
+        }
+    });
+
+    it('stays close to the true position under noise', () => {
+        const device = testDevice(500, 400);
+        const measurements = computeMeasurements(radios, device, [], { ...params, enableNoise: true }, createSeededRandom(7));
+        const estimate = performTrilateration(measurements);
+        expect(estimate).not.toBeNull();
+        // 3 dB of noise at these ranges stays within a few meters
+        expect(distance(estimate!, device) / 40).toBeLessThan(5);
+    });
+});
@@ -0,0 +1,13 @@
+import { Vector2D, Measurement } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { solvePosition } from './solvers';
+
+/**
+ * Gauss-Newton least squares over the measured ranges, seeded with an
+ * inverse-distance weighted centroid. Positions are in pixels.
+ *
+ * Kept for callers that only need a point; use `solvePosition` to pick a
+ * solver and to learn whether it converged.
+ */
+export const performTrilateration = (activeMeasurements: Measurement[], pixelsPerMeter: number = PIXELS_PER_METER): Vector2D | null =>
+    solvePosition('gaussNewton', activeMeasurements, { pixelsPerMeter })?.position ?? null;
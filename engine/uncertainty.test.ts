@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Radio, Measurement } from '../types';
+import { dilutionOfPrecision, computeGDOPMap, positionCovariance, covarianceEllipse, rangeStdDev } from './uncertainty';
+import { distance } from './geometry';
+import { testRadios } from './testFixtures';
+
+const square = testRadios([{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 400 }, { x: 0, y: 400 }]);
+
+const exactMeasurements = (position: { x: number; y: number }, radios: Radio[], pixelsPerMeter: number): Measurement[] =>
+    radios.map(radio => {
+        const d = distance(position, radio) / pixelsPerMeter;
+        return { radio, rssi: -70, trueDistance: d, estimatedDistance: d };
+    });
+
+describe('dilutionOfPrecision', () => {
+    it('matches the closed form at the centre of a square', () => {
+        const dop = dilutionOfPrecision({ x: 200, y: 200 }, square)!;
+        expect(dop.hdop).toBeCloseTo(1);
+        expect(dop.gdop).toBeCloseTo(Math.sqrt(1.25));
+    });
+
+    it('grows outside the layout', () => {
+        const inside = dilutionOfPrecision({ x: 200, y: 200 }, square)!;
+        const outside = dilutionOfPrecision({ x: 1200, y: 200 }, square)!;
+        expect(outside.hdop).toBeGreaterThan(inside.hdop);
+    });
+
+    it('returns null for fewer than three radios or a collinear geometry', () => {
+        expect(dilutionOfPrecision({ x: 200, y: 200 }, square.slice(0, 2))).toBeNull();
+        expect(dilutionOfPrecision({ x: 50, y: 0 }, [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 200, y: 0 }])).toBeNull();
+    });
+});
+
+describe('computeGDOPMap', () => {
+    it('is lowest inside the layout and NaN without a fix', () => {
+        const map = computeGDOPMap(square, { width: 400, height: 400, cellSize: 100 });
+        expect(map.cols).toBe(4);
+        expect(Math.min(...map.values)).toBeCloseTo(map.values[1 * 4 + 1], 5);
+        expect(computeGDOPMap(square.slice(0, 2), { width: 400, height: 400, cellSize: 200 }).values.every(isNaN)).toBe(true);
+    });
+});
+
+describe('positionCovariance', () => {
+    it('is isotropic at the centre of a square and scales with the RSSI variance', () => {
+        const position = { x: 200, y: 200 };
+        const measurements = exactMeasurements(position, square, 40);
+        const cov = positionCovariance(position, measurements, { pixelsPerMeter: 40, rssiStdDev: 3, pathLossExponent: 2 })!;
+        // Four equal ranges at right angles: variance is sigma² / 2 per axis
+        const sigma = rangeStdDev(distance(position, square[0]), 3, 2);
+        expect(cov[0][0]).toBeCloseTo(sigma * sigma / 2, 6);
+        expect(cov[1][1]).toBeCloseTo(cov[0][0], 6);
+        expect(cov[0][1]).toBeCloseTo(0, 6);
+
+        const doubled = positionCovariance(position, measurements, { pixelsPerMeter: 40, rssiStdDev: 6, pathLossExponent: 2 })!;
+        expect(doubled[0][0]).toBeCloseTo(4 * cov[0][0], 6);
+    });
+
+    it('returns null when the ranges only constrain one axis', () => {
+        const radios = square.slice(0, 2);
+        expect(positionCovariance({ x: 200, y: 0 }, exactMeasurements({ x: 200, y: 0 }, radios, 40))).toBeNull();
+    });
+});
+
+describe('covarianceEllipse', () => {
+    it('returns the axes of a diagonal covariance', () => {
+        expect(covarianceEllipse([[4, 0], [0, 1]])).toEqual({ semiMajor: 2, semiMinor: 1, angle: 0 });
+        expect(covarianceEllipse([[1, 0], [0, 4]], 2).angle).toBeCloseTo(Math.PI / 2);
+        expect(covarianceEllipse([[1, 0], [0, 4]], 2).semiMajor).toBeCloseTo(4);
+    });
+
+    it('follows a correlated covariance along the diagonal', () => {
+        const ellipse = covarianceEllipse([[2, 1], [1, 2]]);
+        expect(ellipse.angle).toBeCloseTo(Math.PI / 4);
+        expect(ellipse.semiMajor).toBeCloseTo(Math.sqrt(3));
+        expect(ellipse.semiMinor).toBeCloseTo(1);
+    });
+});
@@ -0,0 +1,119 @@
+import { Vector2D, Measurement, GridMap } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT, PIXELS_PER_METER } from '../constants';
+import { distance } from './geometry';
+import { Matrix, transpose, multiply, invert } from './matrix';
+import { buildNormalEquations, inverseSquareWeight } from './solvers';
+import { sampleGrid } from './grid';
+
+// --- DILUTION OF PRECISION ---
+export interface DilutionOfPrecision {
+    /** Geometric DOP: position plus a range bias shared by all radios (the analogue of the GNSS clock term). */
+    gdop: number;
+    /** Horizontal DOP: the position part alone. */
+    hdop: number;
+}
+
+/**
+ * DOP of the radio geometry seen from a position, from the unit line-of-sight
+ * vectors. Range errors of 1 m give position errors of about HDOP m. Needs
+ * three radios that are not all in line with the position; returns null otherwise.
+ */
+export const dilutionOfPrecision = (position: Vector2D, anchors: Vector2D[]): DilutionOfPrecision | null => {
+    const H: Matrix = anchors
+        .filter(a => distance(a, position) > 1e-6)
+        .map(a => {
+            const d = distance(a, position);
+            return [(position.x - a.x) / d, (position.y - a.y) / d, 1];
+        });
+    if (H.length < 3) return null;
+    const Q = invert(multiply(transpose(H), H));
+    if (!Q || Q[0][0] + Q[1][1] <= 0) return null;
+    return {
+        gdop: Math.sqrt(Q[0][0] + Q[1][1] + Q[2][2]),
+        hdop: Math.sqrt(Q[0][0] + Q[1][1]),
+    };
+};
+
+export interface GDOPMapOptions {
+    /** Top-left corner of the area, pixels. */
+    origin: Vector2D;
+    width: number;
+    height: number;
+    /** Cell edge length in pixels. */
+    cellSize: number;
+}
+
+export const DEFAULT_GDOP_MAP_OPTIONS: GDOPMapOptions = {
+    origin: { x: 0, y: 0 },
+    width: CANVAS_WIDTH,
+    height: CANVAS_HEIGHT,
+    cellSize: PIXELS_PER_METER / 2,
+};
+
+/**
+ * GDOP of the radio layout at every cell; NaN where the geometry gives no fix.
+ */
+export const computeGDOPMap = (anchors: Vector2D[], options: Partial<GDOPMapOptions> = {}): GridMap => {
+    const o = { ...DEFAULT_GDOP_MAP_OPTIONS, ...options };
+    return sampleGrid(o.width, o.height, o.cellSize, center => dilutionOfPrecision(center, anchors)?.gdop ?? NaN, o.origin);
+};
+
+// --- COVARIANCE ---
+export interface UncertaintyOptions {
+    pixelsPerMeter: number;
+    /** Standard deviation of an RSSI reading, dB. */
+    rssiStdDev: number;
+    /** Path-loss exponent the ranges were estimated with. */
+    pathLossExponent: number;
+}
+
+export const DEFAULT_UNCERTAINTY_OPTIONS: UncertaintyOptions = {
+    pixelsPerMeter: PIXELS_PER_METER,
+    rssiStdDev: 3,
+    pathLossExponent: 2.7,
+};
+
+/**
+ * Standard deviation of a range estimated from RSSI, in the same unit as the
+ * range. Log-distance ranging turns a fixed dB error into a fixed relative one.
+ */
+export const rangeStdDev = (range: number, rssiStdDev: number, pathLossExponent: number) =>
+    range * Math.LN10 * rssiStdDev / (10 * pathLossExponent);
+
+/**
+ * Position covariance in pixels² at an estimate, from the least-squares
+ * Jacobian of the ranges weighted by their variance. Returns null when the
+ * geometry does not constrain both axes.
+ */
+export const positionCovariance = (position: Vector2D, measurements: Measurement[], options: Partial<UncertaintyOptions> = {}): Matrix | null => {
+    const { pixelsPerMeter, rssiStdDev, pathLossExponent } = { ...DEFAULT_UNCERTAINTY_OPTIONS, ...options };
+    // Every range has sigma = k * d, so the weights are 1 / d² up to the common factor k²
+    const { JtJ, rows } = buildNormalEquations(position, measurements, inverseSquareWeight, pixelsPerMeter);
+    if (rows < 2) return null;
+    const inverse = invert(JtJ);
+    if (!inverse) return null;
+    const k = rangeStdDev(pixelsPerMeter, rssiStdDev, pathLossExponent);
+    return inverse.map(row => row.map(v => v * k * k));
+};
+
+export interface CovarianceEllipse {
+    semiMajor: number;
+    semiMinor: number;
+    /** Direction of the major axis in canvas coordinates (y down), radians. */
+    angle: number;
+}
+
+/**
+ * Axes of the error ellipse of a 2x2 covariance, scaled by `sigma`
+ * (1 for the 1σ ellipse, 2 for 2σ).
+ */
+export const covarianceEllipse = (covariance: Matrix, sigma = 1): CovarianceEllipse => {
+    const [[a, b], [, d]] = covariance;
+    const mean = (a + d) / 2;
+    const spread = Math.sqrt(((a - d) / 2) ** 2 + b * b);
+    return {
+        semiMajor: sigma * Math.sqrt(Math.max(mean + spread, 0)),
+        semiMinor: sigma * Math.sqrt(Math.max(mean - spread, 0)),
+        angle: 0.5 * Math.atan2(2 * b, a - d),
+    };
+};
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { parseSVGPlan, parseDXFPlan, parseGeoJSONPlan, parseVectorPlan, planToMeters, planFrame, placeVectorPlan, suggestLayerAssignment, VectorPlan } from './vectorImport';
+
+const SVG = `<?xml version="1.0"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="1000mm" height="500mm" viewBox="0 0 1000 500">
+  <!-- <line x1="0" y1="0" x2="1" y2="1"/> -->
+  <g inkscape:groupmode="layer" inkscape:label="Walls" transform="translate(10, 20)">
+    <line x1="0" y1="0" x2="100" y2="0"/>
+    <g id="inner" transform="scale(2)">
+      <polyline points="0,0 10,0 10,10"/>
+    </g>
+  </g>
+  <g id="Glazing">
+    <path d="M 0 0 h 50 v 50 z"/>
+  </g>
+  <rect x="0" y="0" width="10" height="5"/>
+</svg>`;
+
+const DXF = [
+    '0', 'SECTION', '2', 'HEADER', '9', '$INSUNITS', '70', '6', '0', 'ENDSEC',
+    '0', 'SECTION', '2', 'ENTITIES',
+    '0', 'LINE', '8', 'A-WALL', '10', '0', '20', '0', '11', '4', '21', '0',
+    '0', 'LWPOLYLINE', '8', 'A-GLAZ', '90', '3', '70', '1', '10', '0', '20', '0', '10', '2', '20', '0', '10', '2', '20', '3',
+    '0', 'ENDSEC', '0', 'EOF',
+].join('\n');
+
+describe('parseSVGPlan', () => {
+    it('reads shapes by layer with group transforms', () => {
+        const plan = parseSVGPlan(SVG);
+        expect(plan.layers).toEqual(['Glazing', 'Walls', 'default']);
+        expect(plan.units).toBe('mm');
+        const walls = plan.segments.filter(s => s.layer === 'Walls');
+        expect(walls).toHaveLength(3);
+        expect(walls[0]).toMatchObject({ start: { x: 10, y: 20 }, end: { x: 110, y: 20 } });
+        expect(walls[2]).toMatchObject({ start: { x: 30, y: 20 }, end: { x: 30, y: 40 } });
+    });
+
+    it('follows relative path commands and closes subpaths', () => {
+        const glazing = parseSVGPlan(SVG).segments.filter(s => s.layer === 'Glazing');
+        expect(glazing.map(s => s.end)).toEqual([{ x: 50, y: 0 }, { x: 50, y: 50 }, { x: 0, y: 0 }]);
+        expect(parseSVGPlan(SVG).segments.filter(s => s.layer === 'default')).toHaveLength(4);
+    });
+
+    it('stops at numbers after a closepath instead of looping', () => {
+        const plan = parseSVGPlan('<svg><path d="M0 0 L10 0 L10 10 z 5 5"/></svg>');
+        expect(plan.segments).toHaveLength(3);
+    });
+});
+
+describe('parseDXFPlan', () => {
+    it('reads lines and closed polylines with the declared units', () => {
+        const plan = parseDXFPlan(DXF);
+        expect(plan.units).toBe('m');
+        expect(plan.yUp).toBe(true);
+        expect(plan.layers).toEqual(['A-GLAZ', 'A-WALL']);
+        expect(plan.segments.filter(s => s.layer === 'A-GLAZ')).toHaveLength(3);
+        expect(plan.segments[0]).toEqual({ start: { x: 0, y: 0 }, end: { x: 4, y: 0 }, layer: 'A-WALL' });
+    });
+
+    it('rejects files that are not DXF', () => {
+        expect(() => parseDXFPlan('hello')).toThrow('Not an ASCII DXF file');
+    });
+});
+
+describe('parseGeoJSONPlan', () => {
+    it('reads line and polygon features with their layer property', () => {
+        const plan = parseGeoJSONPlan(JSON.stringify({
+            type: 'FeatureCollection',
+            features: [
+                { type: 'Feature', properties: { Layer: 'walls' }, geometry: { type: 'LineString', coordinates: [[0, 0], [0.001, 0]] } },
+                { type: 'Feature', properties: {}, geometry: { type: 'Polygon', coordinates: [[[0, 0], [0, 0.001], [0.001, 0.001], [0, 0]]] } },
+                { type: 'Feature', properties: {}, geometry: { type: 'Point', coordinates: [0, 0] } },
+            ],
+        }));
+        expect(plan.units).toBe('deg');
+        expect(plan.layers).toEqual(['default', 'walls']);
+        expect(plan.segments).toHaveLength(4);
+    });
+});
+
+describe('parseVectorPlan', () => {
+    it('picks the parser by extension or content', () => {
+        expect(parseVectorPlan(DXF, 'plan.DXF').format).toBe('dxf');
+        expect(parseVectorPlan(SVG).format).toBe('svg');
+        expect(parseVectorPlan('{"type":"LineString","coordinates":[[0,0],[1,1]]}').format).toBe('geojson');
+    });
+});
+
+describe('planToMeters', () => {
+    it('scales to meters, flips y-up plans and moves them to the origin', () => {
+        const { segments, width, height } = planToMeters(parseDXFPlan(DXF), 'mm');
+        expect(width).toBeCloseTo(0.004);
+        expect(height).toBeCloseTo(0.003);
+        // The wall at y = 0 is the bottom of the drawing, so it ends up at the largest y
+        expect(segments[0].start.y).toBeCloseTo(0.003);
+    });
+
+    it('handles drawings with tens of thousands of lines', () => {
+        const entities = Array.from({ length: 80000 }, (_, i) => ['0', 'LINE', '8', 'A-WALL', '10', String(i), '20', '0', '11', String(i), '21', '3']).flat();
+        const dxf = ['0', 'SECTION', '2', 'ENTITIES', ...entities, '0', 'ENDSEC', '0', 'EOF'].join('\n');
+        const { segments, width, height } = planToMeters(parseDXFPlan(dxf), 'm');
+        expect(segments).toHaveLength(80000);
+        expect(width).toBeCloseTo(79999);
+        expect(height).toBeCloseTo(3);
+    });
+
+    it('projects degrees locally', () => {
+        const plan: VectorPlan = { format: 'geojson', segments: [{ start: { x: 0, y: 0 }, end: { x: 0, y: 0.001 }, layer: 'a' }], layers: ['a'], units: 'deg', yUp: true };
+        expect(planToMeters(plan, 'deg').height).toBeCloseTo(111.2, 1);
+    });
+});
+
+describe('placeVectorPlan', () => {
+    it('makes walls from wall layers and keeps the rest as background', () => {
+        const { segments } = planToMeters(parseDXFPlan(DXF), 'm');
+        const frame = planFrame(100);
+        let n = 0;
+        const { walls, background } = placeVectorPlan(segments, { 'A-WALL': 'concrete', 'A-GLAZ': 'background' }, frame, () => `w${n++}`);
+        expect(walls).toHaveLength(1);
+        expect(walls[0]).toMatchObject({ id: 'w0', material: 'concrete', start: { x: 0, y: 300 }, end: { x: 400, y: 300 } });
+        expect(background).toHaveLength(4);
+        expect(placeVectorPlan(segments, { 'A-WALL': 'ignore', 'A-GLAZ': 'ignore' }, frame, () => 'w').background).toHaveLength(0);
+    });
+});
+
+describe('suggestLayerAssignment', () => {
+    it('guesses materials from common layer names', () => {
+        expect(suggestLayerAssignment('A-WALL')).toBe('drywall');
+        expect(suggestLayerAssignment('A-WALL-GLAZ')).toBe('glass');
+        expect(suggestLayerAssignment('Steel doors')).toBe('door_metal');
+        expect(suggestLayerAssignment('A-ANNO-TEXT')).toBe('ignore');
+        expect(suggestLayerAssignment('Outline')).toBe('background');
+    });
+});
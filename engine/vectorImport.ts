@@ -0,0 +1,444 @@
+import { Vector2D, Segment, Wall, WallMaterial, CoordinateFrame } from '../types';
+import { WALL_MATERIALS } from '../constants';
+import { fromWorld } from './frame';
+
+/**
+ * Vector floor plans: line work from SVG, DXF and GeoJSON files, kept per
+ * layer in the file's own units and axes until it is placed on the canvas.
+ */
+export type PlanFormat = 'svg' | 'dxf' | 'geojson';
+
+export type PlanUnit = 'mm' | 'cm' | 'm' | 'in' | 'ft' | 'px' | 'deg';
+
+export const PLAN_UNITS: Record<PlanUnit, { name: string; meters: number }> = {
+    mm: { name: 'Millimeters', meters: 0.001 },
+    cm: { name: 'Centimeters', meters: 0.01 },
+    m: { name: 'Meters', meters: 1 },
+    in: { name: 'Inches', meters: 0.0254 },
+    ft: { name: 'Feet', meters: 0.3048 },
+    px: { name: 'Pixels (96 dpi)', meters: 0.0254 / 96 },
+    // Longitude/latitude, projected locally; see planToMeters
+    deg: { name: 'Degrees (WGS 84)', meters: NaN },
+};
+
+export interface PlanSegment extends Segment {
+    layer: string;
+}
+
+export interface VectorPlan {
+    format: PlanFormat;
+    /** In the file's units and axes. */
+    segments: PlanSegment[];
+    /** Every layer with at least one segment, sorted. */
+    layers: string[];
+    /** Units declared by the file, or the usual ones for the format. */
+    units: PlanUnit;
+    /** Whether the file's y axis points up (DXF, GeoJSON) rather than down (SVG). */
+    yUp: boolean;
+}
+
+const DEFAULT_LAYER = 'default';
+
+const toPlan = (format: PlanFormat, segments: PlanSegment[], units: PlanUnit, yUp: boolean): VectorPlan => {
+    if (segments.length === 0) throw new Error(`No lines found in the ${format.toUpperCase()} file`);
+    return { format, segments, layers: [...new Set(segments.map(s => s.layer))].sort(), units, yUp };
+};
+
+/**
+ * Adds consecutive points joined into segments, optionally closed back to the
+ * first. Appends in place: spreading a long polyline into push overflows the stack.
+ */
+const addPolyline = (segments: PlanSegment[], points: Vector2D[], layer: string, closed = false) => {
+    for (let i = 1; i < points.length; i++) segments.push({ start: points[i - 1], end: points[i], layer });
+    if (closed && points.length > 2) segments.push({ start: points[points.length - 1], end: points[0], layer });
+};
+
+/** Bounding box, in one pass: Math.min(...points) overflows the stack on large drawings. */
+const boundsOf = (points: Vector2D[]) => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of points) {
+        if (p.x < minX) minX = p.x;
+        if (p.x > maxX) maxX = p.x;
+        if (p.y < minY) minY = p.y;
+        if (p.y > maxY) maxY = p.y;
+    }
+    return { minX, minY, maxX, maxY };
+};
+
+// --- SVG ---
+// Affine transform [a, b, c, d, e, f]: x' = a x + c y + e, y' = b x + d y + f
+type Transform = number[];
+const IDENTITY: Transform = [1, 0, 0, 1, 0, 0];
+
+const compose = (m: Transform, n: Transform): Transform => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const apply = (m: Transform, p: Vector2D): Vector2D => ({ x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] });
+
+const NUMBER = /[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi;
+const numbers = (text: string) => (text.match(NUMBER) ?? []).map(Number);
+
+const parseTransform = (text: string | undefined): Transform => {
+    let m = IDENTITY;
+    for (const [, name, args] of (text ?? '').matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+        const v = numbers(args);
+        let t: Transform = IDENTITY;
+        if (name === 'matrix' && v.length === 6) t = v;
+        else if (name === 'translate') t = [1, 0, 0, 1, v[0] ?? 0, v[1] ?? 0];
+        else if (name === 'scale') t = [v[0] ?? 1, 0, 0, v[1] ?? v[0] ?? 1, 0, 0];
+        else if (name === 'rotate') {
+            const a = (v[0] ?? 0) * Math.PI / 180;
+            const [cx, cy] = [v[1] ?? 0, v[2] ?? 0];
+            t = compose(compose([1, 0, 0, 1, cx, cy], [Math.cos(a), Math.sin(a), -Math.sin(a), Math.cos(a), 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        }
+        m = compose(m, t);
+    }
+    return m;
+};
+
+const PATH_ARGS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+/**
+ * Path outlines as straight segments. Curves and arcs are replaced by the
+ * chord to their end point, which is how walls are drawn in practice.
+ */
+const pathPoints = (d: string): { points: Vector2D[]; closed: boolean }[] => {
+    const tokens = d.match(/[a-df-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+    const subpaths: { points: Vector2D[]; closed: boolean }[] = [];
+    let current: { points: Vector2D[]; closed: boolean } | null = null;
+    let pos = { x: 0, y: 0 };
+    let command = '';
+    let i = 0;
+    while (i < tokens.length) {
+        if (/[a-z]/i.test(tokens[i])) command = tokens[i++];
+        const lower = command.toLowerCase();
+        const relative = command === lower;
+        if (lower === 'z') {
+            if (current) {
+                current.closed = true;
+                pos = current.points[0];
+            }
+            current = null;
+            // Numbers straight after a closepath are an error; browsers draw what came before it
+            if (i < tokens.length && !/[a-z]/i.test(tokens[i])) break;
+            continue;
+        }
+        const count = PATH_ARGS[lower];
+        if (count === undefined || i + count > tokens.length) break;
+        const v = tokens.slice(i, i + count).map(Number);
+        i += count;
+        const base = relative ? pos : { x: 0, y: 0 };
+        let next: Vector2D;
+        if (lower === 'h') next = { x: base.x + v[0], y: pos.y };
+        else if (lower === 'v') next = { x: pos.x, y: base.y + v[0] };
+        else next = { x: base.x + v[count - 2], y: base.y + v[count - 1] };
+        if (lower === 'm') {
+            current = { points: [next], closed: false };
+            subpaths.push(current);
+            // Further pairs after a moveto are linetos
+            command = relative ? 'l' : 'L';
+        } else {
+            if (!current) {
+                current = { points: [pos], closed: false };
+                subpaths.push(current);
+            }
+            current.points.push(next);
+        }
+        pos = next;
+    }
+    return subpaths;
+};
+
+/** Root units: a physical width whose number matches the viewBox width means one user unit is one of those. */
+const svgUnits = (attrs: Record<string, string>): PlanUnit => {
+    const width = /^\s*([\d.]+)\s*(mm|cm|in)\s*$/.exec(attrs.width ?? '');
+    const viewBox = numbers(attrs.viewBox ?? '');
+    if (width && viewBox.length === 4 && Math.abs(Number(width[1]) - viewBox[2]) < 1e-6 * viewBox[2]) return width[2] as PlanUnit;
+    return 'px';
+};
+
+/**
+ * Lines, polylines, polygons, rectangles and paths of an SVG document. The
+ * layer of an element is its enclosing Inkscape layer, or else its outermost
+ * named group.
+ */
+export const parseSVGPlan = (text: string): VectorPlan => {
+    const source = text.replace(/<!--[\s\S]*?-->/g, '');
+    const stack: { tag: string; transform: Transform; layer: string | null; isLayer: boolean }[] = [];
+    const segments: PlanSegment[] = [];
+    let units: PlanUnit = 'px';
+    let sawRoot = false;
+
+    for (const [, closing, tag, attrText, selfClosing] of source.matchAll(/<(\/?)([a-zA-Z][\w:.-]*)([^>]*?)(\/?)>/g)) {
+        if (closing) {
+            const i = stack.map(s => s.tag).lastIndexOf(tag);
+            if (i >= 0) stack.length = i;
+            continue;
+        }
+        const attrs: Record<string, string> = {};
+        for (const [, name, , dq, sq] of attrText.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) attrs[name] = dq ?? sq;
+        if (tag === 'svg' && !sawRoot) {
+            units = svgUnits(attrs);
+            sawRoot = true;
+        }
+        const parent = stack[stack.length - 1];
+        const transform = compose(parent?.transform ?? IDENTITY, parseTransform(attrs.transform));
+        const layer = parent?.layer ?? null;
+
+        if (selfClosing !== '/' && !['line', 'polyline', 'polygon', 'rect', 'path'].includes(tag)) {
+            const name = attrs['inkscape:label'] ?? attrs.id ?? null;
+            const isLayer = attrs['inkscape:groupmode'] === 'layer';
+            const insideLayer = stack.some(s => s.isLayer);
+            // Inkscape layers win; otherwise the outermost named group names the layer
+            const groupLayer = tag === 'g' && name && (isLayer || (!insideLayer && layer === null)) ? name : layer;
+            stack.push({ tag, transform, layer: groupLayer, isLayer });
+            continue;
+        }
+
+        const at = (x: number, y: number) => apply(transform, { x, y });
+        const num = (key: string) => Number(attrs[key] ?? 0);
+        const layerName = layer ?? DEFAULT_LAYER;
+        if (tag === 'line') {
+            segments.push({ start: at(num('x1'), num('y1')), end: at(num('x2'), num('y2')), layer: layerName });
+        } else if (tag === 'polyline' || tag === 'polygon') {
+            const v = numbers(attrs.points ?? '');
+            const points: Vector2D[] = [];
+            for (let i = 0; i + 1 < v.length; i += 2) points.push(at(v[i], v[i + 1]));
+            addPolyline(segments, points, layerName, tag === 'polygon');
+        } else if (tag === 'rect') {
+            const [x, y, w, h] = [num('x'), num('y'), num('width'), num('height')];
+            addPolyline(segments, [at(x, y), at(x + w, y), at(x + w, y + h), at(x, y + h)], layerName, true);
+        } else if (tag === 'path') {
+            pathPoints(attrs.d ?? '').forEach(({ points, closed }) => addPolyline(segments, points.map(p => at(p.x, p.y)), layerName, closed));
+        }
+    }
+    if (!sawRoot) throw new Error('Not an SVG document');
+    return toPlan('svg', segments, units, false);
+};
+
+// --- DXF ---
+// $INSUNITS codes; drawings without units are taken to be in millimeters, the usual architectural unit
+const DXF_UNITS: Record<number, PlanUnit> = { 1: 'in', 2: 'ft', 4: 'mm', 5: 'cm', 6: 'm' };
+
+/**
+ * LINE, LWPOLYLINE and POLYLINE entities of an ASCII DXF file, by layer.
+ * Blocks and their inserts are not expanded.
+ */
+export const parseDXFPlan = (text: string): VectorPlan => {
+    const lines = text.split(/\r?\n/);
+    const pairs: { code: number; value: string }[] = [];
+    for (let i = 0; i + 1 < lines.length; i += 2) pairs.push({ code: Number(lines[i].trim()), value: lines[i + 1].trim() });
+    if (!pairs.some(p => p.code === 0 && p.value === 'SECTION')) throw new Error('Not an ASCII DXF file');
+
+    let units: PlanUnit = 'mm';
+    const insUnits = pairs.findIndex(p => p.code === 9 && p.value === '$INSUNITS');
+    if (insUnits >= 0 && pairs[insUnits + 1]?.code === 70) units = DXF_UNITS[Number(pairs[insUnits + 1].value)] ?? units;
+
+    // Entities: each starts at a code 0 pair and runs to the next one
+    const start = pairs.findIndex((p, i) => p.code === 2 && p.value === 'ENTITIES' && pairs[i - 1]?.value === 'SECTION');
+    if (start < 0) throw new Error('DXF file has no ENTITIES section');
+    const entities: { type: string; codes: { code: number; value: string }[] }[] = [];
+    for (let i = start + 1; i < pairs.length && pairs[i].value !== 'ENDSEC'; i++) {
+        if (pairs[i].code === 0) entities.push({ type: pairs[i].value, codes: [] });
+        else entities[entities.length - 1]?.codes.push(pairs[i]);
+    }
+
+    const segments: PlanSegment[] = [];
+    const layerOf = (codes: { code: number; value: string }[]) => codes.find(c => c.code === 8)?.value || DEFAULT_LAYER;
+    const valueOf = (codes: { code: number; value: string }[], code: number) => Number(codes.find(c => c.code === code)?.value ?? 0);
+    const vertices = (codes: { code: number; value: string }[]) => {
+        const points: Vector2D[] = [];
+        codes.forEach(c => {
+            if (c.code === 10) points.push({ x: Number(c.value), y: 0 });
+            else if (c.code === 20 && points.length > 0) points[points.length - 1].y = Number(c.value);
+        });
+        return points;
+    };
+    for (let i = 0; i < entities.length; i++) {
+        const { type, codes } = entities[i];
+        if (type === 'LINE') {
+            segments.push({ start: { x: valueOf(codes, 10), y: valueOf(codes, 20) }, end: { x: valueOf(codes, 11), y: valueOf(codes, 21) }, layer: layerOf(codes) });
+        } else if (type === 'LWPOLYLINE') {
+            addPolyline(segments, vertices(codes), layerOf(codes), (valueOf(codes, 70) & 1) === 1);
+        } else if (type === 'POLYLINE') {
+            // Old-style polylines list their points as VERTEX entities up to SEQEND
+            const points: Vector2D[] = [];
+            while (entities[i + 1]?.type === 'VERTEX') points.push(...vertices(entities[++i].codes));
+            addPolyline(segments, points, layerOf(codes), (valueOf(codes, 70) & 1) === 1);
+        }
+    }
+    return toPlan('dxf', segments, units, true);
+};
+
+// --- GEOJSON ---
+// The members of GeoJSON objects that are read; anything else in the file is ignored
+interface GeoJSONGeometry {
+    type: string;
+    coordinates?: unknown;
+    geometries?: unknown;
+}
+
+interface GeoJSONFeature {
+    type: 'Feature';
+    geometry?: unknown;
+    properties?: unknown;
+}
+
+const isGeoJSONObject = (value: unknown): value is { type: string } & Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) && typeof (value as { type?: unknown }).type === 'string';
+const isGeometry = (value: unknown): value is GeoJSONGeometry => isGeoJSONObject(value) && value.type !== 'Feature' && value.type !== 'FeatureCollection';
+const isFeature = (value: unknown): value is GeoJSONFeature => isGeoJSONObject(value) && value.type === 'Feature';
+const arrayOf = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Feature properties that name the layer, in order of preference
+const GEOJSON_LAYER_PROPERTIES = ['layer', 'category', 'type', 'kind', 'class', 'name'];
+
+/**
+ * LineString and Polygon geometry (and their Multi- forms) of a GeoJSON
+ * document; the layer comes from the first of the usual naming properties.
+ * Coordinates are longitude/latitude as the standard says, unless the file
+ * declares a (legacy) projected crs.
+ */
+export const parseGeoJSONPlan = (text: string): VectorPlan => {
+    let doc: unknown;
+    try {
+        doc = JSON.parse(text);
+    } catch (e) {
+        throw new Error(`Invalid JSON: ${(e as Error).message}`);
+    }
+    const segments: PlanSegment[] = [];
+    const point = (c: unknown): Vector2D | null => Array.isArray(c) && typeof c[0] === 'number' && typeof c[1] === 'number' ? { x: c[0], y: c[1] } : null;
+    const line = (coords: unknown, layer: string) => {
+        if (!Array.isArray(coords)) return;
+        addPolyline(segments, coords.map(point).filter((p): p is Vector2D => p !== null), layer);
+    };
+    const geometry = (g: unknown, layer: string) => {
+        if (!isGeometry(g)) return;
+        if (g.type === 'LineString') line(g.coordinates, layer);
+        else if (g.type === 'MultiLineString' || g.type === 'Polygon') arrayOf(g.coordinates).forEach(c => line(c, layer));
+        else if (g.type === 'MultiPolygon') arrayOf(g.coordinates).forEach(poly => arrayOf(poly).forEach(c => line(c, layer)));
+        else if (g.type === 'GeometryCollection') arrayOf(g.geometries).forEach(child => geometry(child, layer));
+    };
+    const layerOf = (properties: unknown) => {
+        const entries = typeof properties === 'object' && properties !== null ? Object.entries(properties) : [];
+        for (const key of GEOJSON_LAYER_PROPERTIES) {
+            const value = entries.find(([k]) => k.toLowerCase() === key)?.[1];
+            if (typeof value === 'string' && value !== '') return value;
+        }
+        return DEFAULT_LAYER;
+    };
+    const feature = (f: unknown) => {
+        if (isFeature(f)) geometry(f.geometry, layerOf(f.properties));
+    };
+
+    if (!isGeoJSONObject(doc)) throw new Error('Not a GeoJSON document');
+    if (doc.type === 'FeatureCollection') arrayOf(doc.features).forEach(feature);
+    else if (doc.type === 'Feature') feature(doc);
+    else geometry(doc, DEFAULT_LAYER);
+    return toPlan('geojson', segments, doc.crs ? 'm' : 'deg', true);
+};
+
+/**
+ * Picks the parser from the file extension, or from the content when the
+ * extension is not recognized.
+ */
+export const parseVectorPlan = (text: string, fileName = ''): VectorPlan => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    if (extension === 'svg') return parseSVGPlan(text);
+    if (extension === 'dxf') return parseDXFPlan(text);
+    if (extension === 'geojson' || extension === 'json') return parseGeoJSONPlan(text);
+    const trimmed = text.trimStart();
+    if (trimmed.startsWith('<')) return parseSVGPlan(text);
+    if (trimmed.startsWith('{')) return parseGeoJSONPlan(text);
+    return parseDXFPlan(text);
+};
+
+// --- LAYERS ---
+/** What a layer becomes: walls of a material, background line work only, or nothing. */
+export type LayerAssignment = WallMaterial | 'background' | 'ignore';
+
+// Layer name patterns, first match wins
+const LAYER_PATTERNS: [RegExp, LayerAssignment][] = [
+    [/door/i, 'door_wood'],
+    [/glass|glaz|window|curtain/i, 'glass'],
+    [/concrete|beton|struct|shear|core|column/i, 'concrete'],
+    [/brick|masonry|block/i, 'brick'],
+    [/metal|steel/i, 'metal'],
+    [/wall|partition|drywall|gypsum|stud/i, 'drywall'],
+    [/text|anno|dim|hatch|furn|equip|grid|symbol|label/i, 'ignore'],
+];
+
+/** Suggested assignment for a layer from its name, e.g. `A-WALL-GLAZ` becomes glass. */
+export const suggestLayerAssignment = (layer: string): LayerAssignment => {
+    const match = LAYER_PATTERNS.find(([pattern]) => pattern.test(layer));
+    if (!match) return 'background';
+    // Metal doors are their own material
+    return match[1] === 'door_wood' && /metal|steel/i.test(layer) ? 'door_metal' : match[1];
+};
+
+// --- PLACEMENT ---
+const EARTH_RADIUS = 6371008.8;
+
+/**
+ * Converts a plan to meters in the canvas orientation (y down), shifted so
+ * that its bounding box starts at the origin. Degrees are projected onto a
+ * plane through the plan's center, which is exact enough at building scale.
+ */
+export const planToMeters = (plan: VectorPlan, units: PlanUnit): { segments: PlanSegment[]; width: number; height: number } => {
+    const bounds = boundsOf(plan.segments.flatMap(s => [s.start, s.end]));
+    const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 };
+    const perDegree = EARTH_RADIUS * Math.PI / 180;
+    const scale = units === 'deg'
+        ? { x: perDegree * Math.cos(center.y * Math.PI / 180), y: perDegree }
+        : { x: PLAN_UNITS[units].meters, y: PLAN_UNITS[units].meters };
+    const flip = plan.yUp ? -1 : 1;
+    const convert = (p: Vector2D): Vector2D => ({ x: (p.x - center.x) * scale.x, y: flip * (p.y - center.y) * scale.y });
+    const converted = plan.segments.map(s => ({ ...s, start: convert(s.start), end: convert(s.end) }));
+    const { minX, minY, maxX, maxY } = boundsOf(converted.flatMap(s => [s.start, s.end]));
+    const shift = (p: Vector2D): Vector2D => ({ x: p.x - minX, y: p.y - minY });
+    return {
+        segments: converted.map(s => ({ ...s, start: shift(s.start), end: shift(s.end) })),
+        width: maxX - minX,
+        height: maxY - minY,
+    };
+};
+
+/**
+ * Frame in which a plan from planToMeters keeps its own coordinates: the
+ * plan's corner at the scene origin, unrotated, at the given scale. However
+ * large the plan, it is placed 1:1 and the view zooms to it.
+ */
+export const planFrame = (pixelsPerMeter: number): CoordinateFrame => ({ pixelsPerMeter, origin: { x: 0, y: 0 }, rotation: 0 });
+
+/**
+ * Places plan segments in meters on the canvas through the frame. Segments of
+ * wall layers become walls; everything not ignored is also kept as background
+ * line work. Zero-length segments are dropped.
+ */
+export const placeVectorPlan = (
+    segments: PlanSegment[],
+    assignments: Record<string, LayerAssignment>,
+    frame: CoordinateFrame,
+    createId: () => string
+): { walls: Wall[]; background: Segment[] } => {
+    const walls: Wall[] = [];
+    const background: Segment[] = [];
+    segments.forEach(s => {
+        const assignment = assignments[s.layer] ?? 'background';
+        if (assignment === 'ignore') return;
+        const start = fromWorld(s.start, frame);
+        const end = fromWorld(s.end, frame);
+        if (start.x === end.x && start.y === end.y) return;
+        background.push({ start, end });
+        if (assignment === 'background') return;
+        const props = WALL_MATERIALS[assignment];
+        walls.push({ id: createId(), start, end, material: assignment, attenuation: props.attenuation, color: props.color });
+    });
+    return { walls, background };
+};
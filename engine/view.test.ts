@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { defaultView, screenToScene, sceneToScreen, zoomViewAt, panView, visibleArea, fitViewToArea, boundsOfPoints, unionRect, gridStepFor } from './view';
+
+const W = 1200, H = 900;
+
+describe('view transform', () => {
+    it('is the identity at the default view', () => {
+        const view = defaultView(W, H);
+        expect(screenToScene({ x: 30, y: 40 }, view, W, H)).toEqual({ x: 30, y: 40 });
+        expect(visibleArea(view, W, H)).toEqual({ x: 0, y: 0, width: W, height: H });
+    });
+
+    it('keeps the point under the cursor when zooming', () => {
+        const cursor = { x: 300, y: 200 };
+        const before = screenToScene(cursor, defaultView(W, H), W, H);
+        const view = zoomViewAt(defaultView(W, H), cursor, 0.25, W, H);
+        expect(view.zoom).toBe(0.25);
+        const after = screenToScene(cursor, view, W, H);
+        expect(after.x).toBeCloseTo(before.x);
+        expect(after.y).toBeCloseTo(before.y);
+        expect(sceneToScreen(after, view, W, H).x).toBeCloseTo(cursor.x);
+    });
+
+    it('clamps the zoom and moves the scene with a drag', () => {
+        expect(zoomViewAt(defaultView(W, H), { x: 0, y: 0 }, 1000, W, H).zoom).toBe(20);
+        const view = panView({ center: { x: 600, y: 450 }, zoom: 2 }, 100, -50);
+        expect(view.center).toEqual({ x: 550, y: 475 });
+    });
+});
+
+describe('fitViewToArea', () => {
+    it('centers the area and fits its longer side within the margin', () => {
+        const view = fitViewToArea({ x: 0, y: 0, width: 20000, height: 1000 }, W, H, 100);
+        expect(view.center).toEqual({ x: 10000, y: 500 });
+        expect(view.zoom).toBeCloseTo(0.05);
+        expect(fitViewToArea({ x: 5, y: 5, width: 0, height: 0 }, W, H).zoom).toBe(1);
+    });
+});
+
+describe('areas', () => {
+    it('bounds points and joins rectangles', () => {
+        expect(boundsOfPoints([])).toBeNull();
+        expect(boundsOfPoints([{ x: 3, y: -1 }, { x: -2, y: 4 }])).toEqual({ x: -2, y: -1, width: 5, height: 5 });
+        const many = Array.from({ length: 300000 }, (_, i) => ({ x: i, y: -i }));
+        expect(boundsOfPoints(many)).toEqual({ x: 0, y: -299999, width: 299999, height: 299999 });
+        expect(unionRect({ x: 0, y: 0, width: 10, height: 10 }, { x: 5, y: -5, width: 10, height: 5 })).toEqual({ x: 0, y: -5, width: 15, height: 15 });
+    });
+});
+
+describe('gridStepFor', () => {
+    it('coarsens the grid as the view zooms out', () => {
+        expect(gridStepFor(40, 1)).toBe(1);
+        expect(gridStepFor(40, 0.1)).toBe(5);
+        expect(gridStepFor(40, 0.001)).toBe(500);
+        expect(gridStepFor(40, 0.0001)).toBe(1000);
+    });
+});
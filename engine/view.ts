@@ -0,0 +1,108 @@
+import { Vector2D, Rect } from '../types';
+
+/**
+ * The 2D camera over the scene. Scene positions are in plan pixels (the units
+ * walls and radios are stored in, related to meters by the coordinate frame);
+ * the view decides which of them show on the canvas and how large.
+ */
+export interface ViewState {
+    /** Scene point shown at the middle of the canvas, pixels. */
+    center: Vector2D;
+    /** Canvas pixels per scene pixel. */
+    zoom: number;
+}
+
+export const MIN_ZOOM = 0.01;
+export const MAX_ZOOM = 20;
+
+/** The whole canvas-sized area at 1:1, as before zooming existed. */
+export const defaultView = (width: number, height: number): ViewState => ({ center: { x: width / 2, y: height / 2 }, zoom: 1 });
+
+export const screenToScene = (p: Vector2D, view: ViewState, width: number, height: number): Vector2D => ({
+    x: view.center.x + (p.x - width / 2) / view.zoom,
+    y: view.center.y + (p.y - height / 2) / view.zoom,
+});
+
+export const sceneToScreen = (p: Vector2D, view: ViewState, width: number, height: number): Vector2D => ({
+    x: width / 2 + (p.x - view.center.x) * view.zoom,
+    y: height / 2 + (p.y - view.center.y) * view.zoom,
+});
+
+/**
+ * Zooms by factor about a canvas point, which keeps showing the same scene
+ * point. Zoom is kept within MIN_ZOOM..MAX_ZOOM.
+ */
+export const zoomViewAt = (view: ViewState, screenPoint: Vector2D, factor: number, width: number, height: number): ViewState => {
+    const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom * factor));
+    const anchor = screenToScene(screenPoint, view, width, height);
+    return {
+        zoom,
+        center: {
+            x: anchor.x - (screenPoint.x - width / 2) / zoom,
+            y: anchor.y - (screenPoint.y - height / 2) / zoom,
+        },
+    };
+};
+
+/** Moves the scene along with a drag of dx, dy canvas pixels. */
+export const panView = (view: ViewState, dx: number, dy: number): ViewState => ({
+    ...view,
+    center: { x: view.center.x - dx / view.zoom, y: view.center.y - dy / view.zoom },
+});
+
+/** Scene area shown on the canvas. */
+export const visibleArea = (view: ViewState, width: number, height: number): Rect => ({
+    x: view.center.x - width / 2 / view.zoom,
+    y: view.center.y - height / 2 / view.zoom,
+    width: width / view.zoom,
+    height: height / view.zoom,
+});
+
+/** View that shows the area as large as fits within the margin (canvas pixels), centered. */
+export const fitViewToArea = (area: Rect, width: number, height: number, margin = 40): ViewState => {
+    const fits = [
+        area.width > 0 ? (width - 2 * margin) / area.width : Infinity,
+        area.height > 0 ? (height - 2 * margin) / area.height : Infinity,
+    ];
+    const zoom = Math.min(...fits);
+    return {
+        center: { x: area.x + area.width / 2, y: area.y + area.height / 2 },
+        zoom: Number.isFinite(zoom) ? Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom)) : 1,
+    };
+};
+
+// --- AREAS ---
+/**
+ * Smallest rectangle around the points; null without points. One pass, as
+ * large imported plans have more points than Math.min can take as arguments.
+ */
+export const boundsOfPoints = (points: Vector2D[]): Rect | null => {
+    if (points.length === 0) return null;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of points) {
+        minX = Math.min(minX, p.x);
+        maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y);
+        maxY = Math.max(maxY, p.y);
+    }
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+export const unionRect = (a: Rect, b: Rect): Rect => {
+    const x = Math.min(a.x, b.x), y = Math.min(a.y, b.y);
+    return { x, y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: Math.max(a.y + a.height, b.y + b.height) - y };
+};
+
+export const padRect = (r: Rect, padding: number): Rect =>
+    ({ x: r.x - padding, y: r.y - padding, width: r.width + 2 * padding, height: r.height + 2 * padding });
+
+// --- GRID LINES ---
+// Grid spacings in meters, finest first
+const GRID_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+
+/**
+ * Finest grid spacing, meters, whose lines stay at least minSpacing canvas
+ * pixels apart at this scale and zoom.
+ */
+export const gridStepFor = (pixelsPerMeter: number, zoom: number, minSpacing = 12): number =>
+    GRID_STEPS.find(step => step * pixelsPerMeter * zoom >= minSpacing) ?? GRID_STEPS[GRID_STEPS.length - 1];
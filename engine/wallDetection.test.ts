@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { BinaryImage, snapSegmentToAxis, mergeCollinearSegments, measureThickness, refineDetectedSegments, suggestWallMaterial } from './wallDetection';
+
+/** 200 x 200 mask with a horizontal bar of the given thickness centred on y = 100, x 20..180. */
+const barMask = (thickness: number): BinaryImage => {
+    const width = 200, height = 200;
+    const data = new Uint8Array(width * height);
+    const top = 100 - Math.floor(thickness / 2);
+    for (let y = top; y < top + thickness; y++) {
+        for (let x = 20; x <= 180; x++) data[y * width + x] = 1;
+    }
+    return { width, height, data };
+};
+
+describe('snapSegmentToAxis', () => {
+    it('levels nearly horizontal segments about their midpoint', () => {
+        const snapped = snapSegmentToAxis({ start: { x: 0, y: 0 }, end: { x: 100, y: 3 } }, Math.PI / 36);
+        expect(snapped.start.y).toBeCloseTo(1.5);
+        expect(snapped.end.y).toBeCloseTo(1.5);
+        expect(snapped.end.x - snapped.start.x).toBeCloseTo(Math.hypot(100, 3));
+    });
+
+    it('leaves diagonal segments alone', () => {
+        const segment = { start: { x: 0, y: 0 }, end: { x: 100, y: 100 } };
+        expect(snapSegmentToAxis(segment, Math.PI / 36)).toBe(segment);
+    });
+});
+
+describe('mergeCollinearSegments', () => {
+    it('joins fragments and duplicates along one line', () => {
+        const merged = mergeCollinearSegments([
+            { start: { x: 0, y: 0 }, end: { x: 50, y: 0 } },
+            { start: { x: 55, y: 0 }, end: { x: 120, y: 0 } },
+            { start: { x: 30, y: 1 }, end: { x: 80, y: 1 } },
+        ], Math.PI / 36, 8);
+        expect(merged).toHaveLength(1);
+        expect(Math.min(merged[0].start.x, merged[0].end.x)).toBeCloseTo(0);
+        expect(Math.max(merged[0].start.x, merged[0].end.x)).toBeCloseTo(120);
+    });
+
+    it('keeps crossing and distant parallel segments apart', () => {
+        const merged = mergeCollinearSegments([
+            { start: { x: 0, y: 0 }, end: { x: 100, y: 0 } },
+            { start: { x: 50, y: -50 }, end: { x: 50, y: 50 } },
+            { start: { x: 0, y: 40 }, end: { x: 100, y: 40 } },
+            { start: { x: 130, y: 0 }, end: { x: 200, y: 0 } },
+        ], Math.PI / 36, 8);
+        expect(merged).toHaveLength(4);
+    });
+});
+
+describe('measureThickness', () => {
+    it('measures the ink run across a wall', () => {
+        expect(measureThickness({ start: { x: 20, y: 100 }, end: { x: 180, y: 100 } }, barMask(10), 30)).toBe(10);
+    });
+
+    it('finds the run when the segment lies on its edge', () => {
+        expect(measureThickness({ start: { x: 20, y: 95 }, end: { x: 180, y: 95 } }, barMask(10), 30)).toBe(10);
+    });
+
+    it('is 0 without ink nearby', () => {
+        expect(measureThickness({ start: { x: 20, y: 10 }, end: { x: 180, y: 10 } }, barMask(10), 30)).toBe(0);
+    });
+});
+
+describe('refineDetectedSegments', () => {
+    const options = { pixelsPerMeter: 40, minWallLength: 1, mergeDistance: 20, maxThickness: 0.6 };
+
+    it('turns the two edges of a thick wall into one wall with a suggested material', () => {
+        const walls = refineDetectedSegments([
+            { start: { x: 20, y: 92 }, end: { x: 100, y: 92 } },
+            { start: { x: 95, y: 92 }, end: { x: 180, y: 93 } },
+            { start: { x: 20, y: 107 }, end: { x: 180, y: 107 } },
+        ], barMask(16), options);
+        expect(walls).toHaveLength(1);
+        expect(walls[0].start.y).toBeCloseTo(walls[0].end.y);
+        expect(walls[0].thickness).toBeCloseTo(16 / 40);
+        expect(walls[0].material).toBe('concrete');
+    });
+
+    it('drops segments shorter than the minimum wall length', () => {
+        const walls = refineDetectedSegments([{ start: { x: 20, y: 100 }, end: { x: 50, y: 100 } }], barMask(4), options);
+        expect(walls).toHaveLength(0);
+    });
+});
+
+describe('suggestWallMaterial', () => {
+    it('maps thin walls to drywall and thick ones to concrete', () => {
+        expect(suggestWallMaterial(0.1)).toBe('drywall');
+        expect(suggestWallMaterial(0.2)).toBe('brick');
+        expect(suggestWallMaterial(0.5)).toBe('concrete');
+    });
+});
@@ -0,0 +1,223 @@
+import { Vector2D, Segment, WallMaterial } from '../types';
+import { PIXELS_PER_METER } from '../constants';
+import { distance } from './geometry';
+
+/**
+ * Post-processing of line segments found in a floor plan image: raw Hough
+ * segments are snapped, merged and filtered into walls, and each wall's ink
+ * thickness suggests a material. The image stage itself runs in OpenCV.
+ */
+
+/** Row-major pixel mask, nonzero where the plan is drawn (wall ink). */
+export interface BinaryImage {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+export interface DetectedWall extends Segment {
+    /** Drawn thickness, meters; 0 when no ink was found under the wall. */
+    thickness: number;
+    material: WallMaterial;
+}
+
+export interface WallDetectionOptions {
+    // Image stage (OpenCV)
+    /** Canny hysteresis thresholds. */
+    cannyLow: number;
+    cannyHigh: number;
+    /** HoughLinesP accumulator threshold, votes. */
+    houghThreshold: number;
+    /** HoughLinesP minimum segment length and maximum gap bridged within a segment, pixels. */
+    minLineLength: number;
+    maxLineGap: number;
+    /** Gray level (0-255) below which a pixel counts as wall ink. */
+    inkThreshold: number;
+    // Segment stage
+    /** Segments within this angle of horizontal or vertical are made exactly so, radians. 0 disables. */
+    axisSnapAngle: number;
+    /** Largest angle between segments that are merged, radians. */
+    mergeAngle: number;
+    /** Largest offset across, and gap along, segments that are merged, pixels. */
+    mergeDistance: number;
+    /** Walls shorter than this after merging are dropped, meters. */
+    minWallLength: number;
+    /** Widest ink run measured across a wall, meters. */
+    maxThickness: number;
+    pixelsPerMeter: number;
+}
+
+export const DEFAULT_WALL_DETECTION_OPTIONS: WallDetectionOptions = {
+    cannyLow: 50,
+    cannyHigh: 150,
+    houghThreshold: 50,
+    minLineLength: 50,
+    maxLineGap: 10,
+    inkThreshold: 128,
+    axisSnapAngle: Math.PI / 36,
+    mergeAngle: Math.PI / 36,
+    mergeDistance: 12,
+    minWallLength: 1,
+    maxThickness: 0.6,
+    pixelsPerMeter: PIXELS_PER_METER,
+};
+
+/**
+ * Suggested material by drawn wall thickness, thinnest first: a wall gets the
+ * first material whose limit it does not exceed.
+ */
+export const WALL_THICKNESS_MATERIALS: { maxThickness: number; material: WallMaterial }[] = [
+    { maxThickness: 0.15, material: 'drywall' },
+    { maxThickness: 0.3, material: 'brick' },
+    { maxThickness: Infinity, material: 'concrete' },
+];
+
+export const suggestWallMaterial = (thickness: number): WallMaterial =>
+    WALL_THICKNESS_MATERIALS.find(t => thickness <= t.maxThickness).material;
+
+// --- SEGMENT HELPERS ---
+const direction = (s: Segment): Vector2D => {
+    const length = distance(s.start, s.end);
+    return length === 0 ? { x: 1, y: 0 } : { x: (s.end.x - s.start.x) / length, y: (s.end.y - s.start.y) / length };
+};
+
+const dot = (a: Vector2D, b: Vector2D) => a.x * b.x + a.y * b.y;
+const sub = (a: Vector2D, b: Vector2D): Vector2D => ({ x: a.x - b.x, y: a.y - b.y });
+
+/** Angle between the lines through two segments, 0..π/2. */
+const lineAngle = (a: Segment, b: Segment) => {
+    const cos = Math.abs(dot(direction(a), direction(b)));
+    return Math.acos(Math.min(1, cos));
+};
+
+/**
+ * Rotates a segment about its midpoint onto the nearest axis when it is
+ * within maxAngle of it.
+ */
+export const snapSegmentToAxis = (s: Segment, maxAngle: number): Segment => {
+    const dx = s.end.x - s.start.x;
+    const dy = s.end.y - s.start.y;
+    const angle = Math.atan2(dy, dx);
+    const axis = Math.round(angle / (Math.PI / 2)) * (Math.PI / 2);
+    if (maxAngle <= 0 || Math.abs(angle - axis) > maxAngle) return s;
+    const half = Math.hypot(dx, dy) / 2;
+    const mid = { x: (s.start.x + s.end.x) / 2, y: (s.start.y + s.end.y) / 2 };
+    const u = { x: Math.round(Math.cos(axis)), y: Math.round(Math.sin(axis)) };
+    return {
+        start: { x: mid.x - u.x * half, y: mid.y - u.y * half },
+        end: { x: mid.x + u.x * half, y: mid.y + u.y * half },
+    };
+};
+
+const canMerge = (a: Segment, b: Segment, maxAngle: number, maxDistance: number) => {
+    if (lineAngle(a, b) > maxAngle) return false;
+    const u = direction(a);
+    const n = { x: -u.y, y: u.x };
+    const offsets = [b.start, b.end].map(p => dot(sub(p, a.start), n));
+    if (offsets.some(o => Math.abs(o) > maxDistance)) return false;
+    const along = [b.start, b.end].map(p => dot(sub(p, a.start), u));
+    const gap = Math.max(0, Math.min(...along) - distance(a.start, a.end), -Math.max(...along));
+    return gap <= maxDistance;
+};
+
+/**
+ * Merges b into a: the result runs along a, spans both, and sits between
+ * their lines in proportion to their lengths.
+ */
+const mergePair = (a: Segment, b: Segment): Segment => {
+    const u = direction(a);
+    const n = { x: -u.y, y: u.x };
+    const lengthA = distance(a.start, a.end);
+    const lengthB = distance(b.start, b.end);
+    const along = [0, lengthA, ...[b.start, b.end].map(p => dot(sub(p, a.start), u))];
+    const offsetB = (dot(sub(b.start, a.start), n) + dot(sub(b.end, a.start), n)) / 2;
+    const offset = lengthA + lengthB > 0 ? offsetB * lengthB / (lengthA + lengthB) : 0;
+    const at = (t: number): Vector2D => ({ x: a.start.x + u.x * t + n.x * offset, y: a.start.y + u.y * t + n.y * offset });
+    return { start: at(Math.min(...along)), end: at(Math.max(...along)) };
+};
+
+/**
+ * Merges nearly collinear segments that overlap or nearly touch, including the
+ * two parallel edges Canny finds on either side of a thick wall. Longer
+ * segments keep their direction. Repeats until nothing merges.
+ */
+export const mergeCollinearSegments = (segments: Segment[], maxAngle: number, maxDistance: number): Segment[] => {
+    let merged = segments;
+    let changed = true;
+    while (changed) {
+        changed = false;
+        const byLength = [...merged].sort((a, b) => distance(b.start, b.end) - distance(a.start, a.end));
+        const out: Segment[] = [];
+        for (const segment of byLength) {
+            const i = out.findIndex(o => canMerge(o, segment, maxAngle, maxDistance));
+            if (i < 0) {
+                out.push(segment);
+            } else {
+                out[i] = mergePair(out[i], segment);
+                changed = true;
+            }
+        }
+        merged = out;
+    }
+    return merged;
+};
+
+// --- THICKNESS ---
+const isInk = (mask: BinaryImage, p: Vector2D) => {
+    const x = Math.round(p.x);
+    const y = Math.round(p.y);
+    return x >= 0 && y >= 0 && x < mask.width && y < mask.height && mask.data[y * mask.width + x] !== 0;
+};
+
+/**
+ * Width of the ink run across a segment, pixels: the median over a few
+ * stations along it of the run nearest the segment, looking at most maxWidth
+ * to either side. 0 when there is no ink near the segment.
+ */
+export const measureThickness = (s: Segment, mask: BinaryImage, maxWidth: number, stations = 9): number => {
+    const u = direction(s);
+    const n = { x: -u.y, y: u.x };
+    const reach = Math.ceil(maxWidth);
+    const widths: number[] = [];
+    for (let i = 1; i <= stations; i++) {
+        const t = i / (stations + 1);
+        const p = { x: s.start.x + (s.end.x - s.start.x) * t, y: s.start.y + (s.end.y - s.start.y) * t };
+        const inkAt = (k: number) => isInk(mask, { x: p.x + n.x * k, y: p.y + n.y * k });
+        // Nearest inked offset, then the run around it
+        let seed: number | null = null;
+        for (let k = 0; k <= reach && seed === null; k++) {
+            if (inkAt(k)) seed = k;
+            else if (inkAt(-k)) seed = -k;
+        }
+        if (seed === null) continue;
+        let lo = seed, hi = seed;
+        while (lo - 1 >= seed - reach && inkAt(lo - 1)) lo--;
+        while (hi + 1 <= seed + reach && inkAt(hi + 1)) hi++;
+        widths.push(hi - lo + 1);
+    }
+    if (widths.length === 0) return 0;
+    widths.sort((a, b) => a - b);
+    return widths[Math.floor(widths.length / 2)];
+};
+
+// --- PIPELINE ---
+/**
+ * Turns raw Hough segments into walls: snap to the axes, merge collinear
+ * pieces, drop short ones, then measure thickness against the ink mask and
+ * suggest a material for each.
+ */
+export const refineDetectedSegments = (
+    segments: Segment[],
+    mask: BinaryImage,
+    options: Partial<WallDetectionOptions> = {}
+): DetectedWall[] => {
+    const o = { ...DEFAULT_WALL_DETECTION_OPTIONS, ...options };
+    const snap = (s: Segment) => snapSegmentToAxis(s, o.axisSnapAngle);
+    const merged = mergeCollinearSegments(segments.map(snap), o.mergeAngle, o.mergeDistance).map(snap);
+    return merged
+        .filter(s => distance(s.start, s.end) >= o.minWallLength * o.pixelsPerMeter)
+        .map(s => {
+            const thickness = measureThickness(s, mask, o.maxThickness * o.pixelsPerMeter) / o.pixelsPerMeter;
+            return { ...s, thickness, material: suggestWallMaterial(thickness) };
+        });
+};
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Wall } from '../types';
+import { snapPoint, hitTestWalls, splitWall, joinWalls, closestPointOnSegment } from './walls';
+
+const wall = (id: string, x1: number, y1: number, x2: number, y2: number): Wall => ({
+    id, start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, material: 'concrete', attenuation: 10, color: 0
+});
+
+describe('closestPointOnSegment', () => {
+    it('clamps to the segment ends', () => {
+        expect(closestPointOnSegment({ x: 50, y: 10 }, { x: 0, y: 0 }, { x: 100, y: 0 })).toEqual({ x: 50, y: 0 });
+        expect(closestPointOnSegment({ x: 150, y: 10 }, { x: 0, y: 0 }, { x: 100, y: 0 })).toEqual({ x: 100, y: 0 });
+    });
+});
+
+describe('snapPoint', () => {
+    const walls = [wall('a', 100, 100, 200, 100)];
+
+    it('prefers nearby endpoints', () => {
+        const result = snapPoint({ x: 104, y: 97 }, walls, { endpointRadius: 10 });
+        expect(result).toEqual({ point: { x: 100, y: 100 }, kind: 'endpoint' });
+    });
+
+    it('ignores excluded walls', () => {
+        expect(snapPoint({ x: 104, y: 97 }, walls, { endpointRadius: 10, gridSize: 0 }, null, ['a']).kind).toBe('none');
+    });
+
+    it('snaps to the calibrated grid', () => {
+        const result = snapPoint({ x: 43, y: 78 }, [], { gridSize: 1 });
+        expect(result.kind).toBe('grid');
+        expect(result.point.x).toBeCloseTo(40);
+        expect(result.point.y).toBeCloseTo(80);
+    });
+
+    it('snaps direction and length relative to an anchor', () => {
+        const result = snapPoint({ x: 90, y: 4 }, [], { gridSize: 1, angleStep: Math.PI / 4 }, { x: 0, y: 0 });
+        expect(result.kind).toBe('angle');
+        expect(result.point.x).toBeCloseTo(80);
+        expect(result.point.y).toBeCloseTo(0);
+    });
+});
+
+describe('hitTestWalls', () => {
+    const walls = [wall('a', 0, 0, 100, 0), wall('b', 100, 0, 100, 100)];
+
+    it('prefers endpoints over bodies', () => {
+        expect(hitTestWalls({ x: 98, y: 2 }, walls, 5)).toMatchObject({ wall: { id: 'b' }, handle: 'start' });
+        expect(hitTestWalls({ x: 50, y: 3 }, walls, 5)).toMatchObject({ wall: { id: 'a' }, handle: 'body' });
+        expect(hitTestWalls({ x: 50, y: 50 }, walls, 5)).toBeNull();
+    });
+});
+
+describe('splitWall', () => {
+    it('splits at the projected point and keeps the material', () => {
+        const parts = splitWall(wall('a', 0, 0, 100, 0), { x: 30, y: 8 }, () => 'b');
+        expect(parts).not.toBeNull();
+        const [first, second] = parts!;
+        expect(first).toMatchObject({ id: 'a', start: { x: 0, y: 0 }, end: { x: 30, y: 0 }, material: 'concrete' });
+        expect(second).toMatchObject({ id: 'b', start: { x: 30, y: 0 }, end: { x: 100, y: 0 }, material: 'concrete' });
+    });
+
+    it('refuses to split at an endpoint', () => {
+        expect(splitWall(wall('a', 0, 0, 100, 0), { x: 0, y: 0 }, () => 'b')).toBeNull();
+    });
+});
+
+describe('joinWalls', () => {
+    it('merges touching collinear walls', () => {
+        const joined = joinWalls(wall('a', 0, 0, 50, 0), wall('b', 50, 0, 120, 0));
+        expect(joined).toMatchObject({ id: 'a', start: { x: 0, y: 0 }, end: { x: 120, y: 0 } });
+    });
+
+    it('rejects walls at an angle or far apart', () => {
+        expect(joinWalls(wall('a', 0, 0, 50, 0), wall('b', 50, 0, 50, 50))).toBeNull();
+        expect(joinWalls(wall('a', 0, 0, 50, 0), wall('b', 100, 0, 150, 0))).toBeNull();
+    });
+});
@@ -0,0 +1,178 @@
+import { Vector2D, Wall, CoordinateFrame } from '../types';
+import { distance, clamp } from './geometry';
+import { DEFAULT_FRAME, toWorld, fromWorld } from './frame';
+
+// --- SEGMENT HELPERS ---
+/**
+ * Closest point to p on the segment a -> b.
+ */
+export const closestPointOnSegment = (p: Vector2D, a: Vector2D, b: Vector2D): Vector2D => {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSq = dx * dx + dy * dy;
+    if (lengthSq === 0) return { ...a };
+    const t = clamp(((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq, 0, 1);
+    return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+export const distanceToSegment = (p: Vector2D, a: Vector2D, b: Vector2D) => distance(p, closestPointOnSegment(p, a, b));
+
+export const wallLength = (wall: Wall) => distance(wall.start, wall.end);
+
+export const translateWall = (wall: Wall, delta: Vector2D): Wall => ({
+    ...wall,
+    start: { x: wall.start.x + delta.x, y: wall.start.y + delta.y },
+    end: { x: wall.end.x + delta.x, y: wall.end.y + delta.y },
+});
+
+// --- SNAPPING ---
+export interface SnapOptions {
+    /** Distance in pixels within which a point sticks to an existing wall endpoint. 0 disables. */
+    endpointRadius: number;
+    /** Grid spacing in meters of the calibrated frame. 0 disables. */
+    gridSize: number;
+    /** Angle increment in radians for segments drawn from an anchor. 0 disables. */
+    angleStep: number;
+    frame: CoordinateFrame;
+}
+
+export const DEFAULT_SNAP_OPTIONS: SnapOptions = {
+    endpointRadius: 10,
+    gridSize: 0.5,
+    angleStep: Math.PI / 12,
+    frame: DEFAULT_FRAME,
+};
+
+export type SnapKind = 'endpoint' | 'angle' | 'grid' | 'none';
+
+export interface SnapResult {
+    point: Vector2D;
+    kind: SnapKind;
+}
+
+/**
+ * Snaps a pointer position for wall editing. Existing endpoints win over
+ * everything else; otherwise, when an anchor (the other end of the segment) is
+ * given, the direction is snapped to the angle increment and the length to the
+ * grid, and without an anchor the point itself is snapped to the grid.
+ * Walls listed in excludeIds are ignored so a wall does not snap to itself.
+ */
+export const snapPoint = (
+    p: Vector2D,
+    walls: Wall[],
+    options: Partial<SnapOptions> = {},
+    anchor: Vector2D | null = null,
+    excludeIds: string[] = []
+): SnapResult => {
+    const { endpointRadius, gridSize, angleStep, frame } = { ...DEFAULT_SNAP_OPTIONS, ...options };
+
+    if (endpointRadius > 0) {
+        let best: Vector2D | null = null;
+        let bestDist = endpointRadius;
+        for (const wall of walls) {
+            if (excludeIds.includes(wall.id)) continue;
+            for (const end of [wall.start, wall.end]) {
+                const d = distance(p, end);
+                if (d <= bestDist) {
+                    best = end;
+                    bestDist = d;
+                }
+            }
+        }
+        if (best) return { point: { ...best }, kind: 'endpoint' };
+    }
+
+    if (anchor && angleStep > 0) {
+        const a = toWorld(anchor, frame);
+        const w = toWorld(p, frame);
+        let length = Math.hypot(w.x - a.x, w.y - a.y);
+        if (length === 0) return { point: { ...p }, kind: 'none' };
+        const angle = Math.round(Math.atan2(w.y - a.y, w.x - a.x) / angleStep) * angleStep;
+        if (gridSize > 0) length = Math.max(gridSize, Math.round(length / gridSize) * gridSize);
+        const snapped = { x: a.x + length * Math.cos(angle), y: a.y + length * Math.sin(angle) };
+        return { point: fromWorld(snapped, frame), kind: 'angle' };
+    }
+
+    if (gridSize > 0) {
+        const w = toWorld(p, frame);
+        const snapped = { x: Math.round(w.x / gridSize) * gridSize, y: Math.round(w.y / gridSize) * gridSize };
+        return { point: fromWorld(snapped, frame), kind: 'grid' };
+    }
+
+    return { point: { ...p }, kind: 'none' };
+};
+
+// --- HIT TESTING ---
+export type WallHandle = 'start' | 'end' | 'body';
+
+export interface WallHit {
+    wall: Wall;
+    handle: WallHandle;
+}
+
+/**
+ * Topmost wall under the pointer. Endpoints are preferred over bodies so that
+ * the end of a wall can be grabbed where two walls meet.
+ */
+export const hitTestWalls = (p: Vector2D, walls: Wall[], tolerance: number): WallHit | null => {
+    for (let i = walls.length - 1; i >= 0; i--) {
+        const wall = walls[i];
+        if (distance(p, wall.start) <= tolerance) return { wall, handle: 'start' };
+        if (distance(p, wall.end) <= tolerance) return { wall, handle: 'end' };
+    }
+    for (let i = walls.length - 1; i >= 0; i--) {
+        if (distanceToSegment(p, walls[i].start, walls[i].end) <= tolerance) return { wall: walls[i], handle: 'body' };
+    }
+    return null;
+};
+
+// --- TOPOLOGY EDITS ---
+/**
+ * Splits a wall in two at the point on it closest to `at`. Both halves keep
+ * the material; the first half keeps the id. Returns null when the split point
+ * would leave a degenerate half.
+ */
+export const splitWall = (wall: Wall, at: Vector2D, createId: () => string, minLength = 1): [Wall, Wall] | null => {
+    const point = closestPointOnSegment(at, wall.start, wall.end);
+    if (distance(point, wall.start) < minLength || distance(point, wall.end) < minLength) return null;
+    return [
+        { ...wall, end: point },
+        { ...wall, id: createId(), start: { ...point } },
+    ];
+};
+
+/**
+ * Merges two nearly collinear walls into one spanning their farthest
+ * endpoints. The walls must touch or overlap: the gap between them may be at
+ * most `tolerance` pixels. The result keeps the first wall's id and material.
+ */
+export const joinWalls = (a: Wall, b: Wall, tolerance = 10, maxAngle = Math.PI / 36): Wall | null => {
+    const dirA = Math.atan2(a.end.y - a.start.y, a.end.x - a.start.x);
+    const dirB = Math.atan2(b.end.y - b.start.y, b.end.x - b.start.x);
+    // Direction is irrelevant, only the line through the wall matters
+    let diff = Math.abs(dirA - dirB) % Math.PI;
+    diff = Math.min(diff, Math.PI - diff);
+    if (diff > maxAngle) return null;
+
+    const gap = Math.min(
+        distanceToSegment(b.start, a.start, a.end),
+        distanceToSegment(b.end, a.start, a.end),
+        distanceToSegment(a.start, b.start, b.end),
+        distanceToSegment(a.end, b.start, b.end)
+    );
+    if (gap > tolerance) return null;
+
+    const points = [a.start, a.end, b.start, b.end];
+    let start = points[0], end = points[1], longest = -1;
+    for (let i = 0; i < points.length; i++) {
+        for (let j = i + 1; j < points.length; j++) {
+            const d = distance(points[i], points[j]);
+            if (d > longest) {
+                longest = d;
+                start = points[i];
+                end = points[j];
+            }
+        }
+    }
+    return { ...a, start: { ...start }, end: { ...end } };
+};
@@ -0,0 +1,66 @@
+import React, { useRef, useEffect, useCallback } from 'react';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { ViewState } from '../engine';
+import { createScene, sceneToThree, SceneRefs } from '../rendering/scene';
+
+/** What the layer hooks need: the scene objects and a way to ask for a redraw. */
+export interface SceneHandle {
+    threeRef: React.MutableRefObject<SceneRefs>;
+    requestRender: () => void;
+    /** Draws right away and returns the canvas as a data URL; null before the scene is set up. */
+    snapshot: (type?: string) => string | null;
+}
+
+/**
+ * Sets up the scene on the canvas once it is mounted. Nothing is drawn until a
+ * layer asks for it, and then at most once per animation frame. The 2D camera
+ * follows the view's zoom and pan.
+ */
+export const useScene = (canvasRef: React.RefObject<HTMLCanvasElement>, view3D: boolean, view: ViewState): SceneHandle => {
+    const threeRef = useRef<SceneRefs>({});
+    const renderFrameRef = useRef<number | null>(null);
+    const view3DRef = useRef(view3D);
+    view3DRef.current = view3D;
+
+    useEffect(() => {
+        if (canvasRef.current) threeRef.current = createScene(canvasRef.current);
+    }, [canvasRef]);
+
+    const draw = useCallback(() => {
+        const { renderer, scene, camera, perspectiveCamera } = threeRef.current;
+        renderer?.render(scene, view3DRef.current ? perspectiveCamera : camera);
+    }, []);
+    const requestRender = useCallback(() => {
+        if (renderFrameRef.current !== null) return;
+        renderFrameRef.current = requestAnimationFrame(() => {
+            renderFrameRef.current = null;
+            draw();
+        });
+    }, [draw]);
+    // The WebGL drawing buffer is not kept between frames, so the snapshot draws and reads it in one go
+    const snapshot = useCallback((type = 'image/png') => {
+        const { renderer } = threeRef.current;
+        if (!renderer) return null;
+        draw();
+        return renderer.domElement.toDataURL(type);
+    }, [draw]);
+    useEffect(() => () => {
+        if (renderFrameRef.current !== null) cancelAnimationFrame(renderFrameRef.current);
+    }, []);
+
+    // Centered on the view, showing the canvas size divided by the zoom
+    useEffect(() => {
+        const { camera } = threeRef.current;
+        if (!camera) return;
+        const center = sceneToThree(view.center);
+        camera.left = -CANVAS_WIDTH / 2 / view.zoom;
+        camera.right = CANVAS_WIDTH / 2 / view.zoom;
+        camera.top = CANVAS_HEIGHT / 2 / view.zoom;
+        camera.bottom = -CANVAS_HEIGHT / 2 / view.zoom;
+        camera.position.set(center.x, center.y, camera.position.z);
+        camera.updateProjectionMatrix();
+        requestRender();
+    }, [view, requestRender]);
+
+    return { threeRef, requestRender, snapshot };
+};
@@ -0,0 +1,682 @@
+import React, { useEffect, useCallback } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { Vector2D, Rect, Segment, Wall, WallMaterial, Radio, Device, TrackedDevice, BuildingModel, CoordinateFrame, GridMap, Measurement, MountingZone, SolverId, SolverResult, TrackSample, ReferencePoint } from '../types';
+import { WALL_MATERIALS, CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { clamp, floorOf, fromWorld, worldBounds, containRect, radioElevation, deviceElevation, covarianceEllipse, Matrix, SOLVERS, RadioDiagnostic, LogReplaySample, PlacementCandidate, RadioMap, FingerprintMatch, DetectedWall, DeviceFix } from '../engine';
+import { createGridMesh } from '../rendering/gridTexture';
+import { sceneToThree, disposeGroup } from '../rendering/scene';
+import { SceneHandle } from './useScene';
+
+// Each layer rebuilds only its own group when its inputs change.
+// Objects the pointer can grab are marked with userData.pickable.
+
+/** Grid lines every step meters in the calibrated frame, over the visible area. */
+export const useGridLayer = ({ threeRef, requestRender }: SceneHandle, { frame, area, step }: {
+    frame: CoordinateFrame;
+    area: Rect;
+    step: number;
+}) => {
+    useEffect(() => {
+        const { gridGroup } = threeRef.current;
+        if (!gridGroup) return;
+        disposeGroup(gridGroup);
+        const color = 0x2d3748; // gray-700
+        const { minX, maxX, minY, maxY } = worldBounds(area.width, area.height, frame, area);
+        const points: THREE.Vector3[] = [];
+        const addLine = (a: Vector2D, b: Vector2D) => {
+            const start = sceneToThree(fromWorld(a, frame));
+            const end = sceneToThree(fromWorld(b, frame));
+            points.push(new THREE.Vector3(start.x, start.y, 0), new THREE.Vector3(end.x, end.y, 0));
+        };
+        for (let x = Math.floor(minX / step) * step; x <= maxX; x += step) addLine({ x, y: minY }, { x, y: maxY });
+        for (let y = Math.floor(minY / step) * step; y <= maxY; y += step) addLine({ x: minX, y }, { x: maxX, y });
+        gridGroup.add(new THREE.LineSegments(new THREE.BufferGeometry().setFromPoints(points), new THREE.LineBasicMaterial({ color })));
+        requestRender();
+    }, [threeRef, frame, area, step, requestRender]);
+};
+
+/**
+ * Radios: one mesh per radio, kept across updates and moved in place. Drawn
+ * markerScale times their size, so they stay readable when zoomed out.
+ */
+export const useRadioLayer = ({ threeRef, requestRender }: SceneHandle, { radios, selectedRadioId, activeFloor, markerScale }: {
+    radios: Radio[];
+    selectedRadioId: string | null;
+    activeFloor: number;
+    markerScale: number;
+}) => {
+    useEffect(() => {
+        const { radiosGroup, radioMarksGroup, radioMeshes, unitCircle } = threeRef.current;
+        if (!radiosGroup || !radioMarksGroup || !radioMeshes || !unitCircle) return;
+        const ids = new Set(radios.map(r => r.id));
+        radioMeshes.forEach((mesh, id) => {
+            if (ids.has(id)) return;
+            (mesh.material as THREE.Material).dispose();
+            radiosGroup.remove(mesh);
+            radioMeshes.delete(id);
+        });
+        disposeGroup(radioMarksGroup);
+        radios.forEach(radio => {
+            let mesh = radioMeshes.get(radio.id);
+            if (!mesh) {
+                mesh = new THREE.Mesh(unitCircle, new THREE.MeshBasicMaterial());
+                radioMeshes.set(radio.id, mesh);
+                radiosGroup.add(mesh);
+            }
+            const pos = sceneToThree(radio);
+            // Radios on other floors are shown faded and cannot be picked
+            const onFloor = floorOf(radio) === activeFloor;
+            const material = mesh.material as THREE.MeshBasicMaterial;
+            material.color.set(radio.enabled === false ? 0x6b7280 : 0x4ade80); // gray-500 when failed, else green-400
+            if (material.transparent === onFloor) material.needsUpdate = true;
+            material.transparent = !onFloor;
+            material.opacity = onFloor ? 1 : 0.3;
+            const size = radio.radius * markerScale;
+            mesh.position.set(pos.x, pos.y, 3);
+            mesh.scale.setScalar(size);
+            mesh.userData = { type: 'radio', target: radio, pickable: onFloor };
+
+            if (radio.antenna && radio.antenna !== 'omni') {
+                // Boresight; orientation is counter-clockwise on screen, as is the Three.js y-up view
+                const angle = (radio.orientation ?? 0) * Math.PI / 180;
+                const tip = new THREE.Vector3(pos.x + Math.cos(angle) * size * 3, pos.y + Math.sin(angle) * size * 3, 3);
+                const lineGeo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(pos.x, pos.y, 3), tip]);
+                radioMarksGroup.add(new THREE.Line(lineGeo, new THREE.LineBasicMaterial({ color: 0x4ade80 })));
+            }
+            if (radio.id === selectedRadioId) {
+                const ring = new THREE.Mesh(new THREE.RingGeometry(size + 2 * markerScale, size + 4 * markerScale, 32), new THREE.MeshBasicMaterial({ color: 0x22d3ee }));
+                ring.position.set(pos.x, pos.y, 3);
+                radioMarksGroup.add(ring);
+            }
+        });
+        requestRender();
+    }, [threeRef, radios, selectedRadioId, activeFloor, markerScale, requestRender]);
+};
+
+/**
+ * Devices: one mesh each, kept across updates and moved in place, in their
+ * colors and scaled like the radios. The selected device is drawn where it
+ * currently is (`shown`, e.g. during playback); the others are joined to
+ * their own estimates.
+ */
+export const useDeviceLayer = ({ threeRef, requestRender }: SceneHandle, { devices, selectedId, shown, fixes, activeFloor, showHeading, markerScale }: {
+    devices: TrackedDevice[];
+    selectedId: string;
+    shown: Device;
+    fixes: Map<string, DeviceFix>;
+    activeFloor: number;
+    showHeading: boolean;
+    markerScale: number;
+}) => {
+    useEffect(() => {
+        const { deviceGroup, deviceMarksGroup, deviceMeshes, unitCircle } = threeRef.current;
+        if (!deviceGroup || !deviceMarksGroup || !deviceMeshes || !unitCircle) return;
+        const ids = new Set(devices.map(d => d.id));
+        deviceMeshes.forEach((mesh, id) => {
+            if (ids.has(id)) return;
+            (mesh.material as THREE.Material).dispose();
+            deviceGroup.remove(mesh);
+            deviceMeshes.delete(id);
+        });
+        disposeGroup(deviceMarksGroup);
+        devices.forEach(device => {
+            let mesh = deviceMeshes.get(device.id);
+            if (!mesh) {
+                mesh = new THREE.Mesh(unitCircle, new THREE.MeshBasicMaterial());
+                deviceMeshes.set(device.id, mesh);
+                deviceGroup.add(mesh);
+            }
+            const selected = device.id === selectedId;
+            const position = selected ? shown : device;
+            const devPos = sceneToThree(position);
+            const size = device.radius * markerScale;
+            const onFloor = floorOf(position) === activeFloor;
+            const material = mesh.material as THREE.MeshBasicMaterial;
+            material.color.set(device.color);
+            if (material.transparent === onFloor) material.needsUpdate = true;
+            material.transparent = !onFloor;
+            material.opacity = onFloor ? 1 : 0.3;
+            mesh.position.set(devPos.x, devPos.y, 3);
+            mesh.scale.setScalar(size);
+            mesh.userData = { type: 'device', target: device, pickable: onFloor };
+
+            if (showHeading && position.heading !== undefined) {
+                // Facing direction; the body shadows the cone behind it
+                const angle = position.heading * Math.PI / 180;
+                const tip = new THREE.Vector3(devPos.x + Math.cos(angle) * size * 3, devPos.y + Math.sin(angle) * size * 3, 3);
+                const headingGeo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(devPos.x, devPos.y, 3), tip]);
+                deviceMarksGroup.add(new THREE.Line(headingGeo, new THREE.LineBasicMaterial({ color: device.color })));
+            }
+            if (selected && devices.length > 1) {
+                const ring = new THREE.Mesh(new THREE.RingGeometry(size + 2 * markerScale, size + 4 * markerScale, 32), new THREE.MeshBasicMaterial({ color: 0x22d3ee }));
+                ring.position.set(devPos.x, devPos.y, 3);
+                deviceMarksGroup.add(ring);
+            }
+            // The selected device's estimates are drawn per solver by the estimate layer
+            const fix = fixes.get(device.id);
+            if (selected || !fix?.position) return;
+            const estPos = sceneToThree(fix.position);
+            const estimate = new THREE.Mesh(new THREE.CircleGeometry(6, 32), new THREE.MeshBasicMaterial({ color: device.color }));
+            estimate.position.set(estPos.x, estPos.y, 2);
+            deviceMarksGroup.add(estimate);
+            const lineGeo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(devPos.x, devPos.y, 2.5), new THREE.Vector3(estPos.x, estPos.y, 2.5)]);
+            const line = new THREE.Line(lineGeo, new THREE.LineDashedMaterial({ color: device.color, dashSize: 5, gapSize: 3 }));
+            line.computeLineDistances();
+            deviceMarksGroup.add(line);
+        });
+        requestRender();
+    }, [threeRef, devices, selectedId, shown, fixes, activeFloor, showHeading, markerScale, requestRender]);
+};
+
+/** Walls of the floor being edited, with handles on the selected ones. */
+export const useWallLayer = ({ threeRef, requestRender }: SceneHandle, { walls, selectedWallIds }: {
+    walls: Wall[];
+    selectedWallIds: string[];
+}) => {
+    useEffect(() => {
+        const { wallsGroup } = threeRef.current;
+        if (!wallsGroup) return;
+        disposeGroup(wallsGroup);
+        walls.forEach(wall => {
+            const selected = selectedWallIds.includes(wall.id);
+            const start = sceneToThree(wall.start);
+            const end = sceneToThree(wall.end);
+            const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(start.x, start.y, 2), new THREE.Vector3(end.x, end.y, 2)]);
+            const mat = new THREE.LineBasicMaterial({ color: selected ? 0x22d3ee : wall.color, linewidth: 3 }); // cyan-400 when selected
+            const line = new THREE.Line(geo, mat);
+            line.userData = { type: 'wall', target: wall, pickable: true };
+            wallsGroup.add(line);
+            if (!selected) return;
+            (['start', 'end'] as const).forEach(endpoint => {
+                const pos = sceneToThree(wall[endpoint]);
+                const handle = new THREE.Mesh(new THREE.PlaneGeometry(8, 8), new THREE.MeshBasicMaterial({ color: 0x22d3ee }));
+                handle.position.set(pos.x, pos.y, 5);
+                handle.userData = { type: 'wallEndpoint', target: wall, endpoint, pickable: true };
+                wallsGroup.add(handle);
+            });
+        });
+        requestRender();
+    }, [threeRef, walls, selectedWallIds, requestRender]);
+};
+
+/**
+ * Wall and zone being drawn. They live in refs, so the pointer handlers call
+ * the returned function to redraw them directly.
+ */
+export const useTempShapesLayer = ({ threeRef, requestRender }: SceneHandle, { drawWallMode, tempWallRef, tempZoneRef }: {
+    drawWallMode: boolean;
+    tempWallRef: React.MutableRefObject<{ start: Vector2D; end: Vector2D } | null>;
+    tempZoneRef: React.MutableRefObject<{ start: Vector2D; end: Vector2D } | null>;
+}) => {
+    const drawTempShapes = useCallback(() => {
+        const { tempWallGroup } = threeRef.current;
+        if (!tempWallGroup) return;
+        disposeGroup(tempWallGroup);
+        if (drawWallMode && tempWallRef.current) {
+            const start = sceneToThree(tempWallRef.current.start);
+            const end = sceneToThree(tempWallRef.current.end); // End is updated on mouse move
+            const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(start.x, start.y, 4), new THREE.Vector3(end.x, end.y, 4)]);
+            const mat = new THREE.LineDashedMaterial({ color: 0xfb923c, dashSize: 5, gapSize: 3 });
+            const line = new THREE.Line(geo, mat);
+            line.computeLineDistances();
+            tempWallGroup.add(line);
+        }
+        if (tempZoneRef.current) {
+            const { start, end } = tempZoneRef.current;
+            const width = Math.abs(end.x - start.x);
+            const height = Math.abs(end.y - start.y);
+            const center = sceneToThree({ x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 });
+            const mesh = new THREE.Mesh(new THREE.PlaneGeometry(Math.max(width, 1), Math.max(height, 1)), new THREE.MeshBasicMaterial({ color: 0x6366f1, transparent: true, opacity: 0.2 })); // indigo-500
+            mesh.position.set(center.x, center.y, -0.5);
+            tempWallGroup.add(mesh);
+        }
+        requestRender();
+    }, [threeRef, drawWallMode, tempWallRef, tempZoneRef, requestRender]);
+    useEffect(drawTempShapes, [drawTempShapes]);
+    return drawTempShapes;
+};
+
+/** Range circles, faded or grayed out by the weight the solver gave them. */
+export const useRangeLayer = ({ threeRef, requestRender }: SceneHandle, { measurements, diagnostics, pixelsPerMeter }: {
+    measurements: Measurement[];
+    diagnostics: RadioDiagnostic[];
+    pixelsPerMeter: number;
+}) => {
+    useEffect(() => {
+        const { circlesGroup } = threeRef.current;
+        if (!circlesGroup) return;
+        disposeGroup(circlesGroup);
+        measurements.forEach(m => {
+            const pos = sceneToThree(m.radio);
+            const radius = m.estimatedDistance * pixelsPerMeter;
+            const colorVal = clamp((m.rssi + 100) / 40, 0, 1);
+            const color = new THREE.Color().setHSL(0.33 * colorVal, 0.8, 0.5);
+            // Rejected ranges are gray, down-weighted ones fade with their weight
+            const weight = diagnostics.find(d => d.radioId === m.radio.id)?.weight ?? 1;
+            if (weight === 0) color.set(0x6b7280); // gray-500
+
+            const geo = new THREE.RingGeometry(radius - 1, radius, 64);
+            const mat = new THREE.MeshBasicMaterial({ color, side: THREE.DoubleSide, transparent: weight < 1, opacity: weight === 0 ? 0.6 : 0.3 + 0.7 * weight });
+            const mesh = new THREE.Mesh(geo, mat);
+            mesh.position.set(pos.x, pos.y, 1);
+            circlesGroup.add(mesh);
+        });
+        requestRender();
+    }, [threeRef, measurements, diagnostics, pixelsPerMeter, requestRender]);
+};
+
+/**
+ * Estimated positions joined to the true one, the first in the list drawn
+ * largest, and the 1σ and 2σ error ellipses of that primary estimate.
+ */
+export const useEstimateLayer = ({ threeRef, requestRender }: SceneHandle, { truth, estimates, covariance }: {
+    truth: Vector2D;
+    estimates: { solverId: SolverId; result: SolverResult | null }[];
+    /** Covariance of the primary estimate; null hides the ellipses. */
+    covariance: Matrix | null;
+}) => {
+    useEffect(() => {
+        const { estimatedGroup } = threeRef.current;
+        if (!estimatedGroup) return;
+        disposeGroup(estimatedGroup);
+        const devPos = sceneToThree(truth);
+        estimates.forEach(({ solverId: id, result }, i) => {
+            if (!result) return;
+            const color = SOLVERS[id].color;
+            const pos = sceneToThree(result.position);
+            const geo = new THREE.CircleGeometry(i === 0 ? 8 : 6, 32);
+            const mat = new THREE.MeshBasicMaterial({ color });
+            const mesh = new THREE.Mesh(geo, mat);
+            mesh.position.set(pos.x, pos.y, 2);
+            estimatedGroup.add(mesh);
+
+            const lineGeo = new THREE.BufferGeometry().setFromPoints([
+                new THREE.Vector3(devPos.x, devPos.y, 2.5),
+                new THREE.Vector3(pos.x, pos.y, 2.5)
+            ]);
+            const lineMat = new THREE.LineDashedMaterial({ color, dashSize: 5, gapSize: 3 });
+            const line = new THREE.Line(lineGeo, lineMat);
+            line.computeLineDistances();
+            estimatedGroup.add(line);
+        });
+
+        const primary = estimates[0];
+        if (primary?.result && covariance) {
+            const center = sceneToThree(primary.result.position);
+            const color = SOLVERS[primary.solverId].color;
+            [1, 2].forEach(sigma => {
+                const { semiMajor, semiMinor, angle } = covarianceEllipse(covariance, sigma);
+                if (semiMajor <= 0) return;
+                // Canvas y points down, so the rotation flips in the scene
+                const curve = new THREE.EllipseCurve(center.x, center.y, semiMajor, semiMinor, 0, 2 * Math.PI, false, -angle);
+                const geo = new THREE.BufferGeometry().setFromPoints(curve.getPoints(64).map(p => new THREE.Vector3(p.x, p.y, 2.4)));
+                const mat = sigma === 1
+                    ? new THREE.LineBasicMaterial({ color })
+                    : new THREE.LineDashedMaterial({ color, dashSize: 5, gapSize: 3 });
+                const line = new THREE.Line(geo, mat);
+                line.computeLineDistances();
+                estimatedGroup.add(line);
+            });
+        }
+        requestRender();
+    }, [threeRef, truth, estimates, covariance, requestRender]);
+};
+
+/** Motion path, the track played back so far, and the replayed log up to now. */
+export const useTrackLayer = ({ threeRef, requestRender }: SceneHandle, { motionPath, trackSamples, currentSample, showFiltered, logSamples, currentLogSample }: {
+    motionPath: Vector2D[];
+    trackSamples: TrackSample[];
+    currentSample: TrackSample | null;
+    showFiltered: boolean;
+    logSamples: LogReplaySample[];
+    currentLogSample: LogReplaySample | null;
+}) => {
+    useEffect(() => {
+        const { trackGroup } = threeRef.current;
+        if (!trackGroup) return;
+        disposeGroup(trackGroup);
+        const toPoints = (points: Vector2D[], z: number) => points.map(p => {
+            const pos = sceneToThree(p);
+            return new THREE.Vector3(pos.x, pos.y, z);
+        });
+        if (motionPath.length > 1) {
+            const geo = new THREE.BufferGeometry().setFromPoints(toPoints(motionPath, 1.5));
+            trackGroup.add(new THREE.Line(geo, new THREE.LineBasicMaterial({ color: 0x38bdf8 }))); // sky-400
+        }
+        motionPath.forEach(p => {
+            const pos = sceneToThree(p);
+            const mesh = new THREE.Mesh(new THREE.CircleGeometry(3, 16), new THREE.MeshBasicMaterial({ color: 0x38bdf8 }));
+            mesh.position.set(pos.x, pos.y, 1.5);
+            trackGroup.add(mesh);
+        });
+        if (currentSample) {
+            const shown = trackSamples.filter(s => s.time <= currentSample.time);
+            const raw = shown.filter(s => s.raw).map(s => s.raw);
+            raw.forEach(p => {
+                const pos = sceneToThree(p);
+                const mesh = new THREE.Mesh(new THREE.CircleGeometry(2, 8), new THREE.MeshBasicMaterial({ color: 0x9ca3af })); // gray-400
+                mesh.position.set(pos.x, pos.y, 1.6);
+                trackGroup.add(mesh);
+            });
+            const filtered = shown.filter(s => s.filtered).map(s => s.filtered);
+            if (showFiltered && filtered.length > 1) {
+                const geo = new THREE.BufferGeometry().setFromPoints(toPoints(filtered, 1.7));
+                trackGroup.add(new THREE.Line(geo, new THREE.LineBasicMaterial({ color: 0xfacc15 }))); // yellow-400
+            }
+        }
+        if (currentLogSample) {
+            const shown = logSamples.filter(s => s.time <= currentLogSample.time);
+            const truth = shown.filter(s => s.truth).map(s => s.truth);
+            if (truth.length > 1) {
+                const geo = new THREE.BufferGeometry().setFromPoints(toPoints(truth, 1.5));
+                trackGroup.add(new THREE.Line(geo, new THREE.LineBasicMaterial({ color: 0x38bdf8 }))); // sky-400
+            }
+            shown.filter(s => s.estimate).forEach(s => {
+                const pos = sceneToThree(s.estimate.position);
+                const mesh = new THREE.Mesh(new THREE.CircleGeometry(2, 8), new THREE.MeshBasicMaterial({ color: 0x9ca3af })); // gray-400
+                mesh.position.set(pos.x, pos.y, 1.6);
+                trackGroup.add(mesh);
+            });
+        }
+        requestRender();
+    }, [threeRef, motionPath, currentSample, trackSamples, showFiltered, currentLogSample, logSamples, requestRender]);
+};
+
+/** A colored grid overlay (heatmap or coverage map); nothing while the grid is null. */
+export const useGridMapLayer = ({ threeRef, requestRender }: SceneHandle, group: 'heatmapGroup' | 'coverageGroup', { grid, texture, z }: {
+    grid: GridMap | null;
+    texture: THREE.Texture | null;
+    z: number;
+}) => {
+    useEffect(() => {
+        const layer = threeRef.current[group];
+        if (!layer) return;
+        disposeGroup(layer);
+        if (grid && texture) layer.add(createGridMesh(grid, texture, z));
+        requestRender();
+    }, [threeRef, group, grid, texture, z, requestRender]);
+};
+
+/** Mounting zones and the placement being previewed. */
+export const usePlacementLayer = ({ threeRef, requestRender }: SceneHandle, { zones, preview }: {
+    zones: MountingZone[];
+    preview: PlacementCandidate | null;
+}) => {
+    useEffect(() => {
+        const { placementGroup } = threeRef.current;
+        if (!placementGroup) return;
+        disposeGroup(placementGroup);
+        zones.forEach(zone => {
+            const center = sceneToThree({ x: zone.x + zone.width / 2, y: zone.y + zone.height / 2 });
+            const geo = new THREE.PlaneGeometry(Math.max(zone.width, 1), Math.max(zone.height, 1));
+            const mat = new THREE.MeshBasicMaterial({ color: 0x6366f1, transparent: true, opacity: 0.2 }); // indigo-500
+            const mesh = new THREE.Mesh(geo, mat);
+            mesh.position.set(center.x, center.y, -0.5);
+            placementGroup.add(mesh);
+        });
+        preview?.positions.forEach(p => {
+            const pos = sceneToThree(p);
+            const geo = new THREE.RingGeometry(8, 12, 32);
+            const mat = new THREE.MeshBasicMaterial({ color: 0xa78bfa, side: THREE.DoubleSide }); // violet-400
+            const mesh = new THREE.Mesh(geo, mat);
+            mesh.position.set(pos.x, pos.y, 3.5);
+            placementGroup.add(mesh);
+        });
+        requestRender();
+    }, [threeRef, zones, preview, requestRender]);
+};
+
+/** Calibration points and the world axes. */
+export const useCalibrationLayer = ({ threeRef, requestRender }: SceneHandle, { points, frame }: {
+    points: Vector2D[];
+    frame: CoordinateFrame;
+}) => {
+    useEffect(() => {
+        const { calibrationGroup } = threeRef.current;
+        if (!calibrationGroup) return;
+        disposeGroup(calibrationGroup);
+        points.forEach(p => {
+            const pos = sceneToThree(p);
+            const mesh = new THREE.Mesh(new THREE.CircleGeometry(4, 16), new THREE.MeshBasicMaterial({ color: 0xf472b6 })); // pink-400
+            mesh.position.set(pos.x, pos.y, 5);
+            calibrationGroup.add(mesh);
+        });
+        if (points.length === 2) {
+            const [a, b] = points.map(sceneToThree);
+            const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(a.x, a.y, 5), new THREE.Vector3(b.x, b.y, 5)]);
+            calibrationGroup.add(new THREE.Line(geo, new THREE.LineBasicMaterial({ color: 0xf472b6 })));
+        }
+        // World axes, one meter long: x red, y green
+        const originPos = sceneToThree(frame.origin);
+        [[{ x: 1, y: 0 }, 0xef4444], [{ x: 0, y: 1 }, 0x22c55e]].forEach(([axis, color]) => {
+            const tip = sceneToThree(fromWorld(axis as Vector2D, frame));
+            const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(originPos.x, originPos.y, 5), new THREE.Vector3(tip.x, tip.y, 5)]);
+            calibrationGroup.add(new THREE.Line(geo, new THREE.LineBasicMaterial({ color: color as number })));
+        });
+        requestRender();
+    }, [threeRef, points, frame, requestRender]);
+};
+
+/** Reference points and experiment test points. */
+export const useReferenceLayer = ({ threeRef, requestRender }: SceneHandle, { referencePoints, testPoints }: {
+    referencePoints: ReferencePoint[];
+    testPoints: Vector2D[];
+}) => {
+    useEffect(() => {
+        const { referenceGroup } = threeRef.current;
+        if (!referenceGroup) return;
+        disposeGroup(referenceGroup);
+        referencePoints.forEach(point => {
+            const pos = sceneToThree(point.position);
+            const mesh = new THREE.Mesh(new THREE.PlaneGeometry(8, 8), new THREE.MeshBasicMaterial({ color: 0xfb923c })); // orange-400
+            mesh.position.set(pos.x, pos.y, 4);
+            mesh.rotation.z = Math.PI / 4;
+            referenceGroup.add(mesh);
+        });
+        testPoints.forEach(p => {
+            const pos = sceneToThree(p);
+            const cross = new THREE.BufferGeometry().setFromPoints([
+                new THREE.Vector3(pos.x - 5, pos.y - 5, 4), new THREE.Vector3(pos.x + 5, pos.y + 5, 4),
+                new THREE.Vector3(pos.x - 5, pos.y + 5, 4), new THREE.Vector3(pos.x + 5, pos.y - 5, 4),
+            ]);
+            referenceGroup.add(new THREE.LineSegments(cross, new THREE.LineBasicMaterial({ color: 0x2dd4bf }))); // teal-400
+        });
+        requestRender();
+    }, [threeRef, referencePoints, testPoints, requestRender]);
+};
+
+/** Radio map: survey points on this floor, the matched ones ringed and joined to the estimate. */
+export const useFingerprintLayer = ({ threeRef, requestRender }: SceneHandle, { radioMap, activeFloor, estimate }: {
+    /** Null hides the survey points. */
+    radioMap: RadioMap | null;
+    activeFloor: number;
+    estimate: FingerprintMatch | null;
+}) => {
+    useEffect(() => {
+        const { fingerprintGroup } = threeRef.current;
+        if (!fingerprintGroup) return;
+        disposeGroup(fingerprintGroup);
+        radioMap?.fingerprints.filter(f => f.floor === activeFloor).forEach(f => {
+            const pos = sceneToThree(f.position);
+            const mesh = new THREE.Mesh(new THREE.CircleGeometry(1.5, 8), new THREE.MeshBasicMaterial({ color: 0x6b7280 })); // gray-500
+            mesh.position.set(pos.x, pos.y, 0.5);
+            fingerprintGroup.add(mesh);
+        });
+        if (estimate) {
+            const estimatePos = sceneToThree(estimate.position);
+            estimate.neighbours.forEach(({ fingerprint }) => {
+                const pos = sceneToThree(fingerprint.position);
+                const ring = new THREE.Mesh(new THREE.RingGeometry(4, 6, 16), new THREE.MeshBasicMaterial({ color: 0xe879f9 })); // fuchsia-400
+                ring.position.set(pos.x, pos.y, 2);
+                fingerprintGroup.add(ring);
+                const lineGeo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(pos.x, pos.y, 2), new THREE.Vector3(estimatePos.x, estimatePos.y, 2)]);
+                fingerprintGroup.add(new THREE.Line(lineGeo, new THREE.LineBasicMaterial({ color: 0xe879f9 })));
+            });
+            const marker = new THREE.Mesh(new THREE.PlaneGeometry(10, 10), new THREE.MeshBasicMaterial({ color: 0xe879f9 }));
+            marker.position.set(estimatePos.x, estimatePos.y, 2.2);
+            marker.rotation.z = Math.PI / 4;
+            fingerprintGroup.add(marker);
+        }
+        requestRender();
+    }, [threeRef, radioMap, activeFloor, estimate, requestRender]);
+};
+
+/** Detected walls under review, in their material's color; left-out ones dimmed. */
+export const useDetectionLayer = ({ threeRef, requestRender }: SceneHandle, { walls, excluded, materials, highlighted }: {
+    /** Empty outside of a review. */
+    walls: DetectedWall[];
+    excluded: number[];
+    /** Materials picked instead of the suggested ones, by wall index. */
+    materials: Record<number, WallMaterial>;
+    highlighted: number | null;
+}) => {
+    useEffect(() => {
+        const { detectionGroup } = threeRef.current;
+        if (!detectionGroup) return;
+        disposeGroup(detectionGroup);
+        walls.forEach((wall, i) => {
+            const material = materials[i] ?? wall.material;
+            const color = i === highlighted ? 0x22d3ee : excluded.includes(i) ? 0x4b5563 : WALL_MATERIALS[material].color; // cyan-400 / gray-600
+            const start = sceneToThree(wall.start);
+            const end = sceneToThree(wall.end);
+            const geo = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(start.x, start.y, 4.5), new THREE.Vector3(end.x, end.y, 4.5)]);
+            const line = new THREE.Line(geo, new THREE.LineDashedMaterial({ color, dashSize: 6, gapSize: 3 }));
+            line.computeLineDistances();
+            detectionGroup.add(line);
+        });
+        requestRender();
+    }, [threeRef, walls, excluded, materials, highlighted, requestRender]);
+};
+
+/** Vector plan line work under the scene, and the walls of a plan being imported in their material's color. */
+export const useBackgroundLayer = ({ threeRef, requestRender }: SceneHandle, { lines, walls, opacity }: {
+    lines: Segment[];
+    walls: Wall[];
+    opacity: number;
+}) => {
+    useEffect(() => {
+        const { backgroundGroup } = threeRef.current;
+        if (!backgroundGroup) return;
+        disposeGroup(backgroundGroup);
+        const toPoints = (segments: Segment[], z: number) => segments.flatMap(s => [s.start, s.end]).map(p => {
+            const t = sceneToThree(p);
+            return new THREE.Vector3(t.x, t.y, z);
+        });
+        if (lines.length > 0) {
+            const geo = new THREE.BufferGeometry().setFromPoints(toPoints(lines, -1.5));
+            backgroundGroup.add(new THREE.LineSegments(geo, new THREE.LineBasicMaterial({ color: 0x9ca3af, transparent: true, opacity }))); // gray-400
+        }
+        walls.forEach(wall => {
+            const geo = new THREE.BufferGeometry().setFromPoints(toPoints([wall], 4.5));
+            backgroundGroup.add(new THREE.Line(geo, new THREE.LineBasicMaterial({ color: wall.color })));
+        });
+        requestRender();
+    }, [threeRef, lines, walls, opacity, requestRender]);
+};
+
+/** The floor plan image, fitted into the canvas-sized area at the scene origin with its aspect ratio kept. */
+export const useFloorPlanLayer = ({ threeRef, requestRender }: SceneHandle, { image, texture, opacity }: {
+    /** Both null hide the plan. */
+    image: HTMLImageElement | null;
+    texture: THREE.Texture | null;
+    opacity: number;
+}) => {
+    useEffect(() => {
+        const { floorPlanGroup } = threeRef.current;
+        if (!floorPlanGroup) return;
+        disposeGroup(floorPlanGroup);
+        if (texture && image) {
+            // Keep the plan's aspect ratio instead of stretching it to the canvas
+            const rect = containRect(image.width, image.height, CANVAS_WIDTH, CANVAS_HEIGHT);
+            const center = sceneToThree({ x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 });
+            const geo = new THREE.PlaneGeometry(rect.width, rect.height);
+            const mat = new THREE.MeshBasicMaterial({ map: texture, transparent: true, opacity });
+            const mesh = new THREE.Mesh(geo, mat);
+            mesh.position.set(center.x, center.y, -2);
+            floorPlanGroup.add(mesh);
+        }
+        requestRender();
+    }, [threeRef, image, texture, opacity, requestRender]);
+};
+
+/**
+ * 3D view: every floor stacked at its elevation, in scene units of plan
+ * pixels, each outlined by the site. While it is open only this layer is
+ * shown, and dragging orbits the camera around the building.
+ */
+export const useBuildingLayer = ({ threeRef, requestRender }: SceneHandle, canvasRef: React.RefObject<HTMLCanvasElement>, {
+    view3D, site, floorCount, activeFloor, walls, radios, devices, building, pixelsPerMeter, estimate,
+}: {
+    view3D: boolean;
+    /** Scene area the building stands on. */
+    site: Rect;
+    floorCount: number;
+    activeFloor: number;
+    walls: Wall[];
+    radios: Radio[];
+    /** Where each device currently is, in its color. */
+    devices: TrackedDevice[];
+    building: BuildingModel;
+    pixelsPerMeter: number;
+    /** Primary estimate and the floor it was placed on. */
+    estimate: { solverId: SolverId; result: SolverResult | null; floor: number } | null;
+}) => {
+    const { storeyHeight } = building;
+    useEffect(() => {
+        const { scene, buildingGroup } = threeRef.current;
+        if (!scene || !buildingGroup) return;
+        disposeGroup(buildingGroup);
+        scene.children.forEach(child => { child.visible = (child === buildingGroup) === view3D; });
+        if (view3D) {
+            const storey = storeyHeight * pixelsPerMeter;
+            for (let level = 0; level < floorCount; level++) {
+                const { x, y, width, height } = site;
+                const outline = [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }, { x, y }]
+                    .map(p => { const t = sceneToThree(p); return new THREE.Vector3(t.x, t.y, level * storey); });
+                const color = level === activeFloor ? 0x22d3ee : 0x4a5568; // cyan-400 for the floor being edited, else gray-600
+                buildingGroup.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(outline), new THREE.LineBasicMaterial({ color })));
+            }
+            walls.forEach(wall => {
+                const start = sceneToThree(wall.start);
+                const end = sceneToThree(wall.end);
+                const length = Math.hypot(end.x - start.x, end.y - start.y);
+                const box = new THREE.Mesh(
+                    new THREE.BoxGeometry(length, 4, storey),
+                    new THREE.MeshBasicMaterial({ color: wall.color, transparent: true, opacity: 0.5, depthWrite: false })
+                );
+                box.position.set((start.x + end.x) / 2, (start.y + end.y) / 2, floorOf(wall) * storey + storey / 2);
+                box.rotation.z = Math.atan2(end.y - start.y, end.x - start.x);
+                buildingGroup.add(box);
+            });
+            const addMarker = (p: Vector2D, elevation: number, color: number, size: number) => {
+                const pos = sceneToThree(p);
+                const sphere = new THREE.Mesh(new THREE.SphereGeometry(size, 16, 12), new THREE.MeshBasicMaterial({ color }));
+                sphere.position.set(pos.x, pos.y, elevation * pixelsPerMeter);
+                buildingGroup.add(sphere);
+            };
+            radios.forEach(radio => addMarker(radio, radioElevation(radio, building), radio.enabled === false ? 0x6b7280 : 0x4ade80, radio.radius));
+            devices.forEach(device => addMarker(device, deviceElevation(device, building), device.color, device.radius));
+            if (estimate?.result) addMarker(estimate.result.position, estimate.floor * storeyHeight, SOLVERS[estimate.solverId].color, 8);
+        }
+        requestRender();
+    }, [threeRef, view3D, site, floorCount, walls, radios, devices, activeFloor, building, storeyHeight, pixelsPerMeter, estimate, requestRender]);
+
+    // Editing stays in the 2D view. The camera starts in front of the site, far enough back to take it in.
+    useEffect(() => {
+        const { perspectiveCamera } = threeRef.current;
+        const canvas = canvasRef.current;
+        if (!view3D || !perspectiveCamera || !canvas) return;
+        const center = sceneToThree({ x: site.x + site.width / 2, y: site.y + site.height / 2 });
+        const size = Math.max(site.width, site.height);
+        const controls = new OrbitControls(perspectiveCamera, canvas);
+        perspectiveCamera.position.set(center.x, center.y - size, size * 0.75);
+        controls.target.set(center.x, center.y, (floorCount * storeyHeight * pixelsPerMeter) / 2);
+        controls.update();
+        controls.addEventListener('change', requestRender);
+        return () => {
+            controls.removeEventListener('change', requestRender);
+            controls.dispose();
+        };
+    }, [threeRef, canvasRef, view3D, site, floorCount, storeyHeight, pixelsPerMeter, requestRender]);
+};
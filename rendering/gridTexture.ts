@@ -0,0 +1,71 @@
+import * as THREE from 'three';
+import { GridMap } from '../types';
+import { clamp } from '../engine';
+
+export type RGBA = [number, number, number, number];
+
+const NO_VALUE: RGBA = [75, 85, 99, 140]; // gray-600
+
+/**
+ * Green (0) through yellow to red (max); cells without a value are gray.
+ */
+export const errorColorScale = (max: number) => (value: number): RGBA => {
+    if (isNaN(value)) return NO_VALUE;
+    const color = new THREE.Color().setHSL(0.33 * (1 - clamp(value / max, 0, 1)), 0.8, 0.5);
+    return [color.r * 255, color.g * 255, color.b * 255, 170];
+};
+
+/**
+ * Red at the detection threshold through green at -30 dBm; cells the radio
+ * cannot be heard in are dark.
+ */
+export const rssiColorScale = (minRSSI: number) => (value: number): RGBA => {
+    if (isNaN(value)) return NO_VALUE;
+    if (value <= minRSSI) return [17, 24, 39, 170]; // gray-900
+    const color = new THREE.Color().setHSL(0.33 * clamp((value - minRSSI) / (-30 - minRSSI), 0, 1), 0.8, 0.5);
+    return [color.r * 255, color.g * 255, color.b * 255, 150];
+};
+
+/**
+ * Red where fewer than minCount radios are visible, yellow at exactly minCount, green above.
+ */
+export const radioCountColorScale = (minCount: number) => (value: number): RGBA => {
+    if (isNaN(value)) return NO_VALUE;
+    if (value < minCount) return [220, 38, 38, 170]; // red-600
+    if (value === minCount) return [234, 179, 8, 120]; // yellow-500
+    return [34, 197, 94, 90 + Math.min(value - minCount, 3) * 20]; // green-500
+};
+
+/**
+ * Builds a one-texel-per-cell texture for a grid map.
+ */
+export const createGridTexture = (grid: GridMap, colorFor: (value: number) => RGBA): THREE.DataTexture => {
+    const data = new Uint8Array(grid.cols * grid.rows * 4);
+    for (let row = 0; row < grid.rows; row++) {
+        // Texture rows run bottom-up, canvas rows top-down
+        const texRow = grid.rows - 1 - row;
+        for (let col = 0; col < grid.cols; col++) {
+            const [r, g, b, a] = colorFor(grid.values[row * grid.cols + col]);
+            const i = (texRow * grid.cols + col) * 4;
+            data[i] = r; data[i + 1] = g; data[i + 2] = b; data[i + 3] = a;
+        }
+    }
+    const texture = new THREE.DataTexture(data, grid.cols, grid.rows, THREE.RGBAFormat);
+    texture.magFilter = THREE.NearestFilter;
+    texture.needsUpdate = true;
+    return texture;
+};
+
+/**
+ * A plane covering the grid's extent in scene coordinates.
+ */
+export const createGridMesh = (grid: GridMap, texture: THREE.Texture, z: number): THREE.Mesh => {
+    const width = grid.cols * grid.cellSize;
+    const height = grid.rows * grid.cellSize;
+    const geo = new THREE.PlaneGeometry(width, height);
+    const mat = new THREE.MeshBasicMaterial({ map: texture, transparent: true });
+    const mesh = new THREE.Mesh(geo, mat);
+    const origin = grid.origin ?? { x: 0, y: 0 };
+    mesh.position.set(origin.x + width / 2, -(origin.y + height / 2), z);
+    return mesh;
+};
@@ -0,0 +1,107 @@
+import * as THREE from 'three';
+import { Vector2D } from '../types';
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+
+/** The Three.js scene, its cameras, and one group per layer. */
+export interface SceneRefs {
+    scene?: THREE.Scene;
+    camera?: THREE.OrthographicCamera;
+    perspectiveCamera?: THREE.PerspectiveCamera;
+    renderer?: THREE.WebGLRenderer;
+    gridGroup?: THREE.Group;
+    wallsGroup?: THREE.Group;
+    radiosGroup?: THREE.Group;
+    deviceGroup?: THREE.Group;
+    circlesGroup?: THREE.Group;
+    estimatedGroup?: THREE.Group;
+    floorPlanGroup?: THREE.Group;
+    tempWallGroup?: THREE.Group;
+    trackGroup?: THREE.Group;
+    heatmapGroup?: THREE.Group;
+    coverageGroup?: THREE.Group;
+    placementGroup?: THREE.Group;
+    calibrationGroup?: THREE.Group;
+    referenceGroup?: THREE.Group;
+    fingerprintGroup?: THREE.Group;
+    detectionGroup?: THREE.Group;
+    backgroundGroup?: THREE.Group;
+    buildingGroup?: THREE.Group;
+    radioMarksGroup?: THREE.Group;
+    deviceMarksGroup?: THREE.Group;
+    // Radios and devices are moved in place rather than rebuilt
+    unitCircle?: THREE.CircleGeometry;
+    radioMeshes?: Map<string, THREE.Mesh>;
+    deviceMeshes?: Map<string, THREE.Mesh>;
+}
+
+/**
+ * Scene positions, in plan pixels with y down, to Three.js units with y up.
+ * Where the canvas looks is up to the cameras, not to this mapping.
+ */
+export const sceneToThree = (p: Vector2D): Vector2D => ({ x: p.x, y: -p.y });
+
+/** Removes every object from a group, freeing its geometry and materials. */
+export const disposeGroup = (group: THREE.Group) => {
+    while (group.children.length > 0) {
+        const object = group.children[0] as THREE.Mesh;
+        object.geometry?.dispose();
+        if (Array.isArray(object.material)) {
+            object.material.forEach(m => m.dispose());
+        } else {
+            object.material?.dispose();
+        }
+        group.remove(object);
+    }
+};
+
+/** Renders into the canvas: an orthographic camera for editing, a perspective one for the 3D view, and one empty group per layer. */
+export const createScene = (canvas: HTMLCanvasElement): SceneRefs => {
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x1a202c); // gray-900
+
+    // 2D view: placed over the scene by the view (see useScene)
+    const camera = new THREE.OrthographicCamera(-CANVAS_WIDTH / 2, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2, -CANVAS_HEIGHT / 2, 0.1, 1000);
+    camera.position.z = 10;
+    // 3D view: z up, placed in front of the building when the view opens (see useBuildingLayer)
+    const perspectiveCamera = new THREE.PerspectiveCamera(45, CANVAS_WIDTH / CANVAS_HEIGHT, 1, 200000);
+    perspectiveCamera.up.set(0, 0, 1);
+
+    const renderer = new THREE.WebGLRenderer({ canvas, antialias: true, alpha: false });
+    renderer.setSize(CANVAS_WIDTH, CANVAS_HEIGHT);
+    renderer.setPixelRatio(window.devicePixelRatio);
+
+    const refs: SceneRefs = {
+        scene, camera, perspectiveCamera, renderer,
+        gridGroup: new THREE.Group(),
+        wallsGroup: new THREE.Group(),
+        radiosGroup: new THREE.Group(),
+        deviceGroup: new THREE.Group(),
+        circlesGroup: new THREE.Group(),
+        estimatedGroup: new THREE.Group(),
+        floorPlanGroup: new THREE.Group(),
+        tempWallGroup: new THREE.Group(),
+        trackGroup: new THREE.Group(),
+        heatmapGroup: new THREE.Group(),
+        coverageGroup: new THREE.Group(),
+        placementGroup: new THREE.Group(),
+        calibrationGroup: new THREE.Group(),
+        referenceGroup: new THREE.Group(),
+        fingerprintGroup: new THREE.Group(),
+        detectionGroup: new THREE.Group(),
+        backgroundGroup: new THREE.Group(),
+        buildingGroup: new THREE.Group(),
+        radioMarksGroup: new THREE.Group(),
+        deviceMarksGroup: new THREE.Group(),
+        unitCircle: new THREE.CircleGeometry(1, 32),
+        radioMeshes: new Map(),
+        deviceMeshes: new Map(),
+    };
+
+    scene.add(refs.gridGroup, refs.wallsGroup, refs.radiosGroup,
+              refs.deviceGroup, refs.circlesGroup, refs.estimatedGroup,
+              refs.floorPlanGroup, refs.tempWallGroup, refs.trackGroup,
+              refs.heatmapGroup, refs.coverageGroup, refs.placementGroup,
+              refs.calibrationGroup, refs.referenceGroup, refs.fingerprintGroup,
+              refs.detectionGroup, refs.backgroundGroup, refs.buildingGroup, refs.radioMarksGroup, refs.deviceMarksGroup);
+    return refs;
+};
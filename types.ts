@@ -4,6 +4,11 @@ export interface Vector2D {
   y: number;
 }
 
+export interface Segment {
+  start: Vector2D;
+  end: Vector2D;
+}
+
 export type WallMaterial = 'drywall' | 'concrete' | 'brick' | 'glass' | 'metal' | 'door_wood' | 'door_metal';
 
 export interface Wall {
@@ -13,16 +18,65 @@ export interface Wall {
   material: WallMaterial;
   attenuation: number;
   color: number;
+  /** Floor index the wall stands on; 0 when unset. */
+  floor?: number;
 }
 
+export type AntennaPattern = 'omni' | 'patch' | 'sector';
+
 export interface Radio extends Vector2D {
   id: string;
   radius: number;
   label: string;
+  /** Measured RSSI at 1 m, dBm. Falls back to the model's Tx power. */
+  txPower?: number;
+  /** Antenna pattern; omnidirectional when unset. */
+  antenna?: AntennaPattern;
+  /** Boresight direction in degrees, counter-clockwise from the canvas +x axis as seen on screen. */
+  orientation?: number;
+  /** Advertising interval, ms. Falls back to the simulation's interval. */
+  advertisingInterval?: number;
+  /** False for a failed or switched-off beacon, which transmits nothing. */
+  enabled?: boolean;
+  /** Floor index, 0 being the lowest; 0 when unset. */
+  floor?: number;
+  /** Mounting height above its floor, m; 0 when unset. */
+  height?: number;
 }
 
 export interface Device extends Vector2D {
   radius: number;
+  /** Facing direction in degrees, counter-clockwise from the canvas +x axis as seen on screen. */
+  heading?: number;
+  /** Floor index, 0 being the lowest; 0 when unset. */
+  floor?: number;
+  /** Height above its floor, m; 0 when unset. */
+  z?: number;
+}
+
+/** A named device placed in the scene; any number of them are located at once. */
+export interface TrackedDevice extends Device {
+  id: string;
+  name: string;
+  /** Marker and estimate color. */
+  color: number;
+}
+
+/** One storey of the building; its index in the floor list is its level. */
+export interface Floor {
+  id: string;
+  name: string;
+  /** Floor plan image: a data URL, a plain URL or null. */
+  image: string | null;
+  /** Vector floor plan lines in canvas pixels, drawn under the scene. */
+  background?: Segment[];
+}
+
+export interface BuildingModel {
+  /** Loss per floor slab between transmitter and receiver, dB. */
+  floorAttenuation: number;
+  /** Floor-to-floor height, m. */
+  storeyHeight: number;
 }
 
 export interface Measurement {
@@ -38,7 +92,154 @@ export interface Intersection {
 }
 
 export interface DragObject {
-  type: 'radio' | 'device';
-  target: Radio | Device;
+  type: 'radio' | 'device' | 'wall' | 'wallEndpoint';
+  target: Radio | TrackedDevice | Wall;
   offset: Vector2D;
+  /** Wall end moved by a 'wallEndpoint' drag. */
+  endpoint?: 'start' | 'end';
+  /** Walls moved together by a 'wall' drag. */
+  wallIds?: string[];
+}
+
+export type FadingModel = 'none' | 'rayleigh' | 'rician';
+
+export interface ChannelModel {
+  /** Log-normal shadowing that is fixed in space and correlated over nearby points. */
+  enableShadowing: boolean;
+  shadowingStdDev: number;
+  /** Distance in meters over which the shadowing correlation drops to 1/e. */
+  shadowingCorrelationDistance: number;
+  /** Fast fading drawn for every packet. */
+  fading: FadingModel;
+  /** Rician K-factor in dB (line-of-sight to scattered power). */
+  ricianK: number;
+  /** Keep the strongest of the three advertising channels 37/38/39, each faded independently. */
+  enableChannelDiversity: boolean;
+  /** Loss through the user's body for radios behind the device's heading. */
+  enableBodyBlocking: boolean;
+  bodyAttenuation: number;
+  /** Full width in degrees of the shadowed cone behind the user. */
+  bodyConeAngle: number;
+}
+
+export interface RSSIModelParams {
+  txPower: number;
+  pathLossExponent: number;
+  enableWalls: boolean;
+  enableAngleEffect: boolean;
+  enableCumulativeEffect: boolean;
+  enableNoise: boolean;
+  noiseStdDev: number;
+  /** Additional channel effects; an ideal channel when unset. */
+  channel?: ChannelModel;
+  /** Storey height and floor loss; DEFAULT_BUILDING_MODEL when unset. */
+  building?: BuildingModel;
+}
+
+/**
+ * Path-loss parameters the receiver assumes when turning RSSI back into a
+ * distance. They may differ from the ones that generated the RSSI.
+ */
+export interface ReceiverModel {
+  txPower: number;
+  pathLossExponent: number;
+  /** Whether the estimator knows the walls and corrects ranges for their loss (and floor loss). */
+  compensateWalls?: boolean;
+  /** Building geometry known to the estimator; heights and floors are ignored when unset. */
+  building?: BuildingModel;
+}
+
+export type SolverId = 'gaussNewton' | 'weightedLeastSquares' | 'levenbergMarquardt' | 'minMax' | 'weightedCentroid' | 'particleFilter';
+
+/** Outlier handling around the solver, for ranges biased by walls (NLOS). */
+export type RobustMethodId = 'none' | 'huber' | 'tukey' | 'ransac' | 'nlos';
+
+export interface SolverResult {
+  position: Vector2D;
+  iterations: number;
+  converged: boolean;
+}
+
+export type TrackingFilterId = 'none' | 'kalman' | 'extendedKalman' | 'rssiMovingAverage' | 'rssiMedian';
+
+export interface TrackSample {
+  /** Seconds since the start of the path. */
+  time: number;
+  truth: Vector2D;
+  measurements: Measurement[];
+  /** Single-epoch solver output. */
+  raw: Vector2D | null;
+  /** Output of the tracking filter. */
+  filtered: Vector2D | null;
+}
+
+/**
+ * Values sampled at the centers of a regular grid over the canvas, row-major.
+ * NaN marks cells without a value (e.g. no position fix).
+ */
+export interface GridMap {
+  cols: number;
+  rows: number;
+  /** Cell edge length in pixels. */
+  cellSize: number;
+  /** Top-left corner of the grid in pixels; the canvas origin when unset. */
+  origin?: Vector2D;
+  values: number[];
+}
+
+/** What the coverage overlay shows: RSSI of one radio, radios in range, or GDOP. */
+export type CoverageMode = 'off' | 'rssi' | 'visible' | 'gdop';
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface MountingZone extends Rect {
+  id: string;
+}
+
+/** A surveyed position with the RSSI measured there from each radio (by radio id). */
+export interface ReferencePoint {
+  id: string;
+  position: Vector2D;
+  rssi: Record<string, number>;
+}
+
+/**
+ * Maps canvas pixels to real-world meters. World axes follow the canvas
+ * (x right, y down) before rotation.
+ */
+export interface CoordinateFrame {
+  pixelsPerMeter: number;
+  /** Canvas position, in pixels, of the world origin. */
+  origin: Vector2D;
+  /** Angle of the world x axis relative to the canvas x axis, radians. */
+  rotation: number;
+}
+
+/** What clicks on the canvas set while calibrating: the scale reference or the origin. */
+export type CalibrationMode = 'off' | 'scale' | 'origin';
+
+/** Calibration and display of the floor plans, shared by all floors. */
+export interface ScenarioFloorPlan extends CoordinateFrame {
+  opacity: number;
+  show: boolean;
+}
+
+export interface Scenario {
+  version: number;
+  radios: Radio[];
+  walls: Wall[];
+  /** At least one. */
+  devices: TrackedDevice[];
+  model: RSSIModelParams;
+  /** Model assumed by the estimator; null when it matches `model`. */
+  receiver: ReceiverModel | null;
+  minRSSI: number;
+  /** At least one; radios, walls and devices refer to them by index. */
+  floors: Floor[];
+  floorPlan: ScenarioFloorPlan;
 }
@@ -0,0 +1,28 @@
+import { runSimulationTask, SimulationTask } from '../engine';
+
+export type WorkerMessage =
+    | { type: 'progress'; value: unknown }
+    | { type: 'done'; value: unknown }
+    | { type: 'error'; message: string };
+
+// Progress is posted at most this often; every update copies the partial result
+const PROGRESS_INTERVAL_MS = 100;
+
+self.onmessage = (event: MessageEvent<SimulationTask>) => {
+    try {
+        const generator = runSimulationTask(event.data);
+        let lastProgress = 0;
+        let step = generator.next();
+        while (!step.done) {
+            const now = performance.now();
+            if (now - lastProgress >= PROGRESS_INTERVAL_MS) {
+                self.postMessage({ type: 'progress', value: step.value } satisfies WorkerMessage);
+                lastProgress = now;
+            }
+            step = generator.next();
+        }
+        self.postMessage({ type: 'done', value: step.value } satisfies WorkerMessage);
+    } catch (err) {
+        self.postMessage({ type: 'error', message: (err as Error).message } satisfies WorkerMessage);
+    }
+};
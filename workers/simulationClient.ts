@@ -0,0 +1,39 @@
+import { SimulationTask, SimulationResults, SimulationProgress } from '../engine';
+import type { WorkerMessage } from './simulation.worker';
+
+type TaskOf<K extends SimulationTask['kind']> = Extract<SimulationTask, { kind: K }>;
+
+export interface WorkerJob<T> {
+    /** Settles with the result; rejects when the task throws. A cancelled job never settles. */
+    result: Promise<T>;
+    cancel: () => void;
+}
+
+/**
+ * Runs a task in its own Web Worker so the page stays interactive. Each job
+ * gets a fresh worker, and cancelling terminates it mid-computation.
+ */
+export const runInWorker = <K extends SimulationTask['kind']>(
+    task: TaskOf<K>,
+    onProgress?: (progress: SimulationProgress) => void
+): WorkerJob<SimulationResults[K]> => {
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    const result = new Promise<SimulationResults[K]>((resolve, reject) => {
+        worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress?.(message.value as SimulationProgress);
+                return;
+            }
+            worker.terminate();
+            if (message.type === 'done') resolve(message.value as SimulationResults[K]);
+            else reject(new Error(message.message));
+        };
+        worker.onerror = (event) => {
+            worker.terminate();
+            reject(new Error(event.message || 'Worker failed'));
+        };
+    });
+    worker.postMessage(task);
+    return { result, cancel: () => worker.terminate() };
+};